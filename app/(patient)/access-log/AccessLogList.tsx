@@ -0,0 +1,147 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button, Card, Modal } from '@/components/ui'
+import { describeAccess } from '@/lib/audit'
+import type { AccessAction, AuditLogEntry } from '@/types'
+
+export interface AccessLogRow extends AuditLogEntry {
+  action: AccessAction
+  therapist: { full_name: string | null } | null
+}
+
+function formatDay(date: string) {
+  return new Date(date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })
+}
+
+export function AccessLogList({ logs }: { logs: AccessLogRow[] }) {
+  const router = useRouter()
+  const [reporting, setReporting] = useState<AccessLogRow | 'general' | null>(null)
+  const [message, setMessage] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [sent, setSent] = useState(false)
+
+  const openReport = (target: AccessLogRow | 'general') => {
+    setMessage('')
+    setSent(false)
+    setReporting(target)
+  }
+
+  const submit = async () => {
+    if (!reporting) return
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/access-concerns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          message,
+          audit_log_id: reporting === 'general' ? undefined : reporting.id,
+        }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Failed to report concern')
+
+      setSent(true)
+      router.refresh()
+    } catch (error) {
+      console.error('Report concern error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to report concern. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // Group by calendar day, newest first
+  const days: { day: string; rows: AccessLogRow[] }[] = []
+  for (const log of logs) {
+    const day = formatDay(log.created_at)
+    if (days[days.length - 1]?.day !== day) days.push({ day, rows: [] })
+    days[days.length - 1].rows.push(log)
+  }
+
+  return (
+    <>
+      <div className="flex justify-end mb-4">
+        <Button size="sm" variant="secondary" onClick={() => openReport('general')}>
+          Report a concern
+        </Button>
+      </div>
+
+      {days.length === 0 ? (
+        <Card className="text-center py-10">
+          <p className="text-therapy-muted">No one has viewed your information yet.</p>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {days.map(({ day, rows }) => (
+            <div key={day}>
+              <h2 className="text-xs font-medium text-therapy-muted uppercase tracking-wide mb-2">{day}</h2>
+              <Card padding="sm">
+                <ul className="divide-y divide-therapy-border">
+                  {rows.map((log) => (
+                    <li key={log.id} className="flex items-start justify-between gap-3 py-2 px-1">
+                      <div className="min-w-0">
+                        <p className="text-sm text-therapy-text">
+                          <span className="font-medium">{log.therapist?.full_name || 'A former therapist'}</span>
+                          {' · '}
+                          {describeAccess(log)}
+                        </p>
+                        <time className="text-xs text-therapy-muted">
+                          {new Date(log.created_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                        </time>
+                      </div>
+                      <button
+                        onClick={() => openReport(log)}
+                        className="text-xs text-therapy-muted hover:text-therapy-danger flex-shrink-0"
+                      >
+                        Report
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Modal isOpen={reporting !== null} onClose={() => setReporting(null)} title="Report a concern">
+        {sent ? (
+          <div className="space-y-4">
+            <p className="text-sm text-therapy-text">
+              Thank you. Your concern has been recorded and will be reviewed. You can follow its status on this page.
+            </p>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => setReporting(null)}>Close</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {reporting && reporting !== 'general' && (
+              <p className="text-sm text-therapy-muted">
+                About: {reporting.therapist?.full_name || 'A former therapist'} · {describeAccess(reporting)} ·{' '}
+                {new Date(reporting.created_at).toLocaleString()}
+              </p>
+            )}
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={4}
+              maxLength={2000}
+              placeholder="What concerns you about this access?"
+              className="w-full px-3 py-2 text-sm border border-therapy-border rounded-lg focus:outline-none focus:ring-2 focus:ring-therapy-accent"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={() => setReporting(null)}>Cancel</Button>
+              <Button size="sm" disabled={!message.trim()} loading={submitting} onClick={submit}>
+                Submit
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </>
+  )
+}
@@ -0,0 +1,84 @@
+import Link from 'next/link'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getProfile } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { Card } from '@/components/ui'
+import { AccessLogList, type AccessLogRow } from './AccessLogList'
+import { ACCESS_ACTIONS } from '@/lib/audit'
+import type { AccessAction, AccessConcern, AuditLogEntry } from '@/types'
+
+export default async function AccessLogPage() {
+  const profile = await getProfile()
+  if (!profile) redirect('/login')
+
+  const supabase = await createServerSupabaseClient()
+
+  // RLS: patients read only therapist-access events about themselves
+  const { data: logsRaw } = await supabase
+    .from('audit_log')
+    .select('*')
+    .eq('patient_id', profile.id)
+    .in('action', ACCESS_ACTIONS)
+    .order('seq', { ascending: false })
+    .limit(200)
+
+  // The audit log keeps no foreign keys, so names are looked up separately. Therapists
+  // who are no longer linked are not visible and show as a former therapist.
+  const actorIds = Array.from(new Set((logsRaw || []).map(log => log.actor_id).filter(Boolean)))
+  const { data: actors } = actorIds.length > 0
+    ? await supabase.from('profiles').select('id, full_name').in('id', actorIds)
+    : { data: [] }
+  const nameById = new Map((actors || []).map(a => [a.id as string, a.full_name as string | null]))
+
+  const logs: AccessLogRow[] = ((logsRaw || []) as AuditLogEntry[]).map(log => ({
+    ...log,
+    action: log.action as AccessAction,
+    therapist: log.actor_id && nameById.has(log.actor_id) ? { full_name: nameById.get(log.actor_id)! } : null,
+  }))
+
+  const { data: concerns } = await supabase
+    .from('access_concerns')
+    .select('*')
+    .eq('patient_id', profile.id)
+    .order('created_at', { ascending: false })
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8">
+      <Link
+        href="/dashboard"
+        className="inline-flex items-center text-sm text-therapy-muted hover:text-therapy-text mb-6"
+      >
+        <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Back to Home
+      </Link>
+
+      <div className="text-center mb-10">
+        <h1 className="text-2xl font-normal text-therapy-text mb-2">Who has seen your data</h1>
+        <p className="text-therapy-muted">
+          Every time a therapist views your information, it is recorded here.
+        </p>
+      </div>
+
+      {(concerns?.length ?? 0) > 0 && (
+        <Card className="mb-6">
+          <h2 className="text-sm font-medium text-therapy-text mb-3">Concerns you have raised</h2>
+          <ul className="space-y-2">
+            {(concerns as AccessConcern[]).map((concern) => (
+              <li key={concern.id} className="text-sm">
+                <div className="flex items-center gap-2 text-xs text-therapy-muted">
+                  <span>{new Date(concern.created_at).toLocaleDateString()}</span>
+                  <span className="px-2 py-0.5 bg-sage-50 text-sage-700 rounded-full capitalize">{concern.status}</span>
+                </div>
+                <p className="text-therapy-text whitespace-pre-wrap">{concern.message}</p>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      <AccessLogList logs={logs} />
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import { useState } from 'react'
+import { Button, Card, Input, Modal } from '@/components/ui'
+import type { AccountDeletion } from '@/types'
+
+type DeletionRow = Pick<AccountDeletion, 'id' | 'status' | 'scheduled_for' | 'cancelled_at' | 'completed_at' | 'created_at'>
+
+export function AccountDeletionPanel({
+  initialDeletion,
+  graceDays,
+}: {
+  initialDeletion: DeletionRow | null
+  graceDays: number
+}) {
+  const [deletion, setDeletion] = useState(initialDeletion)
+  const [confirming, setConfirming] = useState(false)
+  const [confirmText, setConfirmText] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const closeConfirm = () => {
+    setConfirming(false)
+    setConfirmText('')
+  }
+
+  const requestDeletion = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/account/deletion', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ confirm: confirmText }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Failed to request deletion')
+      setDeletion(data.deletion)
+      closeConfirm()
+    } catch (error) {
+      console.error('Account deletion request error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to request deletion. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const cancelDeletion = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/account/deletion', { method: 'DELETE' })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Failed to cancel deletion')
+      setDeletion(null)
+    } catch (error) {
+      console.error('Account deletion cancel error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to cancel deletion. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (deletion?.status === 'pending' || deletion?.status === 'processing') {
+    const scheduled = new Date(deletion.scheduled_for).toLocaleDateString('en-US', { dateStyle: 'long' })
+    return (
+      <Card className="border-red-200 bg-red-50">
+        <h2 className="text-base font-medium text-red-800">Your account is scheduled for deletion</h2>
+        {deletion.status === 'pending' ? (
+          <>
+            <p className="text-sm text-red-700 mt-1">
+              On {scheduled} your account and everything in it will be permanently erased. You can keep using
+              the app until then, and cancel at any time before that date.
+            </p>
+            <div className="mt-4">
+              <Button size="sm" variant="secondary" onClick={cancelDeletion} loading={saving}>
+                Keep my account
+              </Button>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-red-700 mt-1">Erasure is in progress and can no longer be cancelled.</p>
+        )}
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-base font-medium text-therapy-text">Delete your account</h2>
+          <p className="text-sm text-therapy-muted mt-1">
+            Permanently erases your entries, AI insights, chat history and connections with therapists,
+            including the search index and pattern data derived from them. Deletion happens {graceDays} days
+            after you ask, so you can change your mind. Consider downloading your data first.
+          </p>
+        </div>
+        <Button size="sm" variant="danger" onClick={() => setConfirming(true)}>
+          Delete account
+        </Button>
+      </div>
+
+      <Modal isOpen={confirming} onClose={closeConfirm} title="Delete your account?" size="sm">
+        <p className="text-therapy-muted mb-4">
+          After {graceDays} days this cannot be undone. A record that the deletion took place (without any of
+          your content) is kept in the audit log.
+        </p>
+        <Input
+          label="Type DELETE to confirm"
+          value={confirmText}
+          onChange={(e) => setConfirmText(e.target.value)}
+          autoComplete="off"
+        />
+        <div className="flex gap-3 justify-end mt-6">
+          <Button variant="ghost" onClick={closeConfirm} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={requestDeletion} loading={saving} disabled={confirmText !== 'DELETE'}>
+            Schedule deletion
+          </Button>
+        </div>
+      </Modal>
+    </Card>
+  )
+}
@@ -0,0 +1,112 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button, Card } from '@/components/ui'
+import type { DataExport } from '@/types'
+
+type ExportRow = Pick<
+  DataExport,
+  'id' | 'status' | 'format_version' | 'size_bytes' | 'last_error' | 'completed_at' | 'expires_at' | 'created_at'
+>
+
+const POLL_INTERVAL_MS = 4000
+
+function formatSize(bytes: number | null) {
+  if (!bytes) return ''
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function statusText(row: ExportRow) {
+  switch (row.status) {
+    case 'pending':
+    case 'processing':
+      return 'Preparing…'
+    case 'ready':
+      return `Ready · ${formatSize(row.size_bytes)} · available until ${new Date(row.expires_at!).toLocaleDateString()}`
+    case 'failed':
+      return 'Failed. Please request a new export.'
+    case 'expired':
+      return 'Expired'
+  }
+}
+
+export function DataExportPanel({ initialExports }: { initialExports: ExportRow[] }) {
+  const [exports, setExports] = useState(initialExports)
+  const [requesting, setRequesting] = useState(false)
+
+  const inFlight = exports.some((e) => e.status === 'pending' || e.status === 'processing')
+
+  const refresh = async () => {
+    const response = await fetch('/api/exports')
+    if (!response.ok) return
+    const data = await response.json()
+    setExports(data.exports ?? [])
+  }
+
+  // Poll until the queued export is built
+  useEffect(() => {
+    if (!inFlight) return
+    const timer = setInterval(refresh, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [inFlight])
+
+  const requestExport = async () => {
+    setRequesting(true)
+    try {
+      const response = await fetch('/api/exports', { method: 'POST' })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Failed to request export')
+      await refresh()
+    } catch (error) {
+      console.error('Data export request error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to request export. Please try again.')
+    } finally {
+      setRequesting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-base font-medium text-therapy-text">Download your data</h2>
+          <p className="text-sm text-therapy-muted mt-1">
+            A zip with your entries, structured logs, AI insights, chat history, safety alerts and access log as
+            JSON and spreadsheets (CSV), plus your journal as a PDF.
+          </p>
+        </div>
+        <Button size="sm" onClick={requestExport} loading={requesting} disabled={inFlight}>
+          {inFlight ? 'Preparing…' : 'Request export'}
+        </Button>
+      </div>
+
+      {exports.length > 0 && (
+        <ul className="mt-4 divide-y divide-therapy-border border-t border-therapy-border">
+          {exports.map((row) => (
+            <li key={row.id} className="flex items-center justify-between gap-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm text-therapy-text">
+                  {new Date(row.created_at).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit'
+                  })}
+                </p>
+                <p className="text-xs text-therapy-muted">{statusText(row)}</p>
+              </div>
+              {row.status === 'ready' && (
+                <a
+                  href={`/api/exports/${row.id}`}
+                  className="text-sm text-sage-700 hover:text-sage-800 font-medium flex-shrink-0"
+                >
+                  Download
+                </a>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,60 @@
+import Link from 'next/link'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getProfile } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { ACCOUNT_DELETION_GRACE_DAYS } from '@/lib/account-deletion'
+import { DataExportPanel } from './DataExportPanel'
+import { AccountDeletionPanel } from './AccountDeletionPanel'
+
+export default async function AccountPage() {
+  const profile = await getProfile()
+  if (!profile) redirect('/login')
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data: exports } = await supabase
+    .from('data_exports')
+    .select('id, status, format_version, size_bytes, last_error, completed_at, expires_at, created_at')
+    .eq('patient_id', profile.id)
+    .order('created_at', { ascending: false })
+    .limit(10)
+
+  const { data: deletion } = await supabase
+    .from('account_deletions')
+    .select('id, status, scheduled_for, cancelled_at, completed_at, created_at')
+    .eq('user_id', profile.id)
+    .in('status', ['pending', 'processing'])
+    .maybeSingle()
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8">
+      <Link
+        href="/dashboard"
+        className="inline-flex items-center text-sm text-therapy-muted hover:text-therapy-text mb-6"
+      >
+        <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Back to Home
+      </Link>
+
+      <div className="text-center mb-10">
+        <h1 className="text-2xl font-normal text-therapy-text mb-2">Your data</h1>
+        <p className="text-therapy-muted">Everything you write here belongs to you.</p>
+      </div>
+
+      <div className="space-y-6">
+        <DataExportPanel initialExports={exports || []} />
+
+        <p className="text-center text-sm text-therapy-muted">
+          Want to see who has viewed your information?{' '}
+          <Link href="/access-log" className="text-sage-700 hover:text-sage-800">
+            View the access log
+          </Link>
+        </p>
+
+        <AccountDeletionPanel initialDeletion={deletion} graceDays={ACCOUNT_DELETION_GRACE_DAYS} />
+      </div>
+    </div>
+  )
+}
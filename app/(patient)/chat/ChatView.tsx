@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { ChatInput, ChatWindow } from '@/components/chat'
+import { CrisisBanner, DisclaimerBanner } from '@/components/shared'
+import { readServerSentEvents } from '@/lib/sse'
+import type { ChatMessage, ChatResponse, CrisisSeverity } from '@/types'
+
+interface ChatViewProps {
+  contextEntryIds: string[]
+}
+
+export function ChatView({ contextEntryIds }: ChatViewProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [loadingHistory, setLoadingHistory] = useState(true)
+  const [sending, setSending] = useState(false)
+  const [crisisSeverity, setCrisisSeverity] = useState<CrisisSeverity | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [streamingId, setStreamingId] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Stop any in-flight reply when the user navigates away
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const response = await fetch('/api/chat')
+        if (!response.ok) throw new Error('Failed to load messages')
+        const data = await response.json()
+        setMessages(data.messages ?? [])
+      } catch (err) {
+        console.error('Chat history error:', err)
+      } finally {
+        setLoadingHistory(false)
+      }
+    }
+    loadHistory()
+  }, [])
+
+  const handleSend = async (text: string) => {
+    setError(null)
+    setSending(true)
+
+    // Optimistic user bubble, replaced by the saved row once the server answers
+    const pendingId = `pending-${Date.now()}`
+    setMessages((prev) => [
+      ...prev,
+      { id: pendingId, patient_id: '', role: 'user', content: text, created_at: new Date().toISOString() },
+    ])
+
+    const streamId = `assistant-${Date.now()}`
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    try {
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          message: text,
+          context_entry_ids: contextEntryIds.length > 0 ? contextEntryIds : undefined,
+          stream: true,
+        }),
+        signal: controller.signal,
+      })
+
+      if (!response.ok) throw new Error('Failed to send')
+
+      setMessages((prev) => [
+        ...prev,
+        { id: streamId, patient_id: '', role: 'assistant', content: '', created_at: new Date().toISOString() },
+      ])
+      setStreamingId(streamId)
+
+      let final: ChatResponse | null = null
+      await readServerSentEvents(response, (event, data) => {
+        if (event === 'delta') {
+          const { text: delta } = data as { text: string }
+          setMessages((prev) => prev.map((m) => (m.id === streamId ? { ...m, content: m.content + delta } : m)))
+        } else if (event === 'done') {
+          final = data as ChatResponse
+        } else if (event === 'error') {
+          throw new Error((data as { error?: string }).error || 'Stream failed')
+        }
+      })
+
+      const done = final as ChatResponse | null
+      if (!done) throw new Error('Stream ended early')
+
+      // Swap optimistic rows for the saved ones
+      setMessages((prev) =>
+        prev.map((m) => {
+          if (m.id === pendingId && done.user_message) return done.user_message
+          if (m.id === streamId) return done.message ?? { ...m, content: done.response }
+          return m
+        })
+      )
+
+      if (done.crisis_detected) {
+        setCrisisSeverity(done.crisis_severity ?? 'medium')
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return
+      console.error('Chat send error:', err)
+      setMessages((prev) => prev.filter((m) => m.id !== pendingId && m.id !== streamId))
+      setError('Something went wrong. Please try again.')
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null
+      setStreamingId(null)
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto flex flex-col h-[calc(100vh-4rem)]">
+      <div className="px-4 pt-6">
+        {crisisSeverity && <CrisisBanner severity={crisisSeverity} onDismiss={() => setCrisisSeverity(null)} />}
+        {contextEntryIds.length > 0 && (
+          <p className="text-sm text-therapy-muted text-center mb-2">
+            Talking about {contextEntryIds.length === 1 ? 'a journal entry' : `${contextEntryIds.length} journal entries`}
+            {' · '}
+            <Link href="/chat" className="text-sage-600 hover:underline">
+              Start a general chat
+            </Link>
+          </p>
+        )}
+        <DisclaimerBanner />
+      </div>
+
+      <ChatWindow
+        messages={messages}
+        loading={(sending && !streamingId) || loadingHistory}
+        streamingMessageId={streamingId}
+      />
+
+      {error && <p className="text-sm text-therapy-danger text-center pb-2">{error}</p>}
+
+      <ChatInput onSend={handleSend} disabled={sending || loadingHistory} placeholder="What's on your mind?" />
+    </div>
+  )
+}
@@ -0,0 +1,12 @@
+import { ChatView } from './ChatView'
+
+export default async function ChatPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ entry?: string | string[] }>
+}) {
+  const { entry } = await searchParams
+  const contextEntryIds = (Array.isArray(entry) ? entry : entry ? [entry] : []).slice(0, 10)
+
+  return <ChatView contextEntryIds={contextEntryIds} />
+}
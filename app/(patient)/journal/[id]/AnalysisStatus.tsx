@@ -0,0 +1,75 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card } from '@/components/ui'
+import type { Job } from '@/types'
+
+type JobSummary = Pick<Job, 'id' | 'type' | 'status'>
+
+interface AnalysisStatusProps {
+  entryId: string
+}
+
+// Shows that reflections are still being prepared and refreshes the page once the
+// entry's background jobs have finished
+export function AnalysisStatus({ entryId }: AnalysisStatusProps) {
+  const router = useRouter()
+  const [jobs, setJobs] = useState<JobSummary[]>([])
+  const [active, setActive] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let wasActive = false
+
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/jobs?entry_id=${entryId}`)
+        if (!res.ok) return
+        const data = await res.json()
+        if (cancelled) return
+
+        setJobs(data.jobs ?? [])
+        setActive(data.active)
+        if (data.active) {
+          wasActive = true
+          timer = setTimeout(poll, 3000)
+        } else if (wasActive) {
+          router.refresh()
+        }
+      } catch (e) {
+        console.error('Failed to fetch analysis status:', e)
+      }
+    }
+
+    poll()
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [entryId, router])
+
+  // Newest job of the type decides (a dead one may have been superseded)
+  const extraction = jobs.find((job) => job.type === 'extract_entry')
+
+  if (active) {
+    return (
+      <Card className="mb-6 bg-white/60">
+        <p className="text-sm text-therapy-muted text-center">Reflecting on your entry…</p>
+      </Card>
+    )
+  }
+
+  if (extraction?.status === 'dead') {
+    return (
+      <Card className="mb-6 bg-white/60">
+        <p className="text-sm text-therapy-muted text-center">
+          We couldn&apos;t prepare reflections for this entry. Your writing is saved.
+        </p>
+      </Card>
+    )
+  }
+
+  return null
+}
@@ -2,72 +2,94 @@
 
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
-import { Button, ConfirmModal } from '@/components/ui'
+import { Button, ConfirmModal, Modal } from '@/components/ui'
+import { JournalEditor } from '@/components/journal'
+import type { ShareScope } from '@/types'
+import { ShareSettings } from './ShareSettings'
 
 interface EntryActionsProps {
   entryId: string
-  isShared: boolean
+  content: string
+  shareScopes: ShareScope[]
+  shareRedactions: string[]
 }
 
-export function EntryActions({ entryId, isShared }: EntryActionsProps) {
+export function EntryActions({ entryId, content, shareScopes, shareRedactions }: EntryActionsProps) {
   const router = useRouter()
   const [showDeleteModal, setShowDeleteModal] = useState(false)
   const [deleting, setDeleting] = useState(false)
-  const [sharing, setSharing] = useState(false)
-  const [currentShared, setCurrentShared] = useState(isShared)
+  const [showShareModal, setShowShareModal] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState(content)
+  const [saving, setSaving] = useState(false)
+  const isShared = shareScopes.length > 0
 
-  const handleDelete = async () => {
-    setDeleting(true)
+  const openEditor = () => {
+    setDraft(content)
+    setEditing(true)
+  }
+
+  // The previous wording is kept as a revision, so edits can be undone from the history
+  const handleSave = async () => {
+    if (!draft.trim() || draft === content) {
+      setEditing(false)
+      return
+    }
+    setSaving(true)
     try {
       const response = await fetch(`/api/journal/${entryId}`, {
-        method: 'DELETE',
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: draft }),
       })
 
-      if (!response.ok) throw new Error('Failed to delete')
+      if (!response.ok) throw new Error('Failed to save')
 
-      router.push('/journal')
+      setEditing(false)
       router.refresh()
     } catch (error) {
-      console.error('Delete error:', error)
-      alert('Failed to delete entry. Please try again.')
+      console.error('Edit error:', error)
+      alert('Failed to save your changes. Please try again.')
     } finally {
-      setDeleting(false)
-      setShowDeleteModal(false)
+      setSaving(false)
     }
   }
 
-  const toggleShare = async () => {
-    setSharing(true)
+  const handleDelete = async () => {
+    setDeleting(true)
     try {
       const response = await fetch(`/api/journal/${entryId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ shared_with_therapist: !currentShared }),
+        method: 'DELETE',
       })
 
-      if (!response.ok) throw new Error('Failed to update')
+      if (!response.ok) throw new Error('Failed to delete')
 
-      setCurrentShared(!currentShared)
+      router.push('/journal')
       router.refresh()
     } catch (error) {
-      console.error('Share toggle error:', error)
-      alert('Failed to update sharing. Please try again.')
+      console.error('Delete error:', error)
+      alert('Failed to delete entry. Please try again.')
     } finally {
-      setSharing(false)
+      setDeleting(false)
+      setShowDeleteModal(false)
     }
   }
 
   return (
     <>
       <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" onClick={openEditor} title="Edit entry">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+          </svg>
+        </Button>
         <Button
           variant="ghost"
           size="sm"
-          onClick={toggleShare}
-          disabled={sharing}
-          title={currentShared ? 'Stop sharing with therapist' : 'Share with therapist'}
+          onClick={() => setShowShareModal(true)}
+          title={isShared ? 'Change what your therapist can see' : 'Share with therapist'}
         >
-          <svg className={`w-4 h-4 ${currentShared ? 'text-calm-600' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <svg className={`w-4 h-4 ${isShared ? 'text-calm-600' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
           </svg>
         </Button>
@@ -83,6 +105,35 @@ export function EntryActions({ entryId, isShared }: EntryActionsProps) {
         </Button>
       </div>
 
+      {/* Remounted on open so it starts from the saved settings */}
+      {showShareModal && (
+        <ShareSettings
+          entryId={entryId}
+          content={content}
+          scopes={shareScopes}
+          redactions={shareRedactions}
+          isOpen={showShareModal}
+          onClose={() => setShowShareModal(false)}
+        />
+      )}
+
+      <Modal isOpen={editing} onClose={() => setEditing(false)} title="Edit entry" size="lg">
+        <JournalEditor value={draft} onChange={setDraft} minHeight="200px" autoFocus onSave={handleSave} />
+        {isShared && (
+          <p className="text-xs text-therapy-muted mt-3">
+            This entry is shared. Your therapist will see the new version, marked as edited after sharing.
+          </p>
+        )}
+        <div className="flex gap-3 justify-end mt-6">
+          <Button variant="ghost" onClick={() => setEditing(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={saving} disabled={!draft.trim()}>
+            Save changes
+          </Button>
+        </div>
+      </Modal>
+
       <ConfirmModal
         isOpen={showDeleteModal}
         onClose={() => setShowDeleteModal(false)}
@@ -0,0 +1,149 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button, Card, ConfirmModal } from '@/components/ui'
+import { countChangedWords, diffWords } from '@/lib/word-diff'
+import type { EntryRevision } from '@/types'
+
+interface EntryHistoryProps {
+  entryId: string
+  currentContent: string
+  revisions: EntryRevision[] // newest first
+}
+
+function formatWhen(iso: string) {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+// Earlier wording of the entry, each compared word by word with the current text
+export function EntryHistory({ entryId, currentContent, revisions }: EntryHistoryProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [selectedId, setSelectedId] = useState(revisions[0]?.id ?? null)
+  const [confirmRestore, setConfirmRestore] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+
+  const selected = revisions.find((r) => r.id === selectedId) ?? null
+  const diff = useMemo(
+    () => (selected ? diffWords(selected.content, currentContent) : []),
+    [selected, currentContent]
+  )
+
+  const handleRestore = async () => {
+    if (!selected) return
+    setRestoring(true)
+    try {
+      const response = await fetch(`/api/journal/${entryId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ restore_revision_id: selected.id }),
+      })
+
+      if (!response.ok) throw new Error('Failed to restore')
+
+      setConfirmRestore(false)
+      router.refresh()
+    } catch (error) {
+      console.error('Restore error:', error)
+      alert('Failed to restore this version. Please try again.')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  if (revisions.length === 0) return null
+
+  return (
+    <Card className="mb-8 bg-white/60">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <h3 className="text-sm font-medium text-therapy-muted">
+          Earlier versions ({revisions.length})
+        </h3>
+        <svg
+          className={`w-4 h-4 text-therapy-muted transition-transform ${open ? 'rotate-180' : ''}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          <ul className="space-y-1">
+            {revisions.map((revision) => {
+              const changes = countChangedWords(diffWords(revision.content, currentContent))
+              return (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors ${
+                      revision.id === selectedId ? 'bg-sage-50 text-therapy-text' : 'text-therapy-muted hover:bg-sage-50/50'
+                    }`}
+                  >
+                    <span>
+                      Written {formatWhen(revision.created_at)}
+                      <span className="text-xs text-therapy-muted"> · replaced {formatWhen(revision.replaced_at)}</span>
+                    </span>
+                    <span className="text-xs flex-shrink-0">
+                      <span className="text-sage-700">+{changes.added}</span>{' '}
+                      <span className="text-red-600">−{changes.removed}</span>
+                    </span>
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+
+          {selected && (
+            <div>
+              <p className="text-xs text-therapy-muted mb-2">
+                Compared with the current version: <span className="text-red-600 line-through">removed since</span>,{' '}
+                <span className="text-sage-700 underline">added since</span>
+              </p>
+              <p className="font-serif text-therapy-text leading-relaxed whitespace-pre-wrap border border-therapy-border rounded-xl p-4 bg-white">
+                {diff.map((part, i) =>
+                  part.op === 'equal' ? (
+                    <span key={i}>{part.text}</span>
+                  ) : part.op === 'removed' ? (
+                    <del key={i} className="bg-red-50 text-red-700">{part.text}</del>
+                  ) : (
+                    <ins key={i} className="bg-sage-50 text-sage-700">{part.text}</ins>
+                  )
+                )}
+              </p>
+              <div className="flex justify-end mt-3">
+                <Button variant="secondary" size="sm" onClick={() => setConfirmRestore(true)}>
+                  Restore this version
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={confirmRestore}
+        onClose={() => setConfirmRestore(false)}
+        onConfirm={handleRestore}
+        title="Restore this version?"
+        message="The entry goes back to this wording. The current text is kept in the history, so you can switch back."
+        confirmText="Restore"
+        loading={restoring}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import { Card } from '@/components/ui'
+import type { AIExtractionVersion } from '@/types'
+
+export interface ExtractionVersionRow extends AIExtractionVersion {
+  source: string // which wording it was read from, e.g. "Current text"
+}
+
+interface ExtractionVersionsProps {
+  versions: ExtractionVersionRow[] // newest first
+  currentVersionId: string | null
+}
+
+function label(version: ExtractionVersionRow, currentVersionId: string | null) {
+  const when = new Date(version.created_at).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+  return `${when} · ${version.source}${version.id === currentVersionId ? ' (shown above)' : ''}`
+}
+
+function ListChange({ before, after }: { before: string[]; after: string[] }) {
+  const items = Array.from(new Set([...before, ...after]))
+  if (items.length === 0) return <span className="text-therapy-muted">—</span>
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {items.map((item) => {
+        const style = !before.includes(item)
+          ? 'bg-sage-50 text-sage-700'
+          : !after.includes(item)
+            ? 'bg-red-50 text-red-700 line-through'
+            : 'bg-white text-therapy-text'
+        return (
+          <span key={item} className={`px-2 py-0.5 text-xs rounded-full ${style}`}>
+            {item}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
+
+function ScoreChange({ before, after }: { before: number | null; after: number | null }) {
+  const show = (v: number | null) => (v === null ? '—' : `${v}/10`)
+  if (before === after) return <span className="text-therapy-text">{show(after)}</span>
+  return (
+    <span className="text-therapy-text">
+      <span className="text-therapy-muted line-through mr-1.5">{show(before)}</span>
+      {show(after)}
+    </span>
+  )
+}
+
+// Side-by-side reading of two extraction runs for the same entry (after an edit, or
+// when the extractor itself changed)
+export function ExtractionVersions({ versions, currentVersionId }: ExtractionVersionsProps) {
+  const [open, setOpen] = useState(false)
+  const [afterId, setAfterId] = useState(versions[0]?.id ?? '')
+  const [beforeId, setBeforeId] = useState(versions[1]?.id ?? '')
+
+  if (versions.length < 2) return null
+
+  const before = versions.find((v) => v.id === beforeId) ?? versions[1]
+  const after = versions.find((v) => v.id === afterId) ?? versions[0]
+
+  const select = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-3 py-2 text-sm border border-therapy-border rounded-lg focus:outline-none focus:ring-2 focus:ring-therapy-accent"
+    >
+      {versions.map((v) => (
+        <option key={v.id} value={v.id}>
+          {label(v, currentVersionId)}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <Card className="mb-6 bg-white/60">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <h3 className="text-sm font-medium text-therapy-muted">
+          How our reading changed ({versions.length} versions)
+        </h3>
+        <svg
+          className={`w-4 h-4 text-therapy-muted transition-transform ${open ? 'rotate-180' : ''}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div>
+              <p className="text-xs text-therapy-muted mb-1">Earlier reading</p>
+              {select(before.id, setBeforeId)}
+            </div>
+            <div>
+              <p className="text-xs text-therapy-muted mb-1">Later reading</p>
+              {select(after.id, setAfterId)}
+            </div>
+          </div>
+
+          <dl className="grid grid-cols-[8rem_1fr] gap-x-4 gap-y-3 text-sm">
+            <dt className="text-therapy-muted">Mood</dt>
+            <dd><ScoreChange before={before.extraction.mood_score} after={after.extraction.mood_score} /></dd>
+
+            <dt className="text-therapy-muted">Anxiety</dt>
+            <dd><ScoreChange before={before.extraction.anxiety_score} after={after.extraction.anxiety_score} /></dd>
+
+            <dt className="text-therapy-muted">Feelings</dt>
+            <dd><ListChange before={before.extraction.emotions ?? []} after={after.extraction.emotions ?? []} /></dd>
+
+            <dt className="text-therapy-muted">Topics</dt>
+            <dd><ListChange before={before.extraction.symptoms ?? []} after={after.extraction.symptoms ?? []} /></dd>
+
+            <dt className="text-therapy-muted">Summary</dt>
+            <dd className="space-y-1">
+              {before.extraction.summary !== after.extraction.summary && (
+                <p className="text-therapy-muted italic line-through">{before.extraction.summary}</p>
+              )}
+              <p className="text-therapy-text italic">{after.extraction.summary}</p>
+            </dd>
+
+            {before.extractor_version !== after.extractor_version && (
+              <>
+                <dt className="text-therapy-muted">Extractor</dt>
+                <dd className="text-xs text-therapy-muted">
+                  {before.extractor_version} → {after.extractor_version}
+                </dd>
+              </>
+            )}
+          </dl>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,181 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button, Modal } from '@/components/ui'
+import { REDACTION_MARKER, SHARE_PRESETS, SHARE_SCOPES, applyRedactions, staleRedactions } from '@/lib/sharing'
+import type { ShareScope } from '@/types'
+
+interface ShareSettingsProps {
+  entryId: string
+  content: string
+  scopes: ShareScope[]
+  redactions: string[]
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function ShareSettings({ entryId, content, scopes, redactions, isOpen, onClose }: ShareSettingsProps) {
+  const router = useRouter()
+  const textRef = useRef<HTMLParagraphElement>(null)
+  const [selected, setSelected] = useState<ShareScope[]>(scopes)
+  const [passages, setPassages] = useState<string[]>(redactions)
+  const [selection, setSelection] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const sharesText = selected.includes('full_text')
+
+  const toggleScope = (scope: ShareScope) =>
+    setSelected((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]))
+
+  // Only text selected inside the entry can be redacted
+  const captureSelection = () => {
+    const current = window.getSelection()
+    const text = current?.toString().trim() ?? ''
+    const inEntry = current?.anchorNode && textRef.current?.contains(current.anchorNode)
+    setSelection(inEntry ? text : '')
+  }
+
+  const addRedaction = () => {
+    if (!selection || passages.includes(selection)) return
+    setPassages((prev) => [...prev, selection])
+    setSelection('')
+    window.getSelection()?.removeAllRanges()
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/journal/${entryId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ share_scopes: selected, share_redactions: passages }),
+      })
+      if (!response.ok) throw new Error('Failed to update')
+
+      onClose()
+      router.refresh()
+    } catch (error) {
+      console.error('Share settings error:', error)
+      alert('Failed to update sharing. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const preview = applyRedactions(content, passages).split(REDACTION_MARKER)
+  const stale = staleRedactions(content, passages)
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Share with your therapist" size="lg">
+      <div className="space-y-5">
+        <div className="flex flex-wrap gap-2">
+          {SHARE_PRESETS.map((preset) => {
+            const active = preset.scopes.length === selected.length && preset.scopes.every((s) => selected.includes(s))
+            return (
+              <button
+                key={preset.label}
+                onClick={() => setSelected(preset.scopes)}
+                className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                  active ? 'bg-sage-100 border-sage-300 text-sage-700' : 'border-therapy-border text-therapy-muted hover:text-therapy-text'
+                }`}
+              >
+                {preset.label}
+              </button>
+            )
+          })}
+        </div>
+
+        <div className="space-y-2">
+          {SHARE_SCOPES.map((scope) => (
+            <label key={scope.value} className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selected.includes(scope.value)}
+                onChange={() => toggleScope(scope.value)}
+                className="mt-0.5 rounded border-therapy-border text-sage-600 focus:ring-therapy-accent"
+              />
+              <span>
+                <span className="text-therapy-text font-medium">{scope.label}</span>
+                <span className="block text-therapy-muted">{scope.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {(sharesText || stale.length > 0) && (
+          <div>
+            <p className="text-sm font-medium text-therapy-text mb-1">Redact passages</p>
+            <p className="text-xs text-therapy-muted mb-2">
+              Select text in your entry, then redact it. Your therapist sees {REDACTION_MARKER} in its place.
+            </p>
+            <p
+              ref={textRef}
+              onMouseUp={captureSelection}
+              onKeyUp={captureSelection}
+              className="max-h-48 overflow-y-auto p-3 rounded-lg border border-therapy-border font-serif text-sm text-therapy-text whitespace-pre-wrap"
+            >
+              {content}
+            </p>
+            <div className="flex justify-end mt-2">
+              <Button size="sm" variant="secondary" disabled={!selection} onClick={addRedaction}>
+                Redact selection
+              </Button>
+            </div>
+
+            {passages.length > 0 && (
+              <>
+                <ul className="mt-2 space-y-1">
+                  {passages.map((passage) => (
+                    <li key={passage} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="truncate text-therapy-muted">
+                        “{passage}”
+                        {stale.includes(passage) && <span className="text-warm-700"> — no longer in your entry</span>}
+                      </span>
+                      <button
+                        onClick={() => setPassages((prev) => prev.filter((p) => p !== passage))}
+                        className="text-therapy-muted hover:text-therapy-text flex-shrink-0"
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-sm font-medium text-therapy-text mt-3 mb-1">What your therapist sees</p>
+                <p className="max-h-48 overflow-y-auto p-3 rounded-lg bg-sage-50 font-serif text-sm text-therapy-text whitespace-pre-wrap">
+                  {preview.map((part, i) => (
+                    <span key={i}>
+                      {part}
+                      {i < preview.length - 1 && (
+                        <span className="px-1 rounded bg-therapy-text text-white text-xs">{REDACTION_MARKER}</span>
+                      )}
+                    </span>
+                  ))}
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {selected.length > 0 && stale.length > 0 && (
+          <p className="text-sm text-warm-700">
+            Remove the redactions that are no longer in your entry to share it.
+          </p>
+        )}
+
+        {selected.includes('summary') && passages.length > 0 && (
+          <p className="text-xs text-therapy-muted">
+            The AI summary is written from your full text, so it isn&apos;t shared while anything is redacted.
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" size="sm" onClick={onClose}>Cancel</Button>
+          <Button size="sm" loading={saving} disabled={selected.length > 0 && stale.length > 0} onClick={save}>
+            {selected.length === 0 ? 'Keep private' : 'Save sharing'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -4,8 +4,13 @@ import { createServerSupabaseClient } from '@/lib/supabase-server'
 import { getProfile } from '@/lib/auth'
 import { Card } from '@/components/ui'
 import { CrisisBanner } from '@/components/shared'
+import { describeShareScopes, staleRedactions } from '@/lib/sharing'
 import { EntryActions } from './EntryActions'
-import type { JournalEntry, CrisisSeverity } from '@/types'
+import { AnalysisStatus } from './AnalysisStatus'
+import { EntryHistory } from './EntryHistory'
+import { ExtractionVersions, type ExtractionVersionRow } from './ExtractionVersions'
+import { hashEntryContent } from '@/lib/entry-extraction'
+import type { JournalEntry, CrisisSeverity, EntryRevision, AIExtractionVersion } from '@/types'
 
 export default async function JournalEntryPage({
   params,
@@ -57,6 +62,42 @@ export default async function JournalEntryPage({
 
   const extraction = journalEntry.ai_extraction
 
+  // Open alert raised by the crisis pass (or extraction) for this entry
+  const { data: crisisAlert } = await supabase
+    .from('crisis_alerts')
+    .select('severity')
+    .eq('entry_id', id)
+    .eq('resolved', false)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  // Earlier wording, saved by the database on each edit
+  const { data: revisions } = await supabase
+    .from('entry_revisions')
+    .select('*')
+    .eq('entry_id', id)
+    .order('replaced_at', { ascending: false })
+
+  // Every extraction run kept for this entry, labelled with the wording it read
+  const { data: extractionVersions } = await supabase
+    .from('ai_extraction_versions')
+    .select('*')
+    .eq('entry_id', id)
+    .order('created_at', { ascending: false })
+
+  const wordingByHash = new Map<string, string>([[hashEntryContent(journalEntry.content), 'Current text']])
+  for (const revision of (revisions ?? []) as EntryRevision[]) {
+    const hash = hashEntryContent(revision.content)
+    if (!wordingByHash.has(hash)) {
+      wordingByHash.set(hash, `Text from ${new Date(revision.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`)
+    }
+  }
+  const versionRows: ExtractionVersionRow[] = ((extractionVersions ?? []) as AIExtractionVersion[]).map((v) => ({
+    ...v,
+    source: wordingByHash.get(v.content_hash) ?? 'Earlier text',
+  }))
+
   // Convert mood score to description
   const getMoodDescription = (score: number) => {
     const descriptions = [
@@ -80,7 +121,9 @@ export default async function JournalEntryPage({
       </Link>
 
       {/* Crisis Banner */}
-      {extraction?.crisis_detected && (
+      {crisisAlert ? (
+        <CrisisBanner severity={crisisAlert.severity as CrisisSeverity} />
+      ) : extraction?.crisis_detected && (
         <CrisisBanner severity={(extraction.confidence ?? 0.5) > 0.7 ? 'high' : 'medium' as CrisisSeverity} />
       )}
 
@@ -88,6 +131,15 @@ export default async function JournalEntryPage({
       <div className="text-center mb-8">
         <p className="text-therapy-muted text-sm">{formattedTime}</p>
         <h1 className="text-xl font-normal text-therapy-text mt-1">{formattedDate}</h1>
+        {journalEntry.content_edited_at && (
+          <p className="text-xs text-therapy-muted mt-1">
+            Edited {new Date(journalEntry.content_edited_at).toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric',
+              year: 'numeric',
+            })}
+          </p>
+        )}
         <div className="flex items-center justify-center gap-2 mt-3">
           {journalEntry.is_draft && (
             <span className="px-2 py-0.5 text-xs bg-warm-100 text-warm-700 rounded-full">
@@ -96,10 +148,16 @@ export default async function JournalEntryPage({
           )}
           {journalEntry.shared_with_therapist && (
             <span className="px-2 py-0.5 text-xs bg-sage-100 text-sage-700 rounded-full">
-              Shared
+              Shared: {describeShareScopes(journalEntry.share_scopes)}
+              {journalEntry.share_scopes.includes('full_text') && journalEntry.share_redactions.length > 0 && ' (redacted)'}
             </span>
           )}
         </div>
+        {staleRedactions(journalEntry.content, journalEntry.share_redactions).length > 0 && (
+          <p className="text-sm text-warm-700 mt-3">
+            A passage you redacted has changed, so this entry is no longer shared. Review your redactions under “Share with therapist” to share it again.
+          </p>
+        )}
       </div>
 
       {/* Mood indicator - subtle */}
@@ -119,10 +177,30 @@ export default async function JournalEntryPage({
       </Card>
 
       {/* Actions */}
-      <div className="flex justify-center mb-8">
-        <EntryActions entryId={journalEntry.id} isShared={journalEntry.shared_with_therapist} />
+      <div className="flex flex-col items-center gap-3 mb-8">
+        <EntryActions
+          entryId={journalEntry.id}
+          content={journalEntry.content}
+          shareScopes={journalEntry.share_scopes}
+          shareRedactions={journalEntry.share_redactions}
+        />
+        {!journalEntry.is_draft && (
+          <Link href={`/chat?entry=${journalEntry.id}`} className="text-sm text-sage-600 hover:underline">
+            Talk this through
+          </Link>
+        )}
       </div>
 
+      {/* Earlier versions */}
+      <EntryHistory
+        entryId={journalEntry.id}
+        currentContent={journalEntry.content}
+        revisions={(revisions ?? []) as EntryRevision[]}
+      />
+
+      {/* Background extraction still running (or given up) */}
+      {!journalEntry.is_draft && <AnalysisStatus entryId={journalEntry.id} />}
+
       {/* Reflections section - more friendly take on AI insights */}
       {extraction && (extraction.emotions?.length > 0 || extraction.summary) && (
         <Card className="mb-6 bg-sage-50/50 border-sage-100">
@@ -172,6 +250,9 @@ export default async function JournalEntryPage({
         </Card>
       )}
 
+      {/* Extraction versions */}
+      <ExtractionVersions versions={versionRows} currentVersionId={extraction?.version_id ?? null} />
+
       {/* Daily tracking - softer presentation */}
       {journalEntry.structured_log && (
         <Card className="bg-white/60">
@@ -0,0 +1,203 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button, Card } from '@/components/ui'
+import type { JournalImport, JournalImportFormat } from '@/types'
+
+type ImportRow = JournalImport & { processed_count: number; failed_count: number }
+
+const POLL_INTERVAL_MS = 4000
+
+const FORMAT_OPTIONS: { value: JournalImportFormat | ''; label: string; help: string }[] = [
+  { value: '', label: 'Detect automatically', help: 'Choose the files and we will work out the format.' },
+  {
+    value: 'day_one',
+    label: 'Day One',
+    help: 'In Day One, export your journal as JSON and upload the zip (or the .json file inside it). Photos are not imported.',
+  },
+  {
+    value: 'markdown',
+    label: 'Markdown files',
+    help: 'One entry per file, dated in the file name (2021-03-04.md or "2021-03-04 21.15 Title.md") or a date: line in front matter. Select every file, or upload them as a zip.',
+  },
+  {
+    value: 'csv',
+    label: 'CSV',
+    help: 'A header row with a date column (date, created_at or timestamp) and a text column (content, text or entry). Optional: a time column and a 1–10 mood column.',
+  },
+]
+
+const FORMAT_LABELS: Record<JournalImportFormat, string> = {
+  day_one: 'Day One',
+  markdown: 'Markdown',
+  csv: 'CSV',
+}
+
+function progressText(row: ImportRow) {
+  if (row.status === 'failed') {
+    return `Import stopped after ${row.imported_count} ${row.imported_count === 1 ? 'entry' : 'entries'} · upload the files again to add the rest`
+  }
+  if (row.imported_count === 0) return 'Nothing new to import'
+  if (row.status === 'processing') {
+    return `Analyzing ${row.processed_count + row.failed_count} of ${row.imported_count} entries…`
+  }
+  return row.failed_count > 0
+    ? `Done · ${row.failed_count} ${row.failed_count === 1 ? 'entry' : 'entries'} could not be analyzed`
+    : 'Done'
+}
+
+export function ImportPanel({ initialImports }: { initialImports: ImportRow[] }) {
+  const [imports, setImports] = useState(initialImports)
+  const [format, setFormat] = useState<JournalImportFormat | ''>('')
+  const [files, setFiles] = useState<File[]>([])
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const inFlight = imports.some((i) => i.status === 'processing')
+
+  const refresh = async () => {
+    const response = await fetch('/api/journal/import')
+    if (!response.ok) return
+    const data = await response.json()
+    setImports(data.imports ?? [])
+  }
+
+  // Poll while entries are being analyzed
+  useEffect(() => {
+    if (!inFlight) return
+    const timer = setInterval(refresh, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [inFlight])
+
+  const upload = async () => {
+    if (files.length === 0) return
+    setUploading(true)
+    setError(null)
+    try {
+      const form = new FormData()
+      for (const file of files) form.append('files', file)
+      if (format) form.append('format', format)
+      form.append('timezone', Intl.DateTimeFormat().resolvedOptions().timeZone)
+
+      const response = await fetch('/api/journal/import', { method: 'POST', body: form })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        const details = Array.isArray(data.problems) && data.problems.length > 0 ? ` (${data.problems[0]})` : ''
+        throw new Error(`${data.error || 'Import failed'}${details}`)
+      }
+
+      setFiles([])
+      if (inputRef.current) inputRef.current.value = ''
+      await refresh()
+    } catch (e) {
+      console.error('Journal import error:', e)
+      setError(e instanceof Error ? e.message : 'Import failed. Please try again.')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const selected = FORMAT_OPTIONS.find((o) => o.value === format)!
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="import-format" className="block text-sm font-medium text-therapy-text mb-1">
+              Where are your entries from?
+            </label>
+            <select
+              id="import-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as JournalImportFormat | '')}
+              className="w-full px-3 py-2 text-sm border border-therapy-border rounded-lg focus:outline-none focus:ring-2 focus:ring-therapy-accent"
+            >
+              {FORMAT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-therapy-muted mt-1">{selected.help}</p>
+          </div>
+
+          <div>
+            <input
+              ref={inputRef}
+              type="file"
+              multiple
+              accept=".json,.zip,.md,.markdown,.txt,.csv"
+              onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+              className="block w-full text-sm text-therapy-muted file:mr-3 file:rounded-lg file:border-0 file:bg-therapy-background file:px-3 file:py-2 file:text-sm file:text-therapy-text"
+            />
+            {files.length > 1 && <p className="text-xs text-therapy-muted mt-1">{files.length} files selected</p>}
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-therapy-muted">
+              Imported entries keep their original dates, stay private until you share them, and anything already in
+              your journal is skipped.
+            </p>
+            <Button size="sm" onClick={upload} loading={uploading} disabled={files.length === 0}>
+              Import
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {imports.length > 0 && (
+        <Card>
+          <h2 className="text-base font-medium text-therapy-text">Your imports</h2>
+          <ul className="mt-3 divide-y divide-therapy-border border-t border-therapy-border">
+            {imports.map((row) => {
+              const done = row.processed_count + row.failed_count
+              return (
+                <li key={row.id} className="py-3">
+                  <div className="flex items-baseline justify-between gap-3">
+                    <p className="text-sm text-therapy-text">
+                      {FORMAT_LABELS[row.format]} ·{' '}
+                      {new Date(row.created_at).toLocaleString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: 'numeric',
+                        minute: '2-digit'
+                      })}
+                    </p>
+                    <p className="text-xs text-therapy-muted flex-shrink-0">
+                      {row.imported_count} new
+                      {row.duplicate_count > 0 && ` · ${row.duplicate_count} already in your journal`}
+                      {row.skipped_count > 0 && ` · ${row.skipped_count} skipped`}
+                    </p>
+                  </div>
+                  {row.status === 'processing' && row.imported_count > 0 && (
+                    <div className="mt-2 h-1.5 rounded-full bg-therapy-background overflow-hidden">
+                      <div
+                        className="h-full bg-therapy-accent transition-all"
+                        style={{ width: `${Math.round((done / row.imported_count) * 100)}%` }}
+                      />
+                    </div>
+                  )}
+                  <p className="text-xs text-therapy-muted mt-1">{progressText(row)}</p>
+                  {row.problems.length > 0 && (
+                    <details className="mt-1">
+                      <summary className="text-xs text-therapy-muted cursor-pointer">What was skipped</summary>
+                      <ul className="mt-1 space-y-0.5">
+                        {row.problems.map((problem, i) => (
+                          <li key={i} className="text-xs text-therapy-muted">{problem}</li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import Link from 'next/link'
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase-server'
+import { getProfile } from '@/lib/auth'
+import { getImportProgress } from '@/lib/journal-import'
+import { redirect } from 'next/navigation'
+import { ImportPanel } from './ImportPanel'
+import type { JournalImport } from '@/types'
+
+export default async function JournalImportPage() {
+  const profile = await getProfile()
+  if (!profile) redirect('/login')
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data } = await supabase
+    .from('journal_imports')
+    .select('*')
+    .eq('patient_id', profile.id)
+    .order('created_at', { ascending: false })
+    .limit(10)
+
+  const imports = (data ?? []) as JournalImport[]
+  const svc = await createServiceRoleClient()
+  const progress = await getImportProgress(svc, imports.filter((i) => i.imported_count > 0).map((i) => i.id))
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8">
+      <Link
+        href="/journal"
+        className="inline-flex items-center text-sm text-therapy-muted hover:text-therapy-text mb-6"
+      >
+        <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Back to Journal
+      </Link>
+
+      <div className="text-center mb-10">
+        <h1 className="text-2xl font-normal text-therapy-text mb-2">Import your journal</h1>
+        <p className="text-therapy-muted">Bring in what you&apos;ve written elsewhere, with its original dates.</p>
+      </div>
+
+      <ImportPanel
+        initialImports={imports.map((i) => ({
+          ...i,
+          processed_count: progress.get(i.id)?.processed ?? 0,
+          failed_count: progress.get(i.id)?.failed ?? 0,
+        }))}
+      />
+    </div>
+  )
+}
@@ -1,10 +1,12 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
-import { JournalEditor, MoodSelector, StructuredFields } from '@/components/journal'
+import { JournalEditor, MoodSelector, SharePicker, StructuredFields } from '@/components/journal'
 import { Button, Card } from '@/components/ui'
 import { DisclaimerBanner } from '@/components/shared'
+import { readServerSentEvents } from '@/lib/sse'
+import type { ShareScope } from '@/types'
 
 type GuidedStep = 'mood' | 'prompt' | 'write' | 'structured' | 'review'
 
@@ -31,12 +33,23 @@ export default function NewJournalPage() {
     energy_level: null as number | null,
   })
   const [showStructured, setShowStructured] = useState(false)
-  const [shareWithTherapist, setShareWithTherapist] = useState(false)
+  const [shareScopes, setShareScopes] = useState<ShareScope[]>([])
   const [saving, setSaving] = useState(false)
   const [loadingPrompt, setLoadingPrompt] = useState(false)
+  const promptAbortRef = useRef<AbortController | null>(null)
+
+  // Start from the patient's default sharing for new entries
+  useEffect(() => {
+    fetch('/api/sharing')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data && setShareScopes(data.default_scopes ?? []))
+      .catch(() => {})
+  }, [])
 
   useEffect(() => {
     setHydrated(true)
+    // Cancel a prompt that is still streaming when the user navigates away
+    return () => promptAbortRef.current?.abort()
   }, [])
 
   // Fetch prompt when entering prompt step
@@ -47,6 +60,11 @@ export default function NewJournalPage() {
   }, [mode, guidedStep, moodScore, currentPrompt, promptHistory.length])
 
   const fetchPrompt = async (isInitial: boolean) => {
+    promptAbortRef.current?.abort()
+    const controller = new AbortController()
+    promptAbortRef.current = controller
+
+    const fallback = "What's been on your mind? Take your time."
     setLoadingPrompt(true)
     try {
       const response = await fetch('/api/ai/guided-prompt', {
@@ -59,15 +77,38 @@ export default function NewJournalPage() {
             { role: 'user', content: pr.response }
           ]),
           is_initial: isInitial,
-          is_followup: !isInitial
+          is_followup: !isInitial,
+          stream: true,
         }),
+        signal: controller.signal,
       })
-      const data = await response.json()
-      setCurrentPrompt(data.prompt || "What's been on your mind? Take your time.")
+
+      // Errors before streaming starts come back as a plain JSON fallback prompt
+      if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+        const data = await response.json()
+        setCurrentPrompt(data.prompt || fallback)
+        return
+      }
+
+      let streamed = ''
+      await readServerSentEvents(response, (event, data) => {
+        if (event === 'delta') {
+          streamed += (data as { text: string }).text
+          setLoadingPrompt(false)
+          setCurrentPrompt(streamed)
+        } else if (event === 'done') {
+          setCurrentPrompt((data as { prompt?: string }).prompt || streamed || fallback)
+        }
+      })
+      if (!streamed) setCurrentPrompt(fallback)
     } catch {
-      setCurrentPrompt("What's been on your mind? Take your time.")
+      if (controller.signal.aborted) return
+      setCurrentPrompt(fallback)
     } finally {
-      setLoadingPrompt(false)
+      if (promptAbortRef.current === controller) {
+        promptAbortRef.current = null
+        setLoadingPrompt(false)
+      }
     }
   }
 
@@ -108,7 +149,7 @@ export default function NewJournalPage() {
         body: JSON.stringify({
           content,
           is_draft: isDraft,
-          shared_with_therapist: shareWithTherapist,
+          share_scopes: shareScopes,
           self_report_mood: moodScore,
           structured_log: (mode === 'guided' || showStructured) ? structuredFields : undefined,
         }),
@@ -118,18 +159,8 @@ export default function NewJournalPage() {
 
       const data = await response.json()
 
-      if (!isDraft && data.entry?.id) {
-        fetch('/api/ai/extract', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            entry_id: data.entry.id,
-            content,
-          }),
-        }).catch(console.error)
-      }
-
-      router.push('/journal')
+      // A flagged entry opens on its own page, which shows crisis resources
+      router.push(data.crisis_detected && data.entry?.id ? `/journal/${data.entry.id}` : '/journal')
       router.refresh()
     } catch (error) {
       console.error('Save error:', error)
@@ -234,6 +265,7 @@ export default function NewJournalPage() {
                   <Button
                     variant="ghost"
                     onClick={() => {
+                      promptAbortRef.current?.abort()
                       if (promptHistory.length === 0) {
                         setGuidedStep('mood')
                         setCurrentPrompt('')
@@ -359,23 +391,8 @@ export default function NewJournalPage() {
               </p>
             </Card>
 
-            {/* Share toggle */}
-            <div className="flex items-center justify-between p-4 bg-sage-50 rounded-xl mb-6">
-              <div>
-                <p className="text-sm font-medium text-therapy-text">Share with your therapist</p>
-                <p className="text-xs text-therapy-muted">They'll be able to read this entry</p>
-              </div>
-              <button
-                onClick={() => setShareWithTherapist(!shareWithTherapist)}
-                className={`w-12 h-6 rounded-full transition-colors ${
-                  shareWithTherapist ? 'bg-sage-500' : 'bg-gray-300'
-                }`}
-              >
-                <div className={`w-5 h-5 bg-white rounded-full shadow transition-transform ${
-                  shareWithTherapist ? 'translate-x-6' : 'translate-x-0.5'
-                }`} />
-              </button>
-            </div>
+            {/* Share scope */}
+            <SharePicker value={shareScopes} onChange={setShareScopes} className="mb-6" />
 
             <div className="flex gap-3 justify-center">
               <Button variant="ghost" onClick={() => setGuidedStep('structured')}>
@@ -447,23 +464,8 @@ export default function NewJournalPage() {
         )}
       </div>
 
-      {/* Share toggle */}
-      <div className="mt-6 flex items-center justify-between p-4 bg-sage-50 rounded-xl">
-        <div>
-          <p className="text-sm font-medium text-therapy-text">Share with your therapist</p>
-          <p className="text-xs text-therapy-muted">They'll be able to read this entry</p>
-        </div>
-        <button
-          onClick={() => setShareWithTherapist(!shareWithTherapist)}
-          className={`w-12 h-6 rounded-full transition-colors ${
-            shareWithTherapist ? 'bg-sage-500' : 'bg-gray-300'
-          }`}
-        >
-          <div className={`w-5 h-5 bg-white rounded-full shadow transition-transform ${
-            shareWithTherapist ? 'translate-x-6' : 'translate-x-0.5'
-          }`} />
-        </button>
-      </div>
+      {/* Share scope */}
+      <SharePicker value={shareScopes} onChange={setShareScopes} className="mt-6" />
 
       {/* Actions */}
       <div className="mt-8 flex gap-3 justify-center">
@@ -62,6 +62,11 @@ export default async function JournalListPage() {
           </Button>
         </Link>
       </div>
+      <p className="-mt-5 mb-8 text-center text-sm">
+        <Link href="/journal/import" className="text-therapy-muted hover:text-therapy-text transition-colors">
+          Import from Day One, Markdown or CSV
+        </Link>
+      </p>
 
       {/* Entries List */}
       {journalEntries.length === 0 ? (
@@ -80,6 +85,12 @@ export default async function JournalListPage() {
           <Link href="/journal/new">
             <Button>Write your first entry</Button>
           </Link>
+          <p className="mt-4 text-sm text-therapy-muted">
+            Journaled somewhere else?{' '}
+            <Link href="/journal/import" className="text-sage-700 hover:text-sage-800">
+              Import your entries
+            </Link>
+          </p>
         </Card>
       ) : (
         <div className="space-y-4">
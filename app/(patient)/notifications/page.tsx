@@ -0,0 +1,45 @@
+import Link from 'next/link'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getProfile } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { Card } from '@/components/ui'
+import { NotificationList } from '@/components/shared'
+import type { AppNotification } from '@/types'
+
+export default async function NotificationsPage() {
+  const profile = await getProfile()
+  if (!profile) redirect('/login')
+
+  const supabase = await createServerSupabaseClient()
+
+  // Questionnaire reminders (lib/questionnaires.ts) land here
+  const { data: notifications } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('recipient_id', profile.id)
+    .order('created_at', { ascending: false })
+    .limit(50)
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8">
+      <Link
+        href="/dashboard"
+        className="inline-flex items-center text-sm text-therapy-muted hover:text-therapy-text mb-6"
+      >
+        <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Back to Home
+      </Link>
+
+      <div className="text-center mb-10">
+        <h1 className="text-2xl font-normal text-therapy-text mb-2">Notifications</h1>
+        <p className="text-therapy-muted">Reminders from your therapist&apos;s questionnaire schedule.</p>
+      </div>
+
+      <Card>
+        <NotificationList notifications={(notifications ?? []) as AppNotification[]} />
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button, Card } from '@/components/ui'
+import { CrisisBanner } from '@/components/shared'
+import { isItemAsked, type InstrumentDefinition } from '@/lib/instruments'
+import type { CrisisSeverity } from '@/types'
+
+interface QuestionnaireFormProps {
+  definition: InstrumentDefinition
+}
+
+// Option buttons per row by number of response options
+const OPTION_GRID: Record<number, string> = {
+  2: 'grid-cols-2',
+  4: 'grid-cols-2 sm:grid-cols-4',
+  5: 'grid-cols-2 sm:grid-cols-5',
+  6: 'grid-cols-2 sm:grid-cols-3',
+}
+
+function OptionRow({
+  name,
+  options,
+  value,
+  onChange,
+}: {
+  name: string
+  options: string[]
+  value: number | null
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className={`grid ${OPTION_GRID[options.length] ?? 'grid-cols-2 sm:grid-cols-4'} gap-2 mt-2`}>
+      {options.map((label, score) => (
+        <label
+          key={label}
+          className={`px-3 py-2 text-xs text-center rounded-lg border cursor-pointer transition-colors ${
+            value === score
+              ? 'border-sage-600 bg-sage-50 text-sage-700'
+              : 'border-therapy-border text-therapy-muted hover:text-therapy-text'
+          }`}
+        >
+          <input
+            type="radio"
+            name={name}
+            value={score}
+            checked={value === score}
+            onChange={() => onChange(score)}
+            className="sr-only"
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  )
+}
+
+export function QuestionnaireForm({ definition }: QuestionnaireFormProps) {
+  const [answers, setAnswers] = useState<(number | null)[]>(definition.items.map(() => null))
+  const [difficulty, setDifficulty] = useState<number | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [done, setDone] = useState<{ crisisSeverity: CrisisSeverity | null } | null>(null)
+
+  const asked = definition.items.map((_, i) => isItemAsked(definition, i + 1, answers))
+  const complete = answers.every((a, i) => !asked[i] || a !== null)
+
+  // Answering a question can hide follow-ups; their answers are dropped
+  const answer = (index: number, score: number) => {
+    const next = answers.map((a, j) => (j === index ? score : a))
+    setAnswers(next.map((a, j) => (isItemAsked(definition, j + 1, next) ? a : null)))
+  }
+
+  const submit = async () => {
+    if (!complete) return
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/questionnaires', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // Questions that weren't asked are submitted as 0
+        body: JSON.stringify({
+          instrument: definition.instrument,
+          answers: answers.map((a, i) => (asked[i] ? a : 0)),
+          difficulty,
+        }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Failed to save')
+      setDone({ crisisSeverity: data.crisis_severity ?? null })
+    } catch (e) {
+      console.error('Questionnaire submit error:', e)
+      setError(e instanceof Error ? e.message : 'Failed to save. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (done) {
+    return (
+      <>
+        {done.crisisSeverity && <CrisisBanner severity={done.crisisSeverity} />}
+        <Card className="text-center">
+          <p className="text-therapy-text">Thank you for checking in.</p>
+          <p className="text-sm text-therapy-muted mt-1">Your therapist can see your answers.</p>
+          <Link href="/dashboard" className="inline-block mt-4 text-sm text-sage-600 hover:underline">
+            Back to home
+          </Link>
+        </Card>
+      </>
+    )
+  }
+
+  const difficultyQuestion = answers.some((a) => a !== null && a > 0) ? definition.difficulty : undefined
+
+  return (
+    <Card>
+      <p className="text-sm text-therapy-text mb-6">{definition.stem}</p>
+
+      <ol className="space-y-6">
+        {definition.items.map((item, i) =>
+          asked[i] ? (
+            <li key={i}>
+              <p className="text-sm text-therapy-text">
+                {i + 1}. {item}
+              </p>
+              <OptionRow
+                name={`item-${i + 1}`}
+                options={definition.responseOptions}
+                value={answers[i]}
+                onChange={(score) => answer(i, score)}
+              />
+            </li>
+          ) : null
+        )}
+      </ol>
+
+      {difficultyQuestion && (
+        <div className="mt-8 pt-6 border-t border-therapy-border">
+          <p className="text-sm text-therapy-text">{difficultyQuestion.question}</p>
+          <OptionRow
+            name="difficulty"
+            options={difficultyQuestion.options}
+            value={difficulty}
+            onChange={setDifficulty}
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+      <div className="flex items-center justify-between gap-4 mt-8">
+        <p className="text-xs text-therapy-muted">
+          {answers.filter((a, i) => asked[i] && a !== null).length} of {asked.filter(Boolean).length} answered
+        </p>
+        <Button onClick={submit} loading={submitting} disabled={!complete}>
+          Submit
+        </Button>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,59 @@
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getProfile } from '@/lib/auth'
+import { INSTRUMENTS, isQuestionnaireInstrument } from '@/lib/instruments'
+import { QuestionnaireForm } from './QuestionnaireForm'
+
+export default async function QuestionnairePage({
+  params,
+}: {
+  params: Promise<{ instrument: string }>
+}) {
+  const { instrument } = await params
+  if (!isQuestionnaireInstrument(instrument)) notFound()
+
+  const profile = await getProfile()
+  if (!profile) redirect('/login')
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data: last } = await supabase
+    .from('questionnaire_responses')
+    .select('created_at')
+    .eq('patient_id', profile.id)
+    .eq('instrument', instrument)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const definition = INSTRUMENTS[instrument]
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8">
+      <Link
+        href="/dashboard"
+        className="inline-flex items-center text-sm text-therapy-muted hover:text-therapy-text mb-6"
+      >
+        <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Back
+      </Link>
+
+      <div className="text-center mb-10">
+        <h1 className="text-2xl font-normal text-therapy-text mb-2">{definition.title}</h1>
+        <p className="text-therapy-muted">
+          A short {definition.name} questionnaire. Your answers are shared with your therapist.
+        </p>
+        {last && (
+          <p className="text-xs text-therapy-muted mt-2">
+            Last completed {new Date(last.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          </p>
+        )}
+      </div>
+
+      <QuestionnaireForm definition={definition} />
+    </div>
+  )
+}
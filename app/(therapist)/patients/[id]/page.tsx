@@ -6,8 +6,16 @@ import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui'
 import { MoodTimeline, SymptomChart, SleepCorrelation } from '@/components/charts'
 import { MoodBadge, JournalCard } from '@/components/journal'
 import { CrisisBanner } from '@/components/shared'
-import type { MoodDataPoint, SymptomFrequency, SleepMoodCorrelation, JournalEntry } from '@/types'
+import { SharedEntryText } from '@/components/therapist/SharedEntryText'
+import { QuestionnairePanel } from '@/components/therapist/QuestionnairePanel'
+import { AgreementPanel } from '@/components/therapist/AgreementPanel'
+import { toTherapistEntry, type TherapistEntry } from '@/lib/sharing'
+import { recordAudit } from '@/lib/audit'
+import type { MoodDataPoint, SymptomFrequency, SleepMoodCorrelation, SharedEntry } from '@/types'
 import { interpretGAD7, interpretPHQ9, getReliableChangeIndex } from '@/lib/clinical-scales'
+import { getQuestionnaireHistory } from '@/lib/questionnaires'
+import { INSTRUMENTS } from '@/lib/instruments'
+import { buildAgreementReport, pairResponsesWithReadings } from '@/lib/instrument-agreement'
 
 export default async function PatientDetailPage({
   params,
@@ -32,13 +40,6 @@ export default async function PatientDetailPage({
     notFound()
   }
 
-  // Log access for HIPAA compliance
-  await supabase.from('access_logs').insert({
-    therapist_id: profile.id,
-    patient_id: patientId,
-    action: 'viewed_patient_detail',
-  })
-
   // Get patient profile
   const { data: patient } = await supabase
     .from('profiles')
@@ -50,37 +51,24 @@ export default async function PatientDetailPage({
     notFound()
   }
 
-  // Get shared journal entries
-  const { data: entries } = await supabase
-    .from('journal_entries')
-    .select(`
-      *,
-      structured_log:structured_logs(*),
-      ai_extraction:ai_extractions(*)
-    `)
+  // Get shared journal entries. The view returns only what each entry's share scopes
+  // grant; everything else comes back null.
+  const { data: sharedRows } = await supabase
+    .from('shared_entries')
+    .select('*')
     .eq('patient_id', patientId)
-    .eq('shared_with_therapist', true)
-    .eq('is_draft', false)
     .order('created_at', { ascending: false })
     .limit(30)
 
-  // Helper to get extraction data (handles both array and object returns from Supabase)
-  const getExtraction = (e: NonNullable<typeof entries>[number]) => {
-    if (!e.ai_extraction) return null
-    return Array.isArray(e.ai_extraction) ? e.ai_extraction[0] : e.ai_extraction
-  }
-  
-  const getStructuredLog = (e: NonNullable<typeof entries>[number]) => {
-    if (!e.structured_log) return null
-    return Array.isArray(e.structured_log) ? e.structured_log[0] : e.structured_log
-  }
+  const journalEntries: TherapistEntry[] = ((sharedRows || []) as SharedEntry[]).map(toTherapistEntry)
 
-  // Transform entries
-  const journalEntries: JournalEntry[] = (entries || []).map(entry => ({
-    ...entry,
-    structured_log: getStructuredLog(entry),
-    ai_extraction: getExtraction(entry),
-  }))
+  // Log access for HIPAA compliance
+  await recordAudit(supabase, profile.id, [
+    { patientId, action: 'viewed_patient_detail' },
+    ...(journalEntries.length > 0
+      ? [{ patientId, action: 'viewed_entries' as const, entryIds: journalEntries.map(e => e.id) }]
+      : []),
+  ])
 
   // Get crisis alerts
   const { data: crisisAlerts } = await supabase
@@ -91,10 +79,10 @@ export default async function PatientDetailPage({
     .order('created_at', { ascending: false })
 
   // Process data for charts
-  const moodData: MoodDataPoint[] = (entries || [])
-    .filter(e => getExtraction(e)?.mood_score)
+  const moodData: MoodDataPoint[] = journalEntries
+    .filter(e => e.ai_extraction?.mood_score)
     .map(e => {
-      const extraction = getExtraction(e)!
+      const extraction = e.ai_extraction!
       return {
         date: e.created_at,
         mood: extraction.mood_score!,
@@ -105,8 +93,8 @@ export default async function PatientDetailPage({
 
   // Aggregate symptoms
   const symptomMap = new Map<string, number>()
-  ;(entries || []).forEach(e => {
-    const extraction = getExtraction(e)
+  journalEntries.forEach(e => {
+    const extraction = e.ai_extraction
     const symptoms = extraction?.symptoms || []
     symptoms.forEach((s: string) => {
       symptomMap.set(s, (symptomMap.get(s) || 0) + 1)
@@ -116,11 +104,11 @@ export default async function PatientDetailPage({
     .map(([symptom, count]) => ({ symptom, count }))
 
   // Sleep-mood correlation
-  const sleepMoodData: SleepMoodCorrelation[] = (entries || [])
-    .filter(e => getExtraction(e)?.mood_score && getStructuredLog(e)?.sleep_hours)
+  const sleepMoodData: SleepMoodCorrelation[] = journalEntries
+    .filter(e => e.ai_extraction?.mood_score && e.structured_log?.sleep_hours)
     .map(e => {
-      const extraction = getExtraction(e)!
-      const log = getStructuredLog(e)!
+      const extraction = e.ai_extraction!
+      const log = e.structured_log!
       return {
         sleep_hours: log.sleep_hours!,
         mood: extraction.mood_score!,
@@ -128,7 +116,7 @@ export default async function PatientDetailPage({
     })
 
   // Stats
-  const totalEntries = entries?.length || 0
+  const totalEntries = journalEntries.length
   const avgMood = moodData.length > 0 
     ? Math.round(moodData.reduce((sum, d) => sum + d.mood, 0) / moodData.length * 10) / 10
     : null
@@ -149,6 +137,21 @@ export default async function PatientDetailPage({
   const gad7Rci =
     gad7Prev !== null && gad7Latest !== null ? getReliableChangeIndex(gad7Prev, gad7Latest, 'gad7') : null
 
+  // Administered questionnaires, shown next to the estimates
+  const questionnaires = await getQuestionnaireHistory(supabase, patientId)
+
+  // Questionnaires against the AI item readings of the shared entries before them
+  const agreementReport = buildAgreementReport(
+    pairResponsesWithReadings(
+      questionnaires.responses,
+      journalEntries.map((e) => ({
+        created_at: e.created_at,
+        phq9_indicators: e.ai_extraction?.phq9_indicators ?? null,
+        gad7_indicators: e.ai_extraction?.gad7_indicators ?? null,
+      }))
+    )
+  )
+
   return (
     <div className="max-w-6xl mx-auto px-4 py-8">
       {/* Back link */}
@@ -243,8 +246,8 @@ export default async function PatientDetailPage({
       {/* Clinical normalization notes */}
       <div className="mb-8">
         <p className="text-xs text-therapy-muted">
-          PHQ-9/GAD-7 values shown here are AI-derived estimates from journal text for trend awareness. They are not a
-          substitute for administering standardized instruments.
+          PHQ-9/GAD-7 values above are AI-derived estimates from journal text for trend awareness. They are not a
+          substitute for the standardized instruments; the patient&apos;s own questionnaire results are shown below.
         </p>
         <p className="text-xs text-therapy-muted mt-1">
           Z-scores (when available) are normalized after 5+ entries. Higher z means better relative to baseline; anxiety
@@ -252,6 +255,22 @@ export default async function PatientDetailPage({
         </p>
       </div>
 
+      {/* Administered questionnaires */}
+      <div className="mb-8">
+        <QuestionnairePanel
+          patientId={patientId}
+          definitions={INSTRUMENTS}
+          schedules={questionnaires.schedules}
+          responses={questionnaires.responses}
+          aiEstimates={{ phq9: phq9Latest, gad7: gad7Latest }}
+        />
+      </div>
+
+      {/* AI estimates vs questionnaires */}
+      <div className="mb-8">
+        <AgreementPanel report={agreementReport} definitions={INSTRUMENTS} />
+      </div>
+
       {/* Charts */}
       <div className="grid md:grid-cols-2 gap-6 mb-8">
         <Card>
@@ -289,13 +308,12 @@ export default async function PatientDetailPage({
             <CardTitle>Emotional Patterns</CardTitle>
           </CardHeader>
           <CardContent>
-            {entries && entries.length > 0 ? (
+            {journalEntries.length > 0 ? (
               <div className="flex flex-wrap gap-2">
                 {(() => {
                   const emotionMap = new Map<string, number>()
-                  entries.forEach(e => {
-                    const extraction = Array.isArray(e.ai_extraction) ? e.ai_extraction[0] : e.ai_extraction
-                    const emotions = extraction?.emotions || []
+                  journalEntries.forEach(e => {
+                    const emotions = e.ai_extraction?.emotions || []
                     emotions.forEach((em: string) => {
                       emotionMap.set(em, (emotionMap.get(em) || 0) + 1)
                     })
@@ -346,15 +364,29 @@ export default async function PatientDetailPage({
                           Crisis Detected
                         </span>
                       )}
+                      {(entry.ai_extraction?.validation_errors?.length ?? 0) > 0 && (
+                        <span
+                          className="px-2 py-0.5 text-xs bg-amber-100 text-amber-700 rounded-full"
+                          title={entry.ai_extraction!.validation_errors!.join('\n')}
+                        >
+                          AI output partially invalid
+                        </span>
+                      )}
+                      {entry.edited_after_sharing && (
+                        <span
+                          className="px-2 py-0.5 text-xs bg-calm-100 text-calm-700 rounded-full"
+                          title={`Edited ${new Date(entry.content_edited_at!).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}`}
+                        >
+                          Edited after sharing
+                        </span>
+                      )}
                     </div>
                     {entry.ai_extraction?.mood_score && (
                       <MoodBadge value={entry.ai_extraction.mood_score} />
                     )}
                   </div>
                   
-                  <p className="text-therapy-text font-serif leading-relaxed whitespace-pre-wrap">
-                    {entry.content}
-                  </p>
+                  <SharedEntryText entry={entry} />
 
                   {/* AI Summary */}
                   {entry.ai_extraction?.summary && (
@@ -1,6 +1,7 @@
 import Link from 'next/link'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
 import { getProfile } from '@/lib/auth'
+import { recordAudit } from '@/lib/audit'
 import { redirect } from 'next/navigation'
 import { Card, Button } from '@/components/ui'
 
@@ -25,11 +26,9 @@ export default async function PatientsListPage() {
     (patientRelations || []).map(async (relation) => {
       // Get entry count and latest entry
       const { data: entries } = await supabase
-        .from('journal_entries')
-        .select('id, created_at, ai_extraction:ai_extractions(mood_score)')
+        .from('shared_entries')
+        .select('id, created_at, mood_score')
         .eq('patient_id', relation.patient_id)
-        .eq('shared_with_therapist', true)
-        .eq('is_draft', false)
         .order('created_at', { ascending: false })
         .limit(5)
 
@@ -42,11 +41,10 @@ export default async function PatientsListPage() {
 
       const latestEntry = entries?.[0]
       const entryCount = entries?.length || 0
-      const getExtraction = (e: NonNullable<typeof entries>[number]) => 
-        Array.isArray(e.ai_extraction) ? e.ai_extraction[0] : e.ai_extraction
-      const entriesWithMood = entries?.filter(e => getExtraction(e)?.mood_score) || []
+      // mood_score is null for entries shared without the scores scope
+      const entriesWithMood = entries?.filter(e => e.mood_score) || []
       const avgMood = entriesWithMood.length > 0
-        ? entriesWithMood.reduce((sum, e) => sum + (getExtraction(e)!.mood_score || 0), 0) / entriesWithMood.length
+        ? entriesWithMood.reduce((sum, e) => sum + (e.mood_score || 0), 0) / entriesWithMood.length
         : null
 
       return {
@@ -59,6 +57,12 @@ export default async function PatientsListPage() {
     })
   )
 
+  await recordAudit(
+    supabase,
+    profile.id,
+    patientStats.map(p => ({ patientId: p.patient_id, action: 'viewed_patient_list' as const }))
+  )
+
   return (
     <div className="max-w-4xl mx-auto px-4 py-8">
       {/* Header */}
@@ -0,0 +1,100 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { ACCESS_ACTIONS, recordWriteAudit } from '@/lib/audit'
+import { NextRequest, NextResponse } from 'next/server'
+
+const MAX_MESSAGE_LENGTH = 2000
+
+// GET /api/access-concerns - Concerns the patient has raised about access to their data
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('access_concerns')
+      .select('*')
+      .eq('patient_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching access concerns:', error)
+      return NextResponse.json({ error: 'Failed to fetch concerns' }, { status: 500 })
+    }
+
+    return NextResponse.json({ concerns: data ?? [] })
+  } catch (error) {
+    console.error('Access concerns GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/access-concerns - Report a concern, optionally about one access log entry
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const message = typeof body.message === 'string' ? body.message.trim() : ''
+    if (!message || message.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        { error: `message is required (max ${MAX_MESSAGE_LENGTH} characters)` },
+        { status: 400 }
+      )
+    }
+
+    // RLS only returns access events about this patient, so a foreign id reads as not found
+    let therapistId: string | null = null
+    const auditLogId = typeof body.audit_log_id === 'string' ? body.audit_log_id : null
+    if (auditLogId) {
+      const { data: log } = await supabase
+        .from('audit_log')
+        .select('actor_id')
+        .eq('id', auditLogId)
+        .eq('patient_id', user.id)
+        .in('action', ACCESS_ACTIONS)
+        .maybeSingle()
+      if (!log) {
+        return NextResponse.json({ error: 'Access log entry not found' }, { status: 404 })
+      }
+      therapistId = log.actor_id
+    }
+
+    const { data: concern, error } = await supabase
+      .from('access_concerns')
+      .insert({
+        patient_id: user.id,
+        audit_log_id: auditLogId,
+        therapist_id: therapistId,
+        message,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error reporting access concern:', error)
+      return NextResponse.json({ error: 'Failed to report concern' }, { status: 500 })
+    }
+
+    await recordWriteAudit(supabase, user.id, {
+      action: 'access_concern_reported',
+      patientId: user.id,
+      metadata: { concern_id: concern.id, audit_log_id: auditLogId },
+    })
+
+    return NextResponse.json({ concern }, { status: 201 })
+  } catch (error) {
+    console.error('Access concerns POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,134 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { ACCOUNT_DELETION_GRACE_DAYS } from '@/lib/account-deletion'
+import { recordWriteAudit } from '@/lib/audit'
+import { NextRequest, NextResponse } from 'next/server'
+
+const DELETION_COLUMNS = 'id, status, scheduled_for, cancelled_at, completed_at, created_at'
+
+async function getPatient(supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+  if (profile?.role !== 'patient') return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+
+  return { user }
+}
+
+// GET /api/account/deletion - The patient's open deletion request, if any
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getPatient(supabase)
+    if (auth.error) return auth.error
+
+    const { data, error } = await supabase
+      .from('account_deletions')
+      .select(DELETION_COLUMNS)
+      .eq('user_id', auth.user.id)
+      .in('status', ['pending', 'processing'])
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching account deletion:', error)
+      return NextResponse.json({ error: 'Failed to fetch deletion request' }, { status: 500 })
+    }
+
+    return NextResponse.json({ deletion: data, grace_days: ACCOUNT_DELETION_GRACE_DAYS })
+  } catch (error) {
+    console.error('Account deletion GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/account/deletion - Schedule erasure of the account after the grace period.
+// Body: { confirm: 'DELETE' }
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getPatient(supabase)
+    if (auth.error) return auth.error
+
+    const body = await request.json().catch(() => ({}))
+    if (body.confirm !== 'DELETE') {
+      return NextResponse.json({ error: 'Type DELETE to confirm' }, { status: 400 })
+    }
+
+    const { data: open } = await supabase
+      .from('account_deletions')
+      .select(DELETION_COLUMNS)
+      .eq('user_id', auth.user.id)
+      .in('status', ['pending', 'processing'])
+      .maybeSingle()
+    if (open) {
+      return NextResponse.json({ deletion: open }, { status: 200 })
+    }
+
+    // scheduled_for and next_attempt_at default to the end of the grace period
+    const { data: created, error } = await supabase
+      .from('account_deletions')
+      .insert({ user_id: auth.user.id })
+      .select(DELETION_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error('Error requesting account deletion:', error)
+      return NextResponse.json({ error: 'Failed to request deletion' }, { status: 500 })
+    }
+
+    await recordWriteAudit(supabase, auth.user.id, {
+      action: 'account_deletion_requested',
+      patientId: auth.user.id,
+      metadata: { request_id: created.id, scheduled_for: created.scheduled_for },
+    })
+
+    return NextResponse.json({ deletion: created }, { status: 201 })
+  } catch (error) {
+    console.error('Account deletion POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/account/deletion - Cancel a pending request during the grace period
+export async function DELETE() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getPatient(supabase)
+    if (auth.error) return auth.error
+
+    const { data: cancelled, error } = await supabase
+      .from('account_deletions')
+      .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+      .eq('user_id', auth.user.id)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error cancelling account deletion:', error)
+      return NextResponse.json({ error: 'Failed to cancel deletion' }, { status: 500 })
+    }
+    if (!cancelled) {
+      // Nothing pending, or erasure has already started and can no longer be stopped
+      return NextResponse.json({ error: 'No pending deletion request to cancel' }, { status: 409 })
+    }
+
+    await recordWriteAudit(supabase, auth.user.id, {
+      action: 'account_deletion_cancelled',
+      patientId: auth.user.id,
+      metadata: { request_id: cancelled.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Account deletion DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
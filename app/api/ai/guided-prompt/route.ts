@@ -1,5 +1,6 @@
 import { createServerSupabaseClient } from '@/lib/supabase-server'
-import { createChatCompletion, TEMPERATURE, MAX_TOKENS } from '@/lib/openai'
+import { createChatCompletion, streamChatCompletion, TEMPERATURE, MAX_TOKENS } from '@/lib/openai'
+import { sseResponse } from '@/lib/sse'
 import { NextRequest, NextResponse } from 'next/server'
 import { promises as fs } from 'fs'
 import path from 'path'
@@ -279,6 +280,19 @@ function buildAssociationsSummary(associations: UserFeatureAssociation[]): strin
   return `KNOWN MOOD FACTORS:\n${lines.join('\n')}`
 }
 
+// Fallback prompts — casual, human
+const FALLBACK_PROMPTS = [
+  "So... what's actually on your mind right now?",
+  "Okay, real talk — how are you doing today?",
+  "What's one thing from today that keeps coming back to you?",
+  "Forget the big stuff for a sec. How are you right now?",
+  "If you could just get one thing off your chest... what would it be?",
+]
+
+function pickFallbackPrompt(): string {
+  return FALLBACK_PROMPTS[Math.floor(Math.random() * FALLBACK_PROMPTS.length)]
+}
+
 // ─── Main route ───
 
 // POST /api/ai/guided-prompt - Get a guided journaling prompt or follow-up
@@ -293,11 +307,12 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { mood_hint, conversation_history, is_followup, is_initial } = body as {
+    const { mood_hint, conversation_history, is_followup, stream } = body as {
       mood_hint?: number
       conversation_history?: ConversationMessage[]
       is_followup?: boolean
       is_initial?: boolean
+      stream?: boolean
     }
 
     // Load the prompt template
@@ -398,30 +413,39 @@ RULES: Just the response. Under 40 words. Sound like a real person. No therapy v
       messages.push({ role: 'user', content: userMessage })
     }
 
+    const completionOptions = {
+      temperature: is_followup ? 0.8 : TEMPERATURE.guided_prompt,
+      maxTokens: MAX_TOKENS.guided_prompt,
+    }
+
+    // Stream tokens as server-sent events; falls back to a canned prompt if nothing arrived
+    if (stream) {
+      return sseResponse(async (send, signal) => {
+        let prompt = ''
+        try {
+          for await (const delta of streamChatCompletion(messages, { ...completionOptions, signal })) {
+            prompt += delta
+            send('delta', { text: delta })
+          }
+        } catch (error) {
+          if (signal.aborted) return
+          console.error('Guided prompt stream error:', error)
+        }
+
+        if (!prompt.trim()) {
+          prompt = pickFallbackPrompt()
+          send('delta', { text: prompt })
+        }
+        send('done', { prompt: prompt.trim() })
+      }, request.signal)
+    }
+
     // Call OpenAI
-    const response = await createChatCompletion(
-      messages,
-      {
-        temperature: is_followup ? 0.8 : TEMPERATURE.guided_prompt,
-        maxTokens: MAX_TOKENS.guided_prompt,
-      }
-    )
+    const response = await createChatCompletion(messages, completionOptions)
 
     return NextResponse.json({ prompt: response.trim() })
   } catch (error) {
     console.error('Guided prompt error:', error)
-    
-    // Fallback prompts — casual, human
-    const fallbackPrompts = [
-      "So... what's actually on your mind right now?",
-      "Okay, real talk — how are you doing today?",
-      "What's one thing from today that keeps coming back to you?",
-      "Forget the big stuff for a sec. How are you right now?",
-      "If you could just get one thing off your chest... what would it be?",
-    ]
-    
-    const randomPrompt = fallbackPrompts[Math.floor(Math.random() * fallbackPrompts.length)]
-    
-    return NextResponse.json({ prompt: randomPrompt })
+    return NextResponse.json({ prompt: pickFallbackPrompt() })
   }
 }
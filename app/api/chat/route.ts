@@ -0,0 +1,295 @@
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase-server'
+import { createChatCompletion, streamChatCompletion, TEMPERATURE, MAX_TOKENS } from '@/lib/openai'
+import { getRetrievalContext } from '@/lib/embeddings'
+import { retrieveRichUserContext, type RichUserContext } from '@/lib/graph/neo4jRetrieve'
+import { CRISIS_RESOURCES_TEXT, assessCrisis, recordCrisisAlert, type CrisisAssessment } from '@/lib/crisis'
+import { sseResponse } from '@/lib/sse'
+import { NextRequest, NextResponse } from 'next/server'
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { ChatMessage, ChatRequest, ChatResponse } from '@/types'
+
+const MAX_MESSAGE_LENGTH = 4000
+const MAX_CONTEXT_ENTRIES = 10
+const HISTORY_LIMIT = 20
+
+interface ContextEntry {
+  id: string
+  content: string
+  created_at: string
+}
+
+// ─── Context sections ───
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+}
+
+function buildSelectedEntries(entries: ContextEntry[]): string | null {
+  if (entries.length === 0) return null
+  const lines = entries.map((e) => {
+    const excerpt = e.content.slice(0, 1200).replace(/\n+/g, ' ').trim()
+    return `  • ${formatDate(e.created_at)}: "${excerpt}${e.content.length > 1200 ? '...' : ''}"`
+  })
+  return `ENTRIES THE USER WANTS TO TALK ABOUT:\n${lines.join('\n')}`
+}
+
+function buildGraphSummary(neo4j: RichUserContext | null): string | null {
+  if (!neo4j) return null
+  const lines: string[] = []
+
+  if (neo4j.topFeatures.length > 0) {
+    lines.push(`  Recurring themes: ${neo4j.topFeatures.slice(0, 8).map((f) => f.name).join(', ')}`)
+  }
+
+  const moods = neo4j.moodTrajectory.slice(-7)
+  if (moods.length >= 2) {
+    lines.push(`  Recent self-reported mood: ${moods.map((p) => `${formatDate(p.timestamp)} ${typeof p.mood === 'object' ? (p.mood as { low: number }).low : p.mood}/10`).join(' → ')}`)
+  }
+
+  if (lines.length === 0) return null
+  return `PATTERNS FROM THEIR JOURNAL:\n${lines.join('\n')}`
+}
+
+function buildSystemMessage(
+  promptTemplate: string,
+  sections: (string | null)[],
+  crisis: CrisisAssessment | null
+): string {
+  const context = sections.filter(Boolean).join('\n\n')
+  let systemMessage = promptTemplate
+
+  if (context) {
+    systemMessage += `\n\nCONTEXT FROM THE USER'S JOURNAL (private to them):\n${context}`
+  }
+
+  if (crisis?.crisis_detected) {
+    systemMessage += `\n\nSAFETY NOTICE: The user's latest message was flagged by the safety screen (severity: ${crisis.severity}). Follow the CRISIS PROTOCOL above in this reply and include the 988 Suicide & Crisis Lifeline.`
+  }
+
+  return systemMessage
+}
+
+// GET /api/chat - Recent chat history for the current patient
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50'), 1), 200)
+
+    const { data: messages, error } = await supabase
+      .from('chat_messages')
+      .select('*')
+      .eq('patient_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching chat messages:', error)
+      return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 })
+    }
+
+    return NextResponse.json({ messages: (messages ?? []).reverse() })
+  } catch (error) {
+    console.error('Chat GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/chat - Send a message to the AI companion
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: ChatRequest = await request.json()
+    const message = typeof body.message === 'string' ? body.message.trim() : ''
+
+    if (message.length === 0) {
+      return NextResponse.json({ error: 'Message is required' }, { status: 400 })
+    }
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json({ error: `Message must be at most ${MAX_MESSAGE_LENGTH} characters` }, { status: 400 })
+    }
+
+    const contextEntryIds = Array.isArray(body.context_entry_ids)
+      ? Array.from(new Set(body.context_entry_ids.filter((id): id is string => typeof id === 'string')))
+      : []
+    if (contextEntryIds.length > MAX_CONTEXT_ENTRIES) {
+      return NextResponse.json({ error: `At most ${MAX_CONTEXT_ENTRIES} context entries are allowed` }, { status: 400 })
+    }
+
+    // Load history before inserting the new message so it is not duplicated in the prompt
+    const { data: history } = await supabase
+      .from('chat_messages')
+      .select('role, content')
+      .eq('patient_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT)
+
+    const { data: userMessage, error: userMessageError } = await supabase
+      .from('chat_messages')
+      .insert({ patient_id: user.id, role: 'user', content: message })
+      .select()
+      .single()
+
+    if (userMessageError) {
+      console.error('Error saving chat message:', userMessageError)
+      return NextResponse.json({ error: 'Failed to save message' }, { status: 500 })
+    }
+
+    const promptPath = path.join(process.cwd(), 'prompts', 'chat_system.txt')
+
+    // ── Safety screen + context retrieval in parallel ──
+    const [promptResult, crisisResult, retrievalResult, neo4jResult, selectedResult] = await Promise.allSettled([
+      fs.readFile(promptPath, 'utf-8'),
+      assessCrisis(message),
+      getRetrievalContext(user.id, message, 3),
+      retrieveRichUserContext(user.id, { recentEntryCount: 5, featureLimit: 10, moodDays: 30 }),
+      contextEntryIds.length > 0
+        ? supabase
+            .from('journal_entries')
+            .select('id, content, created_at')
+            .eq('patient_id', user.id)
+            .in('id', contextEntryIds)
+            .order('created_at', { ascending: true })
+            .then(({ data }) => (data ?? []) as ContextEntry[])
+        : Promise.resolve([] as ContextEntry[]),
+    ])
+
+    if (promptResult.status === 'rejected') throw promptResult.reason
+
+    // assessCrisis fails safe on its own; a rejection here is unexpected but must not drop the reply
+    let crisis: CrisisAssessment | null = null
+    if (crisisResult.status === 'fulfilled') {
+      crisis = crisisResult.value
+    } else {
+      console.error('Crisis screen failed:', crisisResult.reason)
+    }
+
+    // Raise the alert before generating a reply, so a failed or abandoned completion
+    // can't drop it
+    if (crisis?.crisis_detected) {
+      const svc = await createServiceRoleClient()
+      await recordCrisisAlert(svc, {
+        patientId: user.id,
+        chatMessageId: userMessage.id,
+        severity: crisis.severity ?? 'medium',
+        source: crisis.source,
+        rationale: crisis.rationale,
+        matchedPhrases: crisis.matched_phrases,
+      })
+    }
+
+    const retrieval = retrievalResult.status === 'fulfilled'
+      ? retrievalResult.value
+      : { context: '', entryIds: [] as string[] }
+    if (retrievalResult.status === 'rejected') {
+      console.log('Embedding retrieval unavailable:', retrievalResult.reason)
+    }
+
+    const neo4jContext = neo4jResult.status === 'fulfilled' ? neo4jResult.value : null
+    if (neo4jResult.status === 'rejected') {
+      console.log('Neo4j context unavailable:', neo4jResult.reason)
+    }
+
+    const selectedEntries = selectedResult.status === 'fulfilled' ? selectedResult.value : []
+
+    const systemMessage = buildSystemMessage(
+      promptResult.value,
+      [
+        buildSelectedEntries(selectedEntries),
+        retrieval.context ? `RELATED PAST ENTRIES:\n${retrieval.context}` : null,
+        buildGraphSummary(neo4jContext),
+      ],
+      crisis
+    )
+
+    const messages: { role: 'system' | 'user' | 'assistant'; content: string }[] = [
+      { role: 'system', content: systemMessage },
+      ...(history ?? []).reverse().map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content as string })),
+      { role: 'user', content: message },
+    ]
+
+    // Persist the reply and build the API response
+    const finalize = async (reply: string): Promise<ChatResponse> => {
+      const { data: assistantMessage, error: assistantError } = await supabase
+        .from('chat_messages')
+        .insert({ patient_id: user.id, role: 'assistant', content: reply })
+        .select()
+        .single()
+
+      if (assistantError) {
+        console.error('Error saving assistant message:', assistantError)
+      }
+
+      const referencedEntries = Array.from(
+        new Set([...selectedEntries.map((e) => e.id), ...retrieval.entryIds])
+      )
+
+      return {
+        response: reply,
+        referenced_entries: referencedEntries,
+        user_message: userMessage as ChatMessage,
+        message: (assistantMessage as ChatMessage | null) ?? undefined,
+        crisis_detected: crisis?.crisis_detected ?? false,
+        crisis_severity: crisis?.severity ?? null,
+      }
+    }
+
+    const completionOptions = {
+      temperature: TEMPERATURE.chat,
+      maxTokens: MAX_TOKENS.chat,
+    }
+
+    // Stream tokens as server-sent events. A reply cut short by the client
+    // navigating away is still saved so the history matches what they saw.
+    if (body.stream) {
+      return sseResponse(async (send, signal) => {
+        let reply = ''
+        try {
+          for await (const delta of streamChatCompletion(messages, { ...completionOptions, signal })) {
+            reply += delta
+            send('delta', { text: delta })
+          }
+        } catch (error) {
+          if (!signal.aborted) throw error
+        }
+
+        // Never let a flagged conversation go out without crisis resources
+        if (crisis?.crisis_detected && !reply.includes('988')) {
+          const resources = `${reply ? '\n\n' : ''}${CRISIS_RESOURCES_TEXT}`
+          reply += resources
+          send('delta', { text: resources })
+        }
+
+        const response = await finalize(reply.trim())
+        send('done', response)
+      }, request.signal)
+    }
+
+    let reply = (await createChatCompletion(messages, completionOptions)).trim()
+
+    // Never let a flagged conversation go out without crisis resources
+    if (crisis?.crisis_detected && !reply.includes('988')) {
+      reply = `${reply}\n\n${CRISIS_RESOURCES_TEXT}`
+    }
+
+    return NextResponse.json(await finalize(reply))
+  } catch (error) {
+    console.error('Chat error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
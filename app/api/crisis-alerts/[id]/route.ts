@@ -0,0 +1,126 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { applyCrisisAlertAction, getAlertSla } from '@/lib/crisis-alerts'
+import { recordAudit, recordWriteAudit } from '@/lib/audit'
+import { NextRequest, NextResponse } from 'next/server'
+import type { CrisisAlert, CrisisAlertActionRequest } from '@/types'
+
+async function getTherapist(supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+  if (profile?.role !== 'therapist') return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+
+  return { user }
+}
+
+// GET /api/crisis-alerts/[id] - Alert with SLA status and its audit trail
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getTherapist(supabase)
+    if (auth.error) return auth.error
+
+    const { data: alert, error } = await supabase
+      .from('crisis_alerts')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching crisis alert:', error)
+      return NextResponse.json({ error: 'Failed to fetch alert' }, { status: 500 })
+    }
+    if (!alert) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 })
+    }
+
+    await recordAudit(supabase, auth.user.id, [
+      { patientId: alert.patient_id, action: 'viewed_crisis_alert', alertId: alert.id },
+    ])
+
+    const { data: events, error: eventsError } = await supabase
+      .from('crisis_alert_events')
+      .select(`
+        *,
+        actor:profiles(full_name)
+      `)
+      .eq('alert_id', id)
+      .order('created_at', { ascending: true })
+
+    if (eventsError) {
+      console.error('Error fetching crisis alert events:', eventsError)
+    }
+
+    return NextResponse.json({
+      alert: { ...alert, sla: getAlertSla(alert as CrisisAlert) },
+      events: (events ?? []).map((e) => ({
+        ...e,
+        actor: Array.isArray(e.actor) ? e.actor[0] || null : e.actor || null,
+      })),
+    })
+  } catch (error) {
+    console.error('Crisis alert GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH /api/crisis-alerts/[id] - Acknowledge, add a note, escalate or resolve
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getTherapist(supabase)
+    if (auth.error) return auth.error
+
+    const body: CrisisAlertActionRequest = await request.json()
+
+    // RLS: only alerts for the therapist's own patients are visible
+    const { data: alert, error } = await supabase
+      .from('crisis_alerts')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching crisis alert:', error)
+      return NextResponse.json({ error: 'Failed to fetch alert' }, { status: 500 })
+    }
+    if (!alert) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 })
+    }
+
+    const result = await applyCrisisAlertAction(supabase, alert as CrisisAlert, auth.user.id, body)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    await recordWriteAudit(supabase, auth.user.id, {
+      action: 'crisis_alert_updated',
+      patientId: result.alert.patient_id,
+      alertId: result.alert.id,
+      metadata: { action: body.action, status: result.alert.status, disposition: result.alert.disposition },
+    })
+
+    return NextResponse.json({
+      alert: { ...result.alert, sla: getAlertSla(result.alert) },
+      event: result.event,
+    })
+  } catch (error) {
+    console.error('Crisis alert PATCH error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
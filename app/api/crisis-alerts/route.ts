@@ -0,0 +1,63 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAlertSla, sortAlertQueue } from '@/lib/crisis-alerts'
+import { recordAudit } from '@/lib/audit'
+import { NextResponse } from 'next/server'
+import type { CrisisAlert } from '@/types'
+
+type PatientRef = { id: string; full_name: string | null }
+type AlertRow = CrisisAlert & { patient: PatientRef | PatientRef[] | null }
+
+// GET /api/crisis-alerts - Therapist queue of unresolved alerts, overdue first
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+    if (profile?.role !== 'therapist') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // RLS limits this to alerts for the therapist's own patients
+    const { data: alerts, error } = await supabase
+      .from('crisis_alerts')
+      .select(`
+        *,
+        patient:profiles!crisis_alerts_patient_id_fkey(id, full_name)
+      `)
+      .eq('resolved', false)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching crisis alerts:', error)
+      return NextResponse.json({ error: 'Failed to fetch alerts' }, { status: 500 })
+    }
+
+    const now = new Date()
+    const queue = sortAlertQueue((alerts ?? []) as AlertRow[], now).map((alert) => ({
+      ...alert,
+      patient: Array.isArray(alert.patient) ? alert.patient[0] || null : alert.patient || null,
+      sla: getAlertSla(alert, now),
+    }))
+
+    await recordAudit(
+      supabase,
+      user.id,
+      queue.map((alert) => ({ patientId: alert.patient_id, action: 'viewed_crisis_alert' as const, alertId: alert.id }))
+    )
+
+    return NextResponse.json({ alerts: queue })
+  } catch (error) {
+    console.error('Crisis alerts GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
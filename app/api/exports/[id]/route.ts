@@ -0,0 +1,56 @@
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase-server'
+import { createExportDownloadUrl } from '@/lib/data-export'
+import { recordAudit } from '@/lib/audit'
+import { NextRequest, NextResponse } from 'next/server'
+import type { DataExport } from '@/types'
+
+// GET /api/exports/[id] - Redirect to a short-lived signed download URL for a ready export
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // RLS limits this to the patient's own exports
+    const { data: job, error } = await supabase
+      .from('data_exports')
+      .select('*')
+      .eq('id', id)
+      .eq('patient_id', user.id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching data export:', error)
+      return NextResponse.json({ error: 'Failed to fetch export' }, { status: 500 })
+    }
+    if (!job) {
+      return NextResponse.json({ error: 'Export not found' }, { status: 404 })
+    }
+
+    // The bucket has no storage policies, so only the service role can sign
+    const svc = await createServiceRoleClient()
+    const url = await createExportDownloadUrl(svc, job as DataExport)
+    if (!url) {
+      return NextResponse.json({ error: 'Export is not ready or has expired' }, { status: 410 })
+    }
+
+    await recordAudit(supabase, user.id, {
+      action: 'data_export_downloaded',
+      patientId: user.id,
+      metadata: { export_id: job.id },
+    })
+
+    return NextResponse.redirect(url)
+  } catch (error) {
+    console.error('Export download error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,94 @@
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase-server'
+import { processDataExports } from '@/lib/data-export'
+import { recordWriteAudit } from '@/lib/audit'
+import { NextResponse } from 'next/server'
+
+async function getPatient(supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+  if (profile?.role !== 'patient') return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+
+  return { user }
+}
+
+// GET /api/exports - The patient's data exports, newest first (poll while one is pending)
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getPatient(supabase)
+    if (auth.error) return auth.error
+
+    const { data, error } = await supabase
+      .from('data_exports')
+      .select('id, status, format_version, size_bytes, last_error, completed_at, expires_at, created_at')
+      .eq('patient_id', auth.user.id)
+      .order('created_at', { ascending: false })
+      .limit(10)
+
+    if (error) {
+      console.error('Error fetching data exports:', error)
+      return NextResponse.json({ error: 'Failed to fetch exports' }, { status: 500 })
+    }
+
+    return NextResponse.json({ exports: data ?? [] })
+  } catch (error) {
+    console.error('Exports GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/exports - Request a full export; it is built in the background
+export async function POST() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getPatient(supabase)
+    if (auth.error) return auth.error
+
+    // One export in flight at a time
+    const { data: inFlight } = await supabase
+      .from('data_exports')
+      .select('id, status, created_at')
+      .eq('patient_id', auth.user.id)
+      .in('status', ['pending', 'processing'])
+      .limit(1)
+      .maybeSingle()
+    if (inFlight) {
+      return NextResponse.json({ export: inFlight }, { status: 200 })
+    }
+
+    const { data: created, error } = await supabase
+      .from('data_exports')
+      .insert({ patient_id: auth.user.id })
+      .select('id, status, created_at')
+      .single()
+
+    if (error) {
+      console.error('Error requesting data export:', error)
+      return NextResponse.json({ error: 'Failed to request export' }, { status: 500 })
+    }
+
+    await recordWriteAudit(supabase, auth.user.id, {
+      action: 'data_export_requested',
+      patientId: auth.user.id,
+      metadata: { export_id: created.id },
+    })
+
+    // Start building without holding the response; `npm run exports:process` picks up
+    // anything this misses (or that fails and is retried)
+    const svc = await createServiceRoleClient()
+    processDataExports(svc, { exportId: created.id }).catch((e) => console.error('Data export start failed:', e))
+
+    return NextResponse.json({ export: created }, { status: 202 })
+  } catch (error) {
+    console.error('Exports POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
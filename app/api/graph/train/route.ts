@@ -1,10 +1,11 @@
-import { createServerSupabaseClient } from '@/lib/supabase-server'
-import { ensureNeo4jSchema } from '@/lib/neo4jSchema'
-import { trainAndStoreUserCalibrationModel } from '@/lib/graph/calibration'
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase-server'
+import { enqueueJob } from '@/lib/jobs'
+import { processJob } from '@/lib/job-worker'
 import { NextRequest, NextResponse } from 'next/server'
 
 // POST /api/graph/train
-// Trains/updates the per-user calibration model from self-report labels stored in Neo4j.
+// Queues a retrain of the per-user calibration model from self-report labels stored in
+// Neo4j. Returns 202 with the job; poll GET /api/jobs?id= for the result.
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createServerSupabaseClient()
@@ -25,16 +26,16 @@ export async function POST(request: NextRequest) {
       bootstrapSamples?: number
     } = await request.json().catch(() => ({}))
 
-    await ensureNeo4jSchema()
-
-    const result = await trainAndStoreUserCalibrationModel(user.id, {
-      lambda,
-      maxFeatures,
-      minTrainingN,
-      bootstrapSamples,
+    const svc = await createServiceRoleClient()
+    const job = await enqueueJob(svc, {
+      type: 'train_calibration',
+      patientId: user.id,
+      payload: { lambda, maxFeatures, minTrainingN, bootstrapSamples },
     })
 
-    return NextResponse.json({ result })
+    processJob(svc, job).catch((e) => console.error('Calibration training failed:', e))
+
+    return NextResponse.json({ job: { id: job.id, status: job.status } }, { status: 202 })
   } catch (error) {
     console.error('Graph train error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -0,0 +1,46 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { recordWriteAudit } from '@/lib/audit'
+import { NextRequest, NextResponse } from 'next/server'
+
+// DELETE /api/invites/[id] - Revoke a pending invite so its code can no longer be redeemed
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // RLS limits this to the therapist's own invites
+    const { data: invite, error } = await supabase
+      .from('therapist_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('therapist_id', user.id)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error revoking invite:', error)
+      return NextResponse.json({ error: 'Failed to revoke invite' }, { status: 500 })
+    }
+    if (!invite) {
+      return NextResponse.json({ error: 'Invite not found or already used' }, { status: 404 })
+    }
+
+    await recordWriteAudit(supabase, user.id, { action: 'invite_revoked', metadata: { invite_id: invite.id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Invite DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
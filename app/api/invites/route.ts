@@ -0,0 +1,105 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { recordWriteAudit } from '@/lib/audit'
+import {
+  INVITE_DEFAULT_DAYS,
+  INVITE_MAX_DAYS,
+  generateInviteCode,
+  getInviteStatus,
+  inviteLink,
+} from '@/lib/therapist-links'
+import { NextResponse } from 'next/server'
+import type { TherapistInvite } from '@/types'
+
+async function getTherapist(supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+  if (profile?.role !== 'therapist') return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+
+  return { user }
+}
+
+// GET /api/invites - Therapist's invite codes with their status
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getTherapist(supabase)
+    if (auth.error) return auth.error
+
+    const { data: invites, error } = await supabase
+      .from('therapist_invites')
+      .select('*')
+      .eq('therapist_id', auth.user.id)
+      .order('created_at', { ascending: false })
+      .limit(50)
+
+    if (error) {
+      console.error('Error fetching invites:', error)
+      return NextResponse.json({ error: 'Failed to fetch invites' }, { status: 500 })
+    }
+
+    const now = new Date()
+    return NextResponse.json({
+      invites: ((invites ?? []) as TherapistInvite[]).map((invite) => ({
+        ...invite,
+        status: getInviteStatus(invite, now),
+        link: inviteLink(invite.code),
+      })),
+    })
+  } catch (error) {
+    console.error('Invites GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/invites - Create an invite code ({ expires_in_days } defaults to 7, max 30)
+export async function POST(request: Request) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getTherapist(supabase)
+    if (auth.error) return auth.error
+
+    const body = await request.json().catch(() => ({}))
+    const days = Number(body.expires_in_days ?? INVITE_DEFAULT_DAYS)
+    if (!Number.isInteger(days) || days < 1 || days > INVITE_MAX_DAYS) {
+      return NextResponse.json({ error: `expires_in_days must be 1-${INVITE_MAX_DAYS}` }, { status: 400 })
+    }
+    const expires_at = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+
+    // Retry on the (unlikely) chance of a code collision
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const { data: invite, error } = await supabase
+        .from('therapist_invites')
+        .insert({ therapist_id: auth.user.id, code: generateInviteCode(), expires_at })
+        .select()
+        .single()
+
+      if (!error) {
+        await recordWriteAudit(supabase, auth.user.id, {
+          action: 'invite_created',
+          metadata: { invite_id: invite.id, expires_at },
+        })
+        return NextResponse.json(
+          { invite: { ...invite, status: 'pending', link: inviteLink(invite.code) } },
+          { status: 201 }
+        )
+      }
+      if (error.code !== '23505') {
+        console.error('Error creating invite:', error)
+        return NextResponse.json({ error: 'Failed to create invite' }, { status: 500 })
+      }
+    }
+
+    return NextResponse.json({ error: 'Failed to create invite' }, { status: 500 })
+  } catch (error) {
+    console.error('Invites POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { NextRequest, NextResponse } from 'next/server'
+
+// GET /api/jobs - The patient's background jobs, newest first, optionally for one entry
+// (?entry_id=) or one job (?id=). `active` tells the UI whether to keep polling.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const entryId = searchParams.get('entry_id')
+    const id = searchParams.get('id')
+
+    // last_error stays server-side: it can quote model output or internals
+    let query = supabase
+      .from('jobs')
+      .select('id, type, entry_id, status, attempts, max_attempts, result, next_attempt_at, completed_at, created_at')
+      .eq('patient_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    if (entryId) query = query.eq('entry_id', entryId)
+    if (id) query = query.eq('id', id)
+
+    const { data: jobs, error } = await query
+
+    if (error) {
+      console.error('Error fetching jobs:', error)
+      return NextResponse.json({ error: 'Failed to fetch jobs' }, { status: 500 })
+    }
+
+    const active = (jobs ?? []).some((job) => job.status === 'pending' || job.status === 'processing')
+
+    return NextResponse.json({ jobs: jobs ?? [], active })
+  } catch (error) {
+    console.error('Jobs GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { NextRequest, NextResponse } from 'next/server'
+
+// GET /api/journal/[id]/revisions - Earlier wording of an entry, newest first.
+// Restore one with PATCH /api/journal/[id] { restore_revision_id }.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: revisions, error } = await supabase
+      .from('entry_revisions')
+      .select('*')
+      .eq('entry_id', id)
+      .eq('patient_id', user.id)
+      .order('replaced_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching entry revisions:', error)
+      return NextResponse.json({ error: 'Failed to fetch revisions' }, { status: 500 })
+    }
+
+    return NextResponse.json({ revisions })
+  } catch (error) {
+    console.error('Entry revisions GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,11 @@
-import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase-server'
 import { NextRequest, NextResponse } from 'next/server'
-import type { UpdateJournalRequest } from '@/types'
+import { parseSelfReportMood } from '@/lib/self-reports'
+import { screenJournalEntry, type CrisisAssessment } from '@/lib/crisis'
+import { parseRedactions, resolveRequestedScopes } from '@/lib/sharing'
+import { recordWriteAudit } from '@/lib/audit'
+import { queueEntryAnalysis, queueGraphSync } from '@/lib/job-worker'
+import type { ShareScope, UpdateJournalRequest } from '@/types'
 
 // GET /api/journal/[id] - Get a single journal entry
 export async function GET(
@@ -23,6 +28,7 @@ export async function GET(
       .select(`
         *,
         structured_log:structured_logs(*),
+        self_report:self_reports(*),
         ai_extraction:ai_extractions(*)
       `)
       .eq('id', id)
@@ -43,6 +49,9 @@ export async function GET(
       structured_log: Array.isArray(entry.structured_log) 
         ? entry.structured_log[0] || null 
         : entry.structured_log || null,
+      self_report: Array.isArray(entry.self_report)
+        ? entry.self_report[0] || null
+        : entry.self_report || null,
       ai_extraction: Array.isArray(entry.ai_extraction) 
         ? entry.ai_extraction[0] || null 
         : entry.ai_extraction || null,
@@ -73,11 +82,57 @@ export async function PATCH(
     // Parse request body
     const body: UpdateJournalRequest = await request.json()
 
+    const selfReport = parseSelfReportMood(body.self_report_mood)
+    if (!selfReport.ok) {
+      return NextResponse.json({ error: selfReport.error }, { status: 400 })
+    }
+
     // Update journal entry
     const updateData: Record<string, unknown> = {}
     if (body.content !== undefined) updateData.content = body.content
+
+    // Restoring saves the current wording as a revision too (see handle_entry_revision)
+    if (body.restore_revision_id !== undefined) {
+      if (body.content !== undefined) {
+        return NextResponse.json({ error: 'Send either content or restore_revision_id' }, { status: 400 })
+      }
+      const { data: revision } = await supabase
+        .from('entry_revisions')
+        .select('content')
+        .eq('id', body.restore_revision_id)
+        .eq('entry_id', id)
+        .maybeSingle()
+      if (!revision) {
+        return NextResponse.json({ error: 'Revision not found' }, { status: 404 })
+      }
+      updateData.content = revision.content
+    }
     if (body.is_draft !== undefined) updateData.is_draft = body.is_draft
-    if (body.shared_with_therapist !== undefined) updateData.shared_with_therapist = body.shared_with_therapist
+
+    // Sharing scopes and redactions (the database masks redacted passages for therapists)
+    if (body.share_scopes !== undefined || body.shared_with_therapist !== undefined) {
+      let defaultScopes: ShareScope[] = []
+      if (body.share_scopes === undefined && body.shared_with_therapist) {
+        const { data: sharingPrefs } = await supabase
+          .from('sharing_preferences')
+          .select('default_scopes')
+          .eq('patient_id', user.id)
+          .maybeSingle()
+        defaultScopes = (sharingPrefs?.default_scopes ?? []) as ShareScope[]
+      }
+      const requested = resolveRequestedScopes(body, defaultScopes)
+      if (requested.error) {
+        return NextResponse.json({ error: requested.error }, { status: 400 })
+      }
+      updateData.share_scopes = requested.scopes
+    }
+    if (body.share_redactions !== undefined) {
+      const shareRedactions = parseRedactions(body.share_redactions)
+      if (!shareRedactions) {
+        return NextResponse.json({ error: 'share_redactions must be a list of passages' }, { status: 400 })
+      }
+      updateData.share_redactions = shareRedactions
+    }
 
     const { data: entry, error: entryError } = await supabase
       .from('journal_entries')
@@ -119,7 +174,70 @@ export async function PATCH(
       }
     }
 
-    return NextResponse.json({ entry })
+    // Upsert or clear self-report if provided
+    const selfReportMood = selfReport.mood
+    if (selfReportMood !== undefined) {
+      const { error: reportError } = selfReportMood === null
+        ? await supabase
+            .from('self_reports')
+            .delete()
+            .eq('entry_id', id)
+        : await supabase
+            .from('self_reports')
+            .upsert(
+              { entry_id: id, patient_id: user.id, mood: selfReportMood },
+              { onConflict: 'entry_id' }
+            )
+
+      if (reportError) {
+        console.error('Error updating self report:', reportError)
+      }
+    }
+
+    const contentChanged = updateData.content !== undefined
+    // Re-sync the graph when anything it mirrors changed (sharing alone does not)
+    const graphChanged =
+      contentChanged ||
+      body.is_draft !== undefined ||
+      body.structured_log !== undefined ||
+      selfReportMood !== undefined
+    // Re-screen for crisis language and re-extract when the text changed or a draft was
+    // published (extracting unchanged text reuses the stored run)
+    const needsAnalysis = !entry.is_draft && (contentChanged || body.is_draft !== undefined)
+
+    let crisis: CrisisAssessment | null = null
+    if (graphChanged || needsAnalysis) {
+      const svc = await createServiceRoleClient()
+      if (needsAnalysis) {
+        crisis = await screenJournalEntry(svc, { patientId: user.id, entryId: id, content: entry.content })
+        // Includes the graph write, after the new extraction
+        await queueEntryAnalysis(svc, { patientId: user.id, entryId: id })
+      } else {
+        await queueGraphSync(svc, { patientId: user.id, entryId: id })
+      }
+    }
+
+    // Field names only: the audit log never holds journal text
+    await recordWriteAudit(supabase, user.id, {
+      action: 'entry_updated',
+      patientId: user.id,
+      entryIds: [id],
+      metadata: {
+        fields: [
+          ...Object.keys(updateData),
+          ...(body.structured_log !== undefined ? ['structured_log'] : []),
+          ...(selfReportMood !== undefined ? ['self_report'] : []),
+        ],
+        share_scopes: entry.share_scopes,
+        ...(body.restore_revision_id !== undefined ? { restored_revision_id: body.restore_revision_id } : {}),
+      },
+    })
+
+    return NextResponse.json({
+      entry,
+      crisis_detected: crisis?.crisis_detected ?? false,
+      crisis_severity: crisis?.severity ?? null,
+    })
   } catch (error) {
     console.error('Journal PATCH error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -142,17 +260,29 @@ export async function DELETE(
     }
 
     // Delete entry (cascade will handle related records)
-    const { error } = await supabase
+    const { data: deleted, error } = await supabase
       .from('journal_entries')
       .delete()
       .eq('id', id)
       .eq('patient_id', user.id)
+      .select('id')
 
     if (error) {
       console.error('Error deleting entry:', error)
       return NextResponse.json({ error: 'Failed to delete entry' }, { status: 500 })
     }
 
+    // Nothing matched: not this patient's entry, or already gone
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 })
+    }
+
+    // Remove the Entry from Neo4j and repair the NEXT chain (a job, retried on failure)
+    const svc = await createServiceRoleClient()
+    await queueGraphSync(svc, { patientId: user.id, entryId: id, deleted: true })
+
+    await recordWriteAudit(supabase, user.id, { action: 'entry_deleted', patientId: user.id, entryIds: [id] })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Journal DELETE error:', error)
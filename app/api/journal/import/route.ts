@@ -0,0 +1,145 @@
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase-server'
+import {
+  createJournalImport,
+  expandImportFiles,
+  getImportProgress,
+  parseImportFiles,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ENTRIES,
+} from '@/lib/journal-import'
+import { recordWriteAudit } from '@/lib/audit'
+import { processJobs } from '@/lib/job-worker'
+import { NextRequest, NextResponse } from 'next/server'
+import type { JournalImport, JournalImportFormat } from '@/types'
+
+const FORMATS: JournalImportFormat[] = ['day_one', 'markdown', 'csv']
+
+async function getPatient(supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+  if (profile?.role !== 'patient') return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+
+  return { user }
+}
+
+// GET /api/journal/import - Recent imports with processing progress (poll while one is running)
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getPatient(supabase)
+    if (auth.error) return auth.error
+
+    const { data, error } = await supabase
+      .from('journal_imports')
+      .select('*')
+      .eq('patient_id', auth.user.id)
+      .order('created_at', { ascending: false })
+      .limit(10)
+
+    if (error) {
+      console.error('Error fetching journal imports:', error)
+      return NextResponse.json({ error: 'Failed to fetch imports' }, { status: 500 })
+    }
+
+    const imports = (data ?? []) as JournalImport[]
+    const svc = await createServiceRoleClient()
+    const progress = await getImportProgress(svc, imports.filter((i) => i.imported_count > 0).map((i) => i.id))
+
+    return NextResponse.json({
+      imports: imports.map((i) => ({
+        ...i,
+        processed_count: progress.get(i.id)?.processed ?? 0,
+        failed_count: progress.get(i.id)?.failed ?? 0,
+      })),
+    })
+  } catch (error) {
+    console.error('Journal import GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/journal/import - Upload files (multipart: files[], format?, timezone)
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getPatient(supabase)
+    if (auth.error) return auth.error
+
+    const form = await request.formData()
+    const uploads = form.getAll('files').filter((f): f is File => typeof f !== 'string')
+    if (uploads.length === 0) {
+      return NextResponse.json({ error: 'Choose at least one file to import' }, { status: 400 })
+    }
+    if (uploads.reduce((sum, f) => sum + f.size, 0) > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: 'Upload is too large (25 MB max)' }, { status: 413 })
+    }
+
+    const format = form.get('format')
+    if (format && !FORMATS.includes(format as JournalImportFormat)) {
+      return NextResponse.json({ error: `format must be one of: ${FORMATS.join(', ')}` }, { status: 400 })
+    }
+    const timeZone = String(form.get('timezone') || 'UTC')
+
+    const expanded = expandImportFiles(
+      await Promise.all(uploads.map(async (f) => ({ name: f.name, data: new Uint8Array(await f.arrayBuffer()) })))
+    )
+    if (!expanded.files) {
+      return NextResponse.json({ error: expanded.error }, { status: 400 })
+    }
+
+    const parsed = parseImportFiles(expanded.files, {
+      format: (format as JournalImportFormat | null) || undefined,
+      timeZone,
+    })
+    if (!parsed) {
+      return NextResponse.json({ error: 'Unrecognised files: upload Day One JSON, Markdown or CSV' }, { status: 400 })
+    }
+    if (parsed.entries.length === 0) {
+      return NextResponse.json({ error: 'No entries found in the upload', problems: parsed.problems.slice(0, 20) }, { status: 400 })
+    }
+    if (parsed.entries.length > MAX_IMPORT_ENTRIES) {
+      return NextResponse.json({ error: `Imports are limited to ${MAX_IMPORT_ENTRIES} entries; split the files` }, { status: 413 })
+    }
+
+    const svc = await createServiceRoleClient()
+    const created = await createJournalImport(supabase, svc, {
+      patientId: auth.user.id,
+      fileNames: uploads.map((f) => f.name),
+      parsed,
+    })
+
+    await recordWriteAudit(supabase, auth.user.id, {
+      action: 'entries_imported',
+      patientId: auth.user.id,
+      metadata: {
+        import_id: created.id,
+        format: created.format,
+        imported: created.imported_count,
+        duplicates: created.duplicate_count,
+        skipped: created.skipped_count,
+      },
+    })
+
+    // Start processing without holding the response; `npm run jobs:work` picks up the
+    // rest (and retries failures)
+    if (created.status === 'processing') {
+      processJobs(svc, { patientId: auth.user.id, limit: 25 }).catch((e) => console.error('Journal import start failed:', e))
+    }
+
+    return NextResponse.json(
+      { import: { ...created, processed_count: 0, failed_count: 0 } },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Journal import POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,11 @@
-import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase-server'
 import { NextRequest, NextResponse } from 'next/server'
-import type { CreateJournalRequest } from '@/types'
+import { parseSelfReportMood } from '@/lib/self-reports'
+import { queueEntryAnalysis } from '@/lib/job-worker'
+import { screenJournalEntry, type CrisisAssessment } from '@/lib/crisis'
+import { parseRedactions, resolveRequestedScopes } from '@/lib/sharing'
+import { recordWriteAudit } from '@/lib/audit'
+import type { CreateJournalRequest, ShareScope } from '@/types'
 
 // GET /api/journal - List patient's journal entries
 export async function GET(request: NextRequest) {
@@ -25,6 +30,7 @@ export async function GET(request: NextRequest) {
       .select(`
         *,
         structured_log:structured_logs(*),
+        self_report:self_reports(*),
         ai_extraction:ai_extractions(*)
       `)
       .eq('patient_id', user.id)
@@ -48,6 +54,9 @@ export async function GET(request: NextRequest) {
       structured_log: Array.isArray(entry.structured_log) 
         ? entry.structured_log[0] || null 
         : entry.structured_log || null,
+      self_report: Array.isArray(entry.self_report)
+        ? entry.self_report[0] || null
+        : entry.self_report || null,
       ai_extraction: Array.isArray(entry.ai_extraction) 
         ? entry.ai_extraction[0] || null 
         : entry.ai_extraction || null,
@@ -78,6 +87,28 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Content is required' }, { status: 400 })
     }
 
+    const selfReport = parseSelfReportMood(body.self_report_mood)
+    if (!selfReport.ok) {
+      return NextResponse.json({ error: selfReport.error }, { status: 400 })
+    }
+
+    // Sharing: explicit scopes, else the patient's default for new entries
+    const { data: sharingPrefs } = await supabase
+      .from('sharing_preferences')
+      .select('default_scopes')
+      .eq('patient_id', user.id)
+      .maybeSingle()
+    const defaultScopes = (sharingPrefs?.default_scopes ?? []) as ShareScope[]
+
+    const requested = resolveRequestedScopes(body, defaultScopes)
+    if (requested.error) {
+      return NextResponse.json({ error: requested.error }, { status: 400 })
+    }
+    const shareRedactions = body.share_redactions === undefined ? [] : parseRedactions(body.share_redactions)
+    if (!shareRedactions) {
+      return NextResponse.json({ error: 'share_redactions must be a list of passages' }, { status: 400 })
+    }
+
     // Create journal entry
     const { data: entry, error: entryError } = await supabase
       .from('journal_entries')
@@ -85,7 +116,8 @@ export async function POST(request: NextRequest) {
         patient_id: user.id,
         content: body.content,
         is_draft: body.is_draft ?? false,
-        shared_with_therapist: body.shared_with_therapist ?? false,
+        share_scopes: requested.scopes ?? defaultScopes,
+        share_redactions: shareRedactions,
       })
       .select()
       .single()
@@ -110,7 +142,46 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    return NextResponse.json({ entry }, { status: 201 })
+    // Create self-report if provided
+    const selfReportMood = selfReport.mood
+    if (typeof selfReportMood === 'number') {
+      const { error: reportError } = await supabase
+        .from('self_reports')
+        .insert({
+          entry_id: entry.id,
+          patient_id: user.id,
+          mood: selfReportMood,
+        })
+
+      if (reportError) {
+        console.error('Error creating self report:', reportError)
+      }
+    }
+
+    let crisis: CrisisAssessment | null = null
+    if (!entry.is_draft) {
+      const svc = await createServiceRoleClient()
+
+      // Dedicated crisis pass (lexicon + classifier); raises an alert, failing safe
+      crisis = await screenJournalEntry(svc, { patientId: user.id, entryId: entry.id, content: entry.content })
+
+      // Extraction, embeddings and the Neo4j mirror (Entry, ContextPoint, SelfReport and
+      // the extracted reading) run as background jobs, retried until they succeed
+      await queueEntryAnalysis(svc, { patientId: user.id, entryId: entry.id })
+    }
+
+    await recordWriteAudit(supabase, user.id, {
+      action: 'entry_created',
+      patientId: user.id,
+      entryIds: [entry.id],
+      metadata: { is_draft: entry.is_draft, share_scopes: entry.share_scopes },
+    })
+
+    return NextResponse.json({
+      entry,
+      crisis_detected: crisis?.crisis_detected ?? false,
+      crisis_severity: crisis?.severity ?? null,
+    }, { status: 201 })
   } catch (error) {
     console.error('Journal POST error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
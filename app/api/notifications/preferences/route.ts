@@ -0,0 +1,159 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { defaultNotificationPreferences } from '@/lib/notifications/crisisNotifications'
+import { generateWebhookSecret, webhookUrlProblem } from '@/lib/notifications/webhook'
+import { recordWriteAudit } from '@/lib/audit'
+import { NextResponse } from 'next/server'
+import type { CrisisSeverity, NotificationPreferences } from '@/types'
+
+const SEVERITIES: CrisisSeverity[] = ['low', 'medium', 'high']
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/
+
+async function getTherapist() {
+  const supabase = await createServerSupabaseClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { supabase, user: null, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+  if (profile?.role !== 'therapist') {
+    return { supabase, user: null, response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+
+  return { supabase, user, response: null }
+}
+
+function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// GET /api/notifications/preferences - Therapist's notification settings (defaults if never saved)
+export async function GET() {
+  try {
+    const { supabase, user, response } = await getTherapist()
+    if (!user) return response
+
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('therapist_id', user.id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching notification preferences:', error)
+      return NextResponse.json({ error: 'Failed to fetch preferences' }, { status: 500 })
+    }
+
+    return NextResponse.json({ preferences: data ?? defaultNotificationPreferences(user.id) })
+  } catch (error) {
+    console.error('Notification preferences GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT /api/notifications/preferences - Save settings; { rotate_webhook_secret: true } issues a new secret
+export async function PUT(request: Request) {
+  try {
+    const { supabase, user, response } = await getTherapist()
+    if (!user) return response
+
+    const body = await request.json()
+
+    const { data: existing } = await supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('therapist_id', user.id)
+      .maybeSingle()
+    const current: NotificationPreferences = existing ?? defaultNotificationPreferences(user.id)
+
+    const email_address = typeof body.email_address === 'string' && body.email_address.trim()
+      ? body.email_address.trim()
+      : null
+    if (email_address && !/^[^\s@]+@[^\s@]+$/.test(email_address)) {
+      return NextResponse.json({ error: 'Invalid email address' }, { status: 400 })
+    }
+
+    const webhook_url = typeof body.webhook_url === 'string' && body.webhook_url.trim()
+      ? body.webhook_url.trim()
+      : null
+    const webhookProblem = webhook_url ? webhookUrlProblem(webhook_url) : null
+    if (webhookProblem) {
+      return NextResponse.json({ error: webhookProblem }, { status: 400 })
+    }
+    const webhook_enabled = Boolean(body.webhook_enabled)
+    if (webhook_enabled && !webhook_url) {
+      return NextResponse.json({ error: 'A webhook URL is required to enable webhooks' }, { status: 400 })
+    }
+
+    const min_severity = SEVERITIES.includes(body.min_severity) ? body.min_severity : current.min_severity
+
+    const quiet_hours_start = body.quiet_hours_start || null
+    const quiet_hours_end = body.quiet_hours_end || null
+    if (
+      (quiet_hours_start && !TIME_PATTERN.test(quiet_hours_start)) ||
+      (quiet_hours_end && !TIME_PATTERN.test(quiet_hours_end)) ||
+      Boolean(quiet_hours_start) !== Boolean(quiet_hours_end)
+    ) {
+      return NextResponse.json({ error: 'Quiet hours need both a start and end time (HH:MM)' }, { status: 400 })
+    }
+
+    const timezone = typeof body.timezone === 'string' && body.timezone ? body.timezone : current.timezone
+    if (!isValidTimezone(timezone)) {
+      return NextResponse.json({ error: 'Unknown timezone' }, { status: 400 })
+    }
+
+    const webhook_secret = body.rotate_webhook_secret || (webhook_url && !current.webhook_secret)
+      ? generateWebhookSecret()
+      : current.webhook_secret
+
+    const { data: preferences, error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        therapist_id: user.id,
+        email_enabled: Boolean(body.email_enabled),
+        email_address,
+        webhook_enabled,
+        webhook_url,
+        webhook_secret,
+        in_app_enabled: Boolean(body.in_app_enabled),
+        min_severity,
+        quiet_hours_start,
+        quiet_hours_end,
+        timezone,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving notification preferences:', error)
+      return NextResponse.json({ error: 'Failed to save preferences' }, { status: 500 })
+    }
+
+    // Which channels are on, not the addresses or secret
+    await recordWriteAudit(supabase, user.id, {
+      action: 'notification_preferences_updated',
+      metadata: {
+        email_enabled: preferences.email_enabled,
+        webhook_enabled: preferences.webhook_enabled,
+        in_app_enabled: preferences.in_app_enabled,
+        min_severity: preferences.min_severity,
+        webhook_secret_rotated: webhook_secret !== current.webhook_secret,
+      },
+    })
+
+    return NextResponse.json({ preferences })
+  } catch (error) {
+    console.error('Notification preferences PUT error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { NextResponse } from 'next/server'
+
+// GET /api/notifications - Current user's recent in-app notifications
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: notifications, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('recipient_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(50)
+
+    if (error) {
+      console.error('Error fetching notifications:', error)
+      return NextResponse.json({ error: 'Failed to fetch notifications' }, { status: 500 })
+    }
+
+    const unread = (notifications ?? []).filter((n) => !n.read_at).length
+    return NextResponse.json({ notifications: notifications ?? [], unread })
+  } catch (error) {
+    console.error('Notifications GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH /api/notifications - Mark notifications read ({ ids } or { all: true })
+export async function PATCH(request: Request) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const ids = Array.isArray(body.ids) ? body.ids.filter((id: unknown) => typeof id === 'string') : []
+    if (!body.all && ids.length === 0) {
+      return NextResponse.json({ error: 'ids or all is required' }, { status: 400 })
+    }
+
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('recipient_id', user.id)
+      .is('read_at', null)
+    if (!body.all) query = query.in('id', ids)
+
+    const { error } = await query
+    if (error) {
+      console.error('Error marking notifications read:', error)
+      return NextResponse.json({ error: 'Failed to update notifications' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Notifications PATCH error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
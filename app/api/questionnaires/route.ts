@@ -0,0 +1,132 @@
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase-server'
+import {
+  advanceQuestionnaireSchedule,
+  parseQuestionnaireSubmission,
+  screenQuestionnaireResponse,
+} from '@/lib/questionnaires'
+import { scoreInstrument } from '@/lib/clinical-scales'
+import { recordWriteAudit } from '@/lib/audit'
+import { NextResponse } from 'next/server'
+
+async function getPatient(supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+  if (profile?.role !== 'patient') return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+
+  return { user }
+}
+
+// GET /api/questionnaires - The patient's questionnaire schedules and recent results
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getPatient(supabase)
+    if (auth.error) return auth.error
+
+    const { data: schedules, error: scheduleError } = await supabase
+      .from('questionnaire_schedules')
+      .select('instrument, interval_days, next_due_at, active')
+      .eq('patient_id', auth.user.id)
+      .eq('active', true)
+
+    const { data: responses, error: responseError } = await supabase
+      .from('questionnaire_responses')
+      .select('id, instrument, total_score, severity, difficulty, created_at')
+      .eq('patient_id', auth.user.id)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    if (scheduleError || responseError) {
+      console.error('Error fetching questionnaires:', scheduleError ?? responseError)
+      return NextResponse.json({ error: 'Failed to fetch questionnaires' }, { status: 500 })
+    }
+
+    return NextResponse.json({ schedules: schedules ?? [], responses: responses ?? [] })
+  } catch (error) {
+    console.error('Questionnaires GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/questionnaires - Submit a completed questionnaire ({ instrument, answers, difficulty? })
+export async function POST(request: Request) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getPatient(supabase)
+    if (auth.error) return auth.error
+
+    const submission = parseQuestionnaireSubmission(await request.json().catch(() => ({})))
+    if (!submission.ok) {
+      return NextResponse.json({ error: submission.error }, { status: 400 })
+    }
+
+    const { total, severity } = scoreInstrument(submission.instrument, submission.answers)
+
+    const { data: response, error } = await supabase
+      .from('questionnaire_responses')
+      .insert({
+        patient_id: auth.user.id,
+        instrument: submission.instrument,
+        total_score: total,
+        severity,
+        difficulty: submission.difficulty,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving questionnaire response:', error)
+      return NextResponse.json({ error: 'Failed to save questionnaire' }, { status: 500 })
+    }
+
+    const { error: itemsError } = await supabase
+      .from('questionnaire_item_responses')
+      .insert(submission.answers.map((score, i) => ({ response_id: response.id, item_number: i + 1, score })))
+
+    if (itemsError) {
+      console.error('Error saving questionnaire items:', itemsError)
+      // Responses can't be edited by patients; remove the incomplete one as the service role
+      const svc = await createServiceRoleClient()
+      await svc.from('questionnaire_responses').delete().eq('id', response.id)
+      return NextResponse.json({ error: 'Failed to save questionnaire' }, { status: 500 })
+    }
+
+    // Screen first: a crisis answer must raise its alert whatever else fails below
+    const svc = await createServiceRoleClient()
+    const crisisSeverity = await screenQuestionnaireResponse(svc, {
+      patientId: auth.user.id,
+      instrument: submission.instrument,
+      answers: submission.answers,
+    })
+
+    // The response is saved; a schedule that fails to advance only means an early reminder
+    try {
+      await advanceQuestionnaireSchedule(svc, { patientId: auth.user.id, instrument: submission.instrument })
+    } catch (e) {
+      console.error('Error advancing questionnaire schedule:', e)
+    }
+
+    await recordWriteAudit(supabase, auth.user.id, {
+      action: 'questionnaire_completed',
+      patientId: auth.user.id,
+      metadata: { instrument: submission.instrument, response_id: response.id },
+    })
+
+    return NextResponse.json({
+      response,
+      crisis_detected: crisisSeverity !== null,
+      crisis_severity: crisisSeverity,
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Questionnaires POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,125 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { nextDueAt } from '@/lib/questionnaires'
+import { INSTRUMENTS, isQuestionnaireInstrument } from '@/lib/instruments'
+import { recordWriteAudit } from '@/lib/audit'
+import { NextResponse } from 'next/server'
+import type { SetQuestionnaireScheduleRequest } from '@/types'
+
+async function getTherapist(supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+  if (profile?.role !== 'therapist') return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+
+  return { user }
+}
+
+// PUT /api/questionnaires/schedules - Set how often a patient completes an instrument
+// ({ patient_id, instrument, interval_days }; interval_days null stops the schedule).
+// The next one is due an interval after the last completion, or right away.
+export async function PUT(request: Request) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getTherapist(supabase)
+    if (auth.error) return auth.error
+
+    const body: Partial<SetQuestionnaireScheduleRequest> = await request.json().catch(() => ({}))
+    if (typeof body.patient_id !== 'string' || !isQuestionnaireInstrument(body.instrument)) {
+      return NextResponse.json(
+        { error: `patient_id and instrument (${Object.keys(INSTRUMENTS).join(', ')}) are required` },
+        { status: 400 }
+      )
+    }
+    const intervalDays = body.interval_days ?? null
+    if (intervalDays !== null && (!Number.isInteger(intervalDays) || intervalDays < 1 || intervalDays > 365)) {
+      return NextResponse.json({ error: 'interval_days must be between 1 and 365' }, { status: 400 })
+    }
+
+    const { data: relationship } = await supabase
+      .from('patient_therapist')
+      .select('patient_id')
+      .eq('therapist_id', auth.user.id)
+      .eq('patient_id', body.patient_id)
+      .maybeSingle()
+    if (!relationship) {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 })
+    }
+
+    const { data: existing } = await supabase
+      .from('questionnaire_schedules')
+      .select('*')
+      .eq('patient_id', body.patient_id)
+      .eq('instrument', body.instrument)
+      .maybeSingle()
+
+    let schedule = existing
+    if (intervalDays === null) {
+      if (existing?.active) {
+        const { data, error } = await supabase
+          .from('questionnaire_schedules')
+          .update({ active: false, set_by: auth.user.id })
+          .eq('id', existing.id)
+          .select()
+          .single()
+        if (error) {
+          console.error('Error stopping questionnaire schedule:', error)
+          return NextResponse.json({ error: 'Failed to update schedule' }, { status: 500 })
+        }
+        schedule = data
+      }
+    } else {
+      const { data: last } = await supabase
+        .from('questionnaire_responses')
+        .select('created_at')
+        .eq('patient_id', body.patient_id)
+        .eq('instrument', body.instrument)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+      const due = last ? nextDueAt(intervalDays, new Date(last.created_at)) : new Date().toISOString()
+
+      // Keep an already-sent reminder only if the due date stays the same
+      const sameDue =
+        existing?.active && new Date(existing.next_due_at).getTime() === new Date(due).getTime()
+
+      const { data, error } = await supabase
+        .from('questionnaire_schedules')
+        .upsert(
+          {
+            patient_id: body.patient_id,
+            instrument: body.instrument,
+            interval_days: intervalDays,
+            next_due_at: due,
+            reminded_at: sameDue ? existing.reminded_at : null,
+            set_by: auth.user.id,
+            active: true,
+          },
+          { onConflict: 'patient_id,instrument' }
+        )
+        .select()
+        .single()
+      if (error) {
+        console.error('Error saving questionnaire schedule:', error)
+        return NextResponse.json({ error: 'Failed to update schedule' }, { status: 500 })
+      }
+      schedule = data
+    }
+
+    await recordWriteAudit(supabase, auth.user.id, {
+      action: 'questionnaire_schedule_updated',
+      patientId: body.patient_id,
+      metadata: { instrument: body.instrument, interval_days: intervalDays },
+    })
+
+    return NextResponse.json({ schedule })
+  } catch (error) {
+    console.error('Questionnaire schedules PUT error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
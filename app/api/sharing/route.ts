@@ -0,0 +1,111 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { ALL_SHARE_SCOPES, parseShareScopes } from '@/lib/sharing'
+import { recordWriteAudit } from '@/lib/audit'
+import { NextResponse } from 'next/server'
+
+// GET /api/sharing - Patient's default sharing scopes for new entries
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('sharing_preferences')
+      .select('default_scopes')
+      .eq('patient_id', user.id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching sharing preferences:', error)
+      return NextResponse.json({ error: 'Failed to fetch sharing preferences' }, { status: 500 })
+    }
+
+    return NextResponse.json({ default_scopes: data?.default_scopes ?? [] })
+  } catch (error) {
+    console.error('Sharing GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT /api/sharing - Set default scopes ({ default_scopes: [] } keeps new entries private)
+export async function PUT(request: Request) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const defaultScopes = parseShareScopes(body.default_scopes)
+    if (!defaultScopes) {
+      return NextResponse.json(
+        { error: `default_scopes must be a list of: ${ALL_SHARE_SCOPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('sharing_preferences')
+      .upsert({ patient_id: user.id, default_scopes: defaultScopes })
+
+    if (error) {
+      console.error('Error saving sharing preferences:', error)
+      return NextResponse.json({ error: 'Failed to save sharing preferences' }, { status: 500 })
+    }
+
+    await recordWriteAudit(supabase, user.id, {
+      action: 'sharing_defaults_updated',
+      patientId: user.id,
+      metadata: { default_scopes: defaultScopes },
+    })
+
+    return NextResponse.json({ default_scopes: defaultScopes })
+  } catch (error) {
+    console.error('Sharing PUT error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/sharing - Stop sharing every entry (therapists lose access immediately)
+export async function DELETE() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: entries, error } = await supabase
+      .from('journal_entries')
+      .update({ share_scopes: [] })
+      .eq('patient_id', user.id)
+      .eq('shared_with_therapist', true)
+      .select('id')
+
+    if (error) {
+      console.error('Error revoking sharing:', error)
+      return NextResponse.json({ error: 'Failed to stop sharing' }, { status: 500 })
+    }
+
+    await recordWriteAudit(supabase, user.id, {
+      action: 'sharing_revoked_all',
+      patientId: user.id,
+      entryIds: (entries ?? []).map((e) => e.id),
+    })
+
+    return NextResponse.json({ unshared: entries?.length ?? 0 })
+  } catch (error) {
+    console.error('Sharing DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
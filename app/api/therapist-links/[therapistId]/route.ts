@@ -0,0 +1,54 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { recordWriteAudit } from '@/lib/audit'
+import { NextRequest, NextResponse } from 'next/server'
+
+// DELETE /api/therapist-links/[therapistId] - Patient revokes a therapist's access
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ therapistId: string }> }
+) {
+  try {
+    const { therapistId } = await params
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // RLS only lets the patient delete their own links
+    const { data: removed, error } = await supabase
+      .from('patient_therapist')
+      .delete()
+      .eq('patient_id', user.id)
+      .eq('therapist_id', therapistId)
+      .select('therapist_id')
+
+    if (error) {
+      console.error('Error revoking therapist link:', error)
+      return NextResponse.json({ error: 'Failed to revoke access' }, { status: 500 })
+    }
+    if (!removed || removed.length === 0) {
+      return NextResponse.json({ error: 'Therapist not found' }, { status: 404 })
+    }
+
+    const { error: consentError } = await supabase.from('patient_therapist_consents').insert({
+      patient_id: user.id,
+      therapist_id: therapistId,
+      action: 'revoked',
+    })
+    if (consentError) console.error('Error recording consent revocation:', consentError)
+
+    await recordWriteAudit(supabase, user.id, {
+      action: 'therapist_link_revoked',
+      patientId: user.id,
+      metadata: { therapist_id: therapistId },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Therapist link DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
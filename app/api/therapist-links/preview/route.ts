@@ -0,0 +1,64 @@
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase-server'
+import { THERAPIST_LINK_CONSENT_TEXT, getInviteStatus, normalizeInviteCode } from '@/lib/therapist-links'
+import { NextResponse } from 'next/server'
+
+type TherapistRef = { full_name: string | null }
+
+// GET /api/therapist-links/preview?code= - Who an invite is from, shown with the consent text before accepting
+export async function GET(request: Request) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const code = normalizeInviteCode(searchParams.get('code') || '')
+    if (!code) {
+      return NextResponse.json({ error: 'Invite code is required' }, { status: 400 })
+    }
+
+    // Patients cannot read therapist_invites under RLS; look the code up with the service role
+    const svc = await createServiceRoleClient()
+    const { data: invite, error } = await svc
+      .from('therapist_invites')
+      .select(`
+        therapist_id,
+        expires_at,
+        accepted_at,
+        revoked_at,
+        therapist:profiles!therapist_invites_therapist_id_fkey(full_name)
+      `)
+      .eq('code', code)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error looking up invite:', error)
+      return NextResponse.json({ error: 'Failed to look up invite' }, { status: 500 })
+    }
+    if (!invite || getInviteStatus(invite) !== 'pending') {
+      return NextResponse.json({ error: 'Invite code is invalid or has expired' }, { status: 404 })
+    }
+
+    const therapist = invite.therapist as TherapistRef | TherapistRef[] | null
+    const { data: existing } = await supabase
+      .from('patient_therapist')
+      .select('therapist_id')
+      .eq('patient_id', user.id)
+      .eq('therapist_id', invite.therapist_id)
+      .maybeSingle()
+
+    return NextResponse.json({
+      therapist_name: (Array.isArray(therapist) ? therapist[0] : therapist)?.full_name ?? null,
+      expires_at: invite.expires_at,
+      already_linked: Boolean(existing),
+      consent_text: THERAPIST_LINK_CONSENT_TEXT,
+    })
+  } catch (error) {
+    console.error('Invite preview error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
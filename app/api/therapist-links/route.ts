@@ -0,0 +1,103 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { THERAPIST_LINK_CONSENT_TEXT, normalizeInviteCode } from '@/lib/therapist-links'
+import { recordWriteAudit } from '@/lib/audit'
+import { NextResponse } from 'next/server'
+
+type TherapistRef = { id: string; full_name: string | null }
+
+async function getPatient(supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+  if (profile?.role !== 'patient') return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+
+  return { user }
+}
+
+// GET /api/therapist-links - Therapists the patient is connected to
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getPatient(supabase)
+    if (auth.error) return auth.error
+
+    const { data: links, error } = await supabase
+      .from('patient_therapist')
+      .select(`
+        therapist_id,
+        created_at,
+        therapist:profiles!patient_therapist_therapist_id_fkey(id, full_name)
+      `)
+      .eq('patient_id', auth.user.id)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching therapist links:', error)
+      return NextResponse.json({ error: 'Failed to fetch therapists' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      therapists: (links ?? []).map((link) => {
+        const therapist = link.therapist as TherapistRef | TherapistRef[] | null
+        return {
+          therapist_id: link.therapist_id,
+          linked_at: link.created_at,
+          full_name: (Array.isArray(therapist) ? therapist[0] : therapist)?.full_name ?? null,
+        }
+      }),
+    })
+  } catch (error) {
+    console.error('Therapist links GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/therapist-links - Accept an invite code ({ code, consent: true })
+export async function POST(request: Request) {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await getPatient(supabase)
+    if (auth.error) return auth.error
+
+    const body = await request.json().catch(() => ({}))
+    const code = typeof body.code === 'string' ? normalizeInviteCode(body.code) : ''
+    if (!code) {
+      return NextResponse.json({ error: 'Invite code is required' }, { status: 400 })
+    }
+    if (body.consent !== true) {
+      return NextResponse.json({ error: 'Consent is required to connect with a therapist' }, { status: 400 })
+    }
+
+    // Validates the code, links the pair and records consent in one transaction
+    const { data: therapistId, error } = await supabase.rpc('accept_therapist_invite', {
+      invite_code: code,
+      consent: THERAPIST_LINK_CONSENT_TEXT,
+    })
+
+    if (error) {
+      if (error.code === 'P0002') {
+        return NextResponse.json({ error: 'Invite code is invalid or has expired' }, { status: 404 })
+      }
+      console.error('Error accepting invite:', error)
+      return NextResponse.json({ error: 'Failed to accept invite' }, { status: 500 })
+    }
+
+    await recordWriteAudit(supabase, auth.user.id, {
+      action: 'therapist_link_accepted',
+      patientId: auth.user.id,
+      metadata: { therapist_id: therapistId },
+    })
+
+    return NextResponse.json({ therapist_id: therapistId }, { status: 201 })
+  } catch (error) {
+    console.error('Therapist links POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button, ConfirmModal } from '@/components/ui'
+import { SharePicker } from '@/components/journal'
+import type { ShareScope } from '@/types'
+
+export function SharingDefaults({ defaultScopes, sharedCount }: { defaultScopes: ShareScope[]; sharedCount: number }) {
+  const router = useRouter()
+  const [scopes, setScopes] = useState(defaultScopes)
+  const [confirmRevoke, setConfirmRevoke] = useState(false)
+  const [busy, setBusy] = useState(false)
+
+  const saveDefault = async (next: ShareScope[]) => {
+    const previous = scopes
+    setScopes(next)
+    try {
+      const response = await fetch('/api/sharing', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ default_scopes: next }),
+      })
+      if (!response.ok) throw new Error('Failed to save')
+    } catch (error) {
+      console.error('Sharing default error:', error)
+      setScopes(previous)
+      alert('Failed to save your sharing default. Please try again.')
+    }
+  }
+
+  const stopSharing = async () => {
+    setBusy(true)
+    try {
+      const response = await fetch('/api/sharing', { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to stop sharing')
+      setConfirmRevoke(false)
+      router.refresh()
+    } catch (error) {
+      console.error('Stop sharing error:', error)
+      alert('Failed to stop sharing. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-therapy-border">
+      <p className="text-xs text-therapy-muted mb-2">Default for new entries</p>
+      <SharePicker value={scopes} onChange={saveDefault} />
+      {sharedCount > 0 && (
+        <div className="flex items-center justify-between mt-3">
+          <p className="text-xs text-therapy-muted">
+            {sharedCount} {sharedCount === 1 ? 'entry is' : 'entries are'} currently shared
+          </p>
+          <Button size="sm" variant="ghost" onClick={() => setConfirmRevoke(true)}>
+            Stop sharing all
+          </Button>
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={confirmRevoke}
+        onClose={() => setConfirmRevoke(false)}
+        onConfirm={stopSharing}
+        title="Stop sharing all entries?"
+        message="Your therapist will no longer see any of your entries. You can share individual entries again later."
+        confirmText="Stop sharing"
+        variant="danger"
+        loading={busy}
+      />
+    </div>
+  )
+}
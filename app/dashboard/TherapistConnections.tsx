@@ -0,0 +1,189 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button, Card, Input, Modal } from '@/components/ui'
+
+export interface LinkedTherapist {
+  therapist_id: string
+  full_name: string | null
+  linked_at: string
+}
+
+interface InvitePreview {
+  therapist_name: string | null
+  expires_at: string
+  already_linked: boolean
+  consent_text: string
+}
+
+export function TherapistConnections({
+  therapists,
+  initialCode,
+  children,
+}: {
+  therapists: LinkedTherapist[]
+  initialCode?: string
+  children?: React.ReactNode
+}) {
+  const router = useRouter()
+  const [code, setCode] = useState(initialCode ?? '')
+  const [preview, setPreview] = useState<InvitePreview | null>(null)
+  const [agreed, setAgreed] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [revoking, setRevoking] = useState<LinkedTherapist | null>(null)
+
+  const lookUp = async (value: string) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/therapist-links/preview?code=${encodeURIComponent(value)}`)
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Could not find that invite')
+      setAgreed(false)
+      setPreview(data)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not find that invite')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  // Opened from an invite link: go straight to the consent step
+  useEffect(() => {
+    if (initialCode) lookUp(initialCode)
+  }, [initialCode])
+
+  const accept = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/therapist-links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, consent: true }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Failed to connect')
+
+      setPreview(null)
+      setCode('')
+      router.replace('/dashboard')
+      router.refresh()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to connect')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const revoke = async () => {
+    if (!revoking) return
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/therapist-links/${revoking.therapist_id}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to revoke access')
+      setRevoking(null)
+      router.refresh()
+    } catch (e) {
+      console.error('Revoke therapist error:', e)
+      alert('Failed to revoke access. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Card className="mb-8">
+      <p className="text-sm text-therapy-muted mb-3">Your therapist</p>
+
+      {therapists.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {therapists.map((therapist) => (
+            <div key={therapist.therapist_id} className="flex items-center justify-between gap-3">
+              <div>
+                <p className="font-medium text-therapy-text">{therapist.full_name || 'Therapist'}</p>
+                <p className="text-xs text-therapy-muted">
+                  Connected {new Date(therapist.linked_at).toLocaleDateString()}
+                </p>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => setRevoking(therapist)}>
+                Revoke access
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (code.trim()) lookUp(code)
+        }}
+      >
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Invite code, e.g. ABCD-EFGH"
+          aria-label="Invite code"
+        />
+        <Button type="submit" variant="secondary" loading={busy && !preview} disabled={!code.trim()}>
+          Connect
+        </Button>
+      </form>
+      {error && !preview && <p className="mt-2 text-sm text-therapy-danger">{error}</p>}
+
+      {children}
+
+      <Modal isOpen={preview !== null} onClose={() => setPreview(null)} title="Connect with your therapist">
+        {preview && (
+          <div className="space-y-4">
+            <p className="text-therapy-text">
+              <span className="font-medium">{preview.therapist_name || 'A therapist'}</span> invited you to connect.
+            </p>
+            {preview.already_linked ? (
+              <p className="text-sm text-therapy-muted">You are already connected with this therapist.</p>
+            ) : (
+              <>
+                <p className="text-sm text-therapy-muted bg-sage-50 rounded-lg p-3">{preview.consent_text}</p>
+                <label className="flex items-start gap-2 text-sm text-therapy-text">
+                  <input
+                    type="checkbox"
+                    checked={agreed}
+                    onChange={(e) => setAgreed(e.target.checked)}
+                    className="mt-0.5 rounded border-therapy-border text-sage-600 focus:ring-therapy-accent"
+                  />
+                  I have read and agree to the above
+                </label>
+              </>
+            )}
+            {error && <p className="text-sm text-therapy-danger">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={() => setPreview(null)}>Cancel</Button>
+              {!preview.already_linked && (
+                <Button size="sm" disabled={!agreed} loading={busy} onClick={accept}>
+                  Connect
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <Modal isOpen={revoking !== null} onClose={() => setRevoking(null)} title="Revoke access?">
+        <div className="space-y-4">
+          <p className="text-sm text-therapy-text">
+            {revoking?.full_name || 'Your therapist'} will no longer see your shared entries or be notified
+            about your journal. You can reconnect later with a new invite code.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" size="sm" onClick={() => setRevoking(null)}>Cancel</Button>
+            <Button variant="danger" size="sm" loading={busy} onClick={revoke}>Revoke access</Button>
+          </div>
+        </div>
+      </Modal>
+    </Card>
+  )
+}
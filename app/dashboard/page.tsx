@@ -7,14 +7,25 @@ import { WellnessChart } from '@/components/charts'
 import { CrisisBanner, Navbar } from '@/components/shared'
 import { NarrativeHeader, ThemesCard, BetterTimesCard, RecentThoughtsCard } from '@/components/wellness'
 import { processMoodData } from '@/lib/dashboard-utils'
+import { INSTRUMENTS, formatMinutes } from '@/lib/instruments'
 import {
   generateWeeklyNarrative,
   extractWeeklyThemes,
   describeWhenFeltBetter,
   getRecentThoughts,
 } from '@/lib/wellness-utils'
+import { TherapistConnections, type LinkedTherapist } from './TherapistConnections'
+import { SharingDefaults } from './SharingDefaults'
+import type { QuestionnaireInstrument, ShareScope } from '@/types'
 
-export default async function DashboardPage() {
+type TherapistRef = { id: string; full_name: string | null }
+
+export default async function DashboardPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ invite?: string }>
+}) {
+  const { invite } = await searchParams
   const profile = await getProfile()
   if (!profile) redirect('/login')
 
@@ -49,6 +60,62 @@ export default async function DashboardPage() {
     .order('created_at', { ascending: false })
     .limit(1)
 
+  // Connected therapists
+  const { data: therapistLinks } = await supabase
+    .from('patient_therapist')
+    .select(`
+      therapist_id,
+      created_at,
+      therapist:profiles!patient_therapist_therapist_id_fkey(id, full_name)
+    `)
+    .eq('patient_id', profile.id)
+    .order('created_at', { ascending: true })
+
+  const therapists: LinkedTherapist[] = (therapistLinks || []).map(link => {
+    const therapist = link.therapist as TherapistRef | TherapistRef[] | null
+    return {
+      therapist_id: link.therapist_id,
+      full_name: (Array.isArray(therapist) ? therapist[0] : therapist)?.full_name ?? null,
+      linked_at: link.created_at,
+    }
+  })
+
+  // Sharing defaults and how many entries are currently shared
+  const { data: sharingPrefs } = await supabase
+    .from('sharing_preferences')
+    .select('default_scopes')
+    .eq('patient_id', profile.id)
+    .maybeSingle()
+
+  const { count: sharedCount } = await supabase
+    .from('journal_entries')
+    .select('id', { count: 'exact', head: true })
+    .eq('patient_id', profile.id)
+    .eq('shared_with_therapist', true)
+
+  // Pending account deletion (grace period)
+  const { data: pendingDeletion } = await supabase
+    .from('account_deletions')
+    .select('scheduled_for')
+    .eq('user_id', profile.id)
+    .eq('status', 'pending')
+    .maybeSingle()
+
+  // Questionnaires the therapist scheduled that have come due
+  const { data: dueQuestionnaires } = await supabase
+    .from('questionnaire_schedules')
+    .select('instrument')
+    .eq('patient_id', profile.id)
+    .eq('active', true)
+    .lte('next_due_at', new Date().toISOString())
+
+  // Unread reminders (see /notifications)
+  const { count: unreadNotifications } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('recipient_id', profile.id)
+    .is('read_at', null)
+
   // Process data for wellness view
   const moodData = processMoodData(entries || [])
   const narrative = generateWeeklyNarrative(entries || [], moodData)
@@ -68,6 +135,45 @@ export default async function DashboardPage() {
             <CrisisBanner severity={crisisAlerts[0].severity as 'low' | 'medium' | 'high'} />
           )}
 
+          {pendingDeletion && (
+            <div className="mb-6 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+              Your account will be deleted on{' '}
+              {new Date(pendingDeletion.scheduled_for).toLocaleDateString('en-US', { dateStyle: 'long' })}.{' '}
+              <Link href="/account" className="font-medium underline">
+                Keep my account
+              </Link>
+            </div>
+          )}
+
+          {/* Due questionnaires */}
+          {(dueQuestionnaires ?? []).map(({ instrument }) => {
+            const definition = INSTRUMENTS[instrument as QuestionnaireInstrument]
+            return (
+              <Link key={instrument} href={`/questionnaires/${instrument}`} className="block mb-4">
+                <Card className="bg-sage-50/50 border-sage-100 hover:border-sage-200 transition-colors">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="text-sm text-therapy-text">{definition.title}</p>
+                      <p className="text-xs text-therapy-muted mt-0.5">
+                        Your therapist asked you to fill in the {definition.name}. It takes about {formatMinutes(definition.minutes)}.
+                      </p>
+                    </div>
+                    <span className="text-sm text-sage-600 flex-shrink-0">Start</span>
+                  </div>
+                </Card>
+              </Link>
+            )
+          })}
+
+          {(unreadNotifications ?? 0) > 0 && (
+            <Link
+              href="/notifications"
+              className="block mb-4 text-center text-sm text-sage-600 hover:text-sage-700 transition-colors"
+            >
+              {unreadNotifications} new {unreadNotifications === 1 ? 'notification' : 'notifications'}
+            </Link>
+          )}
+
           {/* Greeting */}
           <div className="text-center mb-6">
             <p className="text-therapy-muted">
@@ -113,14 +219,42 @@ export default async function DashboardPage() {
             </Link>
           </div>
 
-          {/* Subtle footer link */}
-          <div className="text-center">
+          {/* Therapist connection (invite codes) */}
+          <TherapistConnections therapists={therapists} initialCode={invite}>
+            {therapists.length > 0 && (
+              <SharingDefaults
+                defaultScopes={(sharingPrefs?.default_scopes ?? []) as ShareScope[]}
+                sharedCount={sharedCount ?? 0}
+              />
+            )}
+          </TherapistConnections>
+
+          {/* Subtle footer links */}
+          <div className="flex justify-center gap-6">
             <Link
               href="/journal"
               className="text-sm text-therapy-muted hover:text-therapy-text transition-colors"
             >
               Browse all entries
             </Link>
+            <Link
+              href="/notifications"
+              className="text-sm text-therapy-muted hover:text-therapy-text transition-colors"
+            >
+              Notifications
+            </Link>
+            <Link
+              href="/access-log"
+              className="text-sm text-therapy-muted hover:text-therapy-text transition-colors"
+            >
+              Who has seen my data
+            </Link>
+            <Link
+              href="/account"
+              className="text-sm text-therapy-muted hover:text-therapy-text transition-colors"
+            >
+              My data &amp; account
+            </Link>
           </div>
         </div>
       </main>
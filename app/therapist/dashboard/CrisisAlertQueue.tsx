@@ -0,0 +1,268 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button, Modal } from '@/components/ui'
+import { CRISIS_DISPOSITIONS, type AlertSla } from '@/lib/crisis-alerts'
+import type { CrisisAlert, CrisisAlertActionRequest, CrisisAlertEvent, CrisisDisposition } from '@/types'
+
+export interface QueuedAlert extends CrisisAlert {
+  patient: { id: string; full_name: string | null } | null
+  sla: AlertSla
+}
+
+type AlertEventRow = CrisisAlertEvent & { actor: { full_name: string | null } | null }
+
+const EVENT_LABELS: Record<CrisisAlertEvent['action'], string> = {
+  created: 'Alert raised',
+  severity_raised: 'Severity raised',
+  acknowledged: 'Acknowledged',
+  note: 'Note',
+  escalated: 'Escalated',
+  resolved: 'Resolved',
+}
+
+function formatMinutes(minutes: number) {
+  const abs = Math.abs(minutes)
+  if (abs < 60) return `${abs}m`
+  const hours = Math.floor(abs / 60)
+  return abs % 60 ? `${hours}h ${abs % 60}m` : `${hours}h`
+}
+
+function SlaBadge({ alert }: { alert: QueuedAlert }) {
+  if (alert.sla.overdue) {
+    return (
+      <span className="px-2 py-0.5 text-xs bg-red-600 text-white rounded-full">
+        Overdue {formatMinutes(alert.sla.minutesRemaining)}
+      </span>
+    )
+  }
+  if (!alert.acknowledged_at) {
+    return (
+      <span className="px-2 py-0.5 text-xs bg-amber-100 text-amber-700 rounded-full">
+        Ack due in {formatMinutes(alert.sla.minutesRemaining)}
+      </span>
+    )
+  }
+  return (
+    <span className={`px-2 py-0.5 text-xs rounded-full ${alert.sla.met ? 'bg-sage-100 text-sage-700' : 'bg-warm-100 text-warm-700'}`}>
+      {alert.status === 'escalated' ? 'Escalated' : 'Acknowledged'}
+      {!alert.sla.met && ' (late)'}
+    </span>
+  )
+}
+
+export function CrisisAlertQueue({ alerts }: { alerts: QueuedAlert[] }) {
+  const router = useRouter()
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [events, setEvents] = useState<Record<string, AlertEventRow[]>>({})
+  const [dialog, setDialog] = useState<{ alert: QueuedAlert; action: 'note' | 'escalate' | 'resolve' } | null>(null)
+  const [note, setNote] = useState('')
+  const [reason, setReason] = useState('')
+  const [disposition, setDisposition] = useState<CrisisDisposition | ''>('')
+
+  const loadEvents = async (alertId: string) => {
+    const response = await fetch(`/api/crisis-alerts/${alertId}`)
+    if (!response.ok) return
+    const data = await response.json()
+    setEvents((prev) => ({ ...prev, [alertId]: data.events ?? [] }))
+  }
+
+  const toggleHistory = async (alertId: string) => {
+    if (expandedId === alertId) {
+      setExpandedId(null)
+      return
+    }
+    setExpandedId(alertId)
+    await loadEvents(alertId)
+  }
+
+  const runAction = async (alertId: string, body: CrisisAlertActionRequest) => {
+    setBusyId(alertId)
+    try {
+      const response = await fetch(`/api/crisis-alerts/${alertId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Failed to update alert')
+
+      setDialog(null)
+      if (expandedId === alertId) await loadEvents(alertId)
+      router.refresh()
+    } catch (error) {
+      console.error('Crisis alert action error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to update alert. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const openDialog = (alert: QueuedAlert, action: 'note' | 'escalate' | 'resolve') => {
+    setNote('')
+    setReason('')
+    setDisposition('')
+    setDialog({ alert, action })
+  }
+
+  const submitDialog = () => {
+    if (!dialog) return
+    const { alert, action } = dialog
+    if (action === 'note') runAction(alert.id, { action, note })
+    if (action === 'escalate') runAction(alert.id, { action, reason, note })
+    if (action === 'resolve' && disposition) runAction(alert.id, { action, disposition, note })
+  }
+
+  const canSubmit =
+    dialog?.action === 'note' ? note.trim().length > 0
+    : dialog?.action === 'escalate' ? reason.trim().length > 0
+    : Boolean(disposition)
+
+  return (
+    <>
+      <div className="space-y-2">
+        {alerts.map((alert) => (
+          <div
+            key={alert.id}
+            className={`p-3 bg-white rounded-lg border ${alert.sla.overdue ? 'border-red-400' : 'border-red-200'}`}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Link
+                    href={`/therapist/patients/${alert.patient_id}`}
+                    className="font-medium text-therapy-text hover:underline"
+                  >
+                    {alert.patient?.full_name || 'Patient'}
+                  </Link>
+                  <span className="capitalize text-sm font-medium text-red-700">{alert.severity} severity</span>
+                  <SlaBadge alert={alert} />
+                </div>
+                <p className="text-sm text-therapy-muted">
+                  {new Date(alert.created_at).toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit'
+                  })}
+                  <span className="mx-2">•</span>
+                  {alert.chat_message_id ? 'Chat message' : 'Journal entry'}
+                  <span className="mx-2">•</span>
+                  <span className="capitalize">{alert.detection_source.replace('_', ' ')}</span>
+                </p>
+                {alert.rationale && (
+                  <p className="text-sm text-therapy-text mt-1">{alert.rationale}</p>
+                )}
+                {alert.matched_phrases.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {alert.matched_phrases.map((phrase) => (
+                      <span key={phrase} className="px-2 py-0.5 text-xs bg-red-100 text-red-700 rounded-full">
+                        “{phrase}”
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {alert.escalation_reason && (
+                  <p className="text-sm text-therapy-muted mt-1">Escalated: {alert.escalation_reason}</p>
+                )}
+              </div>
+              <div className="flex flex-wrap justify-end gap-1 flex-shrink-0">
+                {alert.status === 'open' && (
+                  <Button size="sm" loading={busyId === alert.id} onClick={() => runAction(alert.id, { action: 'acknowledge' })}>
+                    Acknowledge
+                  </Button>
+                )}
+                {alert.status !== 'escalated' && (
+                  <Button size="sm" variant="secondary" disabled={busyId === alert.id} onClick={() => openDialog(alert, 'escalate')}>
+                    Escalate
+                  </Button>
+                )}
+                <Button size="sm" variant="secondary" disabled={busyId === alert.id} onClick={() => openDialog(alert, 'resolve')}>
+                  Resolve
+                </Button>
+                <Button size="sm" variant="ghost" disabled={busyId === alert.id} onClick={() => openDialog(alert, 'note')}>
+                  Note
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => toggleHistory(alert.id)}>
+                  {expandedId === alert.id ? 'Hide' : 'History'}
+                </Button>
+              </div>
+            </div>
+
+            {expandedId === alert.id && (
+              <ol className="mt-3 border-t border-therapy-border pt-2 space-y-1">
+                {(events[alert.id] ?? []).map((event) => (
+                  <li key={event.id} className="text-xs text-therapy-muted">
+                    <span className="font-medium text-therapy-text">{EVENT_LABELS[event.action]}</span>
+                    {' · '}
+                    {event.actor?.full_name || 'System'}
+                    {' · '}
+                    {new Date(event.created_at).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit'
+                    })}
+                    {event.note && <span className="block whitespace-pre-wrap text-therapy-text">{event.note}</span>}
+                  </li>
+                ))}
+                {!events[alert.id] && <li className="text-xs text-therapy-muted">Loading…</li>}
+              </ol>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Modal
+        isOpen={dialog !== null}
+        onClose={() => setDialog(null)}
+        title={dialog?.action === 'escalate' ? 'Escalate alert' : dialog?.action === 'resolve' ? 'Resolve alert' : 'Add note'}
+      >
+        <div className="space-y-3">
+          {dialog?.action === 'escalate' && (
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason for escalation (required)"
+              className="w-full px-3 py-2 text-sm border border-therapy-border rounded-lg focus:outline-none focus:ring-2 focus:ring-therapy-accent"
+            />
+          )}
+          {dialog?.action === 'resolve' && (
+            <select
+              value={disposition}
+              onChange={(e) => setDisposition(e.target.value as CrisisDisposition | '')}
+              className="w-full px-3 py-2 text-sm border border-therapy-border rounded-lg focus:outline-none focus:ring-2 focus:ring-therapy-accent"
+            >
+              <option value="">Select disposition…</option>
+              {CRISIS_DISPOSITIONS.map((d) => (
+                <option key={d.value} value={d.value}>{d.label}</option>
+              ))}
+            </select>
+          )}
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            placeholder={dialog?.action === 'note' ? 'Note' : 'Note (optional)'}
+            className="w-full px-3 py-2 text-sm border border-therapy-border rounded-lg focus:outline-none focus:ring-2 focus:ring-therapy-accent"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" size="sm" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button
+              size="sm"
+              variant={dialog?.action === 'escalate' ? 'danger' : 'primary'}
+              disabled={!canSubmit}
+              loading={dialog !== null && busyId === dialog.alert.id}
+              onClick={submitDialog}
+            >
+              {dialog?.action === 'escalate' ? 'Escalate' : dialog?.action === 'resolve' ? 'Resolve' : 'Save note'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  )
+}
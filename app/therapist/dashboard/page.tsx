@@ -1,10 +1,14 @@
 import Link from 'next/link'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
 import { getProfile } from '@/lib/auth'
+import { recordAudit } from '@/lib/audit'
 import { redirect } from 'next/navigation'
 import { Card, CardHeader, CardTitle, CardContent, Button } from '@/components/ui'
 import { MoodBadge } from '@/components/journal'
-import { getExtraction } from '@/lib/dashboard-utils'
+import { describeShareScopes, toTherapistEntry } from '@/lib/sharing'
+import { getAlertSla, sortAlertQueue } from '@/lib/crisis-alerts'
+import { CrisisAlertQueue, type QueuedAlert } from './CrisisAlertQueue'
+import type { SharedEntry } from '@/types'
 
 export default async function TherapistDashboardPage() {
   const profile = await getProfile()
@@ -34,47 +38,60 @@ export default async function TherapistDashboardPage() {
     .from('crisis_alerts')
     .select(`
       *,
-      patient:profiles!crisis_alerts_patient_id_fkey(full_name)
+      patient:profiles!crisis_alerts_patient_id_fkey(id, full_name)
     `)
     .in('patient_id', patientIds.length > 0 ? patientIds : ['none'])
     .eq('resolved', false)
-    .order('created_at', { ascending: false })
+    .order('created_at', { ascending: true })
 
-  // Transform alerts (Supabase returns array for joins)
-  const crisisAlerts = (crisisAlertsRaw || []).map(a => ({
-    ...a,
-    patient: Array.isArray(a.patient) ? a.patient[0] : a.patient,
-  }))
+  // Transform alerts (Supabase returns array for joins) and order the queue: overdue first
+  const now = new Date()
+  const crisisAlerts: QueuedAlert[] = sortAlertQueue(
+    (crisisAlertsRaw || []).map(a => ({
+      ...a,
+      patient: Array.isArray(a.patient) ? a.patient[0] : a.patient,
+      sla: getAlertSla(a, now),
+    })),
+    now
+  )
+  const overdueCount = crisisAlerts.filter(a => a.sla.overdue).length
 
-  // Get recent shared entries from patients
+  // Get recent shared entries from patients. The view only carries what each entry's
+  // share scopes grant and cannot embed profiles, so names come from the patient list.
   const { data: recentEntriesRaw } = await supabase
-    .from('journal_entries')
-    .select(`
-      id,
-      created_at,
-      content,
-      patient:profiles!journal_entries_patient_id_fkey(id, full_name),
-      ai_extraction:ai_extractions(mood_score, crisis_detected)
-    `)
+    .from('shared_entries')
+    .select('*')
     .in('patient_id', patientIds.length > 0 ? patientIds : ['none'])
-    .eq('shared_with_therapist', true)
-    .eq('is_draft', false)
     .order('created_at', { ascending: false })
     .limit(10)
 
-  // Transform entries (Supabase returns array for joins)
-  const recentEntries = (recentEntriesRaw || []).map(e => ({
-    ...e,
-    patient: Array.isArray(e.patient) ? e.patient[0] : e.patient,
+  const patientById = new Map(transformedPatients.map(r => [r.patient_id, r.patient]))
+  const recentEntries = ((recentEntriesRaw || []) as SharedEntry[]).map(row => ({
+    ...toTherapistEntry(row),
+    patient: patientById.get(row.patient_id),
   }))
 
+  // Log access for HIPAA compliance: every listed patient, plus the entries and alerts shown
+  const shownEntries = recentEntries.slice(0, 5)
+  await recordAudit(supabase, profile.id, [
+    ...patientIds.map(patientId => ({ patientId, action: 'viewed_patient_list' as const })),
+    ...patientIds
+      .map(patientId => ({
+        patientId,
+        action: 'viewed_entries' as const,
+        entryIds: shownEntries.filter(e => e.patient_id === patientId).map(e => e.id),
+      }))
+      .filter(event => event.entryIds.length > 0),
+    ...crisisAlerts.map(a => ({ patientId: a.patient_id, action: 'viewed_crisis_alert' as const, alertId: a.id })),
+  ])
+
   // Calculate average patient mood across recent entries
   let avgPatientMood: number | null = null
   if (recentEntries && recentEntries.length > 0) {
     let totalMood = 0
     let moodCount = 0
     recentEntries.forEach(e => {
-      const extraction = getExtraction(e)
+      const extraction = e.ai_extraction
       if (extraction?.mood_score) {
         totalMood += extraction.mood_score
         moodCount++
@@ -104,39 +121,15 @@ export default async function TherapistDashboardPage() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
               </svg>
               Needs Immediate Attention ({crisisAlerts.length})
+              {overdueCount > 0 && (
+                <span className="ml-2 px-2 py-0.5 text-xs bg-red-600 text-white rounded-full">
+                  {overdueCount} overdue
+                </span>
+              )}
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="space-y-2">
-              {crisisAlerts.slice(0, 5).map((alert) => (
-                <Link
-                  key={alert.id}
-                  href={`/therapist/patients/${alert.patient_id}`}
-                  className="block"
-                >
-                  <div className="flex items-center justify-between p-3 bg-white rounded-lg border border-red-200 hover:border-red-300 transition-colors">
-                    <div className="flex-1">
-                      <p className="font-medium text-therapy-text">
-                        {alert.patient?.full_name || 'Patient'}
-                      </p>
-                      <p className="text-sm text-therapy-muted">
-                        {new Date(alert.created_at).toLocaleDateString('en-US', {
-                          month: 'short',
-                          day: 'numeric',
-                          hour: 'numeric',
-                          minute: '2-digit'
-                        })}
-                        <span className="mx-2">•</span>
-                        <span className="capitalize font-medium text-red-700">{alert.severity} severity</span>
-                      </p>
-                    </div>
-                    <svg className="w-5 h-5 text-therapy-muted" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                    </svg>
-                  </div>
-                </Link>
-              ))}
-            </div>
+            <CrisisAlertQueue alerts={crisisAlerts} />
           </CardContent>
         </Card>
       )}
@@ -227,8 +220,9 @@ export default async function TherapistDashboardPage() {
           <CardContent>
             {recentEntries && recentEntries.length > 0 ? (
               <div className="space-y-2">
-                {recentEntries.slice(0, 5).map((entry) => {
-                  const extraction = getExtraction(entry)
+                {shownEntries.map((entry) => {
+                  const extraction = entry.ai_extraction
+                  const preview = entry.content ?? extraction?.summary
                   return (
                     <Link
                       key={entry.id}
@@ -251,9 +245,14 @@ export default async function TherapistDashboardPage() {
                                 Alert
                               </span>
                             )}
+                            {entry.edited_after_sharing && (
+                              <span className="px-2 py-0.5 text-xs bg-calm-100 text-calm-700 rounded-full">
+                                Edited
+                              </span>
+                            )}
                           </div>
                           <p className="text-sm text-therapy-muted truncate">
-                            {entry.content.substring(0, 60)}...
+                            {preview ? `${preview.substring(0, 60)}...` : `Shared ${describeShareScopes(entry.share_scopes).toLowerCase()}`}
                           </p>
                           <p className="text-xs text-therapy-muted mt-1">
                             {new Date(entry.created_at).toLocaleDateString('en-US', {
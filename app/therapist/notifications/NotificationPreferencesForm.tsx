@@ -0,0 +1,180 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button, Input } from '@/components/ui'
+import type { CrisisSeverity, NotificationPreferences } from '@/types'
+
+const SEVERITY_OPTIONS: { value: CrisisSeverity; label: string }[] = [
+  { value: 'low', label: 'All alerts' },
+  { value: 'medium', label: 'Medium and high' },
+  { value: 'high', label: 'High only' },
+]
+
+function Toggle({ label, checked, onChange, disabled }: {
+  label: string
+  checked: boolean
+  onChange: (checked: boolean) => void
+  disabled?: boolean
+}) {
+  return (
+    <label className={`flex items-center gap-2 text-sm ${disabled ? 'text-therapy-muted' : 'text-therapy-text'}`}>
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.checked)}
+        className="rounded border-therapy-border text-sage-600 focus:ring-therapy-accent"
+      />
+      {label}
+    </label>
+  )
+}
+
+export function NotificationPreferencesForm({
+  preferences,
+  emailAvailable,
+}: {
+  preferences: NotificationPreferences
+  emailAvailable: boolean
+}) {
+  const router = useRouter()
+  const [form, setForm] = useState({
+    email_enabled: preferences.email_enabled,
+    email_address: preferences.email_address ?? '',
+    webhook_enabled: preferences.webhook_enabled,
+    webhook_url: preferences.webhook_url ?? '',
+    in_app_enabled: preferences.in_app_enabled,
+    min_severity: preferences.min_severity,
+    quiet_hours_start: preferences.quiet_hours_start?.slice(0, 5) ?? '',
+    quiet_hours_end: preferences.quiet_hours_end?.slice(0, 5) ?? '',
+    timezone: preferences.timezone,
+  })
+  const [secret, setSecret] = useState(preferences.webhook_secret)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null)
+
+  const update = <K extends keyof typeof form>(key: K, value: (typeof form)[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }))
+
+  const save = async (rotateSecret = false) => {
+    setSaving(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, rotate_webhook_secret: rotateSecret }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Failed to save preferences')
+
+      setSecret(data.preferences.webhook_secret)
+      setMessage({ type: 'success', text: 'Preferences saved' })
+      router.refresh()
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save preferences' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-3">
+        <Toggle label="In-app" checked={form.in_app_enabled} onChange={(v) => update('in_app_enabled', v)} />
+
+        <Toggle
+          label={emailAvailable ? 'Email' : 'Email (not configured on this server)'}
+          checked={form.email_enabled}
+          disabled={!emailAvailable}
+          onChange={(v) => update('email_enabled', v)}
+        />
+        {form.email_enabled && emailAvailable && (
+          <Input
+            type="email"
+            placeholder="Account email"
+            value={form.email_address}
+            onChange={(e) => update('email_address', e.target.value)}
+            hint="Leave blank to use your account email"
+          />
+        )}
+
+        <Toggle label="Webhook" checked={form.webhook_enabled} onChange={(v) => update('webhook_enabled', v)} />
+        {form.webhook_enabled && (
+          <>
+            <Input
+              type="url"
+              placeholder="https://example.com/hooks/crisis-alerts"
+              value={form.webhook_url}
+              onChange={(e) => update('webhook_url', e.target.value)}
+            />
+            {secret && (
+              <div className="text-xs text-therapy-muted space-y-1">
+                <p>
+                  Requests are signed with HMAC-SHA256 over <code>{'{timestamp}.{body}'}</code> in the{' '}
+                  <code>X-Webhook-Signature</code> header. Signing secret:
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="px-2 py-1 bg-sage-50 rounded break-all text-therapy-text">{secret}</code>
+                  <Button size="sm" variant="ghost" disabled={saving} onClick={() => save(true)}>
+                    Rotate
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-therapy-text mb-2">Notify me about</label>
+        <select
+          value={form.min_severity}
+          onChange={(e) => update('min_severity', e.target.value as CrisisSeverity)}
+          className="w-full px-3 py-2 text-sm border border-therapy-border rounded-lg focus:outline-none focus:ring-2 focus:ring-therapy-accent"
+        >
+          {SEVERITY_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-therapy-text mb-2">Quiet hours</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="time"
+            value={form.quiet_hours_start}
+            onChange={(e) => update('quiet_hours_start', e.target.value)}
+            className="px-3 py-2 text-sm border border-therapy-border rounded-lg focus:outline-none focus:ring-2 focus:ring-therapy-accent"
+          />
+          <span className="text-therapy-muted text-sm">to</span>
+          <input
+            type="time"
+            value={form.quiet_hours_end}
+            onChange={(e) => update('quiet_hours_end', e.target.value)}
+            className="px-3 py-2 text-sm border border-therapy-border rounded-lg focus:outline-none focus:ring-2 focus:ring-therapy-accent"
+          />
+        </div>
+        <Input
+          className="mt-2"
+          placeholder="Timezone, e.g. America/New_York"
+          value={form.timezone}
+          onChange={(e) => update('timezone', e.target.value)}
+        />
+        <p className="mt-1.5 text-sm text-therapy-muted">
+          Email and webhooks for low and medium alerts wait until quiet hours end. High severity alerts are always sent immediately.
+        </p>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'error' ? 'text-therapy-danger' : 'text-sage-700'}`}>{message.text}</p>
+      )}
+
+      <div className="flex justify-end">
+        <Button loading={saving} onClick={() => save()}>Save preferences</Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getProfile } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui'
+import { NotificationList } from '@/components/shared'
+import { isEmailConfigured } from '@/lib/notifications/email'
+import { defaultNotificationPreferences } from '@/lib/notifications/crisisNotifications'
+import type { AppNotification, NotificationDelivery, NotificationPreferences } from '@/types'
+import { NotificationPreferencesForm } from './NotificationPreferencesForm'
+
+const DELIVERY_STYLES: Record<NotificationDelivery['status'], string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  sent: 'bg-sage-100 text-sage-700',
+  failed: 'bg-red-100 text-red-700',
+  skipped: 'bg-warm-100 text-warm-700',
+}
+
+const CHANNEL_LABELS: Record<NotificationDelivery['channel'], string> = {
+  email: 'Email',
+  webhook: 'Webhook',
+  in_app: 'In-app',
+}
+
+export default async function TherapistNotificationsPage() {
+  const profile = await getProfile()
+  if (!profile) redirect('/login')
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data: preferencesRow } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('therapist_id', profile.id)
+    .maybeSingle()
+  const preferences: NotificationPreferences = preferencesRow ?? defaultNotificationPreferences(profile.id)
+
+  const { data: notifications } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('recipient_id', profile.id)
+    .order('created_at', { ascending: false })
+    .limit(50)
+
+  const { data: deliveries } = await supabase
+    .from('notification_deliveries')
+    .select('*')
+    .eq('therapist_id', profile.id)
+    .neq('channel', 'in_app')
+    .order('created_at', { ascending: false })
+    .limit(20)
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-2xl font-semibold text-therapy-text">Notifications</h1>
+        <p className="text-therapy-muted mt-1">
+          How you are told about crisis alerts for your patients
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Inbox</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <NotificationList notifications={(notifications ?? []) as AppNotification[]} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Preferences</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <NotificationPreferencesForm preferences={preferences} emailAvailable={isEmailConfigured()} />
+          </CardContent>
+        </Card>
+      </div>
+
+      {deliveries && deliveries.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Recent deliveries</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {(deliveries as NotificationDelivery[]).map((delivery) => (
+                <div key={delivery.id} className="flex items-center justify-between gap-3 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-medium text-therapy-text">{CHANNEL_LABELS[delivery.channel]}</span>
+                    <span className="mx-2 text-therapy-muted">•</span>
+                    <span className="text-therapy-muted">
+                      {new Date(delivery.sent_at ?? delivery.next_attempt_at).toLocaleString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: 'numeric',
+                        minute: '2-digit'
+                      })}
+                    </span>
+                    {delivery.last_error && delivery.status !== 'sent' && (
+                      <p className="text-xs text-therapy-muted truncate" title={delivery.last_error}>
+                        {delivery.last_error}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`px-2 py-0.5 text-xs rounded-full capitalize flex-shrink-0 ${DELIVERY_STYLES[delivery.status]}`}>
+                    {delivery.status}
+                    {delivery.status === 'pending' && delivery.attempts > 0 && ` (retry ${delivery.attempts})`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
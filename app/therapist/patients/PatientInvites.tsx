@@ -0,0 +1,141 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button, Card } from '@/components/ui'
+import { createClient } from '@/lib/supabase'
+import { formatInviteCode, type InviteStatus } from '@/lib/therapist-links'
+import type { TherapistInvite } from '@/types'
+
+export interface InviteRow extends TherapistInvite {
+  status: InviteStatus
+  link: string
+}
+
+const EXPIRY_OPTIONS = [1, 7, 14, 30]
+
+export function PatientInvites({ therapistId, invites }: { therapistId: string; invites: InviteRow[] }) {
+  const router = useRouter()
+  const [days, setDays] = useState(7)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const pending = invites.filter((i) => i.status === 'pending')
+
+  // Refresh the patient list as soon as a patient accepts an invite or revokes access
+  useEffect(() => {
+    const supabase = createClient()
+    const channel = supabase
+      .channel(`patient-links-${therapistId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'patient_therapist', filter: `therapist_id=eq.${therapistId}` },
+        () => router.refresh()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'therapist_invites', filter: `therapist_id=eq.${therapistId}` },
+        () => router.refresh()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [therapistId, router])
+
+  const createInvite = async () => {
+    setBusyId('new')
+    try {
+      const response = await fetch('/api/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expires_in_days: days }),
+      })
+      if (!response.ok) throw new Error('Failed to create invite')
+      router.refresh()
+    } catch (error) {
+      console.error('Create invite error:', error)
+      alert('Failed to create invite. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const revokeInvite = async (id: string) => {
+    setBusyId(id)
+    try {
+      const response = await fetch(`/api/invites/${id}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to revoke invite')
+      router.refresh()
+    } catch (error) {
+      console.error('Revoke invite error:', error)
+      alert('Failed to revoke invite. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const copyLink = async (invite: InviteRow) => {
+    await navigator.clipboard.writeText(invite.link)
+    setCopiedId(invite.id)
+    setTimeout(() => setCopiedId(null), 2000)
+  }
+
+  return (
+    <Card className="mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="font-semibold text-therapy-text">Invite a patient</h2>
+          <p className="text-sm text-therapy-muted">
+            Share a code or link; the patient accepts it from their dashboard. Each code works once.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="px-3 py-2 text-sm border border-therapy-border rounded-lg focus:outline-none focus:ring-2 focus:ring-therapy-accent"
+            aria-label="Invite expiry"
+          >
+            {EXPIRY_OPTIONS.map((d) => (
+              <option key={d} value={d}>Expires in {d} {d === 1 ? 'day' : 'days'}</option>
+            ))}
+          </select>
+          <Button size="sm" loading={busyId === 'new'} onClick={createInvite}>
+            New invite
+          </Button>
+        </div>
+      </div>
+
+      {pending.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {pending.map((invite) => (
+            <div key={invite.id} className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-lg bg-sage-50">
+              <div>
+                <span className="font-mono font-semibold tracking-wider text-therapy-text">
+                  {formatInviteCode(invite.code)}
+                </span>
+                <span className="ml-3 text-xs text-therapy-muted">
+                  Expires {new Date(invite.expires_at).toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit'
+                  })}
+                </span>
+              </div>
+              <div className="flex gap-1">
+                <Button size="sm" variant="ghost" onClick={() => copyLink(invite)}>
+                  {copiedId === invite.id ? 'Copied' : 'Copy link'}
+                </Button>
+                <Button size="sm" variant="ghost" loading={busyId === invite.id} onClick={() => revokeInvite(invite.id)}>
+                  Revoke
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
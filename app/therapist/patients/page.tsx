@@ -1,8 +1,12 @@
 import Link from 'next/link'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
 import { getProfile } from '@/lib/auth'
+import { recordAudit } from '@/lib/audit'
 import { redirect } from 'next/navigation'
 import { Card } from '@/components/ui'
+import { getInviteStatus, inviteLink } from '@/lib/therapist-links'
+import type { TherapistInvite } from '@/types'
+import { PatientInvites, type InviteRow } from './PatientInvites'
 
 export default async function PatientsListPage() {
   const profile = await getProfile()
@@ -26,16 +30,29 @@ export default async function PatientsListPage() {
     patient: Array.isArray(r.patient) ? r.patient[0] : r.patient,
   }))
 
+  // Invite codes this therapist has issued
+  const { data: invitesRaw } = await supabase
+    .from('therapist_invites')
+    .select('*')
+    .eq('therapist_id', profile.id)
+    .order('created_at', { ascending: false })
+    .limit(20)
+
+  const now = new Date()
+  const invites: InviteRow[] = ((invitesRaw || []) as TherapistInvite[]).map(invite => ({
+    ...invite,
+    status: getInviteStatus(invite, now),
+    link: inviteLink(invite.code),
+  }))
+
   // Get additional stats for each patient
   const patientStats = await Promise.all(
     patientRelations.map(async (relation) => {
       // Get entry count and latest entry
       const { data: entries } = await supabase
-        .from('journal_entries')
-        .select('id, created_at, ai_extraction:ai_extractions(mood_score)')
+        .from('shared_entries')
+        .select('id, created_at, mood_score')
         .eq('patient_id', relation.patient_id)
-        .eq('shared_with_therapist', true)
-        .eq('is_draft', false)
         .order('created_at', { ascending: false })
         .limit(5)
 
@@ -48,11 +65,10 @@ export default async function PatientsListPage() {
 
       const latestEntry = entries?.[0]
       const entryCount = entries?.length || 0
-      const getExtraction = (e: NonNullable<typeof entries>[number]) => 
-        Array.isArray(e.ai_extraction) ? e.ai_extraction[0] : e.ai_extraction
-      const entriesWithMood = entries?.filter(e => getExtraction(e)?.mood_score) || []
+      // mood_score is null for entries shared without the scores scope
+      const entriesWithMood = entries?.filter(e => e.mood_score) || []
       const avgMood = entriesWithMood.length > 0
-        ? entriesWithMood.reduce((sum, e) => sum + (getExtraction(e)!.mood_score || 0), 0) / entriesWithMood.length
+        ? entriesWithMood.reduce((sum, e) => sum + (e.mood_score || 0), 0) / entriesWithMood.length
         : null
 
       return {
@@ -65,6 +81,12 @@ export default async function PatientsListPage() {
     })
   )
 
+  await recordAudit(
+    supabase,
+    profile.id,
+    patientStats.map(p => ({ patientId: p.patient_id, action: 'viewed_patient_list' as const }))
+  )
+
   return (
     <div className="max-w-4xl mx-auto px-4 py-8">
       {/* Header */}
@@ -77,6 +99,8 @@ export default async function PatientsListPage() {
         </div>
       </div>
 
+      <PatientInvites therapistId={profile.id} invites={invites} />
+
       {/* Patients List */}
       {patientStats.length === 0 ? (
         <Card className="text-center py-12">
@@ -87,7 +111,7 @@ export default async function PatientsListPage() {
           </div>
           <h3 className="text-lg font-semibold text-therapy-text mb-2">No Patients Yet</h3>
           <p className="text-therapy-muted mb-6 max-w-sm mx-auto">
-            Patients will appear here once they connect with you through the platform.
+            Patients will appear here once they accept one of your invite codes.
           </p>
         </Card>
       ) : (
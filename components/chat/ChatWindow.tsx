@@ -6,14 +6,17 @@ import type { ChatMessage } from '@/types'
 interface ChatWindowProps {
   messages: ChatMessage[]
   loading?: boolean
+  // Id of the assistant message currently receiving streamed tokens
+  streamingMessageId?: string | null
 }
 
-export function ChatWindow({ messages, loading }: ChatWindowProps) {
+export function ChatWindow({ messages, loading, streamingMessageId }: ChatWindowProps) {
   const bottomRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+    // Smooth scrolling on every streamed token lags behind; jump instead while streaming
+    bottomRef.current?.scrollIntoView({ behavior: streamingMessageId ? 'auto' : 'smooth' })
+  }, [messages, streamingMessageId])
 
   if (messages.length === 0 && !loading) {
     return (
@@ -47,7 +50,12 @@ export function ChatWindow({ messages, loading }: ChatWindowProps) {
                 : 'bg-white border border-therapy-border rounded-bl-md'
             }`}
           >
-            <p className="text-sm whitespace-pre-wrap leading-relaxed">{message.content}</p>
+            <p className="text-sm whitespace-pre-wrap leading-relaxed">
+              {message.content}
+              {message.id === streamingMessageId && (
+                <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-sage-400 animate-pulse" />
+              )}
+            </p>
             <p
               className={`text-xs mt-1 ${
                 message.role === 'user' ? 'text-white/70' : 'text-therapy-muted'
@@ -1,4 +1,5 @@
 import Link from 'next/link'
+import { describeShareScopes } from '@/lib/sharing'
 import type { JournalEntry } from '@/types'
 
 interface JournalCardProps {
@@ -51,7 +52,10 @@ export function JournalCard({ entry }: JournalCardProps) {
               </span>
             )}
             {entry.shared_with_therapist && (
-              <span className="px-2 py-0.5 text-xs bg-sage-100 text-sage-600 rounded-full">
+              <span
+                className="px-2 py-0.5 text-xs bg-sage-100 text-sage-600 rounded-full"
+                title={`Shared: ${describeShareScopes(entry.share_scopes ?? [])}`}
+              >
                 Shared
               </span>
             )}
@@ -0,0 +1,42 @@
+'use client'
+
+import { SHARE_PRESETS, describeShareScopes } from '@/lib/sharing'
+import type { ShareScope } from '@/types'
+
+interface SharePickerProps {
+  value: ShareScope[]
+  onChange: (scopes: ShareScope[]) => void
+  className?: string
+}
+
+// Preset-based sharing control for new entries; finer control (and redaction) is on the entry page
+export function SharePicker({ value, onChange, className = '' }: SharePickerProps) {
+  const current = describeShareScopes(value)
+  const isPreset = SHARE_PRESETS.some((p) => p.label === current)
+
+  return (
+    <div className={`flex items-center justify-between gap-4 p-4 bg-sage-50 rounded-xl ${className}`}>
+      <div>
+        <p className="text-sm font-medium text-therapy-text">Share with your therapist</p>
+        <p className="text-xs text-therapy-muted">
+          {value.length === 0
+            ? 'Only you can see this entry'
+            : value.includes('full_text')
+              ? "They'll be able to read this entry"
+              : "They'll see what's selected, not what you wrote"}
+        </p>
+      </div>
+      <select
+        value={isPreset ? current : ''}
+        onChange={(e) => onChange(SHARE_PRESETS.find((p) => p.label === e.target.value)?.scopes ?? [])}
+        className="px-3 py-2 text-sm bg-white border border-therapy-border rounded-lg focus:outline-none focus:ring-2 focus:ring-therapy-accent"
+        aria-label="Sharing"
+      >
+        {!isPreset && <option value="">{current}</option>}
+        {SHARE_PRESETS.map((preset) => (
+          <option key={preset.label} value={preset.label}>{preset.label}</option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -3,3 +3,4 @@ export { StructuredFields } from './StructuredFields'
 export { JournalEditor } from './JournalEditor'
 export { JournalCard } from './JournalCard'
 
+export { SharePicker } from './SharePicker'
@@ -15,11 +15,13 @@ export function Navbar({ role, userName }: NavbarProps) {
   const patientLinks = [
     { href: '/dashboard', label: 'Home' },
     { href: '/journal', label: 'Journal' },
+    { href: '/chat', label: 'Chat' },
   ]
 
   const therapistLinks = [
     { href: '/therapist/dashboard', label: 'Home' },
     { href: '/therapist/patients', label: 'Patients' },
+    { href: '/therapist/notifications', label: 'Notifications' },
   ]
 
   const links = role === 'patient' ? patientLinks : therapistLinks
@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui'
+import type { AppNotification } from '@/types'
+
+// Crisis alerts (therapists) stand out in red; reminders (patients) in the calm accent
+function unreadStyle(notification: AppNotification) {
+  return notification.alert_id ? 'border-red-200 bg-red-50' : 'border-sage-200 bg-sage-50'
+}
+
+export function NotificationList({ notifications }: { notifications: AppNotification[] }) {
+  const router = useRouter()
+  const [busy, setBusy] = useState(false)
+  const unread = notifications.filter((n) => !n.read_at)
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    setBusy(true)
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      if (!response.ok) throw new Error('Failed to update notifications')
+      router.refresh()
+    } catch (error) {
+      console.error('Mark notifications read error:', error)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (notifications.length === 0) {
+    return <p className="text-therapy-muted text-sm text-center py-8">No notifications yet</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {unread.length > 0 && (
+        <div className="flex justify-end">
+          <Button size="sm" variant="ghost" loading={busy} onClick={() => markRead({ all: true })}>
+            Mark all read ({unread.length})
+          </Button>
+        </div>
+      )}
+      {notifications.map((notification) => (
+        <div
+          key={notification.id}
+          className={`p-3 rounded-lg border ${notification.read_at ? 'border-therapy-border' : unreadStyle(notification)}`}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-medium text-sm text-therapy-text">{notification.title}</p>
+            <span className="text-xs text-therapy-muted flex-shrink-0">
+              {new Date(notification.created_at).toLocaleString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: '2-digit'
+              })}
+            </span>
+          </div>
+          {notification.body && <p className="text-sm text-therapy-muted mt-1">{notification.body}</p>}
+          <div className="flex gap-3 mt-2">
+            {notification.link && (
+              <Link
+                href={notification.link}
+                onClick={() => !notification.read_at && markRead({ ids: [notification.id] })}
+                className="text-sm text-therapy-accent hover:underline"
+              >
+                Open
+              </Link>
+            )}
+            {!notification.read_at && (
+              <button
+                onClick={() => markRead({ ids: [notification.id] })}
+                disabled={busy}
+                className="text-sm text-therapy-muted hover:text-therapy-text"
+              >
+                Mark read
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
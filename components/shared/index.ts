@@ -1,4 +1,5 @@
 export { Navbar } from './Navbar'
 export { DisclaimerBanner } from './DisclaimerBanner'
 export { CrisisBanner } from './CrisisBanner'
+export { NotificationList } from './NotificationList'
 
@@ -0,0 +1,157 @@
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui'
+import { severityLabel } from '@/lib/clinical-scales'
+import {
+  AGREEMENT_WINDOW_DAYS,
+  ESTIMATED_INSTRUMENTS,
+  type AgreementReport,
+  type InstrumentAgreement,
+} from '@/lib/instrument-agreement'
+import type { InstrumentDefinition } from '@/lib/instruments'
+import type { QuestionnaireInstrument } from '@/types'
+
+interface AgreementPanelProps {
+  report: AgreementReport
+  definitions: Record<QuestionnaireInstrument, InstrumentDefinition>
+}
+
+const signed = (x: number) => `${x >= 0 ? '+' : ''}${x.toFixed(1)}`
+
+// Kappa conventions (Landis & Koch): below 0.4 is poor-to-fair agreement
+function kappaClass(kappa: number | null) {
+  if (kappa === null) return 'text-therapy-muted'
+  if (kappa >= 0.6) return 'text-sage-700'
+  if (kappa >= 0.4) return 'text-therapy-text'
+  return 'text-therapy-danger'
+}
+
+const formatKappa = (kappa: number | null) => (kappa === null ? '—' : kappa.toFixed(2))
+
+function InstrumentAgreementColumn({
+  summary,
+  definition,
+}: {
+  summary: InstrumentAgreement | null
+  definition: InstrumentDefinition
+}) {
+  if (!summary) {
+    return (
+      <div className="border border-therapy-border rounded-xl p-4">
+        <h4 className="text-sm font-medium text-therapy-text">{definition.name}</h4>
+        <p className="text-sm text-therapy-muted mt-2">
+          No completed {definition.name} with shared journal entries in the {AGREEMENT_WINDOW_DAYS} days before it.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="border border-therapy-border rounded-xl p-4">
+      <div className="flex items-baseline justify-between">
+        <h4 className="text-sm font-medium text-therapy-text">{definition.name}</h4>
+        <span className="text-xs text-therapy-muted">
+          {summary.n} {summary.n === 1 ? 'questionnaire' : 'questionnaires'} paired
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mt-3">
+        <div>
+          <p className="text-xs text-therapy-muted">Bias (AI − patient)</p>
+          <p className="text-lg font-semibold text-therapy-text">{signed(summary.bias)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-therapy-muted">Mean abs. error</p>
+          <p className="text-lg font-semibold text-therapy-text">{summary.mae.toFixed(1)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-therapy-muted">Band κ<sub>w</sub></p>
+          <p className={`text-lg font-semibold ${kappaClass(summary.totalKappa)}`}>{formatKappa(summary.totalKappa)}</p>
+        </div>
+      </div>
+
+      <details className="mt-3">
+        <summary className="text-xs text-therapy-muted cursor-pointer">Per-item agreement</summary>
+        <table className="w-full mt-2 text-xs">
+          <thead>
+            <tr className="text-therapy-muted">
+              <th className="text-left font-normal pb-1">Item</th>
+              <th className="text-right font-normal pb-1">κ<sub>w</sub></th>
+              <th className="text-right font-normal pb-1">AI − patient</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.items.map((item) => (
+              <tr key={item.item} className="border-t border-therapy-border">
+                <td className="py-1 pr-2 text-therapy-text">
+                  {item.item}. {definition.items[item.item - 1]}
+                </td>
+                <td className={`py-1 text-right ${kappaClass(item.kappa)}`}>{formatKappa(item.kappa)}</td>
+                <td className="py-1 text-right text-therapy-muted">{signed(item.meanDifference)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+
+      <details className="mt-2">
+        <summary className="text-xs text-therapy-muted cursor-pointer">Severity bands</summary>
+        <table className="w-full mt-2 text-xs">
+          <thead>
+            <tr className="text-therapy-muted">
+              <th className="text-left font-normal pb-1">Patient ↓ / AI →</th>
+              {summary.bands.map((b) => (
+                <th key={b} className="text-center font-normal pb-1">
+                  {severityLabel(summary.instrument, b)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {summary.bands.map((b, i) => (
+              <tr key={b} className="border-t border-therapy-border">
+                <td className="py-1 pr-2 text-therapy-text">{severityLabel(summary.instrument, b)}</td>
+                {summary.confusion[i].map((count, j) => (
+                  <td
+                    key={j}
+                    className={`py-1 text-center ${
+                      count === 0 ? 'text-therapy-muted' : i === j ? 'bg-sage-50 text-sage-700 font-medium' : 'text-therapy-text'
+                    }`}
+                  >
+                    {count}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  )
+}
+
+// How closely the journal-derived PHQ-9/GAD-7 estimates track what the patient
+// answers on the questionnaires
+export function AgreementPanel({ report, definitions }: AgreementPanelProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI Estimate Agreement</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid md:grid-cols-2 gap-4">
+          {ESTIMATED_INSTRUMENTS.map((instrument) => (
+            <InstrumentAgreementColumn
+              key={instrument}
+              summary={report[instrument]}
+              definition={definitions[instrument]}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-therapy-muted mt-3">
+          Each questionnaire is compared with the AI item readings of shared entries from the {AGREEMENT_WINDOW_DAYS} days
+          before it. κ<sub>w</sub> is quadratic-weighted kappa; values below 0.4 mean the estimates should not stand in
+          for the questionnaire.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,7 +2,9 @@
 
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui'
 import { MoodBadge } from '@/components/journal'
-import type { LongitudinalProfile } from '@/lib/longitudinal-profile'
+import type { ClinicalChangeWindow, DetectedShift, LongitudinalProfile, ShiftSeries } from '@/lib/longitudinal-profile'
+import type { ChangeClassification } from '@/lib/clinical-scales'
+import { INSTRUMENTS } from '@/lib/instruments'
 
 interface LongitudinalProfileProps {
   profile: LongitudinalProfile
@@ -10,7 +12,7 @@ interface LongitudinalProfileProps {
 }
 
 export function LongitudinalProfileView({ profile, patientName }: LongitudinalProfileProps) {
-  const { baseline, trends, themes, evidence, dataRange } = profile
+  const { baseline, trends, clinicalChange, themes, evidence, dataRange } = profile
 
   const hasData = baseline.sampleCount > 0
 
@@ -154,14 +156,62 @@ export function LongitudinalProfileView({ profile, patientName }: LongitudinalPr
               sublabel="vs. patient baseline"
             />
           </div>
+          <div className="mt-4 pt-4 border-t border-therapy-border">
+            <h4 className="text-sm font-medium text-therapy-muted mb-3 uppercase tracking-wide">
+              Detected Shifts
+            </h4>
+            {trends.shifts.length > 0 ? (
+              <div className="space-y-3">
+                {trends.shifts.map((shift) => (
+                  <ShiftRow key={`${shift.series}-${shift.date}`} shift={shift} />
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-therapy-muted">No sustained shifts in mood, calmness, sleep or PHQ-9 estimates</p>
+            )}
+            <p className="text-xs text-therapy-muted mt-3">
+              Change points found by PELT across entries in order; confidence is the approximate probability of a real
+              shift versus noise.
+            </p>
+          </div>
         </CardContent>
       </Card>
 
-      {/* Section 3 — Recurrent Themes */}
+      {/* Section 3 — Clinical Change */}
       <Card>
         <CardHeader>
           <div className="flex items-center gap-2">
             <SectionNumber n={3} />
+            <CardTitle>Clinical Change</CardTitle>
+          </div>
+          <p className="text-xs text-therapy-muted mt-1">
+            First two weeks vs. latest two weeks (Jacobson&ndash;Truax)
+          </p>
+        </CardHeader>
+        <CardContent>
+          {clinicalChange.length > 0 ? (
+            <div className="space-y-3">
+              {clinicalChange.map((row) => (
+                <ClinicalChangeRow key={`${row.scale}-${row.source}`} row={row} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-therapy-muted">
+              Needs readings in two separate two-week windows.
+            </p>
+          )}
+          <p className="text-xs text-therapy-muted mt-4 pt-3 border-t border-therapy-border">
+            Change is reliable when |RCI| &ge; 1.96 (about 6 PHQ-9, 4 GAD-7 or 10 PCL-5 points). Recovered also means
+            moving from the clinical range (PHQ-9 &ge; 10, GAD-7 &ge; 8, PCL-5 &ge; 33) to below it.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Section 4 — Recurrent Themes */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <SectionNumber n={4} />
             <CardTitle>Recurrent Themes</CardTitle>
           </div>
         </CardHeader>
@@ -249,12 +299,12 @@ export function LongitudinalProfileView({ profile, patientName }: LongitudinalPr
         </CardContent>
       </Card>
 
-      {/* Section 4 — Evidence Snippets */}
+      {/* Section 5 — Evidence Snippets */}
       {evidence.length > 0 && (
         <Card>
           <CardHeader>
             <div className="flex items-center gap-2">
-              <SectionNumber n={4} />
+              <SectionNumber n={5} />
               <CardTitle>Evidence Snippets</CardTitle>
             </div>
             <p className="text-xs text-therapy-muted mt-1">
@@ -281,9 +331,11 @@ export function LongitudinalProfileView({ profile, patientName }: LongitudinalPr
                       </time>
                     </div>
                   </div>
-                  <p className="text-sm font-serif text-therapy-text leading-relaxed italic border-l-2 border-sage-200 pl-3">
-                    &ldquo;{snippet.excerpt}&rdquo;
-                  </p>
+                  {snippet.excerpt && (
+                    <p className="text-sm font-serif text-therapy-text leading-relaxed italic border-l-2 border-sage-200 pl-3">
+                      &ldquo;{snippet.excerpt}&rdquo;
+                    </p>
+                  )}
                 </div>
               ))}
             </div>
@@ -433,6 +485,88 @@ function SentimentPill({ trend, slope }: SentimentPillProps) {
   )
 }
 
+const SHIFT_SERIES: Record<ShiftSeries, { label: string; unit: string; higherIsWorse?: boolean }> = {
+  mood: { label: 'Mood', unit: '/10' },
+  calmness: { label: 'Calmness', unit: '/10' },
+  sleep: { label: 'Sleep', unit: ' hrs' },
+  phq9: { label: 'PHQ-9 est.', unit: '', higherIsWorse: true },
+}
+
+function ShiftRow({ shift }: { shift: DetectedShift }) {
+  const series = SHIFT_SERIES[shift.series]
+  const rising = shift.after > shift.before
+  const isGood = series.higherIsWorse ? !rising : rising
+
+  return (
+    <div className="border border-therapy-border rounded-xl px-4 py-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-sm text-therapy-text">
+          <span className="font-medium">{series.label}</span>
+          <span className="text-therapy-muted"> around {formatDateShort(shift.date)}: </span>
+          {shift.before}{series.unit}
+          <span className={`mx-1 ${isGood ? 'text-sage-600' : 'text-therapy-danger'}`}>
+            {rising ? '\u2191' : '\u2193'}
+          </span>
+          {shift.after}{series.unit}
+        </div>
+        <span className="text-xs text-therapy-muted bg-sage-50 px-2 py-0.5 rounded-full flex-shrink-0">
+          {Math.round(shift.confidence * 100)}% confidence
+        </span>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+        {shift.triggers.map((trigger) => (
+          <span key={trigger} className="px-2 py-0.5 rounded-full bg-warm-50 text-warm-700">
+            {trigger}
+          </span>
+        ))}
+        <span className="text-therapy-muted">Entries:</span>
+        {shift.entries.map((entry) => (
+          <a key={entry.id} href={`#entry-${entry.id}`} className="text-sage-600 hover:underline">
+            {new Date(entry.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          </a>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+const CLASSIFICATION_STYLES: Record<ChangeClassification, { label: string; color: string }> = {
+  recovered: { label: 'Recovered', color: 'bg-sage-100 text-sage-800' },
+  improved: { label: 'Improved', color: 'bg-sage-50 text-sage-700' },
+  unchanged: { label: 'Unchanged', color: 'bg-warm-50 text-warm-700' },
+  deteriorated: { label: 'Deteriorated', color: 'bg-red-50 text-red-700' },
+}
+
+function ClinicalChangeRow({ row }: { row: ClinicalChangeWindow }) {
+  const style = CLASSIFICATION_STYLES[row.change.classification]
+
+  return (
+    <div className="flex items-center justify-between gap-4 border border-therapy-border rounded-xl px-4 py-3">
+      <div className="min-w-0">
+        <div className="text-sm font-medium text-therapy-text">
+          {INSTRUMENTS[row.scale].name}
+          <span className="text-xs font-normal text-therapy-muted ml-2">
+            {row.source === 'questionnaire' ? 'Questionnaires' : 'AI estimates'}
+          </span>
+        </div>
+        <div className="text-xs text-therapy-muted mt-0.5">
+          {row.baseline.mean.toFixed(1)} ({formatDateShort(row.baseline.from)}, n={row.baseline.count})
+          {' \u2192 '}
+          {row.current.mean.toFixed(1)} ({formatDateShort(row.current.to)}, n={row.current.count})
+        </div>
+      </div>
+      <div className="flex items-center gap-3 flex-shrink-0">
+        <span className="text-xs text-therapy-muted">
+          RCI {row.change.rci >= 0 ? '+' : ''}{row.change.rci.toFixed(2)}
+        </span>
+        <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${style.color}`}>
+          {style.label}
+        </span>
+      </div>
+    </div>
+  )
+}
+
 // ─── Formatting Helpers ──────────────────────────────────────
 
 function formatValue(value: number, format: string): string {
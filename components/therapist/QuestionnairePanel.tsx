@@ -0,0 +1,221 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui'
+import { classifyClinicalChange, interpretScore, severityLabel } from '@/lib/clinical-scales'
+import { isItemAsked, maxScore, type InstrumentDefinition } from '@/lib/instruments'
+import type { QuestionnaireResponseWithItems } from '@/lib/questionnaires'
+import type { QuestionnaireInstrument, QuestionnaireSchedule } from '@/types'
+
+interface QuestionnairePanelProps {
+  patientId: string
+  definitions: Record<QuestionnaireInstrument, InstrumentDefinition>
+  schedules: QuestionnaireSchedule[]
+  responses: QuestionnaireResponseWithItems[] // newest first
+  aiEstimates: Partial<Record<QuestionnaireInstrument, number | null>> // from the latest shared entry
+}
+
+const INTERVAL_OPTIONS = [
+  { value: 0, label: 'Not scheduled' },
+  { value: 7, label: 'Every week' },
+  { value: 14, label: 'Every 2 weeks' },
+  { value: 28, label: 'Every 4 weeks' },
+]
+
+// Answers in the worse half of the scale stand out
+function isNotable(definition: InstrumentDefinition, score: number) {
+  const top = definition.responseOptions.length - 1
+  return definition.higherIsWorse ? score > 0 && score >= top / 2 : score <= top / 2
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+function InstrumentColumn({
+  patientId,
+  instrument,
+  definition,
+  schedule: initialSchedule,
+  responses,
+  aiEstimate,
+}: {
+  patientId: string
+  instrument: QuestionnaireInstrument
+  definition: InstrumentDefinition
+  schedule: QuestionnaireSchedule | null
+  responses: QuestionnaireResponseWithItems[]
+  aiEstimate: number | null | undefined // undefined: not estimated from journals
+}) {
+  const [schedule, setSchedule] = useState(initialSchedule)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [latest, previous] = responses
+  const max = maxScore(definition)
+  const change = latest && previous ? classifyClinicalChange(previous.total_score, latest.total_score, instrument) : null
+
+  const interval = schedule?.active ? schedule.interval_days : 0
+  const options = INTERVAL_OPTIONS.some((o) => o.value === interval)
+    ? INTERVAL_OPTIONS
+    : [...INTERVAL_OPTIONS, { value: interval, label: `Every ${interval} days` }]
+
+  const updateSchedule = async (intervalDays: number) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/questionnaires/schedules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ patient_id: patientId, instrument, interval_days: intervalDays || null }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Failed to update schedule')
+      setSchedule(data.schedule ?? null)
+    } catch (e) {
+      console.error('Questionnaire schedule error:', e)
+      setError(e instanceof Error ? e.message : 'Failed to update schedule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="border border-therapy-border rounded-xl p-4">
+      <h4 className="text-sm font-medium text-therapy-text">{definition.name}</h4>
+
+      <div className={`grid ${aiEstimate !== undefined ? 'grid-cols-2' : 'grid-cols-1'} gap-4 mt-3`}>
+        <div>
+          <p className="text-xs text-therapy-muted">Completed by patient</p>
+          {latest ? (
+            <>
+              <p className="text-2xl font-semibold text-therapy-text mt-1">
+                {latest.total_score}
+                <span className="text-sm font-normal text-therapy-muted">/{max}</span>
+              </p>
+              <p className="text-xs text-therapy-muted">{severityLabel(instrument, latest.severity)}</p>
+              <p className="text-xs text-therapy-muted mt-1">{formatDate(latest.created_at)}</p>
+            </>
+          ) : (
+            <p className="text-sm text-therapy-muted mt-1">Not completed yet</p>
+          )}
+        </div>
+        {aiEstimate !== undefined && (
+          <div>
+            <p className="text-xs text-therapy-muted">AI estimate from journal</p>
+            {aiEstimate !== null ? (
+              <>
+                <p className="text-2xl font-semibold text-therapy-muted mt-1">
+                  {aiEstimate}
+                  <span className="text-sm font-normal">/{max}</span>
+                </p>
+                <p className="text-xs text-therapy-muted">{interpretScore(instrument, aiEstimate).label}</p>
+              </>
+            ) : (
+              <p className="text-sm text-therapy-muted mt-1">—</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {previous && (
+        <p className="text-xs text-therapy-muted mt-3">
+          Previously {previous.total_score} on {formatDate(previous.created_at)}
+          {change?.reliable && (
+            <span
+              className={`ml-1 font-medium ${change.classification === 'deteriorated' ? 'text-therapy-danger' : 'text-sage-700'}`}
+            >
+              · Reliable change: {change.classification}
+            </span>
+          )}
+        </p>
+      )}
+
+      {latest && (
+        <details className="mt-3">
+          <summary className="text-xs text-therapy-muted cursor-pointer">Item responses</summary>
+          <ol className="mt-2 space-y-1.5">
+            {definition.items.map((item, i) => {
+              const score = isItemAsked(definition, i + 1, latest.items) ? latest.items[i] : undefined
+              return (
+                <li key={i} className="flex items-start justify-between gap-3 text-xs">
+                  <span className="text-therapy-text">{i + 1}. {item}</span>
+                  <span
+                    className={`flex-shrink-0 ${
+                      score !== undefined && isNotable(definition, score) ? 'text-therapy-text font-medium' : 'text-therapy-muted'
+                    }`}
+                  >
+                    {score !== undefined ? definition.responseOptions[score] : '—'}
+                  </span>
+                </li>
+              )
+            })}
+          </ol>
+        </details>
+      )}
+
+      <div className="mt-4 pt-3 border-t border-therapy-border">
+        <label htmlFor={`schedule-${instrument}`} className="block text-xs text-therapy-muted mb-1">
+          Schedule
+        </label>
+        <select
+          id={`schedule-${instrument}`}
+          value={interval}
+          disabled={saving}
+          onChange={(e) => updateSchedule(Number(e.target.value))}
+          className="w-full px-3 py-2 text-sm border border-therapy-border rounded-lg focus:outline-none focus:ring-2 focus:ring-therapy-accent"
+        >
+          {options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {schedule?.active && (
+          <p className="text-xs text-therapy-muted mt-1">
+            {new Date(schedule.next_due_at) <= new Date()
+              ? `Due now${schedule.reminded_at ? ' · reminder sent' : ''}`
+              : `Next due ${formatDate(schedule.next_due_at)}`}
+          </p>
+        )}
+        {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      </div>
+    </div>
+  )
+}
+
+// Administered questionnaire results (next to the AI estimates for PHQ-9/GAD-7), with
+// the schedule the patient is reminded on
+export function QuestionnairePanel({
+  patientId,
+  definitions,
+  schedules,
+  responses,
+  aiEstimates,
+}: QuestionnairePanelProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Questionnaires</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid md:grid-cols-2 gap-4">
+          {(Object.keys(definitions) as QuestionnaireInstrument[]).map((instrument) => (
+            <InstrumentColumn
+              key={instrument}
+              patientId={patientId}
+              instrument={instrument}
+              definition={definitions[instrument]}
+              schedule={schedules.find((s) => s.instrument === instrument) ?? null}
+              responses={responses.filter((r) => r.instrument === instrument)}
+              aiEstimate={aiEstimates[instrument]}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-therapy-muted mt-3">
+          Questionnaire scores are the patient&apos;s own answers to the validated instruments; AI estimates are inferred
+          from journal text and are for trend awareness only.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
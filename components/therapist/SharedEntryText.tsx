@@ -0,0 +1,33 @@
+import { REDACTION_MARKER, describeShareScopes } from '@/lib/sharing'
+import type { TherapistEntry } from '@/lib/sharing'
+
+// Entry text as shared with the therapist: redacted passages are marked, and entries
+// shared without full text say so instead of rendering nothing.
+export function SharedEntryText({ entry }: { entry: TherapistEntry }) {
+  if (entry.content === null) {
+    return (
+      <p className="text-sm text-therapy-muted italic">
+        Patient shared {describeShareScopes(entry.share_scopes).toLowerCase()} — entry text not shared.
+      </p>
+    )
+  }
+
+  const parts = entry.content.split(REDACTION_MARKER)
+  return (
+    <p className="text-therapy-text font-serif leading-relaxed whitespace-pre-wrap">
+      {parts.map((part, i) => (
+        <span key={i}>
+          {part}
+          {i < parts.length - 1 && (
+            <span
+              className="px-1.5 mx-0.5 text-xs font-sans not-italic bg-gray-200 text-gray-600 rounded"
+              title="Passage redacted by the patient"
+            >
+              redacted
+            </span>
+          )}
+        </span>
+      ))}
+    </p>
+  )
+}
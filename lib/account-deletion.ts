@@ -0,0 +1,222 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isNeo4jConfigured } from '@/lib/neo4j'
+import { eraseUserFromNeo4j } from '@/lib/graph/neo4jIngest'
+import { rebuildPopulationStats } from '@/lib/entry-extraction'
+import { EXPORT_BUCKET } from '@/lib/data-export'
+import { recordAudit } from '@/lib/audit'
+import { claimWithLease, nextAttemptAt, type Backoff } from '@/lib/retry'
+import type { AccountDeletion, DeletionCertificate } from '@/types'
+
+// Right to erasure. A patient's request waits out a grace period in `account_deletions`
+// (cancellable until then), after which the worker erases the account everywhere:
+// Postgres (deleting the auth user cascades through every patient table, embeddings
+// included), export archives in storage, and the Neo4j graph. Population statistics are
+// rebuilt without the patient, and a deletion certificate is sealed into the audit log.
+// Service-role client only.
+
+// Must match the scheduled_for default on public.account_deletions
+export const ACCOUNT_DELETION_GRACE_DAYS = 14
+
+export const CERTIFICATE_VERSION = 4
+
+const MAX_DELETION_ATTEMPTS = 8
+const PROCESSING_LEASE_MINUTES = 15
+const DELETION_BACKOFF: Backoff = { baseSeconds: 5 * 60, capSeconds: 6 * 60 * 60 } // 5, 10, 20, ... minutes, up to 6 hours
+
+// ─── Inventory ───
+
+type PostgresCounts = DeletionCertificate['postgres']
+
+async function countRows(
+  query: PromiseLike<{ count: number | null; error: { message: string } | null }>,
+  table: string
+) {
+  const { count, error } = await query
+  if (error) throw new Error(`Failed to count ${table}: ${error.message}`)
+  return count ?? 0
+}
+
+/** What the erasure will remove, counted before anything is deleted (no contents). */
+async function countPatientRows(svc: SupabaseClient, patientId: string): Promise<PostgresCounts> {
+  const own = (table: string) =>
+    countRows(svc.from(table).select('*', { count: 'exact', head: true }).eq('patient_id', patientId), table)
+  const perEntry = (table: string) =>
+    countRows(
+      svc
+        .from(table)
+        .select('id, journal_entries!inner(patient_id)', { count: 'exact', head: true })
+        .eq('journal_entries.patient_id', patientId),
+      table
+    )
+
+  return {
+    journal_entries: await own('journal_entries'),
+    entry_revisions: await own('entry_revisions'),
+    structured_logs: await perEntry('structured_logs'),
+    self_reports: await own('self_reports'),
+    ai_extractions: await perEntry('ai_extractions'),
+    ai_extraction_versions: await perEntry('ai_extraction_versions'),
+    entry_embeddings: await perEntry('entry_embeddings'),
+    patient_baselines: await own('patient_baselines'),
+    chat_messages: await own('chat_messages'),
+    crisis_alerts: await own('crisis_alerts'),
+    questionnaire_responses: await own('questionnaire_responses'),
+    data_exports: await own('data_exports'),
+    therapist_links: await own('patient_therapist'),
+  }
+}
+
+// ─── Erasure steps ───
+
+async function deleteAuthUser(svc: SupabaseClient, userId: string) {
+  const { error } = await svc.auth.admin.deleteUser(userId)
+  // Already gone: an earlier attempt got this far
+  if (error && error.status !== 404) throw new Error(`Failed to delete auth user: ${error.message}`)
+}
+
+async function deleteExportArchives(svc: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await svc.storage.from(EXPORT_BUCKET).list(userId, { limit: 1000 })
+  if (error) throw new Error(`Failed to list export archives: ${error.message}`)
+
+  const paths = (data ?? []).map((file) => `${userId}/${file.name}`)
+  if (paths.length === 0) return 0
+
+  const { error: removeError } = await svc.storage.from(EXPORT_BUCKET).remove(paths)
+  if (removeError) throw new Error(`Failed to delete export archives: ${removeError.message}`)
+  return paths.length
+}
+
+// ─── Queue processing ───
+
+async function saveProgress(svc: SupabaseClient, id: string, certificate: Partial<DeletionCertificate>) {
+  const { error } = await svc.from('account_deletions').update({ certificate }).eq('id', id)
+  if (error) throw new Error(`Failed to save erasure progress: ${error.message}`)
+}
+
+/**
+ * Erase one account. Every step is idempotent and progress is saved on the request,
+ * so a retry after a partial failure resumes where it stopped and the row counts in
+ * the certificate are the ones taken before anything was deleted.
+ */
+export async function processAccountDeletion(svc: SupabaseClient, job: AccountDeletion): Promise<boolean> {
+  const attempts = job.attempts + 1
+
+  // Claim the job with a lease; a worker that dies mid-erasure lets it be retried later
+  const claimed = await claimWithLease(svc, 'account_deletions', job, {
+    leaseMinutes: PROCESSING_LEASE_MINUTES,
+    statuses: ['pending', 'processing'],
+  })
+  if (!claimed) return true // cancelled, or another worker has it
+
+  const certificate: Partial<DeletionCertificate> = { ...(job.certificate ?? {}) }
+
+  try {
+    if (!certificate.postgres) {
+      certificate.postgres = await countPatientRows(svc, job.user_id)
+      await saveProgress(svc, job.id, certificate)
+    }
+
+    // Cascades through profiles to every patient table (and the jobs queue, so no
+    // queued graph write can recreate graph nodes afterwards). audit_log has no foreign keys
+    // and is retained.
+    await deleteAuthUser(svc, job.user_id)
+
+    if (certificate.storage === undefined) {
+      certificate.storage = { export_archives: await deleteExportArchives(svc, job.user_id) }
+      await saveProgress(svc, job.id, certificate)
+    }
+
+    if (!certificate.neo4j) {
+      certificate.neo4j = isNeo4jConfigured() ? await eraseUserFromNeo4j(job.user_id) : 'not_configured'
+      await saveProgress(svc, job.id, certificate)
+    }
+
+    if (!certificate.population_stats) {
+      certificate.population_stats = await rebuildPopulationStats(svc)
+      await saveProgress(svc, job.id, certificate)
+    }
+
+    const erasedAt = new Date().toISOString()
+    const final: DeletionCertificate = {
+      certificate_version: CERTIFICATE_VERSION,
+      request_id: job.id,
+      subject_id: job.user_id,
+      requested_at: job.created_at,
+      scheduled_for: job.scheduled_for,
+      erased_at: erasedAt,
+      postgres: certificate.postgres,
+      storage: certificate.storage,
+      neo4j: certificate.neo4j,
+      population_stats: certificate.population_stats,
+      retained: ['audit_log', 'account_deletions'],
+    }
+
+    await recordAudit(svc, null, {
+      action: 'account_erased',
+      patientId: job.user_id,
+      metadata: final as unknown as Record<string, unknown>,
+    })
+
+    // The certificate's audit row: its hash seals the certificate into the chain
+    const { data: sealed } = await svc
+      .from('audit_log')
+      .select('id')
+      .eq('action', 'account_erased')
+      .eq('patient_id', job.user_id)
+      .order('seq', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    await svc
+      .from('account_deletions')
+      .update({
+        status: 'completed',
+        certificate: final,
+        audit_log_id: sealed?.id ?? null,
+        completed_at: erasedAt,
+        last_error: null,
+      })
+      .eq('id', job.id)
+    return true
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e)
+    console.error(`Account deletion ${job.id} failed (attempt ${attempts}):`, e)
+
+    await svc
+      .from('account_deletions')
+      .update({
+        last_error: message.slice(0, 2000),
+        ...(attempts >= MAX_DELETION_ATTEMPTS
+          ? { status: 'failed' }
+          : { status: 'processing', next_attempt_at: nextAttemptAt(attempts, DELETION_BACKOFF) }),
+      })
+      .eq('id', job.id)
+    return false
+  }
+}
+
+/**
+ * Erase accounts whose grace period has ended (and retry interrupted or failed
+ * attempts), oldest first.
+ */
+export async function processAccountDeletions(
+  svc: SupabaseClient,
+  opts: { limit?: number } = {}
+): Promise<{ processed: number; failed: number }> {
+  const { data, error } = await svc
+    .from('account_deletions')
+    .select('*')
+    .in('status', ['pending', 'processing'])
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(opts.limit ?? 5)
+  if (error) throw new Error(`Failed to read account deletions: ${error.message}`)
+
+  let processed = 0
+  let failed = 0
+  for (const job of (data ?? []) as AccountDeletion[]) {
+    if (await processAccountDeletion(svc, job)) processed++
+    else failed++
+  }
+  return { processed, failed }
+}
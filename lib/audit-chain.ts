@@ -0,0 +1,156 @@
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { toCsv } from '@/lib/csv'
+import type { AuditLogEntry } from '@/types'
+
+// Verification and export of the hash-chained audit log. Server/scripts only (Node crypto).
+
+export const GENESIS_HASH = '0'.repeat(64)
+
+// Columns as the chain hashes them: metadata as Postgres renders jsonb to text
+export const AUDIT_CHAIN_COLUMNS =
+  'id, seq, actor_id, actor_role, patient_id, action, entry_ids, alert_id, metadata::text, created_at, prev_hash, hash'
+
+export type AuditChainRow = Omit<AuditLogEntry, 'metadata'> & { metadata: string }
+
+/** Mirrors public.handle_audit_append(); keep the field order and separators in sync. */
+export function computeAuditHash(prevHash: string, row: AuditChainRow): string {
+  const canonical = [
+    String(row.seq),
+    row.id,
+    row.actor_id ?? '',
+    row.actor_role,
+    row.patient_id ?? '',
+    row.action,
+    row.entry_ids.join(','),
+    row.alert_id ?? '',
+    row.metadata,
+    // created_at is stored at millisecond precision, so this round-trips exactly
+    new Date(row.created_at).toISOString(),
+  ].join('\u001f')
+
+  return createHash('sha256').update(`${prevHash}\n${canonical}`, 'utf8').digest('hex')
+}
+
+export interface AuditChainProblem {
+  seq: number
+  kind: 'gap' | 'prev_hash_mismatch' | 'hash_mismatch'
+  detail: string
+}
+
+export interface AuditChainReport {
+  checked: number
+  head: { seq: number; hash: string } | null
+  problems: AuditChainProblem[]
+}
+
+/**
+ * Walk the chain in seq order. Detects edited rows (hash mismatch), deleted or
+ * reordered rows (seq gaps, prev_hash mismatch). Truncation of the newest rows is
+ * only detectable against a previously recorded head, so pass it as `expectHead`.
+ */
+export async function verifyAuditChain(
+  svc: SupabaseClient,
+  opts: { batchSize?: number; expectHead?: { seq: number; hash: string } } = {}
+): Promise<AuditChainReport> {
+  const batchSize = opts.batchSize ?? 1000
+  const problems: AuditChainProblem[] = []
+  let prevHash = GENESIS_HASH
+  let expectedSeq = 1
+  let checked = 0
+  let head: AuditChainReport['head'] = null
+
+  for (;;) {
+    const { data, error } = await svc
+      .from('audit_log')
+      .select(AUDIT_CHAIN_COLUMNS)
+      .gte('seq', expectedSeq)
+      .order('seq', { ascending: true })
+      .limit(batchSize)
+    if (error) throw new Error(`Failed to read audit log: ${error.message}`)
+
+    const rows = (data ?? []) as unknown as AuditChainRow[]
+    for (const row of rows) {
+      if (row.seq !== expectedSeq) {
+        problems.push({ seq: row.seq, kind: 'gap', detail: `expected seq ${expectedSeq}, found ${row.seq}` })
+      }
+      if (row.prev_hash !== prevHash) {
+        problems.push({ seq: row.seq, kind: 'prev_hash_mismatch', detail: 'does not link to the previous record' })
+      }
+      if (computeAuditHash(row.prev_hash, row) !== row.hash) {
+        problems.push({ seq: row.seq, kind: 'hash_mismatch', detail: 'record contents do not match its hash' })
+      }
+
+      prevHash = row.hash
+      expectedSeq = row.seq + 1
+      head = { seq: row.seq, hash: row.hash }
+      checked++
+    }
+
+    if (rows.length < batchSize) break
+  }
+
+  if (opts.expectHead) {
+    const { seq, hash } = opts.expectHead
+    const { data: anchor } = await svc.from('audit_log').select('hash').eq('seq', seq).maybeSingle()
+    if (!anchor) {
+      problems.push({ seq, kind: 'gap', detail: 'recorded head is missing (log truncated?)' })
+    } else if (anchor.hash !== hash) {
+      problems.push({ seq, kind: 'hash_mismatch', detail: 'recorded head hash differs (chain rewritten?)' })
+    }
+  }
+
+  return { checked, head, problems }
+}
+
+// ─── Export ───
+
+const CSV_COLUMNS: (keyof AuditChainRow & string)[] = [
+  'seq',
+  'created_at',
+  'actor_id',
+  'actor_role',
+  'patient_id',
+  'action',
+  'entry_ids',
+  'alert_id',
+  'metadata',
+  'id',
+  'prev_hash',
+  'hash',
+]
+
+export function auditRowsToCsv(rows: AuditChainRow[]): string {
+  return toCsv(rows, CSV_COLUMNS)
+}
+
+/** Rows in seq order, optionally limited to a created_at range and one patient. */
+export async function fetchAuditRows(
+  svc: SupabaseClient,
+  opts: { from?: string; to?: string; patientId?: string; batchSize?: number } = {}
+): Promise<AuditChainRow[]> {
+  const batchSize = opts.batchSize ?? 1000
+  const rows: AuditChainRow[] = []
+  let afterSeq = 0
+
+  for (;;) {
+    let query = svc
+      .from('audit_log')
+      .select(AUDIT_CHAIN_COLUMNS)
+      .gt('seq', afterSeq)
+      .order('seq', { ascending: true })
+      .limit(batchSize)
+    if (opts.from) query = query.gte('created_at', opts.from)
+    if (opts.to) query = query.lt('created_at', opts.to)
+    if (opts.patientId) query = query.eq('patient_id', opts.patientId)
+
+    const { data, error } = await query
+    if (error) throw new Error(`Failed to read audit log: ${error.message}`)
+    const batch = (data ?? []) as unknown as AuditChainRow[]
+    rows.push(...batch)
+    if (batch.length < batchSize) break
+    afterSeq = batch[batch.length - 1].seq
+  }
+
+  return rows
+}
@@ -0,0 +1,88 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AccessAction, AuditAction, AuditLogEntry } from '@/types'
+
+// Every API route and server page records through recordAudit(); nothing inserts into
+// audit_log directly. The database assigns seq, actor_role, created_at and the hash
+// chain (see handle_audit_append in schema.sql), so callers only describe the event.
+
+// ─── Actions ───
+
+// Therapist reads of patient data; patients see these on /access-log
+export const ACCESS_ACTIONS: AccessAction[] = [
+  'viewed_patient_list',
+  'viewed_patient_detail',
+  'viewed_entries',
+  'viewed_crisis_alert',
+]
+
+// Patient-facing wording for each access action
+export const ACCESS_ACTION_LABELS: Record<AccessAction, string> = {
+  viewed_patient_list: 'Saw your name and summary stats in their patient list',
+  viewed_patient_detail: 'Opened your patient profile',
+  viewed_entries: 'Viewed your shared entries',
+  viewed_crisis_alert: 'Reviewed a safety alert',
+}
+
+export function describeAccess(log: Pick<AuditLogEntry, 'entry_ids'> & { action: AccessAction }): string {
+  if (log.action === 'viewed_entries' && log.entry_ids.length > 0) {
+    return `Viewed ${log.entry_ids.length} shared ${log.entry_ids.length === 1 ? 'entry' : 'entries'}`
+  }
+  return ACCESS_ACTION_LABELS[log.action]
+}
+
+// ─── Recording ───
+
+export interface AuditEvent {
+  action: AuditAction
+  patientId?: string | null
+  entryIds?: string[]
+  alertId?: string | null
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Append events to the audit log, one row each, in order. Pass the caller's own RLS
+ * client (rows must be recorded as auth.uid()), or the service-role client with a
+ * null actor for system events.
+ *
+ * Throws if the write fails. Read paths record before returning data, so patient
+ * data is never served unaudited. Write paths use recordWriteAudit() instead.
+ */
+export async function recordAudit(
+  supabase: SupabaseClient,
+  actorId: string | null,
+  events: AuditEvent | AuditEvent[]
+) {
+  const list = Array.isArray(events) ? events : [events]
+  if (list.length === 0) return
+
+  const { error } = await supabase.from('audit_log').insert(
+    list.map((event) => ({
+      actor_id: actorId,
+      patient_id: event.patientId ?? null,
+      action: event.action,
+      entry_ids: event.entryIds ?? [],
+      alert_id: event.alertId ?? null,
+      metadata: event.metadata ?? {},
+    }))
+  )
+  if (error) throw new Error(`Audit log write failed: ${error.message}`)
+}
+
+/**
+ * recordAudit() for write paths: call it once the change and its follow-up steps
+ * (crisis screening, graph sync, job queueing) have run. The change is already
+ * committed, so a failed audit write is logged rather than turned into an error the
+ * client would retry.
+ */
+export async function recordWriteAudit(
+  supabase: SupabaseClient,
+  actorId: string | null,
+  events: AuditEvent | AuditEvent[]
+) {
+  try {
+    await recordAudit(supabase, actorId, events)
+  } catch (e) {
+    console.error('Error recording audit event:', e)
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Change-point detection for short, irregular patient series
+ *
+ * PELT (Killick, Fearnhead & Eckley 2012) with a Gaussian change-in-mean cost: finds
+ * the segmentation that minimises within-segment squared error plus a penalty per
+ * change, exactly, in roughly linear time. Noise is estimated robustly from successive
+ * differences so that the shifts themselves don't inflate it.
+ */
+
+export interface ChangePoint {
+  index: number // first value of the new segment
+  before: number // mean of the segment before
+  after: number // mean of the segment after
+  confidence: number // 0-1, see shiftConfidence
+}
+
+export interface ChangePointOptions {
+  minSegment?: number // fewest values per segment (default 3)
+  penalty?: number // per change, in units of -2 log-likelihood (default 3 log n)
+}
+
+export function detectChangePoints(values: number[], options: ChangePointOptions = {}): ChangePoint[] {
+  const n = values.length
+  const minSegment = Math.max(1, options.minSegment ?? 3)
+  if (n < 2 * minSegment) return []
+
+  const sigma = noiseScale(values)
+  if (sigma === 0) return []
+  const penalty = options.penalty ?? 3 * Math.log(n)
+
+  // Prefix sums give any segment's cost in O(1)
+  const sum = [0]
+  const sumSq = [0]
+  for (const v of values) {
+    sum.push(sum[sum.length - 1] + v)
+    sumSq.push(sumSq[sumSq.length - 1] + v * v)
+  }
+  const cost = (s: number, t: number) => {
+    const m = t - s
+    const segmentSum = sum[t] - sum[s]
+    return (sumSq[t] - sumSq[s] - (segmentSum * segmentSum) / m) / (sigma * sigma)
+  }
+
+  const best = new Array<number>(n + 1).fill(Infinity)
+  const previous = new Array<number>(n + 1).fill(0)
+  best[0] = -penalty
+  let candidates = [0]
+
+  for (let t = minSegment; t <= n; t++) {
+    for (const s of candidates) {
+      if (t - s < minSegment) continue
+      const total = best[s] + cost(s, t) + penalty
+      if (total < best[t]) {
+        best[t] = total
+        previous[t] = s
+      }
+    }
+    // Prune starts that can never be optimal again
+    candidates = candidates.filter((s) => t - s < minSegment || best[s] + cost(s, t) <= best[t])
+    if (Number.isFinite(best[t])) candidates.push(t)
+  }
+
+  const boundaries: number[] = []
+  for (let t = n; t > 0; t = previous[t]) {
+    if (previous[t] > 0) boundaries.unshift(previous[t])
+  }
+
+  const edges = [0, ...boundaries, n]
+  const mean = (s: number, t: number) => (sum[t] - sum[s]) / (t - s)
+
+  return boundaries.map((index, i) => {
+    const start = edges[i]
+    const end = edges[i + 2]
+    return {
+      index,
+      before: mean(start, index),
+      after: mean(index, end),
+      confidence: shiftConfidence(cost(start, end) - cost(start, index) - cost(index, end), end - start),
+    }
+  })
+}
+
+/**
+ * BIC approximation to the posterior probability of a shift (versus none) across the
+ * two neighbouring segments: the drop in -2 log-likelihood from splitting, less the
+ * cost of the two extra parameters (location and new mean).
+ */
+function shiftConfidence(gain: number, length: number): number {
+  const evidence = (gain - 2 * Math.log(length)) / 2
+  return Math.round((1 / (1 + Math.exp(-evidence))) * 100) / 100
+}
+
+/** Noise SD from the MAD of successive differences (robust to the level shifts). */
+function noiseScale(values: number[]): number {
+  const diffs = values.slice(1).map((v, i) => v - values[i])
+  const mad = median(diffs.map((d) => Math.abs(d - median(diffs))))
+  const robust = (1.4826 * mad) / Math.SQRT2
+  if (robust > 0) return robust
+
+  // Mostly-constant series: fall back to the plain SD
+  const m = values.reduce((s, v) => s + v, 0) / values.length
+  return Math.sqrt(values.reduce((s, v) => s + (v - m) ** 2, 0) / Math.max(1, values.length - 1))
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
@@ -1,41 +1,183 @@
+import { INSTRUMENTS, type SeverityBand } from '@/lib/instruments'
+import type { CrisisSeverity, QuestionnaireInstrument } from '@/types'
+
+// Scoring and interpretation for every instrument in the registry (lib/instruments.ts).
+// Also used for the extraction's PHQ-9/GAD-7 estimates, which share the bands.
+
 export type PHQ9Severity = 'minimal' | 'mild' | 'moderate' | 'moderately_severe' | 'severe'
 export type GAD7Severity = 'minimal' | 'mild' | 'moderate' | 'severe'
 
+/** Severity bands, least to most severe for instruments where higher is worse. */
+export function severityBands(instrument: QuestionnaireInstrument): SeverityBand[] {
+  return INSTRUMENTS[instrument].bands
+}
+
+/** The band a total falls in. */
+export function interpretScore(instrument: QuestionnaireInstrument, total: number): SeverityBand {
+  const bands = INSTRUMENTS[instrument].bands
+  let band = bands[0]
+  for (const candidate of bands) {
+    if (total >= candidate.min) band = candidate
+  }
+  return band
+}
+
+/** Display label for a stored severity key (falls back to the key itself). */
+export function severityLabel(instrument: QuestionnaireInstrument, key: string): string {
+  return INSTRUMENTS[instrument].bands.find((b) => b.key === key)?.label ?? key
+}
+
 export function interpretPHQ9(score: number): PHQ9Severity {
-  if (score <= 4) return 'minimal'
-  if (score <= 9) return 'mild'
-  if (score <= 14) return 'moderate'
-  if (score <= 19) return 'moderately_severe'
-  return 'severe'
+  return interpretScore('phq9', score).key as PHQ9Severity
 }
 
 export function interpretGAD7(score: number): GAD7Severity {
-  if (score <= 4) return 'minimal'
-  if (score <= 9) return 'mild'
-  if (score <= 14) return 'moderate'
-  return 'severe'
+  return interpretScore('gad7', score).key as GAD7Severity
 }
 
-export function getReliableChangeIndex(
-  score1: number,
-  score2: number,
-  scale: 'phq9' | 'gad7'
-): { changed: boolean; direction: 'improved' | 'worsened' | 'stable' } {
-  const threshold = scale === 'phq9' ? 6 : 4
-  const diff = score2 - score1 // positive means worse (higher symptom score)
+/** Total and band for a complete set of item answers, by the instrument's scoring rule. */
+export function scoreInstrument(instrument: QuestionnaireInstrument, answers: number[]) {
+  const { scoring, bands } = INSTRUMENTS[instrument]
 
-  if (Math.abs(diff) < threshold) {
-    return { changed: false, direction: 'stable' }
+  let total: number
+  if (scoring.type === 'highest_item') {
+    total = 0
+    answers.forEach((answer, i) => {
+      if (answer > 0) total = Math.max(total, bands.findIndex((b) => b.key === scoring.itemBands[i]))
+    })
+  } else {
+    total = answers.reduce((sum, a) => sum + a, 0) * (scoring.multiplier ?? 1)
   }
 
-  if (diff <= -threshold) {
-    return { changed: true, direction: 'improved' }
+  return { total, severity: interpretScore(instrument, total).key }
+}
+
+const CRISIS_RANK: Record<CrisisSeverity, number> = { low: 1, medium: 2, high: 3 }
+
+/**
+ * The crisis alert severity a response calls for under the instrument's crisis rules
+ * (item thresholds and/or bands), with the reason; null if none apply.
+ */
+export function questionnaireCrisisSeverity(
+  instrument: QuestionnaireInstrument,
+  answers: number[]
+): { severity: CrisisSeverity; reason: string } | null {
+  const definition = INSTRUMENTS[instrument]
+  if (!definition.crisis) return null
+
+  let result: { severity: CrisisSeverity; reason: string } | null = null
+  const consider = (severity: CrisisSeverity, reason: string) => {
+    if (!result || CRISIS_RANK[severity] > CRISIS_RANK[result.severity]) result = { severity, reason }
+  }
+
+  for (const rule of definition.crisis.items ?? []) {
+    const score = answers[rule.item - 1]
+    if (score !== undefined && score >= rule.minScore) {
+      consider(
+        rule.severity,
+        `${definition.name} item ${rule.item} (${definition.items[rule.item - 1]}) answered "${definition.responseOptions[score]}"`
+      )
+    }
   }
 
-  return { changed: true, direction: 'worsened' }
+  const band = scoreInstrument(instrument, answers).severity
+  const bandSeverity = definition.crisis.bands?.[band]
+  if (bandSeverity) consider(bandSeverity, `${definition.name}: ${severityLabel(instrument, band)}`)
+
+  return result
 }
 
+// Jacobson & Truax (1991) reliable and clinically significant change. The standard
+// error of the difference comes from the instrument's reliability and a baseline SD;
+// a change larger than 1.96 of those is unlikely (p < .05) to be measurement error.
+// Only instruments with psychometrics in the registry have one.
 
+function standardErrorOfDifference(instrument: QuestionnaireInstrument, baselineSd?: number): number | null {
+  const psychometrics = INSTRUMENTS[instrument].psychometrics
+  if (!psychometrics) return null
+  const sd = baselineSd !== undefined && baselineSd > 0 ? baselineSd : psychometrics.baselineSd
+  return Math.sqrt(2) * sd * Math.sqrt(1 - psychometrics.reliability)
+}
 
+/** Smallest score change that counts as reliable (about 5.5 for PHQ-9, 3.9 for GAD-7). */
+export function reliableChangeThreshold(instrument: QuestionnaireInstrument, baselineSd?: number): number | null {
+  const sDiff = standardErrorOfDifference(instrument, baselineSd)
+  return sDiff === null ? null : 1.96 * sDiff
+}
+
+/** RCI = (post - pre) / S_diff, signed so that positive means worse. */
+export function reliableChangeIndex(
+  pre: number,
+  post: number,
+  instrument: QuestionnaireInstrument,
+  baselineSd?: number
+): number | null {
+  const sDiff = standardErrorOfDifference(instrument, baselineSd)
+  if (sDiff === null) return null
+  const direction = INSTRUMENTS[instrument].higherIsWorse ? 1 : -1
+  return (direction * (post - pre)) / sDiff
+}
+
+export type ChangeClassification = 'recovered' | 'improved' | 'unchanged' | 'deteriorated'
+
+export interface ClinicalChange {
+  scale: QuestionnaireInstrument
+  pre: number
+  post: number
+  rci: number
+  threshold: number // in score points
+  reliable: boolean
+  classification: ChangeClassification
+}
+
+/**
+ * Recovered: reliably improved and moved out of the clinical range. Improved /
+ * deteriorated: reliable change either way. Otherwise unchanged. Null for instruments
+ * without psychometrics.
+ */
+export function classifyClinicalChange(
+  pre: number,
+  post: number,
+  scale: QuestionnaireInstrument,
+  baselineSd?: number
+): ClinicalChange | null {
+  const definition = INSTRUMENTS[scale]
+  const rci = reliableChangeIndex(pre, post, scale, baselineSd)
+  const threshold = reliableChangeThreshold(scale, baselineSd)
+  if (rci === null || threshold === null || !definition.psychometrics) return null
+
+  const reliable = Math.abs(rci) >= 1.96
+  const { cutoff } = definition.psychometrics
+  const clinical = (score: number) => (definition.higherIsWorse ? score >= cutoff : score <= cutoff)
+
+  let classification: ChangeClassification = 'unchanged'
+  if (reliable && rci < 0) {
+    classification = clinical(pre) && !clinical(post) ? 'recovered' : 'improved'
+  } else if (reliable) {
+    classification = 'deteriorated'
+  }
+
+  return {
+    scale,
+    pre,
+    post,
+    rci: Math.round(rci * 100) / 100,
+    threshold: Math.round(threshold * 100) / 100,
+    reliable,
+    classification,
+  }
+}
 
+export function getReliableChangeIndex(
+  score1: number,
+  score2: number,
+  scale: 'phq9' | 'gad7'
+): { changed: boolean; direction: 'improved' | 'worsened' | 'stable' } {
+  const change = classifyClinicalChange(score1, score2, scale)
 
+  if (!change?.reliable) {
+    return { changed: false, direction: 'stable' }
+  }
+
+  return { changed: true, direction: change.rci < 0 ? 'improved' : 'worsened' }
+}
@@ -0,0 +1,191 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  CrisisAlert,
+  CrisisAlertActionRequest,
+  CrisisAlertEvent,
+  CrisisDisposition,
+  CrisisSeverity,
+} from '@/types'
+
+// ─── SLA ───
+
+// Time allowed from alert creation to first therapist acknowledgement.
+export const CRISIS_SLA_MINUTES: Record<CrisisSeverity, number> = {
+  high: 60,
+  medium: 4 * 60,
+  low: 24 * 60,
+}
+
+export const CRISIS_DISPOSITIONS: { value: CrisisDisposition; label: string }[] = [
+  { value: 'contacted_patient', label: 'Contacted patient' },
+  { value: 'safety_plan_reviewed', label: 'Safety plan reviewed' },
+  { value: 'referred_emergency', label: 'Referred to emergency services' },
+  { value: 'no_risk_identified', label: 'Assessed, no current risk' },
+  { value: 'false_positive', label: 'False positive' },
+]
+
+export interface AlertSla {
+  dueAt: string
+  met: boolean // acknowledged (or resolved) before the deadline
+  overdue: boolean // still unacknowledged past the deadline
+  minutesRemaining: number // negative when overdue
+}
+
+/**
+ * SLA for an alert: the deadline is created_at + CRISIS_SLA_MINUTES[severity].
+ * The clock stops at the first acknowledgement (escalating or resolving also acknowledges).
+ */
+export function getAlertSla(
+  alert: Pick<CrisisAlert, 'severity' | 'created_at' | 'acknowledged_at'>,
+  now: Date = new Date()
+): AlertSla {
+  const due = new Date(new Date(alert.created_at).getTime() + CRISIS_SLA_MINUTES[alert.severity] * 60_000)
+  const stoppedAt = alert.acknowledged_at ? new Date(alert.acknowledged_at) : null
+  const minutesRemaining = Math.round((due.getTime() - (stoppedAt ?? now).getTime()) / 60_000)
+
+  return {
+    dueAt: due.toISOString(),
+    met: stoppedAt !== null && stoppedAt <= due,
+    overdue: stoppedAt === null && now > due,
+    minutesRemaining,
+  }
+}
+
+const SEVERITY_RANK: Record<CrisisSeverity, number> = { high: 0, medium: 1, low: 2 }
+
+/** Therapist queue order: overdue first, then unacknowledged by deadline, then severity, then oldest. */
+export function sortAlertQueue<T extends Pick<CrisisAlert, 'severity' | 'created_at' | 'acknowledged_at'>>(
+  alerts: T[],
+  now: Date = new Date()
+): T[] {
+  return alerts
+    .map((alert) => ({ alert, sla: getAlertSla(alert, now) }))
+    .sort((a, b) => {
+      if (a.sla.overdue !== b.sla.overdue) return a.sla.overdue ? -1 : 1
+      const aPending = a.alert.acknowledged_at === null
+      const bPending = b.alert.acknowledged_at === null
+      if (aPending !== bPending) return aPending ? -1 : 1
+      if (aPending) return a.sla.dueAt.localeCompare(b.sla.dueAt)
+      if (a.alert.severity !== b.alert.severity) return SEVERITY_RANK[a.alert.severity] - SEVERITY_RANK[b.alert.severity]
+      return a.alert.created_at.localeCompare(b.alert.created_at)
+    })
+    .map(({ alert }) => alert)
+}
+
+// ─── Workflow actions ───
+
+type ActionResult =
+  | { ok: true; alert: CrisisAlert; event: CrisisAlertEvent }
+  | { ok: false; status: number; error: string }
+
+function cleanText(value: unknown, max = 2000): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return trimmed ? trimmed.slice(0, max) : null
+}
+
+/**
+ * Apply a therapist workflow action to an alert and append it to crisis_alert_events.
+ * `supabase` is the therapist's own client, so RLS scopes both writes to their patients.
+ */
+export async function applyCrisisAlertAction(
+  supabase: SupabaseClient,
+  alert: CrisisAlert,
+  actorId: string,
+  request: CrisisAlertActionRequest
+): Promise<ActionResult> {
+  const now = new Date().toISOString()
+  const note = cleanText(request.note)
+  const acknowledge = alert.acknowledged_at ? {} : { acknowledged_at: now, acknowledged_by: actorId }
+
+  let update: Partial<CrisisAlert> = {}
+  let eventAction: CrisisAlertEvent['action']
+  let eventNote = note
+
+  if (alert.status === 'resolved' && request.action !== 'note') {
+    return { ok: false, status: 409, error: 'Alert is already resolved' }
+  }
+
+  switch (request.action) {
+    case 'acknowledge':
+      if (alert.status !== 'open') {
+        return { ok: false, status: 409, error: 'Alert has already been acknowledged' }
+      }
+      update = { ...acknowledge, status: 'acknowledged' }
+      eventAction = 'acknowledged'
+      break
+
+    case 'note':
+      if (!note) return { ok: false, status: 400, error: 'Note is required' }
+      eventAction = 'note'
+      break
+
+    case 'escalate': {
+      const reason = cleanText(request.reason)
+      if (!reason) return { ok: false, status: 400, error: 'Escalation reason is required' }
+      if (alert.status === 'escalated') {
+        return { ok: false, status: 409, error: 'Alert is already escalated' }
+      }
+      update = {
+        ...acknowledge,
+        status: 'escalated',
+        severity: 'high',
+        escalated_at: now,
+        escalated_by: actorId,
+        escalation_reason: reason,
+      }
+      eventAction = 'escalated'
+      eventNote = note ? `${reason}\n\n${note}` : reason
+      break
+    }
+
+    case 'resolve':
+      if (!CRISIS_DISPOSITIONS.some((d) => d.value === request.disposition)) {
+        return { ok: false, status: 400, error: 'A valid disposition is required' }
+      }
+      update = {
+        ...acknowledge,
+        status: 'resolved',
+        resolved: true,
+        resolved_at: now,
+        resolved_by: actorId,
+        disposition: request.disposition!,
+      }
+      eventAction = 'resolved'
+      break
+
+    default:
+      return { ok: false, status: 400, error: 'Unknown action' }
+  }
+
+  let updated = alert
+  if (Object.keys(update).length > 0) {
+    const { data, error } = await supabase
+      .from('crisis_alerts')
+      .update(update)
+      .eq('id', alert.id)
+      // Optimistic check: a concurrent action by another therapist wins
+      .eq('status', alert.status)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return { ok: false, status: 409, error: 'Alert was updated by someone else; refresh and try again' }
+    updated = data as CrisisAlert
+  }
+
+  const { data: event, error: eventError } = await supabase
+    .from('crisis_alert_events')
+    .insert({
+      alert_id: alert.id,
+      actor_id: actorId,
+      action: eventAction,
+      note: request.action === 'resolve' ? [request.disposition, eventNote].filter(Boolean).join(': ') : eventNote,
+    })
+    .select()
+    .single()
+
+  if (eventError) throw eventError
+
+  return { ok: true, alert: updated, event: event as CrisisAlertEvent }
+}
@@ -0,0 +1,299 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createChatCompletion } from '@/lib/openai'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { enqueueAlertNotifications } from '@/lib/notifications/crisisNotifications'
+import { recordAudit } from '@/lib/audit'
+import type { CrisisDetectionSource, CrisisSeverity } from '@/types'
+
+export interface CrisisScreenResult {
+  crisis_detected: boolean
+  severity: CrisisSeverity | null
+  indicators: string[]
+  confidence: number
+  rationale: string | null
+}
+
+// Combined result of the lexicon pre-screen and the LLM classifier
+export interface CrisisAssessment extends CrisisScreenResult {
+  matched_phrases: string[]
+  source: CrisisDetectionSource
+}
+
+const SEVERITIES: CrisisSeverity[] = ['low', 'medium', 'high']
+
+// The classifier is on the save path, so it gets a hard deadline; a timeout fails safe.
+const CLASSIFIER_TIMEOUT_MS = 10_000
+
+// Appended to assistant replies when the screen fires and the model left resources out.
+export const CRISIS_RESOURCES_TEXT =
+  "If you're thinking about harming yourself or feel unsafe, please reach out now: call or text 988 " +
+  '(Suicide & Crisis Lifeline) or text HOME to 741741. If you are in immediate danger, call 911.'
+
+function maxSeverity(a: CrisisSeverity | null, b: CrisisSeverity | null): CrisisSeverity | null {
+  if (!a) return b
+  if (!b) return a
+  return SEVERITIES.indexOf(a) >= SEVERITIES.indexOf(b) ? a : b
+}
+
+// ─── Lexicon pre-screen ───
+
+// Severity follows the levels in prompts/crisis_detection.txt. Medium and high
+// matches raise an alert on their own; low matches only inform the classifier result.
+const CRISIS_LEXICON: { pattern: RegExp; severity: CrisisSeverity }[] = [
+  // Plans, intent or means
+  { pattern: /\bkill(?:ing)? myself\b/, severity: 'high' },
+  { pattern: /\b(?:end|ending|take|taking) my (?:own )?life\b/, severity: 'high' },
+  { pattern: /\bsuicide (?:note|plan|letter)\b/, severity: 'high' },
+  { pattern: /\bplan(?:ning)? (?:to|on) (?:die|dying|end it|kill)\b/, severity: 'high' },
+  { pattern: /\b(?:overdose|od) on\b/, severity: 'high' },
+  // Active ideation and self-harm
+  { pattern: /\bsuicid(?:e|al)\b/, severity: 'medium' },
+  { pattern: /\bwant(?:ed|ing)? to die\b/, severity: 'medium' },
+  { pattern: /\bwish i (?:was|were) dead\b/, severity: 'medium' },
+  { pattern: /\bbetter off (?:dead|without me)\b/, severity: 'medium' },
+  { pattern: /\bend (?:it all|everything)\b/, severity: 'medium' },
+  { pattern: /\bno reason to (?:live|go on|keep going)\b/, severity: 'medium' },
+  { pattern: /\b(?:hurt|harm|cut|cutting|burn|burning|hurting|harming) myself\b/, severity: 'medium' },
+  { pattern: /\bself[- ]?harm(?:ing)?\b/, severity: 'medium' },
+  // Severe distress
+  { pattern: /\b(?:can'?t|cannot) go on\b/, severity: 'low' },
+  { pattern: /\bno way out\b/, severity: 'low' },
+  { pattern: /\b(?:i'?m|i am) (?:just )?a burden\b/, severity: 'low' },
+  { pattern: /\bgive up on (?:everything|life)\b/, severity: 'low' },
+  { pattern: /\b(?:completely |totally )?hopeless\b/, severity: 'low' },
+  { pattern: /\bsaying goodbye\b/, severity: 'low' },
+]
+
+/** Local, synchronous pre-screen: phrases matched and the highest severity they imply. */
+export function prescreenCrisisText(text: string): { matched_phrases: string[]; severity: CrisisSeverity | null } {
+  const normalized = text.toLowerCase().replace(/[’‘]/g, "'")
+  const matched = new Set<string>()
+  let severity: CrisisSeverity | null = null
+
+  for (const rule of CRISIS_LEXICON) {
+    const match = normalized.match(rule.pattern)
+    if (!match) continue
+    matched.add(match[0])
+    severity = maxSeverity(severity, rule.severity)
+  }
+
+  return { matched_phrases: Array.from(matched), severity }
+}
+
+// ─── LLM classifier ───
+
+/**
+ * Screen a piece of user-written text with the dedicated safety classifier
+ * (prompts/crisis_detection.txt). Throws if the model call or its JSON fails.
+ */
+export async function screenForCrisis(text: string, options: { signal?: AbortSignal } = {}): Promise<CrisisScreenResult> {
+  const promptPath = path.join(process.cwd(), 'prompts', 'crisis_detection.txt')
+  const promptTemplate = await fs.readFile(promptPath, 'utf-8')
+
+  const response = await createChatCompletion(
+    [
+      { role: 'system', content: promptTemplate },
+      { role: 'user', content: text },
+    ],
+    { temperature: 0, maxTokens: 300, jsonMode: true, signal: options.signal }
+  )
+
+  const cleanedResponse = response
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim()
+  const parsed = JSON.parse(cleanedResponse) as Partial<CrisisScreenResult>
+
+  const severity = SEVERITIES.includes(parsed.severity as CrisisSeverity)
+    ? (parsed.severity as CrisisSeverity)
+    : null
+  const crisis_detected = Boolean(parsed.crisis_detected)
+  const confidence = typeof parsed.confidence === 'number' && Number.isFinite(parsed.confidence)
+    ? Math.min(1, Math.max(0, parsed.confidence))
+    : 0
+
+  return {
+    crisis_detected,
+    // A positive screen without a usable severity is treated as medium (same default as extraction).
+    severity: crisis_detected ? severity ?? 'medium' : null,
+    indicators: Array.isArray(parsed.indicators) ? parsed.indicators.filter((x) => typeof x === 'string') : [],
+    confidence,
+    rationale: typeof parsed.rationale === 'string' && parsed.rationale.trim() ? parsed.rationale.trim() : null,
+  }
+}
+
+// ─── Combined pass ───
+
+/**
+ * Crisis pass run on every saved entry and chat message: lexicon pre-screen plus
+ * the LLM classifier. Never throws. If the classifier errors or times out the
+ * result fails safe: it is flagged so a therapist reviews it.
+ */
+export async function assessCrisis(text: string): Promise<CrisisAssessment> {
+  const lexicon = prescreenCrisisText(text)
+  const lexiconFlags = lexicon.severity === 'medium' || lexicon.severity === 'high'
+
+  let classifier: CrisisScreenResult
+  try {
+    classifier = await screenForCrisis(text, { signal: AbortSignal.timeout(CLASSIFIER_TIMEOUT_MS) })
+  } catch (error) {
+    console.error('Crisis classifier failed, failing safe:', error)
+    return {
+      crisis_detected: true,
+      severity: lexicon.severity ?? 'low',
+      indicators: [],
+      confidence: 0,
+      rationale: 'Safety classifier unavailable; flagged for manual review.',
+      matched_phrases: lexicon.matched_phrases,
+      source: 'fail_safe',
+    }
+  }
+
+  if (classifier.crisis_detected) {
+    return {
+      ...classifier,
+      severity: maxSeverity(classifier.severity, lexicon.severity),
+      matched_phrases: lexicon.matched_phrases,
+      source: 'classifier',
+    }
+  }
+
+  if (lexiconFlags) {
+    // False positives are acceptable: a strong phrase match overrides a negative classifier.
+    return {
+      ...classifier,
+      crisis_detected: true,
+      severity: lexicon.severity,
+      rationale: `Matched crisis phrases (${lexicon.matched_phrases.join(', ')}); classifier did not flag${classifier.rationale ? `: ${classifier.rationale}` : '.'}`,
+      matched_phrases: lexicon.matched_phrases,
+      source: 'lexicon',
+    }
+  }
+
+  return { ...classifier, matched_phrases: lexicon.matched_phrases, source: 'classifier' }
+}
+
+/**
+ * Insert a crisis alert for an entry or chat message (service role client).
+ * An entry that already has an unresolved alert gets that alert updated instead,
+ * keeping the higher severity, so re-saves and extraction do not pile up duplicates.
+ * Both paths append a system event to crisis_alert_events and notify linked
+ * therapists (see lib/notifications). Returns the alert id.
+ */
+export async function recordCrisisAlert(
+  svc: SupabaseClient,
+  input: {
+    patientId: string
+    entryId?: string
+    chatMessageId?: string
+    severity: CrisisSeverity
+    source: CrisisDetectionSource
+    rationale?: string | null
+    matchedPhrases?: string[]
+  }
+): Promise<string | null> {
+  const matchedPhrases = input.matchedPhrases ?? []
+
+  if (input.entryId) {
+    const { data: existing } = await svc
+      .from('crisis_alerts')
+      .select('id, severity, matched_phrases')
+      .eq('entry_id', input.entryId)
+      .eq('resolved', false)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (existing) {
+      const severity = maxSeverity(existing.severity as CrisisSeverity, input.severity)!
+      const { error } = await svc
+        .from('crisis_alerts')
+        .update({
+          severity,
+          matched_phrases: Array.from(new Set([...(existing.matched_phrases ?? []), ...matchedPhrases])),
+          // Keep the explanation that goes with the winning severity
+          ...(severity !== existing.severity
+            ? { rationale: input.rationale ?? null, detection_source: input.source }
+            : {}),
+        })
+        .eq('id', existing.id)
+      if (error) {
+        console.error('Error updating crisis alert:', error)
+      } else if (severity !== existing.severity) {
+        await logSystemAlertEvent(svc, existing.id, input, 'severity_raised', `${existing.severity} → ${severity} (${input.source})`)
+        await enqueueAlertNotifications(svc, existing.id)
+      }
+      return existing.id as string
+    }
+  }
+
+  const { data: alert, error } = await svc.from('crisis_alerts').insert({
+    patient_id: input.patientId,
+    entry_id: input.entryId ?? null,
+    chat_message_id: input.chatMessageId ?? null,
+    severity: input.severity,
+    detection_source: input.source,
+    rationale: input.rationale ?? null,
+    matched_phrases: matchedPhrases,
+    therapist_notified: false,
+    resolved: false,
+  }).select('id').single()
+
+  if (error) {
+    console.error('Error creating crisis alert:', error)
+    return null
+  }
+
+  await logSystemAlertEvent(svc, alert.id, input, 'created', `${input.severity} severity (${input.source})`)
+  await enqueueAlertNotifications(svc, alert.id)
+  return alert.id as string
+}
+
+async function logSystemAlertEvent(
+  svc: SupabaseClient,
+  alertId: string,
+  input: { patientId: string; entryId?: string; severity: CrisisSeverity; source: CrisisDetectionSource },
+  action: 'created' | 'severity_raised',
+  note: string
+) {
+  const { error } = await svc.from('crisis_alert_events').insert({ alert_id: alertId, actor_id: null, action, note })
+  if (error) console.error('Error logging crisis alert event:', error)
+
+  // An audit failure must not stop the alert from reaching therapists
+  try {
+    await recordAudit(svc, null, {
+      action: 'crisis_alert_raised',
+      patientId: input.patientId,
+      entryIds: input.entryId ? [input.entryId] : [],
+      alertId,
+      metadata: { event: action, severity: input.severity, source: input.source },
+    })
+  } catch (e) {
+    console.error('Error auditing crisis alert:', e)
+  }
+}
+
+/** Run the crisis pass over a saved journal entry and raise/refresh its alert. Never throws. */
+export async function screenJournalEntry(
+  svc: SupabaseClient,
+  input: { patientId: string; entryId: string; content: string }
+): Promise<CrisisAssessment | null> {
+  try {
+    const assessment = await assessCrisis(input.content)
+    if (assessment.crisis_detected) {
+      await recordCrisisAlert(svc, {
+        patientId: input.patientId,
+        entryId: input.entryId,
+        severity: assessment.severity ?? 'medium',
+        source: assessment.source,
+        rationale: assessment.rationale,
+        matchedPhrases: assessment.matched_phrases,
+      })
+    }
+    return assessment
+  } catch (error) {
+    console.error('Crisis screening failed for entry', input.entryId, error)
+    return null
+  }
+}
@@ -0,0 +1,58 @@
+// Minimal RFC 4180 CSV reader (imports) and writer (exports). The writer turns arrays
+// into `;`-joined cells and objects into JSON, so every table flattens to one row per record.
+
+function csvCell(value: unknown): string {
+  const text =
+    value == null ? ''
+    : Array.isArray(value) && value.every((v) => typeof v !== 'object') ? value.join(';')
+    : typeof value === 'object' ? JSON.stringify(value)
+    : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv<T extends object>(rows: T[], columns?: (keyof T & string)[]): string {
+  const cols = columns ?? Array.from(new Set(rows.flatMap((row) => Object.keys(row)))) as (keyof T & string)[]
+  return [cols.join(','), ...rows.map((row) => cols.map((c) => csvCell(row[c])).join(','))].join('\n') + '\n'
+}
+
+/** Rows of cells; handles quoted fields with commas, doubled quotes and line breaks. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  // Blank lines are not records
+  return rows.filter((r) => r.some((c) => c.trim() !== ''))
+}
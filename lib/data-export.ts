@@ -0,0 +1,330 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import PDFDocument from 'pdfkit'
+import { strToU8, zipSync } from 'fflate'
+import { toCsv } from '@/lib/csv'
+import { ACCESS_ACTIONS } from '@/lib/audit'
+import { claimWithLease, nextAttemptAt, type Backoff } from '@/lib/retry'
+import type { DataExport } from '@/types'
+
+// Patient data exports are queued in `data_exports` and built in the background: a zip
+// with a versioned JSON archive, one CSV per table and a readable PDF journal, stored in
+// the private `exports` bucket. Service-role client only.
+
+// Bump when the archive layout or table shapes change, and note it in README.txt below
+export const EXPORT_FORMAT_VERSION = 4
+
+export const EXPORT_BUCKET = 'exports'
+export const EXPORT_RETENTION_DAYS = 7 // archive is deleted after this
+export const EXPORT_LINK_TTL_SECONDS = 10 * 60 // each download link
+
+const MAX_EXPORT_ATTEMPTS = 5
+const PROCESSING_LEASE_MINUTES = 10
+const EXPORT_BACKOFF: Backoff = { baseSeconds: 60, capSeconds: 60 * 60 } // 1, 2, 4, ... minutes, up to 1 hour
+
+// ─── Collection ───
+
+export interface PatientDataSnapshot {
+  profile: { id: string; full_name: string | null; created_at: string }
+  tables: {
+    journal_entries: Record<string, unknown>[]
+    entry_revisions: Record<string, unknown>[]
+    structured_logs: Record<string, unknown>[]
+    self_reports: Record<string, unknown>[]
+    ai_extractions: Record<string, unknown>[]
+    ai_extraction_versions: Record<string, unknown>[]
+    chat_messages: Record<string, unknown>[]
+    crisis_alerts: Record<string, unknown>[]
+    questionnaire_responses: Record<string, unknown>[]
+    questionnaire_item_responses: Record<string, unknown>[]
+    access_logs: Record<string, unknown>[]
+  }
+}
+
+async function selectAll(
+  query: PromiseLike<{ data: Record<string, unknown>[] | null; error: { message: string } | null }>,
+  table: string
+) {
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to read ${table}: ${error.message}`)
+  return data ?? []
+}
+
+export async function collectPatientData(svc: SupabaseClient, patientId: string): Promise<PatientDataSnapshot> {
+  const { data: profile, error } = await svc
+    .from('profiles')
+    .select('id, full_name, created_at')
+    .eq('id', patientId)
+    .single()
+  if (error) throw new Error(`Failed to read profile: ${error.message}`)
+
+  const journal_entries = await selectAll(
+    svc.from('journal_entries').select('*').eq('patient_id', patientId).order('created_at', { ascending: true }),
+    'journal_entries'
+  )
+  const entryIds = journal_entries.map((e) => e.id as string)
+
+  // Per-entry tables are keyed by entry_id; batch the id list to keep URLs short
+  const byEntry = async (table: string) => {
+    const rows: Record<string, unknown>[] = []
+    for (let i = 0; i < entryIds.length; i += 200) {
+      rows.push(...await selectAll(svc.from(table).select('*').in('entry_id', entryIds.slice(i, i + 200)), table))
+    }
+    return rows
+  }
+
+  const questionnaire_responses = await selectAll(
+    svc.from('questionnaire_responses').select('*').eq('patient_id', patientId).order('created_at', { ascending: true }),
+    'questionnaire_responses'
+  )
+  const responseIds = questionnaire_responses.map((r) => r.id as string)
+  const questionnaire_item_responses: Record<string, unknown>[] = []
+  for (let i = 0; i < responseIds.length; i += 200) {
+    questionnaire_item_responses.push(...await selectAll(
+      svc.from('questionnaire_item_responses').select('*').in('response_id', responseIds.slice(i, i + 200)),
+      'questionnaire_item_responses'
+    ))
+  }
+
+  return {
+    profile,
+    tables: {
+      journal_entries,
+      entry_revisions: await selectAll(
+        svc.from('entry_revisions').select('*').eq('patient_id', patientId).order('replaced_at', { ascending: true }),
+        'entry_revisions'
+      ),
+      structured_logs: await byEntry('structured_logs'),
+      self_reports: await byEntry('self_reports'),
+      ai_extractions: await byEntry('ai_extractions'),
+      ai_extraction_versions: await byEntry('ai_extraction_versions'),
+      chat_messages: await selectAll(
+        svc.from('chat_messages').select('*').eq('patient_id', patientId).order('created_at', { ascending: true }),
+        'chat_messages'
+      ),
+      crisis_alerts: await selectAll(
+        svc.from('crisis_alerts').select('*').eq('patient_id', patientId).order('created_at', { ascending: true }),
+        'crisis_alerts'
+      ),
+      questionnaire_responses,
+      questionnaire_item_responses,
+      // Who accessed their data, as shown on /access-log (hash-chain fields left out)
+      access_logs: await selectAll(
+        svc
+          .from('audit_log')
+          .select('id, actor_id, actor_role, action, entry_ids, alert_id, created_at')
+          .eq('patient_id', patientId)
+          .in('action', ACCESS_ACTIONS)
+          .order('seq', { ascending: true }),
+        'audit_log'
+      ),
+    },
+  }
+}
+
+// ─── Rendering ───
+
+function renderJournalPdf(snapshot: PatientDataSnapshot): Promise<Uint8Array> {
+  const { profile, tables } = snapshot
+  const extractionByEntry = new Map(tables.ai_extractions.map((a) => [a.entry_id as string, a]))
+  const logByEntry = new Map(tables.structured_logs.map((l) => [l.entry_id as string, l]))
+  const moodByEntry = new Map(tables.self_reports.map((r) => [r.entry_id as string, r.mood as number]))
+  const entries = tables.journal_entries.filter((e) => !e.is_draft)
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 56, info: { Title: 'Journal export' } })
+    const chunks: Buffer[] = []
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(new Uint8Array(Buffer.concat(chunks))))
+    doc.on('error', reject)
+
+    doc.font('Times-Roman').fontSize(24).text(`${profile.full_name || 'My'} journal`, { align: 'center' })
+    doc.moveDown(0.5)
+    doc.fontSize(11).fillColor('#666666').text(
+      `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} · exported ${new Date().toLocaleDateString('en-US', { dateStyle: 'long' })}`,
+      { align: 'center' }
+    )
+    doc.fillColor('#000000')
+
+    for (const entry of entries) {
+      doc.addPage()
+      doc.font('Helvetica-Bold').fontSize(13).text(
+        new Date(entry.created_at as string).toLocaleString('en-US', { dateStyle: 'full', timeStyle: 'short' })
+      )
+
+      const extraction = extractionByEntry.get(entry.id as string)
+      const log = logByEntry.get(entry.id as string)
+      const details = [
+        moodByEntry.has(entry.id as string) ? `Your mood: ${moodByEntry.get(entry.id as string)}/10` : null,
+        extraction?.mood_score != null ? `AI mood estimate: ${extraction.mood_score}/10` : null,
+        log?.sleep_hours != null ? `Sleep: ${log.sleep_hours}h` : null,
+        log?.energy_level != null ? `Energy: ${log.energy_level}/10` : null,
+      ].filter(Boolean)
+      if (details.length > 0) {
+        doc.font('Helvetica').fontSize(9).fillColor('#666666').text(details.join('  ·  '))
+        doc.fillColor('#000000')
+      }
+
+      doc.moveDown(0.75)
+      doc.font('Times-Roman').fontSize(12).text(String(entry.content ?? ''), { lineGap: 3 })
+
+      if (extraction?.summary) {
+        doc.moveDown(0.75)
+        doc.font('Helvetica-Oblique').fontSize(9).fillColor('#666666').text(`AI summary: ${extraction.summary}`)
+        doc.fillColor('#000000')
+      }
+    }
+
+    doc.end()
+  })
+}
+
+const README = `Your journal data export (format version ${EXPORT_FORMAT_VERSION})
+
+export.json     Everything in one file: your profile and every table below.
+csv/*.csv       One spreadsheet per table. List cells are separated by ";" and
+                nested values are JSON.
+journal.pdf     Your published journal entries as a readable document.
+
+Tables: journal_entries, entry_revisions (earlier wording of edited entries),
+structured_logs, self_reports, ai_extractions, ai_extraction_versions (every AI
+reading of each entry), chat_messages, crisis_alerts, questionnaire_responses and
+questionnaire_item_responses (PHQ-9/GAD-7 results and answers), access_logs (which
+therapist viewed what and when).
+Search embeddings are derived from your entries and are not included.
+
+Format 2 added entry_revisions and the journal_entries columns source, import_id
+and content_edited_at. Format 3 added ai_extraction_versions and the ai_extractions
+columns version_id and counted_in_baselines. Format 4 added questionnaire_responses
+and questionnaire_item_responses.
+`
+
+export async function buildExportArchive(snapshot: PatientDataSnapshot): Promise<Uint8Array> {
+  const exportedAt = new Date().toISOString()
+  const files: Record<string, Uint8Array> = {
+    'README.txt': strToU8(README),
+    'export.json': strToU8(
+      JSON.stringify({ format_version: EXPORT_FORMAT_VERSION, exported_at: exportedAt, ...snapshot }, null, 2)
+    ),
+    'journal.pdf': await renderJournalPdf(snapshot),
+  }
+  for (const [table, rows] of Object.entries(snapshot.tables)) {
+    files[`csv/${table}.csv`] = strToU8(toCsv(rows))
+  }
+  return zipSync(files)
+}
+
+// ─── Queue processing ───
+
+export async function processDataExport(svc: SupabaseClient, job: DataExport): Promise<boolean> {
+  const attempts = job.attempts + 1
+
+  // Claim the job with a lease; a worker that dies mid-build lets it be retried later
+  const claimed = await claimWithLease(svc, 'data_exports', job, { leaseMinutes: PROCESSING_LEASE_MINUTES })
+  if (!claimed) return true // another worker has it
+
+  try {
+    const archive = await buildExportArchive(await collectPatientData(svc, job.patient_id))
+    const storagePath = `${job.patient_id}/${job.id}.zip`
+
+    const { error: uploadError } = await svc.storage
+      .from(EXPORT_BUCKET)
+      .upload(storagePath, archive, { contentType: 'application/zip', upsert: true })
+    if (uploadError) throw new Error(uploadError.message)
+
+    const now = new Date()
+    await svc
+      .from('data_exports')
+      .update({
+        status: 'ready',
+        format_version: EXPORT_FORMAT_VERSION,
+        storage_path: storagePath,
+        size_bytes: archive.byteLength,
+        completed_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+        last_error: null,
+      })
+      .eq('id', job.id)
+    return true
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e)
+    console.error(`Data export ${job.id} failed (attempt ${attempts}):`, e)
+
+    await svc
+      .from('data_exports')
+      .update({
+        last_error: message.slice(0, 2000),
+        ...(attempts >= MAX_EXPORT_ATTEMPTS
+          ? { status: 'failed' }
+          : { status: 'pending', next_attempt_at: nextAttemptAt(attempts, EXPORT_BACKOFF) }),
+      })
+      .eq('id', job.id)
+    return false
+  }
+}
+
+/**
+ * Build due exports (pending, or processing with an expired lease), oldest first.
+ * Optionally scoped to one export so the request handler can start it right away.
+ */
+export async function processDataExports(
+  svc: SupabaseClient,
+  opts: { exportId?: string; limit?: number } = {}
+): Promise<{ processed: number; failed: number }> {
+  let query = svc
+    .from('data_exports')
+    .select('*')
+    .in('status', ['pending', 'processing'])
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(opts.limit ?? 5)
+
+  if (opts.exportId) query = query.eq('id', opts.exportId)
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to read data exports: ${error.message}`)
+
+  let processed = 0
+  let failed = 0
+  for (const job of (data ?? []) as DataExport[]) {
+    if (await processDataExport(svc, job)) processed++
+    else failed++
+  }
+  return { processed, failed }
+}
+
+/** Delete archives past their expiry and mark them expired. Returns how many. */
+export async function expireDataExports(svc: SupabaseClient): Promise<number> {
+  const { data, error } = await svc
+    .from('data_exports')
+    .select('id, storage_path')
+    .eq('status', 'ready')
+    .lte('expires_at', new Date().toISOString())
+  if (error) throw new Error(`Failed to read expired data exports: ${error.message}`)
+
+  const expired = (data ?? []) as Pick<DataExport, 'id' | 'storage_path'>[]
+  if (expired.length === 0) return 0
+
+  const paths = expired.map((e) => e.storage_path).filter((p): p is string => Boolean(p))
+  if (paths.length > 0) {
+    const { error: removeError } = await svc.storage.from(EXPORT_BUCKET).remove(paths)
+    if (removeError) throw new Error(`Failed to delete expired archives: ${removeError.message}`)
+  }
+
+  await svc
+    .from('data_exports')
+    .update({ status: 'expired', storage_path: null })
+    .in('id', expired.map((e) => e.id))
+  return expired.length
+}
+
+/** Short-lived signed URL for a ready, unexpired export; null otherwise. */
+export async function createExportDownloadUrl(svc: SupabaseClient, job: DataExport): Promise<string | null> {
+  if (job.status !== 'ready' || !job.storage_path) return null
+  if (job.expires_at && new Date(job.expires_at) <= new Date()) return null
+
+  const { data, error } = await svc.storage
+    .from(EXPORT_BUCKET)
+    .createSignedUrl(job.storage_path, EXPORT_LINK_TTL_SECONDS, { download: `journal-export-${job.created_at.slice(0, 10)}.zip` })
+  if (error) throw new Error(`Failed to sign export download: ${error.message}`)
+  return data.signedUrl
+}
@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createEmbedding, createBatchEmbeddings } from './openai'
 import { createServerSupabaseClient } from './supabase-server'
 import type { EmbeddingSearchResult } from '@/types'
@@ -24,12 +25,13 @@ export function chunkText(text: string, maxChunkSize: number = 500): string[] {
   return chunks.filter(chunk => chunk.length > 10) // Filter out tiny chunks
 }
 
-// Store embeddings for a journal entry
+// Store embeddings for a journal entry (as the signed-in patient unless a client is given)
 export async function storeEntryEmbeddings(
   entryId: string,
-  content: string
+  content: string,
+  client?: SupabaseClient
 ): Promise<void> {
-  const supabase = await createServerSupabaseClient()
+  const supabase = client ?? await createServerSupabaseClient()
   
   // Delete existing embeddings for this entry
   await supabase
@@ -86,22 +88,21 @@ export async function searchSimilarEntries(
   }))
 }
 
-// Get context from similar entries for chat
+// Get context from similar entries for chat (and the entries it was drawn from)
 export async function getRetrievalContext(
   patientId: string,
   query: string,
   limit: number = 3
-): Promise<string> {
+): Promise<{ context: string; entryIds: string[] }> {
   const results = await searchSimilarEntries(patientId, query, limit)
   
   if (results.length === 0) {
-    return ''
+    return { context: '', entryIds: [] }
   }
 
   const context = results
     .map((r, i) => `[Past Entry ${i + 1}]: ${r.chunk_text}`)
     .join('\n\n')
 
-  return context
+  return { context, entryIds: Array.from(new Set(results.map((r) => r.entry_id))) }
 }
-
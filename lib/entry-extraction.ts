@@ -0,0 +1,550 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createHash } from 'crypto'
+import { recordCrisisAlert } from '@/lib/crisis'
+import { enqueueJob } from '@/lib/jobs'
+import { isNeo4jConfigured } from '@/lib/neo4j'
+import { runExtraction, type ValidatedExtraction } from '@/lib/extraction'
+import { upsertAIExtractionToNeo4j, EXTRACTOR_VERSION, AFFECT_MODEL_VERSION } from '@/lib/graph/neo4jIngest'
+import { anxietyToCalmness, calculateZScore, updateEwmaStats, type EwmaStats } from '@/lib/normalization'
+
+// Extraction for a journal entry. Each run is kept in ai_extraction_versions, keyed by
+// (entry, extractor version, content hash), so re-running on unchanged text reuses the
+// stored result. The current version is persisted to ai_extractions with PHQ-9/GAD-7
+// estimates, z-scores against the patient's baseline and the population, the running
+// baseline/population updates (once per entry), crisis alerts and the graph write.
+// Service-role client only.
+
+const HALF_LIFE_DAYS = 45
+const BASELINE_WINDOW_DAYS = 90
+
+function clampItem(x: unknown) {
+  const n = typeof x === 'number' ? x : Number(x)
+  if (!Number.isFinite(n)) return 0
+  return Math.min(3, Math.max(0, Math.round(n)))
+}
+
+/** sha256 of the entry text; part of the key an extraction is stored under. */
+export function hashEntryContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+export interface ExtractEntryInput {
+  patientId: string
+  entryId: string
+  content: string // the entry text as saved
+  /**
+   * Imported (historical) entries: no crisis alerts for old writing, and the running
+   * baselines are left alone; rebuildPatientBaselines and rebuildPopulationStats
+   * replay them in date order once the import is processed.
+   */
+  historical?: { createdAt: string }
+}
+
+export interface ExtractEntryResult {
+  extraction: ValidatedExtraction | null // null when the model output was unusable
+  validationErrors: string[]
+  crisis_detected: boolean
+  reused: boolean // an earlier run on the same text and extractor was reused
+}
+
+/**
+ * Extract an entry (or reuse the stored run for this text and extractor version) and
+ * make it the entry's current extraction. Safe to call repeatedly: storing the version
+ * that is already current changes nothing.
+ */
+export async function extractEntry(svc: SupabaseClient, input: ExtractEntryInput): Promise<ExtractEntryResult> {
+  const contentHash = hashEntryContent(input.content)
+
+  const { data: stored, error: lookupError } = await svc
+    .from('ai_extraction_versions')
+    .select('id, extraction, validation_errors')
+    .eq('entry_id', input.entryId)
+    .eq('extractor_version', EXTRACTOR_VERSION)
+    .eq('content_hash', contentHash)
+    .maybeSingle()
+  if (lookupError) throw new Error(`Failed to read ai_extraction_versions: ${lookupError.message}`)
+
+  let version = stored as { id: string; extraction: ValidatedExtraction; validation_errors: string[] } | null
+  const reused = version !== null
+
+  if (!version) {
+    const { extraction, validation_errors } = await runExtraction(input.content)
+    if (!extraction) {
+      return { extraction: null, validationErrors: validation_errors, crisis_detected: false, reused: false }
+    }
+
+    // A concurrent run may have stored the same key first; keep whichever landed
+    const { data: inserted, error } = await svc
+      .from('ai_extraction_versions')
+      .upsert(
+        {
+          entry_id: input.entryId,
+          extractor_version: EXTRACTOR_VERSION,
+          content_hash: contentHash,
+          extraction,
+          validation_errors,
+        },
+        { onConflict: 'entry_id,extractor_version,content_hash' }
+      )
+      .select('id, extraction, validation_errors')
+      .single()
+    if (error) throw new Error(`Failed to store extraction version: ${error.message}`)
+    version = inserted
+  }
+
+  const { crisis_detected } = await storeEntryExtraction(svc, {
+    patientId: input.patientId,
+    entryId: input.entryId,
+    versionId: version!.id,
+    extraction: version!.extraction,
+    validationErrors: version!.validation_errors,
+    historical: input.historical,
+  })
+
+  return { extraction: version!.extraction, validationErrors: version!.validation_errors, crisis_detected, reused }
+}
+
+interface StoreExtractionInput {
+  patientId: string
+  entryId: string
+  versionId: string
+  extraction: ValidatedExtraction
+  validationErrors: string[]
+  historical?: { createdAt: string }
+}
+
+async function storeEntryExtraction(svc: SupabaseClient, input: StoreExtractionInput) {
+  const { patientId, entryId, versionId, extraction, validationErrors, historical } = input
+
+  const { data: existing } = await svc
+    .from('ai_extractions')
+    .select('id, version_id, counted_in_baselines, crisis_detected')
+    .eq('entry_id', entryId)
+    .maybeSingle()
+
+  // Already the current extraction: nothing to redo (and nothing to count twice)
+  if (existing && existing.version_id === versionId) {
+    return { crisis_detected: Boolean(existing.crisis_detected) }
+  }
+
+  const phq9 = extraction.phq9_indicators
+  const gad7 = extraction.gad7_indicators
+
+  const phq9_estimate =
+    clampItem(phq9.anhedonia) +
+    clampItem(phq9.depressed_mood) +
+    clampItem(phq9.sleep_issues) +
+    clampItem(phq9.fatigue) +
+    clampItem(phq9.appetite_changes) +
+    clampItem(phq9.worthlessness) +
+    clampItem(phq9.concentration) +
+    clampItem(phq9.psychomotor) +
+    clampItem(phq9.self_harm_thoughts)
+
+  const gad7_estimate =
+    clampItem(gad7.nervous) +
+    clampItem(gad7.uncontrollable_worry) +
+    clampItem(gad7.excessive_worry) +
+    clampItem(gad7.trouble_relaxing) +
+    clampItem(gad7.restless) +
+    clampItem(gad7.irritable) +
+    clampItem(gad7.afraid)
+
+  const selfHarmFlag = clampItem(phq9.self_harm_thoughts) >= 2
+  const crisis_detected = Boolean(extraction.crisis_detected || selfHarmFlag)
+
+  const moodRaw = extraction.mood_score
+  const calmnessRaw = extraction.anxiety_score === null ? null : anxietyToCalmness(extraction.anxiety_score)
+
+  // --- Fetch baselines/population stats (best-effort; keep extraction working even if stats fail) ---
+  let mood_z_score: number | null = null
+  let anxiety_z_score: number | null = null
+  let mood_pop_z: number | null = null
+  let anxiety_pop_z: number | null = null
+
+  // Running statistics take each entry once. A re-extraction of an entry they already
+  // count replays the patient's baselines from the current extractions instead; the
+  // population stats keep the first reading until their next rebuild.
+  const wasCounted = Boolean(existing?.counted_in_baselines)
+  const hasScores = moodRaw !== null && calmnessRaw !== null
+
+  // Scores that failed validation are stored as null and never feed the baselines
+  if (moodRaw !== null && calmnessRaw !== null) {
+    try {
+      const now = new Date()
+      const windowStart = new Date(now.getTime() - BASELINE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+      // Patient baselines
+      const { data: patientBaselines } = await svc
+        .from('patient_baselines')
+        .select('metric_name, baseline_mean, baseline_std, sample_count, last_updated, window_start')
+        .eq('patient_id', patientId)
+        .in('metric_name', ['mood', 'anxiety'])
+
+      const byMetric = new Map<string, any>()
+      for (const r of patientBaselines ?? []) byMetric.set(r.metric_name, r)
+
+      const moodBase = byMetric.get('mood') ?? null
+      const anxBase = byMetric.get('anxiety') ?? null
+
+      if (moodBase && (moodBase.sample_count ?? 0) >= 5) {
+        const z = calculateZScore(moodRaw, {
+          mean: Number(moodBase.baseline_mean ?? 0),
+          std: Number(moodBase.baseline_std ?? 0),
+          count: Number(moodBase.sample_count ?? 0),
+        })
+        mood_z_score = Number.isFinite(z) ? z : null
+      }
+
+      if (anxBase && (anxBase.sample_count ?? 0) >= 5) {
+        const z = calculateZScore(calmnessRaw, {
+          mean: Number(anxBase.baseline_mean ?? 0),
+          std: Number(anxBase.baseline_std ?? 0),
+          count: Number(anxBase.sample_count ?? 0),
+        })
+        anxiety_z_score = Number.isFinite(z) ? z : null
+      }
+
+      // Population stats
+      const { data: popStats } = await svc
+        .from('population_stats')
+        .select('metric_name, population_mean, population_std, sample_count, last_updated')
+        .in('metric_name', ['mood', 'anxiety'])
+
+      const popByMetric = new Map<string, any>()
+      for (const r of popStats ?? []) popByMetric.set(r.metric_name, r)
+
+      const moodPop = popByMetric.get('mood') ?? null
+      const anxPop = popByMetric.get('anxiety') ?? null
+
+      if (moodPop && (moodPop.sample_count ?? 0) >= 5) {
+        const z = calculateZScore(moodRaw, {
+          mean: Number(moodPop.population_mean ?? 0),
+          std: Number(moodPop.population_std ?? 0),
+          count: Number(moodPop.sample_count ?? 0),
+        })
+        mood_pop_z = Number.isFinite(z) ? z : null
+      }
+
+      if (anxPop && (anxPop.sample_count ?? 0) >= 5) {
+        const z = calculateZScore(calmnessRaw, {
+          mean: Number(anxPop.population_mean ?? 0),
+          std: Number(anxPop.population_std ?? 0),
+          count: Number(anxPop.sample_count ?? 0),
+        })
+        anxiety_pop_z = Number.isFinite(z) ? z : null
+      }
+
+      if (!historical && !wasCounted) {
+        // Update patient baselines with new observation (EMA rolling approximation)
+        const moodUpdated = updateEwmaStats(
+          {
+            mean: Number(moodBase?.baseline_mean ?? moodRaw),
+            std: Number(moodBase?.baseline_std ?? 0),
+            count: Number(moodBase?.sample_count ?? 0),
+            lastUpdatedAt: moodBase?.last_updated ?? null,
+          },
+          moodRaw,
+          { now, halfLifeDays: HALF_LIFE_DAYS }
+        )
+
+        const anxUpdated = updateEwmaStats(
+          {
+            mean: Number(anxBase?.baseline_mean ?? calmnessRaw),
+            std: Number(anxBase?.baseline_std ?? 0),
+            count: Number(anxBase?.sample_count ?? 0),
+            lastUpdatedAt: anxBase?.last_updated ?? null,
+          },
+          calmnessRaw,
+          { now, halfLifeDays: HALF_LIFE_DAYS }
+        )
+
+        await svc
+          .from('patient_baselines')
+          .upsert(
+            [
+              {
+                patient_id: patientId,
+                metric_name: 'mood',
+                baseline_mean: moodUpdated.mean,
+                baseline_std: moodUpdated.std,
+                sample_count: moodUpdated.count,
+                window_start: moodBase?.window_start ?? windowStart,
+                last_updated: moodUpdated.lastUpdatedAt,
+              },
+              {
+                patient_id: patientId,
+                metric_name: 'anxiety',
+                baseline_mean: anxUpdated.mean,
+                baseline_std: anxUpdated.std,
+                sample_count: anxUpdated.count,
+                window_start: anxBase?.window_start ?? windowStart,
+                last_updated: anxUpdated.lastUpdatedAt,
+              },
+            ],
+            { onConflict: 'patient_id,metric_name' }
+          )
+
+        const moodPopUpdated = updateEwmaStats(
+          {
+            mean: Number(moodPop?.population_mean ?? moodRaw),
+            std: Number(moodPop?.population_std ?? 0),
+            count: Number(moodPop?.sample_count ?? 0),
+            lastUpdatedAt: moodPop?.last_updated ?? null,
+          },
+          moodRaw,
+          { now, halfLifeDays: HALF_LIFE_DAYS }
+        )
+
+        const anxPopUpdated = updateEwmaStats(
+          {
+            mean: Number(anxPop?.population_mean ?? calmnessRaw),
+            std: Number(anxPop?.population_std ?? 0),
+            count: Number(anxPop?.sample_count ?? 0),
+            lastUpdatedAt: anxPop?.last_updated ?? null,
+          },
+          calmnessRaw,
+          { now, halfLifeDays: HALF_LIFE_DAYS }
+        )
+
+        await svc
+          .from('population_stats')
+          .upsert(
+            [
+              {
+                metric_name: 'mood',
+                population_mean: moodPopUpdated.mean,
+                population_std: moodPopUpdated.std,
+                sample_count: moodPopUpdated.count,
+                last_updated: moodPopUpdated.lastUpdatedAt,
+              },
+              {
+                metric_name: 'anxiety',
+                population_mean: anxPopUpdated.mean,
+                population_std: anxPopUpdated.std,
+                sample_count: anxPopUpdated.count,
+                last_updated: anxPopUpdated.lastUpdatedAt,
+              },
+            ],
+            { onConflict: 'metric_name' }
+          )
+      }
+    } catch (e) {
+      console.error('Baseline/population stats update failed (non-fatal):', e)
+    }
+  }
+
+  const row = {
+    mood_score: extraction.mood_score,
+    anxiety_score: extraction.anxiety_score,
+    phq9_indicators: extraction.phq9_indicators,
+    gad7_indicators: extraction.gad7_indicators,
+    phq9_estimate,
+    gad7_estimate,
+    mood_z_score,
+    anxiety_z_score,
+    mood_pop_z,
+    anxiety_pop_z,
+    emotions: extraction.emotions,
+    symptoms: extraction.symptoms,
+    triggers: extraction.triggers,
+    confidence: extraction.confidence,
+    crisis_detected,
+    summary: extraction.summary,
+    validation_errors: validationErrors,
+    version_id: versionId,
+    counted_in_baselines: hasScores,
+  }
+
+  const { error: writeError } = existing
+    ? await svc.from('ai_extractions').update(row).eq('entry_id', entryId)
+    : await svc.from('ai_extractions').insert({ entry_id: entryId, ...row })
+  if (writeError) throw new Error(`Failed to store extraction: ${writeError.message}`)
+
+  if (wasCounted && !historical) {
+    try {
+      await rebuildPatientBaselines(svc, patientId)
+    } catch (e) {
+      console.error('Baseline rebuild after re-extraction failed (non-fatal):', e)
+    }
+  }
+
+  // If crisis detected, create alert (not for imported writing, which may be years old)
+  if (crisis_detected && !historical) {
+    await recordCrisisAlert(svc, {
+      patientId,
+      entryId,
+      severity: extraction.crisis_severity || 'medium',
+      source: 'extraction',
+      rationale: selfHarmFlag
+        ? 'Extraction rated self-harm thoughts at 2 or higher.'
+        : 'Extraction flagged crisis language.',
+    })
+  }
+
+  // --- Neo4j graph write (queued, so a Neo4j outage is retried rather than lost) ---
+  // Attach model-derived affect + extracted features to the Entry node. The entry's
+  // graph_ingest is normally still waiting behind this job, and then picks it up.
+  if (isNeo4jConfigured()) {
+    try {
+      await enqueueJob(svc, { type: 'graph_ingest', patientId, entryId })
+    } catch (e) {
+      console.error('Queueing Neo4j ingest (ai extract) failed:', e)
+    }
+  }
+
+  return { crisis_detected }
+}
+
+/**
+ * Part of the graph_ingest job: write an entry's current extraction onto its Entry node,
+ * at the entry's own time (imported entries land where they were written).
+ */
+export async function ingestExtractionToNeo4j(svc: SupabaseClient, entryId: string, timestamp: string) {
+  const { data: row, error } = await svc
+    .from('ai_extractions')
+    .select('*')
+    .eq('entry_id', entryId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to read ai_extractions: ${error.message}`)
+  if (!row) return // entry deleted since
+
+  await upsertAIExtractionToNeo4j({
+    entryId,
+    timestamp,
+    mood_score: row.mood_score,
+    anxiety_score: row.anxiety_score,
+    phq9_estimate: row.phq9_estimate,
+    gad7_estimate: row.gad7_estimate,
+    mood_z_score: row.mood_z_score === null ? null : Number(row.mood_z_score),
+    anxiety_z_score: row.anxiety_z_score === null ? null : Number(row.anxiety_z_score),
+    mood_pop_z: row.mood_pop_z === null ? null : Number(row.mood_pop_z),
+    anxiety_pop_z: row.anxiety_pop_z === null ? null : Number(row.anxiety_pop_z),
+    emotions: row.emotions ?? [],
+    symptoms: row.symptoms ?? [],
+    triggers: row.triggers ?? [],
+    confidence: row.confidence === null ? null : Number(row.confidence),
+    extractorVersion: EXTRACTOR_VERSION,
+    affectModelVersion: AFFECT_MODEL_VERSION,
+  })
+}
+
+// ─── Rebuilding running statistics ───
+
+type ScoredExtraction = { mood_score: number; anxiety_score: number; observed_at: string }
+
+// EWMA over extractions in date order, as if each had been seen when it was written
+function replayEwma(rows: ScoredExtraction[]) {
+  let mood: EwmaStats | null = null
+  let calmness: EwmaStats | null = null
+  for (const row of rows) {
+    const now = new Date(row.observed_at)
+    const moodRaw = Number(row.mood_score)
+    const calmnessRaw = anxietyToCalmness(Number(row.anxiety_score))
+    mood = updateEwmaStats(mood ?? { mean: moodRaw, std: 0, count: 0, lastUpdatedAt: null }, moodRaw, {
+      now,
+      halfLifeDays: HALF_LIFE_DAYS,
+    })
+    calmness = updateEwmaStats(
+      calmness ?? { mean: calmnessRaw, std: 0, count: 0, lastUpdatedAt: null },
+      calmnessRaw,
+      { now, halfLifeDays: HALF_LIFE_DAYS }
+    )
+  }
+  return { mood, calmness }
+}
+
+// Scored extractions with the time their entry was written, oldest first
+async function fetchScoredExtractions(svc: SupabaseClient, patientId?: string): Promise<ScoredExtraction[]> {
+  const rows: ScoredExtraction[] = []
+  const pageSize = 1000
+  for (let from = 0; ; from += pageSize) {
+    let query = svc
+      .from('ai_extractions')
+      .select('mood_score, anxiety_score, journal_entries!inner(patient_id, created_at)')
+      .not('mood_score', 'is', null)
+      .not('anxiety_score', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1)
+    if (patientId) query = query.eq('journal_entries.patient_id', patientId)
+
+    const { data, error } = await query
+    if (error) throw new Error(`Failed to read ai_extractions: ${error.message}`)
+
+    for (const row of data ?? []) {
+      const entry = Array.isArray(row.journal_entries) ? row.journal_entries[0] : row.journal_entries
+      rows.push({ mood_score: row.mood_score, anxiety_score: row.anxiety_score, observed_at: entry.created_at })
+    }
+    if ((data ?? []).length < pageSize) break
+  }
+  return rows.sort((a, b) => a.observed_at.localeCompare(b.observed_at))
+}
+
+/**
+ * Recompute one patient's baselines from all their extractions, in the order the
+ * entries were written (so imported history lands before what they wrote in the app).
+ */
+export async function rebuildPatientBaselines(svc: SupabaseClient, patientId: string) {
+  const rows = await fetchScoredExtractions(svc, patientId)
+  const { mood, calmness } = replayEwma(rows)
+  if (!mood || !calmness) return
+
+  const windowStart = new Date(
+    new Date(rows[rows.length - 1].observed_at).getTime() - BASELINE_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString()
+  const { error } = await svc.from('patient_baselines').upsert(
+    [
+      { metric_name: 'mood', stats: mood },
+      { metric_name: 'anxiety', stats: calmness },
+    ].map(({ metric_name, stats }) => ({
+      patient_id: patientId,
+      metric_name,
+      baseline_mean: stats.mean,
+      baseline_std: stats.std,
+      sample_count: stats.count,
+      window_start: windowStart,
+      last_updated: stats.lastUpdatedAt,
+    })),
+    { onConflict: 'patient_id,metric_name' }
+  )
+  if (error) throw new Error(`Failed to write patient_baselines: ${error.message}`)
+}
+
+/**
+ * Replay the EWMA population statistics from every extraction, in the order the
+ * entries were written. Used after imports and account erasure so the stats reflect exactly the data
+ * that remains. Returns the new sample count per metric.
+ */
+export async function rebuildPopulationStats(svc: SupabaseClient): Promise<Record<'mood' | 'anxiety', number>> {
+  const rows = await fetchScoredExtractions(svc)
+  const { mood, calmness } = replayEwma(rows)
+  const metrics = [
+    { metric_name: 'mood', stats: mood },
+    { metric_name: 'anxiety', stats: calmness },
+  ]
+
+  // A metric with no samples left starts over from the next extraction
+  const empty = metrics.filter((m) => !m.stats).map((m) => m.metric_name)
+  if (empty.length > 0) {
+    const { error } = await svc.from('population_stats').delete().in('metric_name', empty)
+    if (error) throw new Error(`Failed to reset population_stats: ${error.message}`)
+  }
+
+  const updates = metrics.flatMap(({ metric_name, stats }) =>
+    stats
+      ? [{
+          metric_name,
+          population_mean: stats.mean,
+          population_std: stats.std,
+          sample_count: stats.count,
+          last_updated: stats.lastUpdatedAt,
+        }]
+      : []
+  )
+  if (updates.length > 0) {
+    const { error } = await svc.from('population_stats').upsert(updates, { onConflict: 'metric_name' })
+    if (error) throw new Error(`Failed to write population_stats: ${error.message}`)
+  }
+
+  return { mood: mood?.count ?? 0, anxiety: calmness?.count ?? 0 }
+}
@@ -0,0 +1,248 @@
+import { createChatCompletion, MAX_TOKENS, TEMPERATURE } from '@/lib/openai'
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { AIExtractionResponse, CrisisSeverity, GAD7Indicators, PHQ9Indicators } from '@/types'
+
+// ─── Runtime schema for AIExtractionResponse ───
+
+// In questionnaire item order
+export const PHQ9_ITEMS: (keyof PHQ9Indicators)[] = [
+  'anhedonia',
+  'depressed_mood',
+  'sleep_issues',
+  'fatigue',
+  'appetite_changes',
+  'worthlessness',
+  'concentration',
+  'psychomotor',
+  'self_harm_thoughts',
+]
+
+export const GAD7_ITEMS: (keyof GAD7Indicators)[] = [
+  'nervous',
+  'uncontrollable_worry',
+  'excessive_worry',
+  'trouble_relaxing',
+  'restless',
+  'irritable',
+  'afraid',
+]
+
+const SEVERITIES: CrisisSeverity[] = ['low', 'medium', 'high']
+
+/**
+ * Extraction after validation. Every field is safe to persist (ranges match the
+ * ai_extractions check constraints); a score the model got unusably wrong is null.
+ */
+export interface ValidatedExtraction extends Omit<AIExtractionResponse, 'mood_score' | 'anxiety_score' | 'confidence'> {
+  mood_score: number | null
+  anxiety_score: number | null
+  confidence: number | null
+}
+
+export interface ExtractionValidation {
+  extraction: ValidatedExtraction | null // null when the response is not a JSON object at all
+  errors: string[] // empty when the model output matched the schema exactly
+}
+
+function stripCodeFences(raw: string) {
+  return raw
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim()
+}
+
+// The kind of value only, never the value: the model may echo the patient's writing,
+// and these messages are stored in validation_errors, which therapists can see
+function describe(value: unknown) {
+  if (value === undefined) return 'missing'
+  if (value === null) return 'got null'
+  if (Array.isArray(value)) return 'got an array'
+  return `got a ${typeof value}`
+}
+
+// Integer in [min, max]. Numeric values outside the range are clamped; anything else is null.
+function checkInteger(value: unknown, field: string, min: number, max: number, errors: string[]): number | null {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max) return value
+
+  errors.push(`${field} must be an integer ${min}-${max} (${describe(value)})`)
+  const n = typeof value === 'string' ? Number(value) : value
+  if (typeof n !== 'number' || !Number.isFinite(n)) return null
+  return Math.min(max, Math.max(min, Math.round(n)))
+}
+
+function checkIndicators<K extends string>(
+  value: unknown,
+  field: string,
+  items: K[],
+  errors: string[]
+): Record<K, number> {
+  const source = value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null
+  if (!source) errors.push(`${field} must be an object (${describe(value)})`)
+
+  const out = {} as Record<K, number>
+  for (const item of items) {
+    // Unmentioned symptoms score 0 (same rule the prompt gives the model)
+    out[item] = source ? checkInteger(source[item], `${field}.${item}`, 0, 3, errors) ?? 0 : 0
+  }
+  return out
+}
+
+function checkStringArray(value: unknown, field: string, errors: string[]): string[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array of strings (${describe(value)})`)
+    return []
+  }
+  const strings = value.filter((x): x is string => typeof x === 'string')
+  if (strings.length !== value.length) errors.push(`${field} must contain only strings`)
+  return strings.map((s) => s.trim()).filter(Boolean)
+}
+
+/**
+ * Parse and validate raw model output against the AIExtractionResponse schema.
+ * Always returns a sanitized extraction when the output is a JSON object, plus
+ * the list of schema violations found (used for the repair prompt and persisted
+ * as ai_extractions.validation_errors).
+ */
+export function validateExtraction(raw: string): ExtractionValidation {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(stripCodeFences(raw))
+  } catch {
+    return { extraction: null, errors: ['response is not valid JSON'] }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { extraction: null, errors: ['response must be a JSON object'] }
+  }
+
+  const p = parsed as Record<string, unknown>
+  const errors: string[] = []
+
+  const mood_score = checkInteger(p.mood_score, 'mood_score', 1, 10, errors)
+  const anxiety_score = checkInteger(p.anxiety_score, 'anxiety_score', 1, 10, errors)
+  const phq9_indicators = checkIndicators(p.phq9_indicators, 'phq9_indicators', PHQ9_ITEMS, errors)
+  const gad7_indicators = checkIndicators(p.gad7_indicators, 'gad7_indicators', GAD7_ITEMS, errors)
+  const emotions = checkStringArray(p.emotions, 'emotions', errors)
+  const symptoms = checkStringArray(p.symptoms, 'symptoms', errors)
+  const triggers = checkStringArray(p.triggers, 'triggers', errors)
+
+  let confidence: number | null = null
+  if (typeof p.confidence === 'number' && Number.isFinite(p.confidence) && p.confidence >= 0 && p.confidence <= 1) {
+    confidence = p.confidence
+  } else {
+    errors.push(`confidence must be a number 0-1 (${describe(p.confidence)})`)
+    if (typeof p.confidence === 'number' && Number.isFinite(p.confidence)) {
+      confidence = Math.min(1, Math.max(0, p.confidence))
+    }
+  }
+
+  let crisis_detected: boolean
+  if (typeof p.crisis_detected === 'boolean') {
+    crisis_detected = p.crisis_detected
+  } else {
+    errors.push(`crisis_detected must be a boolean (${describe(p.crisis_detected)})`)
+    // Err on the side of flagging: anything truthy-looking counts as detected
+    crisis_detected = p.crisis_detected === 'true' || p.crisis_detected === 1
+  }
+
+  let crisis_severity: CrisisSeverity | undefined
+  if (p.crisis_severity !== undefined && p.crisis_severity !== null) {
+    if (SEVERITIES.includes(p.crisis_severity as CrisisSeverity)) {
+      crisis_severity = p.crisis_severity as CrisisSeverity
+    } else {
+      errors.push(`crisis_severity must be one of ${SEVERITIES.join(', ')} (${describe(p.crisis_severity)})`)
+    }
+  }
+
+  let summary = ''
+  if (typeof p.summary === 'string') {
+    summary = p.summary.trim()
+  } else {
+    errors.push(`summary must be a string (${describe(p.summary)})`)
+  }
+
+  return {
+    extraction: {
+      mood_score,
+      anxiety_score,
+      phq9_indicators,
+      gad7_indicators,
+      emotions,
+      symptoms,
+      triggers,
+      confidence,
+      crisis_detected,
+      crisis_severity,
+      summary,
+    },
+    errors,
+  }
+}
+
+// ─── Extraction with one-shot repair ───
+
+export interface ExtractionRun {
+  extraction: ValidatedExtraction | null
+  validation_errors: string[] // violations left in the stored extraction (empty when valid)
+  repaired: boolean // first response was invalid and a repair re-prompt was sent
+}
+
+function buildRepairMessage(errors: string[]) {
+  return [
+    'Your previous response did not match the required JSON schema:',
+    ...errors.map((e) => `- ${e}`),
+    '',
+    'Respond again with the corrected JSON object only. Include every field from the schema, use integers in the stated ranges, and do not add commentary or code fences.',
+  ].join('\n')
+}
+
+/**
+ * Run prompts/symptom_extraction.txt over a journal entry and validate the result.
+ * If validation fails the model is re-prompted once with the errors; whatever is
+ * still wrong after that is returned in `validation_errors` rather than discarded.
+ */
+export async function runExtraction(content: string): Promise<ExtractionRun> {
+  const promptPath = path.join(process.cwd(), 'prompts', 'symptom_extraction.txt')
+  const promptTemplate = await fs.readFile(promptPath, 'utf-8')
+
+  const options = {
+    temperature: TEMPERATURE.extraction,
+    maxTokens: MAX_TOKENS.extraction,
+    jsonMode: true,
+  }
+  const messages = [
+    { role: 'system' as const, content: promptTemplate },
+    { role: 'user' as const, content },
+  ]
+
+  const response = await createChatCompletion(messages, options)
+  const first = validateExtraction(response)
+  if (first.errors.length === 0) {
+    return { extraction: first.extraction, validation_errors: [], repaired: false }
+  }
+
+  console.warn('AI extraction failed validation, re-prompting:', first.errors)
+
+  let second: ExtractionValidation | null = null
+  try {
+    const repairResponse = await createChatCompletion(
+      [
+        ...messages,
+        { role: 'assistant', content: response },
+        { role: 'user', content: buildRepairMessage(first.errors) },
+      ],
+      { ...options, temperature: 0 }
+    )
+    second = validateExtraction(repairResponse)
+  } catch (e) {
+    console.error('AI extraction repair call failed:', e)
+  }
+
+  // Keep whichever attempt is closer to the schema (a repair can make things worse)
+  const best = second && second.extraction && second.errors.length <= first.errors.length ? second : first
+  if (best.errors.length > 0) {
+    console.error('AI extraction still invalid after repair:', best.errors)
+  }
+
+  return { extraction: best.extraction, validation_errors: best.errors, repaired: true }
+}
@@ -2,6 +2,10 @@ import { getNeo4jConfig, getNeo4jDriver } from '@/lib/neo4j'
 
 export type EntrySource = 'journal' | 'checkin' | 'import'
 
+// Version tags written alongside AI-extraction-derived graph data.
+export const EXTRACTOR_VERSION = 'symptom_extraction_v1'
+export const AFFECT_MODEL_VERSION = 'ai_extraction_mood_anxiety_v1'
+
 export interface UpsertEntryInput {
   userId: string
   entryId: string
@@ -132,6 +136,127 @@ export async function upsertEntryToNeo4j(input: UpsertEntryInput) {
   }
 }
 
+/**
+ * Remove an Entry and the nodes it owns (SelfReport, ContextPoint, AffectPoint),
+ * then re-link its neighbours so the user's NEXT chain stays contiguous.
+ * Feature nodes are shared across entries and are left in place.
+ * Only an Entry written by `userId` is touched; a null userId matches only a stub
+ * no User wrote (the backfill's prune of orphans).
+ */
+export async function deleteEntryFromNeo4j(userId: string | null, entryId: string) {
+  const driver = getNeo4jDriver()
+  const { database } = getNeo4jConfig()
+  const session = driver.session(database ? { database } : undefined)
+
+  try {
+    await session.run(
+      `
+      MATCH (e:Entry {entryId: $entryId})
+      WHERE CASE
+        WHEN $userId IS NULL THEN NOT EXISTS { (:User)-[:WROTE]->(e) }
+        ELSE EXISTS { (:User {userId: $userId})-[:WROTE]->(e) }
+      END
+      OPTIONAL MATCH (prev:Entry)-[:NEXT]->(e)
+      OPTIONAL MATCH (e)-[:NEXT]->(next:Entry)
+      OPTIONAL MATCH (e)-[:HAS_SELF_REPORT|HAS_CONTEXT|HAS_AFFECT]->(owned)
+      WITH e, prev, next, collect(distinct owned) AS owned
+      FOREACH (o IN owned | DETACH DELETE o)
+      DETACH DELETE e
+
+      WITH prev, next
+      FOREACH (_ IN CASE WHEN prev IS NOT NULL AND next IS NOT NULL THEN [1] ELSE [] END |
+        MERGE (prev)-[r:NEXT]->(next)
+        SET r.deltaMinutes = toInteger(duration.inSeconds(prev.timestamp, next.timestamp).seconds / 60)
+      )
+      `,
+      { userId, entryId }
+    )
+  } finally {
+    await session.close()
+  }
+}
+
+export interface Neo4jErasureCounts {
+  users: number
+  entries: number
+  ownedNodes: number // SelfReport, ContextPoint and AffectPoint
+  features: number // Feature nodes no other user still references
+}
+
+/**
+ * Right-to-erasure: remove a User with every Entry they wrote and the nodes those
+ * entries own. Deleting the User node drops its calib* properties and ASSOCIATED_WITH
+ * relationships; Feature nodes it leaves unreferenced are removed too (trigger names
+ * can be personal). Runs in one transaction and is safe to repeat.
+ */
+export async function eraseUserFromNeo4j(userId: string): Promise<Neo4jErasureCounts> {
+  const driver = getNeo4jDriver()
+  const { database } = getNeo4jConfig()
+  const session = driver.session(database ? { database } : undefined)
+
+  try {
+    return await session.executeWrite(async (tx) => {
+      const features = await tx.run(
+        `
+        MATCH (u:User {userId: $userId})
+        OPTIONAL MATCH (u)-[:WROTE]->(:Entry)-[:MENTIONS]->(m:Feature)
+        WITH u, collect(distinct m.featureId) AS mentioned
+        OPTIONAL MATCH (u)-[:ASSOCIATED_WITH]->(a:Feature)
+        RETURN mentioned + collect(distinct a.featureId) AS featureIds
+        `,
+        { userId }
+      )
+      const featureIds = Array.from(new Set<string>(features.records[0]?.get('featureIds') ?? []))
+
+      const owned = await tx.run(
+        `
+        MATCH (:User {userId: $userId})-[:WROTE]->(:Entry)-[:HAS_SELF_REPORT|HAS_CONTEXT|HAS_AFFECT]->(o)
+        WITH distinct o
+        DETACH DELETE o
+        RETURN count(o) AS n
+        `,
+        { userId }
+      )
+      const entries = await tx.run(
+        `
+        MATCH (:User {userId: $userId})-[:WROTE]->(e:Entry)
+        WITH distinct e
+        DETACH DELETE e
+        RETURN count(e) AS n
+        `,
+        { userId }
+      )
+      const users = await tx.run(
+        `
+        MATCH (u:User {userId: $userId})
+        DETACH DELETE u
+        RETURN count(u) AS n
+        `,
+        { userId }
+      )
+      const orphaned = await tx.run(
+        `
+        MATCH (f:Feature)
+        WHERE f.featureId IN $featureIds AND NOT (f)--()
+        DELETE f
+        RETURN count(f) AS n
+        `,
+        { featureIds }
+      )
+
+      const count = (res: typeof users) => Number(res.records[0]?.get('n') ?? 0)
+      return {
+        users: count(users),
+        entries: count(entries),
+        ownedNodes: count(owned),
+        features: count(orphaned),
+      }
+    })
+  } finally {
+    await session.close()
+  }
+}
+
 export async function upsertSelfReportToNeo4j(input: UpsertSelfReportInput) {
   const driver = getNeo4jDriver()
   const { database } = getNeo4jConfig()
@@ -142,7 +267,12 @@ export async function upsertSelfReportToNeo4j(input: UpsertSelfReportInput) {
   try {
     await session.run(
       `
-      MATCH (e:Entry {entryId: $entryId})
+      // The Entry may not have been ingested yet; create a stub so the label is never dropped.
+      MERGE (u:User {userId: $userId})
+      ON CREATE SET u.createdAt = datetime()
+      MERGE (e:Entry {entryId: $entryId})
+      ON CREATE SET e.timestamp = datetime($timestamp)
+      MERGE (u)-[:WROTE]->(e)
       MERGE (sr:SelfReport {reportId: $reportId})
       SET
         sr.timestamp = datetime($timestamp),
@@ -155,6 +285,7 @@ export async function upsertSelfReportToNeo4j(input: UpsertSelfReportInput) {
       RETURN sr.reportId AS reportId
       `,
       {
+        userId: input.userId,
         entryId: input.entryId,
         reportId,
         timestamp: input.timestamp,
@@ -169,6 +300,24 @@ export async function upsertSelfReportToNeo4j(input: UpsertSelfReportInput) {
   }
 }
 
+export async function deleteSelfReportFromNeo4j(entryId: string) {
+  const driver = getNeo4jDriver()
+  const { database } = getNeo4jConfig()
+  const session = driver.session(database ? { database } : undefined)
+
+  try {
+    await session.run(
+      `
+      MATCH (sr:SelfReport {reportId: $reportId})
+      DETACH DELETE sr
+      `,
+      { reportId: `sr:${entryId}` }
+    )
+  } finally {
+    await session.close()
+  }
+}
+
 export async function upsertContextToNeo4j(input: UpsertContextInput) {
   const driver = getNeo4jDriver()
   const { database } = getNeo4jConfig()
@@ -0,0 +1,120 @@
+import { getNeo4jConfig, getNeo4jDriver } from '@/lib/neo4j'
+
+// Compares journal entries in Supabase with Entry nodes in Neo4j so a backfill
+// only writes what is missing or out of date, and so drift can be reported.
+
+export interface GraphEntryState {
+  entryId: string
+  userId: string | null
+  ingestedAt: string | null
+  hasContext: boolean
+  hasSelfReport: boolean
+  hasAffect: boolean
+}
+
+export interface SourceEntryState {
+  entryId: string
+  patientId: string
+  updatedAt: string
+  hasStructuredLog: boolean
+  hasSelfReport: boolean
+  hasExtraction: boolean
+}
+
+export type StaleReason =
+  | 'updated_after_ingest'
+  | 'missing_context'
+  | 'missing_self_report'
+  | 'missing_affect'
+  | 'unexpected_self_report'
+
+export interface EntryReconciliation {
+  entryId: string
+  patientId: string
+  status: 'ok' | 'missing_in_graph' | 'stale'
+  reasons: StaleReason[]
+}
+
+export async function fetchGraphEntryStates(entryIds: string[]): Promise<Map<string, GraphEntryState>> {
+  const out = new Map<string, GraphEntryState>()
+  if (entryIds.length === 0) return out
+
+  const driver = getNeo4jDriver()
+  const { database } = getNeo4jConfig()
+  const session = driver.session(database ? { database } : undefined)
+
+  try {
+    const res = await session.run(
+      `
+      MATCH (e:Entry)
+      WHERE e.entryId IN $entryIds
+      OPTIONAL MATCH (u:User)-[:WROTE]->(e)
+      RETURN {
+        entryId: e.entryId,
+        userId: u.userId,
+        ingestedAt: toString(e.ingestedAt),
+        hasContext: EXISTS { (e)-[:HAS_CONTEXT]->(:ContextPoint) },
+        hasSelfReport: EXISTS { (e)-[:HAS_SELF_REPORT]->(:SelfReport) },
+        hasAffect: EXISTS { (e)-[:HAS_AFFECT]->(:AffectPoint) }
+      } AS state
+      `,
+      { entryIds }
+    )
+
+    for (const r of res.records) {
+      const state = r.get('state') as GraphEntryState
+      out.set(state.entryId, state)
+    }
+    return out
+  } finally {
+    await session.close()
+  }
+}
+
+/** Entry ids in the graph with the User who wrote each (null for a stub no User wrote). */
+export async function fetchGraphEntryIds(userId?: string): Promise<{ entryId: string; userId: string | null }[]> {
+  const driver = getNeo4jDriver()
+  const { database } = getNeo4jConfig()
+  const session = driver.session(database ? { database } : undefined)
+
+  try {
+    const res = await session.run(
+      `
+      MATCH (e:Entry)
+      WHERE $userId IS NULL OR EXISTS { (:User {userId: $userId})-[:WROTE]->(e) }
+      OPTIONAL MATCH (u:User)-[:WROTE]->(e)
+      RETURN e.entryId AS entryId, u.userId AS userId
+      `,
+      { userId: userId ?? null }
+    )
+    return res.records.map((r) => ({
+      entryId: r.get('entryId') as string,
+      userId: (r.get('userId') as string | null) ?? null,
+    }))
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Classify one Supabase entry against its Neo4j counterpart.
+ * An Entry node without `ingestedAt` is a stub (e.g. created by a SelfReport) and counts as missing.
+ */
+export function reconcileEntry(source: SourceEntryState, graph: GraphEntryState | undefined): EntryReconciliation {
+  const base = { entryId: source.entryId, patientId: source.patientId }
+
+  if (!graph || !graph.ingestedAt) {
+    return { ...base, status: 'missing_in_graph', reasons: [] }
+  }
+
+  const reasons: StaleReason[] = []
+  if (new Date(source.updatedAt).getTime() > new Date(graph.ingestedAt).getTime()) {
+    reasons.push('updated_after_ingest')
+  }
+  if (source.hasStructuredLog && !graph.hasContext) reasons.push('missing_context')
+  if (source.hasSelfReport && !graph.hasSelfReport) reasons.push('missing_self_report')
+  if (!source.hasSelfReport && graph.hasSelfReport) reasons.push('unexpected_self_report')
+  if (source.hasExtraction && !graph.hasAffect) reasons.push('missing_affect')
+
+  return { ...base, status: reasons.length > 0 ? 'stale' : 'ok', reasons }
+}
@@ -0,0 +1,88 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createEmbedding } from '@/lib/openai'
+import { syncSelfReportToNeo4j } from '@/lib/self-reports'
+import {
+  deleteEntryFromNeo4j,
+  upsertContextToNeo4j,
+  upsertEntryToNeo4j,
+  type EntrySource,
+} from '@/lib/graph/neo4jIngest'
+
+// Mirrors a journal entry from Supabase into Neo4j. Run by the graph_ingest job (see
+// lib/job-worker.ts), so a failed Neo4j call is retried rather than swallowed.
+
+/**
+ * Mirror the current Supabase state of a journal entry into Neo4j:
+ * Entry (with embedding + NEXT chain), ContextPoint and SelfReport.
+ * Drafts are kept out of the graph; an entry that became a draft is removed.
+ * Returns the mirrored entry's timestamp, or null when it is not in the graph.
+ */
+export async function syncEntryToNeo4j(
+  svc: SupabaseClient,
+  entryId: string,
+  opts: { source?: EntrySource } = {}
+): Promise<{ createdAt: string } | null> {
+  const { data: entry, error } = await svc
+    .from('journal_entries')
+    .select(`
+      id,
+      patient_id,
+      content,
+      is_draft,
+      source,
+      created_at,
+      structured_log:structured_logs(*),
+      self_report:self_reports(mood)
+    `)
+    .eq('id', entryId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load entry ${entryId}: ${error.message}`)
+
+  // Entry was deleted after the upsert was queued; the graph_delete job handles the graph.
+  if (!entry) return null
+
+  if (entry.is_draft) {
+    await deleteEntryFromNeo4j(entry.patient_id, entryId)
+    return null
+  }
+
+  const structuredLog = Array.isArray(entry.structured_log)
+    ? entry.structured_log[0] ?? null
+    : entry.structured_log ?? null
+  const selfReport = Array.isArray(entry.self_report)
+    ? entry.self_report[0] ?? null
+    : entry.self_report ?? null
+
+  const embedding = await createEmbedding(entry.content)
+
+  await upsertEntryToNeo4j({
+    userId: entry.patient_id,
+    entryId: entry.id,
+    timestamp: entry.created_at,
+    text: entry.content,
+    source: opts.source ?? (entry.source as EntrySource) ?? 'journal',
+    embedding,
+  })
+
+  if (structuredLog) {
+    await upsertContextToNeo4j({
+      entryId: entry.id,
+      timestamp: entry.created_at,
+      sleep_hours: structuredLog.sleep_hours,
+      sleep_quality: structuredLog.sleep_quality,
+      medication_taken: structuredLog.medication_taken,
+      medication_notes: structuredLog.medication_notes,
+      energy_level: structuredLog.energy_level,
+    })
+  }
+
+  await syncSelfReportToNeo4j({
+    userId: entry.patient_id,
+    entryId: entry.id,
+    timestamp: entry.created_at,
+    mood: selfReport?.mood ?? null,
+  })
+
+  return { createdAt: entry.created_at }
+}
@@ -0,0 +1,188 @@
+import { interpretScore, severityBands } from '@/lib/clinical-scales'
+import { GAD7_ITEMS, PHQ9_ITEMS } from '@/lib/extraction'
+import type { QuestionnaireResponseWithItems } from '@/lib/questionnaires'
+import type { GAD7Indicators, PHQ9Indicators } from '@/types'
+
+// How far the extraction's phq9_indicators / gad7_indicators drift from what patients
+// answer on the administered PHQ-9 / GAD-7. Each questionnaire is paired with the AI
+// readings of entries written in its recall window (the two weeks before it was
+// completed); the readings are averaged per item and rounded back onto the 0-3 scale.
+// Pure functions: callers load responses and readings with whatever access they have.
+
+export const AGREEMENT_WINDOW_DAYS = 14
+
+// The instruments the extraction estimates
+export type EstimatedInstrument = 'phq9' | 'gad7'
+export const ESTIMATED_INSTRUMENTS: EstimatedInstrument[] = ['phq9', 'gad7']
+
+const ITEM_KEYS: Record<EstimatedInstrument, string[]> = {
+  phq9: PHQ9_ITEMS,
+  gad7: GAD7_ITEMS,
+}
+
+const isEstimated = (instrument: string): instrument is EstimatedInstrument => instrument in ITEM_KEYS
+
+/** One entry's AI reading (ai_extractions, or a shared entry with the scores scope). */
+export interface AgreementReading {
+  created_at: string // entry timestamp
+  phq9_indicators: PHQ9Indicators | null
+  gad7_indicators: GAD7Indicators | null
+}
+
+export interface AgreementPair {
+  responseId: string
+  patientId: string
+  instrument: EstimatedInstrument
+  administeredAt: string
+  instrumentItems: number[]
+  aiItems: number[] // per-item mean over the window, rounded to 0-3
+  instrumentTotal: number
+  aiTotal: number
+  readingCount: number
+}
+
+const clampItem = (x: unknown) => {
+  const n = typeof x === 'number' ? x : Number(x)
+  return Number.isFinite(n) ? Math.min(3, Math.max(0, n)) : 0
+}
+
+/** Pair each response with the readings in its recall window; responses without any are left out. */
+export function pairResponsesWithReadings(
+  responses: QuestionnaireResponseWithItems[],
+  readings: AgreementReading[],
+  windowDays: number = AGREEMENT_WINDOW_DAYS
+): AgreementPair[] {
+  const pairs: AgreementPair[] = []
+
+  for (const response of responses) {
+    const instrument = response.instrument
+    if (!isEstimated(instrument)) continue
+    const keys = ITEM_KEYS[instrument]
+    if (response.items.length !== keys.length) continue
+
+    const end = new Date(response.created_at).getTime()
+    const start = end - windowDays * 24 * 60 * 60 * 1000
+    const inWindow = readings
+      .filter((r) => {
+        const t = new Date(r.created_at).getTime()
+        return t >= start && t <= end
+      })
+      .map((r) => (instrument === 'phq9' ? r.phq9_indicators : r.gad7_indicators) as Record<string, number> | null)
+      .filter((indicators): indicators is Record<string, number> => indicators !== null)
+    if (inWindow.length === 0) continue
+
+    const aiItems = keys.map((key) =>
+      Math.round(inWindow.reduce((sum, indicators) => sum + clampItem(indicators[key]), 0) / inWindow.length)
+    )
+
+    pairs.push({
+      responseId: response.id,
+      patientId: response.patient_id,
+      instrument,
+      administeredAt: response.created_at,
+      instrumentItems: response.items,
+      aiItems,
+      instrumentTotal: response.total_score,
+      aiTotal: aiItems.reduce((sum, v) => sum + v, 0),
+      readingCount: inWindow.length,
+    })
+  }
+
+  return pairs
+}
+
+/**
+ * Cohen's kappa with quadratic weights for ordinal ratings 0..categories-1. Null when
+ * it is undefined (fewer than two pairs, or no spread in either rater's marginals).
+ */
+export function weightedKappa(a: number[], b: number[], categories: number = 4): number | null {
+  const n = Math.min(a.length, b.length)
+  if (n < 2) return null
+
+  const observed = Array.from({ length: categories }, () => new Array(categories).fill(0))
+  const rowTotals = new Array(categories).fill(0)
+  const colTotals = new Array(categories).fill(0)
+  for (let i = 0; i < n; i++) {
+    observed[a[i]][b[i]]++
+    rowTotals[a[i]]++
+    colTotals[b[i]]++
+  }
+
+  let disagreeObserved = 0
+  let disagreeExpected = 0
+  for (let i = 0; i < categories; i++) {
+    for (let j = 0; j < categories; j++) {
+      const weight = (i - j) ** 2 / (categories - 1) ** 2
+      disagreeObserved += weight * observed[i][j]
+      disagreeExpected += weight * (rowTotals[i] * colTotals[j]) / n
+    }
+  }
+  if (disagreeExpected === 0) return null
+  return 1 - disagreeObserved / disagreeExpected
+}
+
+export interface ItemAgreement {
+  item: number // 1-based
+  key: string // extraction indicator, e.g. "depressed_mood"
+  kappa: number | null
+  meanDifference: number // AI - instrument
+}
+
+export interface InstrumentAgreement {
+  instrument: EstimatedInstrument
+  n: number
+  items: ItemAgreement[]
+  totalKappa: number | null // weighted kappa on severity bands
+  bias: number // mean(AI total - instrument total)
+  mae: number
+  bands: string[] // band keys, least to most severe
+  confusion: number[][] // [instrument band][AI band]
+}
+
+export function summarizeAgreement(
+  pairs: AgreementPair[],
+  instrument: EstimatedInstrument
+): InstrumentAgreement | null {
+  const own = pairs.filter((p) => p.instrument === instrument)
+  if (own.length === 0) return null
+
+  const keys = ITEM_KEYS[instrument]
+  const bands = severityBands(instrument).map((b) => b.key)
+  const confusion = bands.map(() => new Array(bands.length).fill(0))
+  const instrumentBands: number[] = []
+  const aiBands: number[] = []
+  for (const p of own) {
+    const row = bands.indexOf(interpretScore(instrument, p.instrumentTotal).key)
+    const col = bands.indexOf(interpretScore(instrument, p.aiTotal).key)
+    confusion[row][col]++
+    instrumentBands.push(row)
+    aiBands.push(col)
+  }
+
+  const differences = own.map((p) => p.aiTotal - p.instrumentTotal)
+
+  return {
+    instrument,
+    n: own.length,
+    items: keys.map((key, i) => ({
+      item: i + 1,
+      key,
+      kappa: weightedKappa(own.map((p) => p.instrumentItems[i]), own.map((p) => p.aiItems[i])),
+      meanDifference: own.reduce((sum, p) => sum + (p.aiItems[i] - p.instrumentItems[i]), 0) / own.length,
+    })),
+    totalKappa: weightedKappa(instrumentBands, aiBands, bands.length),
+    bias: differences.reduce((sum, d) => sum + d, 0) / own.length,
+    mae: differences.reduce((sum, d) => sum + Math.abs(d), 0) / own.length,
+    bands,
+    confusion,
+  }
+}
+
+export type AgreementReport = Record<EstimatedInstrument, InstrumentAgreement | null>
+
+export function buildAgreementReport(pairs: AgreementPair[]): AgreementReport {
+  return {
+    phq9: summarizeAgreement(pairs, 'phq9'),
+    gad7: summarizeAgreement(pairs, 'gad7'),
+  }
+}
@@ -0,0 +1,258 @@
+import type { CrisisSeverity } from '@/types'
+
+// Registry of the validated self-report instruments patients can be asked to complete:
+// wording, response options, scoring rule, severity bands, crisis rules and the
+// psychometrics behind reliable change. Scoring and interpretation in clinical-scales.ts
+// read from here, and the QuestionnaireInstrument type is derived from the registry's
+// keys; the database stores instrument ids and item scores without enumerating them
+// (the routes validate against this registry). So adding an instrument means adding an
+// entry here and nothing else. Plain data: safe to import from client components.
+//
+// Licensing: PHQ-9 and GAD-7 (Pfizer), the C-SSRS screener (Columbia Lighthouse
+// Project), WHO-5 (Psychiatric Research Unit, Mental Health Centre North Zealand) and
+// PCL-5 (National Center for PTSD) are free to reproduce without permission.
+
+export interface SeverityBand {
+  key: string // stored in questionnaire_responses.severity
+  label: string
+  min: number // lowest total in the band; bands are listed by ascending min
+}
+
+export type ScoringRule =
+  // Total is the item sum (times multiplier); the band follows from the total
+  | { type: 'sum'; multiplier?: number }
+  // Each item maps to a band; the total is the position of the most severe band any
+  // endorsed item maps to (so bands' min run 0, 1, 2, ...)
+  | { type: 'highest_item'; itemBands: string[] }
+
+export interface CrisisRules {
+  items?: { item: number; minScore: number; severity: CrisisSeverity }[] // 1-based item number
+  bands?: Record<string, CrisisSeverity>
+}
+
+// Jacobson & Truax reliable change; see classifyClinicalChange
+export interface Psychometrics {
+  reliability: number // Cronbach's alpha
+  baselineSd: number // pre-treatment SD in clinical samples
+  cutoff: number // clinical range starts here
+}
+
+export interface InstrumentDefinition {
+  instrument: string // its key in INSTRUMENTS
+  name: string // e.g. "PHQ-9"
+  title: string // plain-language heading for patients
+  stem: string
+  items: string[]
+  responseOptions: string[] // scored 0..n-1
+  scoring: ScoringRule
+  bands: SeverityBand[]
+  higherIsWorse: boolean
+  minutes: number // typical time to complete
+  askIf?: Record<number, { item: number; score: number }> // item shown only after that answer
+  difficulty?: { question: string; options: string[] } // unscored functional difficulty question
+  crisis?: CrisisRules
+  psychometrics?: Psychometrics
+}
+
+const FREQUENCY_OPTIONS = ['Not at all', 'Several days', 'More than half the days', 'Nearly every day']
+
+const DEFINITIONS = {
+  phq9: {
+    instrument: 'phq9',
+    name: 'PHQ-9',
+    title: 'Mood check-in',
+    stem: 'Over the last 2 weeks, how often have you been bothered by any of the following problems?',
+    items: [
+      'Little interest or pleasure in doing things',
+      'Feeling down, depressed, or hopeless',
+      'Trouble falling or staying asleep, or sleeping too much',
+      'Feeling tired or having little energy',
+      'Poor appetite or overeating',
+      'Feeling bad about yourself — or that you are a failure or have let yourself or your family down',
+      'Trouble concentrating on things, such as reading the newspaper or watching television',
+      'Moving or speaking so slowly that other people could have noticed? Or the opposite — being so fidgety or restless that you have been moving around a lot more than usual',
+      'Thoughts that you would be better off dead or of hurting yourself in some way',
+    ],
+    responseOptions: FREQUENCY_OPTIONS,
+    scoring: { type: 'sum' },
+    bands: [
+      { key: 'minimal', label: 'Minimal', min: 0 },
+      { key: 'mild', label: 'Mild', min: 5 },
+      { key: 'moderate', label: 'Moderate', min: 10 },
+      { key: 'moderately_severe', label: 'Moderately severe', min: 15 },
+      { key: 'severe', label: 'Severe', min: 20 },
+    ],
+    higherIsWorse: true,
+    minutes: 2,
+    difficulty: {
+      question:
+        'If you checked off any problems, how difficult have these problems made it for you to do your work, take care of things at home, or get along with other people?',
+      options: ['Not difficult at all', 'Somewhat difficult', 'Very difficult', 'Extremely difficult'],
+    },
+    // Item 9 asks about thoughts of death or self-harm
+    crisis: {
+      items: [
+        { item: 9, minScore: 1, severity: 'medium' },
+        { item: 9, minScore: 2, severity: 'high' },
+      ],
+    },
+    psychometrics: { reliability: 0.89, baselineSd: 6, cutoff: 10 }, // Kroenke 2001
+  },
+
+  gad7: {
+    instrument: 'gad7',
+    name: 'GAD-7',
+    title: 'Worry check-in',
+    stem: 'Over the last 2 weeks, how often have you been bothered by the following problems?',
+    items: [
+      'Feeling nervous, anxious or on edge',
+      'Not being able to stop or control worrying',
+      'Worrying too much about different things',
+      'Trouble relaxing',
+      'Being so restless that it is hard to sit still',
+      'Becoming easily annoyed or irritable',
+      'Feeling afraid as if something awful might happen',
+    ],
+    responseOptions: FREQUENCY_OPTIONS,
+    scoring: { type: 'sum' },
+    bands: [
+      { key: 'minimal', label: 'Minimal', min: 0 },
+      { key: 'mild', label: 'Mild', min: 5 },
+      { key: 'moderate', label: 'Moderate', min: 10 },
+      { key: 'severe', label: 'Severe', min: 15 },
+    ],
+    higherIsWorse: true,
+    minutes: 2,
+    psychometrics: { reliability: 0.92, baselineSd: 5, cutoff: 8 }, // Spitzer 2006
+  },
+
+  // Columbia Suicide Severity Rating Scale, screen version (self-report, past month).
+  // Triage follows the Columbia Protocol: ideation only is low risk, thinking about a
+  // method is moderate, intent, a plan or recent behaviour is high.
+  cssrs: {
+    instrument: 'cssrs',
+    name: 'C-SSRS',
+    title: 'Safety check-in',
+    stem: 'In the past month:',
+    items: [
+      'Have you wished you were dead or wished you could go to sleep and not wake up?',
+      'Have you actually had any thoughts about killing yourself?',
+      'Have you been thinking about how you might do this?',
+      'Have you had any intention of acting on these thoughts of killing yourself, as opposed to having the thoughts but knowing you definitely would not act on them?',
+      'Have you started to work out or worked out the details of how to kill yourself? Do you intend to carry out this plan?',
+      'In the past 3 months, have you done anything, started to do anything, or prepared to do anything to end your life?',
+    ],
+    responseOptions: ['No', 'Yes'],
+    scoring: { type: 'highest_item', itemBands: ['low', 'low', 'moderate', 'high', 'high', 'high'] },
+    bands: [
+      { key: 'none', label: 'No risk identified', min: 0 },
+      { key: 'low', label: 'Low risk', min: 1 },
+      { key: 'moderate', label: 'Moderate risk', min: 2 },
+      { key: 'high', label: 'High risk', min: 3 },
+    ],
+    higherIsWorse: true,
+    minutes: 1,
+    // Questions 3-5 are only asked after a yes to question 2
+    askIf: {
+      3: { item: 2, score: 1 },
+      4: { item: 2, score: 1 },
+      5: { item: 2, score: 1 },
+    },
+    crisis: { bands: { low: 'low', moderate: 'medium', high: 'high' } },
+  },
+
+  // WHO-5 Well-Being Index: raw 0-25 times 4 gives 0-100; higher is better
+  who5: {
+    instrument: 'who5',
+    name: 'WHO-5',
+    title: 'Wellbeing check-in',
+    stem: 'Over the last 2 weeks:',
+    items: [
+      'I have felt cheerful and in good spirits',
+      'I have felt calm and relaxed',
+      'I have felt active and vigorous',
+      'I woke up feeling fresh and rested',
+      'My daily life has been filled with things that interest me',
+    ],
+    responseOptions: [
+      'At no time',
+      'Some of the time',
+      'Less than half of the time',
+      'More than half of the time',
+      'Most of the time',
+      'All of the time',
+    ],
+    scoring: { type: 'sum', multiplier: 4 },
+    bands: [
+      { key: 'likely_depression', label: 'Likely depression', min: 0 },
+      { key: 'poor_wellbeing', label: 'Poor wellbeing', min: 29 },
+      { key: 'good_wellbeing', label: 'Good wellbeing', min: 51 },
+    ],
+    higherIsWorse: false,
+    minutes: 1,
+  },
+
+  // PTSD Checklist for DSM-5 (past month); 33 is the usual provisional PTSD cut-off
+  pcl5: {
+    instrument: 'pcl5',
+    name: 'PCL-5',
+    title: 'Stressful experiences check-in',
+    stem: 'Thinking about your most stressful experience, in the past month, how much were you bothered by:',
+    items: [
+      'Repeated, disturbing, and unwanted memories of the stressful experience?',
+      'Repeated, disturbing dreams of the stressful experience?',
+      'Suddenly feeling or acting as if the stressful experience were actually happening again (as if you were actually back there reliving it)?',
+      'Feeling very upset when something reminded you of the stressful experience?',
+      'Having strong physical reactions when something reminded you of the stressful experience (for example, heart pounding, trouble breathing, sweating)?',
+      'Avoiding memories, thoughts, or feelings related to the stressful experience?',
+      'Avoiding external reminders of the stressful experience (for example, people, places, conversations, activities, objects, or situations)?',
+      'Trouble remembering important parts of the stressful experience?',
+      'Having strong negative beliefs about yourself, other people, or the world (for example, having thoughts such as: I am bad, there is something seriously wrong with me, no one can be trusted, the world is completely dangerous)?',
+      'Blaming yourself or someone else for the stressful experience or what happened after it?',
+      'Having strong negative feelings such as fear, horror, anger, guilt, or shame?',
+      'Loss of interest in activities that you used to enjoy?',
+      'Feeling distant or cut off from other people?',
+      'Trouble experiencing positive feelings (for example, being unable to feel happiness or have loving feelings for people close to you)?',
+      'Irritable behavior, angry outbursts, or acting aggressively?',
+      'Taking too many risks or doing things that could cause you harm?',
+      'Being "superalert" or watchful or on guard?',
+      'Feeling jumpy or easily startled?',
+      'Having difficulty concentrating?',
+      'Trouble falling or staying asleep?',
+    ],
+    responseOptions: ['Not at all', 'A little bit', 'Moderately', 'Quite a bit', 'Extremely'],
+    scoring: { type: 'sum' },
+    bands: [
+      { key: 'below_threshold', label: 'Below threshold', min: 0 },
+      { key: 'probable_ptsd', label: 'Probable PTSD', min: 33 },
+    ],
+    higherIsWorse: true,
+    minutes: 5,
+    psychometrics: { reliability: 0.94, baselineSd: 15, cutoff: 33 }, // Blevins 2015
+  },
+} satisfies Record<string, InstrumentDefinition>
+
+export type QuestionnaireInstrument = keyof typeof DEFINITIONS
+
+export const INSTRUMENTS: Record<QuestionnaireInstrument, InstrumentDefinition> = DEFINITIONS
+
+export function isQuestionnaireInstrument(value: unknown): value is QuestionnaireInstrument {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(INSTRUMENTS, value)
+}
+
+/** Highest possible total. */
+export function maxScore(definition: InstrumentDefinition): number {
+  if (definition.scoring.type === 'highest_item') return definition.bands.length - 1
+  return definition.items.length * (definition.responseOptions.length - 1) * (definition.scoring.multiplier ?? 1)
+}
+
+/** Whether an item is asked given the answers so far (conditional items of the C-SSRS). */
+export function isItemAsked(definition: InstrumentDefinition, itemNumber: number, answers: (number | null)[]): boolean {
+  const condition = definition.askIf?.[itemNumber]
+  return !condition || answers[condition.item - 1] === condition.score
+}
+
+/** "about a minute", "about 5 minutes" */
+export function formatMinutes(minutes: number): string {
+  return minutes === 1 ? 'a minute' : `${minutes} minutes`
+}
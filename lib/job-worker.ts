@@ -0,0 +1,196 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { claimJob, completeJob, enqueueJob, failJob, type EntryJobPayload, type JobPayloads } from '@/lib/jobs'
+import { extractEntry, ingestExtractionToNeo4j } from '@/lib/entry-extraction'
+import { storeEntryEmbeddings } from '@/lib/embeddings'
+import { completeImportIfFinished } from '@/lib/journal-import'
+import { isNeo4jConfigured } from '@/lib/neo4j'
+import { ensureNeo4jSchema } from '@/lib/neo4jSchema'
+import { syncEntryToNeo4j } from '@/lib/graph/neo4jSync'
+import { deleteEntryFromNeo4j } from '@/lib/graph/neo4jIngest'
+import { trainAndStoreUserCalibrationModel } from '@/lib/graph/calibration'
+import type { Job, JobType } from '@/types'
+
+// Runs queued jobs (see lib/jobs.ts). Handlers read the entry as it is when the job
+// runs, so a job queued before an edit still works on the saved text. A handler that
+// throws is retried with backoff; its return value is stored as the job result.
+// Service-role client only.
+
+async function loadEntry(svc: SupabaseClient, entryId: string | null) {
+  if (!entryId) throw new Error('Job has no entry')
+  const { data, error } = await svc
+    .from('journal_entries')
+    .select('id, patient_id, content, is_draft, created_at')
+    .eq('id', entryId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to read entry: ${error.message}`)
+  return data as { id: string; patient_id: string; content: string; is_draft: boolean; created_at: string } | null
+}
+
+const handlers: Record<JobType, (svc: SupabaseClient, job: Job) => Promise<unknown>> = {
+  async extract_entry(svc, job) {
+    const entry = await loadEntry(svc, job.entry_id)
+    if (!entry || entry.is_draft) return { skipped: true }
+
+    const { historical } = job.payload as EntryJobPayload
+    const { extraction, validationErrors, reused } = await extractEntry(svc, {
+      patientId: entry.patient_id,
+      entryId: entry.id,
+      content: entry.content,
+      historical: historical ? { createdAt: entry.created_at } : undefined,
+    })
+    if (!extraction) {
+      throw new Error(`Extraction failed validation: ${validationErrors.join('; ')}`)
+    }
+    return { reused }
+  },
+
+  async embed_entry(svc, job) {
+    const entry = await loadEntry(svc, job.entry_id)
+    if (!entry || entry.is_draft) return { skipped: true }
+
+    await storeEntryEmbeddings(entry.id, entry.content, svc)
+    return null
+  },
+
+  async graph_ingest(svc, job) {
+    if (!job.entry_id) throw new Error('Job has no entry')
+
+    // Entry, ContextPoint and SelfReport first: the extraction attaches to the Entry node
+    const mirrored = await syncEntryToNeo4j(svc, job.entry_id)
+    if (mirrored) await ingestExtractionToNeo4j(svc, job.entry_id, mirrored.createdAt)
+    return null
+  },
+
+  // Removes the Entry and repairs the NEXT chain; jobs.entry_id has no foreign key, so
+  // this job outlives the entry
+  async graph_delete(_svc, job) {
+    if (!job.entry_id) throw new Error('Job has no entry')
+    await deleteEntryFromNeo4j(job.patient_id, job.entry_id)
+    return null
+  },
+
+  async train_calibration(_svc, job) {
+    await ensureNeo4jSchema()
+    return trainAndStoreUserCalibrationModel(job.patient_id, job.payload as JobPayloads['train_calibration'])
+  },
+}
+
+/** Claim and run one job. Returns false if it failed (or someone else had it). */
+export async function processJob(svc: SupabaseClient, job: Job): Promise<boolean> {
+  const claimed = await claimJob(svc, job)
+  if (!claimed) return false
+
+  let result: unknown
+  try {
+    result = await handlers[claimed.type](svc, claimed)
+  } catch (e) {
+    const outcome = await failJob(svc, claimed, e)
+    console.error(`Job ${claimed.id} (${claimed.type}) failed${outcome === 'dead' ? ' for good' : ''}:`, e)
+    if (outcome === 'dead') await afterImportJob(svc, claimed)
+    return false
+  }
+
+  await completeJob(svc, claimed, result)
+  await afterImportJob(svc, claimed)
+  return true
+}
+
+// An import completes (and replays the patient's baselines) once its last entry job
+// has finished or died
+async function afterImportJob(svc: SupabaseClient, job: Job) {
+  const { historical } = job.payload as EntryJobPayload
+  if (!historical) return
+  try {
+    await completeImportIfFinished(svc, historical.importId)
+  } catch (e) {
+    console.error(`Completing import ${historical.importId} failed:`, e)
+  }
+}
+
+/**
+ * Run due jobs, oldest first: pending ones and processing ones whose lease expired.
+ * Called by the worker (scripts/jobs-worker.ts) and, scoped to one entry, right after
+ * a journal write so results usually land within seconds.
+ */
+export async function processJobs(
+  svc: SupabaseClient,
+  opts: { limit?: number; patientId?: string; entryId?: string; types?: JobType[] } = {}
+) {
+  let query = svc
+    .from('jobs')
+    .select('*')
+    .in('status', ['pending', 'processing'])
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('created_at', { ascending: true })
+    .limit(opts.limit ?? 20)
+
+  if (opts.patientId) query = query.eq('patient_id', opts.patientId)
+  if (opts.entryId) query = query.eq('entry_id', opts.entryId)
+  if (opts.types) query = query.in('type', opts.types)
+
+  const { data: jobs, error } = await query
+  if (error) throw new Error(`Failed to read jobs: ${error.message}`)
+
+  let processed = 0
+  let failed = 0
+
+  // Sequential: keeps the load on the model API predictable, and graph writes in order
+  for (const job of (jobs ?? []) as Job[]) {
+    if (await processJob(svc, job)) processed++
+    else failed++
+  }
+
+  return { processed, failed }
+}
+
+/** Run an entry's jobs, then the ones they queued (extraction queues the graph write). */
+export async function runEntryJobs(svc: SupabaseClient, entryId: string) {
+  for (let round = 0; round < 3; round++) {
+    const { processed } = await processJobs(svc, { entryId })
+    if (processed === 0) break
+  }
+}
+
+/**
+ * Queue the follow-up work for a saved entry (extraction, embeddings, then the graph
+ * write that picks up the extraction) and start on it without waiting for the result;
+ * anything unfinished is picked up by the worker.
+ */
+export async function queueEntryAnalysis(svc: SupabaseClient, input: { patientId: string; entryId: string }) {
+  try {
+    await enqueueJob(svc, { type: 'extract_entry', patientId: input.patientId, entryId: input.entryId })
+    await enqueueJob(svc, { type: 'embed_entry', patientId: input.patientId, entryId: input.entryId })
+    if (isNeo4jConfigured()) {
+      await enqueueJob(svc, { type: 'graph_ingest', patientId: input.patientId, entryId: input.entryId })
+    }
+  } catch (e) {
+    console.error('Queueing analysis failed for entry', input.entryId, e)
+    return
+  }
+
+  runEntryJobs(svc, input.entryId).catch((e) => console.error('Entry jobs failed for entry', input.entryId, e))
+}
+
+/**
+ * Queue a refresh of the entry's Neo4j mirror, or its removal once the entry is deleted,
+ * and start on it. Never throws: failed writes are retried by the worker.
+ */
+export async function queueGraphSync(
+  svc: SupabaseClient,
+  input: { patientId: string; entryId: string; deleted?: boolean }
+) {
+  if (!isNeo4jConfigured()) return
+
+  try {
+    await enqueueJob(svc, {
+      type: input.deleted ? 'graph_delete' : 'graph_ingest',
+      patientId: input.patientId,
+      entryId: input.entryId,
+    })
+  } catch (e) {
+    console.error('Queueing graph sync failed for entry', input.entryId, e)
+    return
+  }
+
+  runEntryJobs(svc, input.entryId).catch((e) => console.error('Entry jobs failed for entry', input.entryId, e))
+}
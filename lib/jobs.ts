@@ -0,0 +1,164 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { TrainOptions } from '@/lib/graph/calibration'
+import { claimWithLease, nextAttemptAt, type Backoff } from '@/lib/retry'
+import type { Job, JobType } from '@/types'
+
+// Background jobs live in the `jobs` table: enqueued by API routes and workers, run by
+// lib/job-worker.ts (`npm run jobs:work`, or started right after a write). Each type
+// has its own retry budget; a job that runs out is parked as 'dead' until requeued.
+// Service-role client only.
+
+// Entry jobs for imported writing run as history (see extractEntry); the import id lets
+// the import report progress and complete once its last entry is processed
+export interface EntryJobPayload {
+  historical?: { importId: string }
+}
+
+export interface JobPayloads {
+  extract_entry: EntryJobPayload
+  embed_entry: EntryJobPayload
+  graph_ingest: Record<string, never>
+  graph_delete: Record<string, never>
+  train_calibration: TrainOptions
+}
+
+export const JOB_MAX_ATTEMPTS: Record<JobType, number> = {
+  extract_entry: 5,
+  embed_entry: 5,
+  graph_ingest: 10, // rides out Neo4j outages
+  graph_delete: 10,
+  train_calibration: 3,
+}
+
+export const JOB_LEASE_MINUTES = 10
+const JOB_BACKOFF: Backoff = { baseSeconds: 60, capSeconds: 6 * 60 * 60 } // 1, 2, 4, ... minutes, up to 6 hours
+
+/**
+ * Queue a job. There is at most one waiting job per type and entry (or per patient for
+ * jobs without an entry): enqueueing again returns the waiting one, which will see the
+ * latest data when it runs.
+ */
+export async function enqueueJob<T extends JobType>(
+  svc: SupabaseClient,
+  input: {
+    type: T
+    patientId: string
+    entryId?: string | null
+    payload?: JobPayloads[T]
+    delayMinutes?: number // e.g. let several labels arrive before retraining
+  }
+): Promise<Job> {
+  const { data, error } = await svc
+    .from('jobs')
+    .insert({
+      type: input.type,
+      patient_id: input.patientId,
+      entry_id: input.entryId ?? null,
+      payload: input.payload ?? {},
+      max_attempts: JOB_MAX_ATTEMPTS[input.type],
+      next_attempt_at: new Date(Date.now() + (input.delayMinutes ?? 0) * 60 * 1000).toISOString(),
+    })
+    .select()
+    .single()
+  if (!error) return data as Job
+
+  // 23505: a job of this type is already waiting for the entry
+  if (error.code === '23505') {
+    let query = svc
+      .from('jobs')
+      .select('*')
+      .eq('type', input.type)
+      .eq('patient_id', input.patientId)
+      .eq('status', 'pending')
+    query = input.entryId ? query.eq('entry_id', input.entryId) : query.is('entry_id', null)
+    const { data: waiting } = await query.maybeSingle()
+    if (waiting) return waiting as Job
+  }
+  throw new Error(`Failed to enqueue ${input.type} job: ${error.message}`)
+}
+
+/**
+ * Queue jobs for entries that cannot have any waiting yet (just inserted, e.g. by an
+ * import), in one write.
+ */
+export async function enqueueNewEntryJobs<T extends JobType>(
+  svc: SupabaseClient,
+  jobs: { type: T; patientId: string; entryId: string; payload?: JobPayloads[T] }[]
+) {
+  if (jobs.length === 0) return
+  const { error } = await svc.from('jobs').insert(
+    jobs.map((job) => ({
+      type: job.type,
+      patient_id: job.patientId,
+      entry_id: job.entryId,
+      payload: job.payload ?? {},
+      max_attempts: JOB_MAX_ATTEMPTS[job.type],
+    }))
+  )
+  if (error) throw new Error(`Failed to enqueue jobs: ${error.message}`)
+}
+
+/**
+ * Claim a due job with a lease (optimistically, on next_attempt_at). Returns the claimed
+ * row with its attempt counted, or null when another worker got there first.
+ */
+export async function claimJob(svc: SupabaseClient, job: Job): Promise<Job | null> {
+  return claimWithLease(svc, 'jobs', job, { leaseMinutes: JOB_LEASE_MINUTES })
+}
+
+export async function completeJob(svc: SupabaseClient, job: Job, result: unknown) {
+  const { error } = await svc
+    .from('jobs')
+    .update({
+      status: 'done',
+      result: result ?? null,
+      last_error: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+  if (error) throw new Error(`Failed to complete job ${job.id}: ${error.message}`)
+}
+
+/** Record a failed attempt: back off and retry, or park the job as dead. */
+export async function failJob(svc: SupabaseClient, job: Job, e: unknown): Promise<'retry' | 'dead'> {
+  const message = e instanceof Error ? e.message : String(e)
+  const dead = job.attempts >= job.max_attempts
+
+  const { error } = await svc
+    .from('jobs')
+    .update({
+      last_error: message.slice(0, 2000),
+      ...(dead
+        ? { status: 'dead', completed_at: new Date().toISOString() }
+        : { status: 'pending', next_attempt_at: nextAttemptAt(job.attempts, JOB_BACKOFF) }),
+    })
+    .eq('id', job.id)
+  // A pending twin may have been queued meanwhile; the retry is then redundant
+  if (error?.code === '23505') {
+    await svc.from('jobs').update({ status: 'done', completed_at: new Date().toISOString() }).eq('id', job.id)
+  } else if (error) {
+    throw new Error(`Failed to record job failure: ${error.message}`)
+  }
+  return dead ? 'dead' : 'retry'
+}
+
+/** Give dead jobs a fresh round of attempts (after fixing whatever killed them). */
+export async function requeueDeadJobs(svc: SupabaseClient, opts: { type?: JobType } = {}): Promise<number> {
+  let query = svc.from('jobs').select('id').eq('status', 'dead')
+  if (opts.type) query = query.eq('type', opts.type)
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to read dead jobs: ${error.message}`)
+
+  let requeued = 0
+  for (const { id } of data ?? []) {
+    const { error: updateError } = await svc
+      .from('jobs')
+      .update({ status: 'pending', attempts: 0, completed_at: null, next_attempt_at: new Date().toISOString() })
+      .eq('id', id)
+    // Skip jobs whose entry already has a newer one waiting
+    if (!updateError) requeued++
+    else if (updateError.code !== '23505') throw new Error(`Failed to requeue job ${id}: ${updateError.message}`)
+  }
+  return requeued
+}
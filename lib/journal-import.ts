@@ -0,0 +1,488 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createHash, randomUUID } from 'crypto'
+import { strFromU8, unzipSync } from 'fflate'
+import { parseCsv } from '@/lib/csv'
+import { rebuildPatientBaselines, rebuildPopulationStats } from '@/lib/entry-extraction'
+import { enqueueNewEntryJobs } from '@/lib/jobs'
+import { isNeo4jConfigured } from '@/lib/neo4j'
+import type { JobType, JournalImportFormat } from '@/types'
+
+// Journal imports bring in writing from elsewhere: a Day One JSON export (or its zip),
+// a folder of dated Markdown files, or a CSV. Files are parsed and de-duplicated on
+// upload and the new entries inserted with their original timestamps; each is then
+// extracted, embedded and mirrored into the graph by background jobs (lib/job-worker.ts),
+// its extract and embed jobs carrying the import id as their `historical` payload.
+// Imported entries are private until the patient shares them.
+
+export const MAX_IMPORT_ENTRIES = 5000
+export const MAX_IMPORT_BYTES = 25 * 1024 * 1024
+// Uncompressed limits for zip archives, checked against each member's declared size
+// before it is inflated (fflate never inflates past that size)
+export const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024
+export const MAX_IMPORT_UNZIPPED_BYTES = 100 * 1024 * 1024
+
+const IMPORT_EXTENSIONS = ['json', 'md', 'markdown', 'txt', 'csv']
+
+const MAX_REPORTED_PROBLEMS = 50
+
+// ─── Parsing ───
+
+export interface ImportFile {
+  name: string
+  data: Uint8Array
+}
+
+export interface ParsedEntry {
+  created_at: string // ISO, UTC
+  content: string
+  mood: number | null // 1-10 self-report, CSV only
+}
+
+export interface ParsedImport {
+  format: JournalImportFormat
+  entries: ParsedEntry[]
+  problems: string[] // items that could not be read, e.g. "notes.md: no date"
+}
+
+function baseName(path: string) {
+  return path.split('/').pop() ?? path
+}
+
+function extensionOf(path: string) {
+  const match = /\.([a-z0-9]+)$/i.exec(path)
+  return match ? match[1].toLowerCase() : ''
+}
+
+function isImportable(path: string) {
+  return IMPORT_EXTENSIONS.includes(extensionOf(path)) && !path.startsWith('__MACOSX/') && !baseName(path).startsWith('.')
+}
+
+/**
+ * Zip archives are expanded; macOS metadata and attachments (photos, audio) are dropped
+ * without being inflated. Returns an error for an unreadable archive or one that
+ * expands past the limits above.
+ */
+export function expandImportFiles(files: ImportFile[]): { files?: ImportFile[]; error?: string } {
+  const expanded: ImportFile[] = []
+  let totalBytes = 0
+
+  for (const file of files) {
+    if (extensionOf(file.name) !== 'zip') {
+      if (isImportable(file.name)) expanded.push(file)
+      continue
+    }
+
+    let oversized: string | null = null
+    let contents: Record<string, Uint8Array>
+    try {
+      contents = unzipSync(file.data, {
+        filter: (member) => {
+          if (oversized || !isImportable(member.name)) return false
+          totalBytes += member.originalSize
+          if (member.originalSize > MAX_IMPORT_FILE_BYTES || totalBytes > MAX_IMPORT_UNZIPPED_BYTES) {
+            oversized = member.name
+            return false
+          }
+          return true
+        },
+      })
+    } catch {
+      return { error: `Could not open the zip archive ${file.name}` }
+    }
+    if (oversized) {
+      return { error: `${file.name} expands to too much data (${baseName(oversized)}); split it into smaller archives` }
+    }
+
+    for (const [path, data] of Object.entries(contents)) {
+      if (data.length > 0) expanded.push({ name: path, data })
+    }
+  }
+
+  return { files: expanded }
+}
+
+export function detectImportFormat(files: ImportFile[]): JournalImportFormat | null {
+  const extensions = new Set(files.map((f) => extensionOf(f.name)))
+  if (extensions.has('json')) return 'day_one'
+  if (extensions.has('csv')) return 'csv'
+  if (extensions.has('md') || extensions.has('markdown') || extensions.has('txt')) return 'markdown'
+  return null
+}
+
+// UTC instant for a wall-clock time in `timeZone` (UTC if the zone is invalid)
+function zonedTimeToUtc(
+  [year, month, day, hour, minute, second]: number[],
+  timeZone: string
+): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second)
+  let format: Intl.DateTimeFormat
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+  } catch {
+    return new Date(asUtc)
+  }
+  const offsetAt = (instant: number) => {
+    const parts = format.formatToParts(new Date(instant))
+    const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value ?? '0', 10)
+    return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second')) - instant
+  }
+  // Second pass settles times near a daylight-saving change
+  const guess = asUtc - offsetAt(asUtc)
+  return new Date(asUtc - offsetAt(guess))
+}
+
+const LOCAL_DATE_TIME = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T]+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:\.\d+)?\s*(am|pm)?)?$/i
+
+/**
+ * Timestamps with a zone (ISO with Z or an offset) are taken as-is. Local dates and
+ * times ("2021-03-04", "2021/03/04 21:15") are read in the patient's time zone; a date
+ * without a time becomes noon so it stays on the same calendar day.
+ */
+export function parseImportTimestamp(value: string, timeZone: string): Date | null {
+  const text = value.trim()
+  if (!text) return null
+
+  if (/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    const date = new Date(text)
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+
+  const match = LOCAL_DATE_TIME.exec(text)
+  if (!match) return null
+
+  const [, y, mo, d, h, mi, s, meridiem] = match
+  let hour = h === undefined ? 12 : parseInt(h, 10)
+  if (meridiem) hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0)
+  const parts = [parseInt(y, 10), parseInt(mo, 10), parseInt(d, 10), hour, mi ? parseInt(mi, 10) : 0, s ? parseInt(s, 10) : 0]
+  if (parts[1] < 1 || parts[1] > 12 || parts[2] < 1 || parts[2] > 31 || parts[3] > 23 || parts[4] > 59) return null
+
+  return zonedTimeToUtc(parts, timeZone)
+}
+
+// Day One escapes Markdown punctuation (e.g. "Great day\!") and embeds photos as
+// dayone-moment links; neither belongs in the journal text.
+function cleanDayOneText(text: string) {
+  return text
+    .replace(/!\[[^\]]*\]\(dayone-moment:[^)]*\)/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>|])/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function parseDayOne(files: ImportFile[], timeZone: string, problems: string[]): ParsedEntry[] {
+  const entries: ParsedEntry[] = []
+  for (const file of files.filter((f) => extensionOf(f.name) === 'json')) {
+    let json: { entries?: { creationDate?: string; text?: string }[] }
+    try {
+      json = JSON.parse(strFromU8(file.data))
+    } catch {
+      problems.push(`${baseName(file.name)}: not valid JSON`)
+      continue
+    }
+    if (!Array.isArray(json.entries)) {
+      problems.push(`${baseName(file.name)}: not a Day One export (no "entries" list)`)
+      continue
+    }
+
+    json.entries.forEach((item, index) => {
+      const label = `${baseName(file.name)} entry ${index + 1}`
+      const content = cleanDayOneText(item.text ?? '')
+      if (!content) return // photo-only entries have nothing to import
+      const createdAt = item.creationDate ? parseImportTimestamp(item.creationDate, timeZone) : null
+      if (!createdAt) {
+        problems.push(`${label}: missing or unreadable creationDate`)
+        return
+      }
+      entries.push({ created_at: createdAt.toISOString(), content, mood: null })
+    })
+  }
+  return entries
+}
+
+const FILENAME_DATE = /(\d{4})[-_.](\d{2})[-_.](\d{2})(?:[ T_-]+(\d{2})[-:.h]?(\d{2}))?/
+
+function parseMarkdown(files: ImportFile[], timeZone: string, problems: string[]): ParsedEntry[] {
+  const entries: ParsedEntry[] = []
+  for (const file of files.filter((f) => ['md', 'markdown', 'txt'].includes(extensionOf(f.name)))) {
+    const name = baseName(file.name)
+    let body = strFromU8(file.data).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+
+    // YAML front matter: a `date:` field wins over the file name
+    let frontMatterDate: string | null = null
+    const frontMatter = /^---\n([\s\S]*?)\n---\n?/.exec(body)
+    if (frontMatter) {
+      const dateLine = /^(?:date|created|created_at):\s*["']?(.+?)["']?\s*$/im.exec(frontMatter[1])
+      frontMatterDate = dateLine ? dateLine[1] : null
+      body = body.slice(frontMatter[0].length)
+    }
+
+    let createdAt = frontMatterDate ? parseImportTimestamp(frontMatterDate, timeZone) : null
+    if (!createdAt) {
+      const match = FILENAME_DATE.exec(name)
+      if (match) {
+        const [, y, mo, d, h, mi] = match
+        createdAt = parseImportTimestamp(h ? `${y}-${mo}-${d} ${h}:${mi}` : `${y}-${mo}-${d}`, timeZone)
+      }
+    }
+    if (!createdAt) {
+      problems.push(`${name}: no date in the file name or front matter`)
+      continue
+    }
+
+    const content = body.trim()
+    if (!content) continue
+    entries.push({ created_at: createdAt.toISOString(), content, mood: null })
+  }
+  return entries
+}
+
+const CSV_DATE_COLUMNS = ['date', 'created_at', 'created', 'timestamp', 'datetime']
+const CSV_TIME_COLUMNS = ['time']
+const CSV_CONTENT_COLUMNS = ['content', 'text', 'entry', 'body', 'journal', 'note', 'notes']
+const CSV_MOOD_COLUMNS = ['mood', 'mood_score', 'rating']
+
+function parseCsvFiles(files: ImportFile[], timeZone: string, problems: string[]): ParsedEntry[] {
+  const entries: ParsedEntry[] = []
+  for (const file of files.filter((f) => extensionOf(f.name) === 'csv')) {
+    const name = baseName(file.name)
+    const [header, ...rows] = parseCsv(strFromU8(file.data))
+    if (!header) continue
+
+    const columns = header.map((h) => h.trim().toLowerCase().replace(/\s+/g, '_'))
+    const find = (names: string[]) => columns.findIndex((c) => names.includes(c))
+    const dateCol = find(CSV_DATE_COLUMNS)
+    const timeCol = find(CSV_TIME_COLUMNS)
+    const contentCol = find(CSV_CONTENT_COLUMNS)
+    const moodCol = find(CSV_MOOD_COLUMNS)
+    if (dateCol === -1 || contentCol === -1) {
+      problems.push(`${name}: needs a date column (${CSV_DATE_COLUMNS.join(', ')}) and a text column (${CSV_CONTENT_COLUMNS.join(', ')})`)
+      continue
+    }
+
+    rows.forEach((row, index) => {
+      const label = `${name} row ${index + 2}`
+      const content = (row[contentCol] ?? '').trim()
+      if (!content) return
+      const stamp = timeCol === -1 ? row[dateCol] ?? '' : `${row[dateCol] ?? ''} ${row[timeCol] ?? ''}`
+      const createdAt = parseImportTimestamp(stamp, timeZone)
+      if (!createdAt) {
+        problems.push(`${label}: unreadable date "${stamp.trim().slice(0, 40)}"`)
+        return
+      }
+      const mood = moodCol === -1 ? NaN : Number(row[moodCol])
+      entries.push({
+        created_at: createdAt.toISOString(),
+        content,
+        mood: Number.isInteger(mood) && mood >= 1 && mood <= 10 ? mood : null,
+      })
+    })
+  }
+  return entries
+}
+
+export function parseImportFiles(
+  files: ImportFile[],
+  opts: { format?: JournalImportFormat; timeZone: string }
+): ParsedImport | null {
+  const format = opts.format ?? detectImportFormat(files)
+  if (!format) return null
+
+  const problems: string[] = []
+  const parse = { day_one: parseDayOne, markdown: parseMarkdown, csv: parseCsvFiles }[format]
+  const now = Date.now()
+  const entries = parse(files, opts.timeZone, problems).filter((entry) => {
+    if (new Date(entry.created_at).getTime() <= now + 24 * 60 * 60 * 1000) return true
+    problems.push(`Entry dated ${entry.created_at.slice(0, 10)} is in the future`)
+    return false
+  })
+  return { format, entries, problems }
+}
+
+// ─── De-duplication ───
+
+// Same minute and same text (ignoring whitespace) = the same entry
+function entryKey(createdAt: string, content: string) {
+  const minute = new Date(createdAt).toISOString().slice(0, 16)
+  const digest = createHash('sha256').update(content.replace(/\s+/g, ' ').trim()).digest('hex')
+  return `${minute}|${digest}`
+}
+
+async function existingEntryKeys(supabase: SupabaseClient, patientId: string, entries: ParsedEntry[]) {
+  const keys = new Set<string>()
+  if (entries.length === 0) return keys
+
+  const times = entries.map((e) => e.created_at).sort()
+  const from = new Date(new Date(times[0]).getTime() - 60 * 1000).toISOString()
+  const to = new Date(new Date(times[times.length - 1]).getTime() + 60 * 1000).toISOString()
+
+  const pageSize = 1000
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .select('created_at, content')
+      .eq('patient_id', patientId)
+      .gte('created_at', from)
+      .lte('created_at', to)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + pageSize - 1)
+    if (error) throw new Error(`Failed to read existing entries: ${error.message}`)
+    for (const row of data ?? []) keys.add(entryKey(row.created_at, row.content))
+    if ((data ?? []).length < pageSize) break
+  }
+  return keys
+}
+
+// ─── Creating an import ───
+
+/**
+ * Insert the parsed entries that are not already in the journal (or repeated within
+ * the upload) and queue their jobs. `supabase` is the patient's own client, so entries
+ * are written under their RLS; jobs need the service-role client.
+ */
+export async function createJournalImport(
+  supabase: SupabaseClient,
+  svc: SupabaseClient,
+  input: { patientId: string; fileNames: string[]; parsed: ParsedImport }
+) {
+  const { patientId, fileNames, parsed } = input
+
+  const seen = await existingEntryKeys(supabase, patientId, parsed.entries)
+  const fresh: (ParsedEntry & { id: string })[] = []
+  for (const entry of [...parsed.entries].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+    const key = entryKey(entry.created_at, entry.content)
+    if (seen.has(key)) continue
+    seen.add(key)
+    fresh.push({ ...entry, id: randomUUID() })
+  }
+
+  const { data: created, error } = await supabase
+    .from('journal_imports')
+    .insert({
+      patient_id: patientId,
+      format: parsed.format,
+      file_names: fileNames.slice(0, 100),
+      parsed_count: parsed.entries.length,
+      imported_count: fresh.length,
+      duplicate_count: parsed.entries.length - fresh.length,
+      skipped_count: parsed.problems.length,
+      problems: parsed.problems.slice(0, MAX_REPORTED_PROBLEMS),
+      ...(fresh.length === 0 ? { status: 'completed', completed_at: new Date().toISOString() } : {}),
+    })
+    .select('*')
+    .single()
+  if (error) throw new Error(`Failed to create import: ${error.message}`)
+
+  // Count what made it in, so a failure partway leaves an honest row
+  let inserted = 0
+  try {
+    for (let i = 0; i < fresh.length; i += 200) {
+      const batch = fresh.slice(i, i + 200)
+
+      const { error: entriesError } = await supabase.from('journal_entries').insert(
+        batch.map((entry) => ({
+          id: entry.id,
+          patient_id: patientId,
+          content: entry.content,
+          source: 'import',
+          import_id: created.id,
+          created_at: entry.created_at,
+          updated_at: entry.created_at,
+        }))
+      )
+      if (entriesError) throw new Error(`Failed to insert imported entries: ${entriesError.message}`)
+      inserted += batch.length
+
+      const reports = batch.filter((entry) => entry.mood !== null)
+      if (reports.length > 0) {
+        const { error: reportsError } = await supabase.from('self_reports').insert(
+          reports.map((entry) => ({ entry_id: entry.id, patient_id: patientId, mood: entry.mood }))
+        )
+        if (reportsError) throw new Error(`Failed to insert imported moods: ${reportsError.message}`)
+      }
+
+      // Graph last, so it picks up the extraction (see queueEntryAnalysis)
+      const historical = { importId: created.id }
+      const types: JobType[] = isNeo4jConfigured()
+        ? ['extract_entry', 'embed_entry', 'graph_ingest']
+        : ['extract_entry', 'embed_entry']
+      await enqueueNewEntryJobs(
+        svc,
+        types.flatMap((type) =>
+          batch.map((entry) => ({
+            type,
+            patientId,
+            entryId: entry.id,
+            payload: type === 'graph_ingest' ? {} : { historical },
+          }))
+        )
+      )
+    }
+  } catch (e) {
+    // Entries already inserted stay; uploading the files again adds the rest, since
+    // duplicates are skipped
+    const { error: failError } = await svc
+      .from('journal_imports')
+      .update({ status: 'failed', imported_count: inserted, completed_at: new Date().toISOString() })
+      .eq('id', created.id)
+    if (failError) console.error('Failed to mark import failed:', failError)
+    throw e
+  }
+
+  return created
+}
+
+// ─── Progress ───
+
+// Jobs that carry the import (its entries' extract and embed jobs)
+function importJobs(svc: SupabaseClient, importId: string) {
+  return svc
+    .from('jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('payload->historical->>importId', importId)
+}
+
+/**
+ * Once an import has no entry jobs left to run, mark it completed and replay the
+ * patient's baselines and the population stats so the history counts in date order.
+ * Called by the job worker after each of the import's jobs finishes or dies.
+ */
+export async function completeImportIfFinished(svc: SupabaseClient, importId: string) {
+  const { count, error } = await importJobs(svc, importId).in('status', ['pending', 'processing'])
+  if (error) throw new Error(`Failed to read import progress: ${error.message}`)
+  if ((count ?? 0) > 0) return
+
+  const { data: completed } = await svc
+    .from('journal_imports')
+    .update({ status: 'completed', completed_at: new Date().toISOString() })
+    .eq('id', importId)
+    .eq('status', 'processing')
+    .select('patient_id')
+    .maybeSingle()
+  if (!completed) return // already completed by another worker
+
+  await rebuildPatientBaselines(svc, completed.patient_id)
+  await rebuildPopulationStats(svc)
+}
+
+/** Per-import progress for the import page: entries extracted, and given up on, so far. */
+export async function getImportProgress(svc: SupabaseClient, importIds: string[]) {
+  const progress = new Map<string, { processed: number; failed: number }>()
+  for (const importId of importIds) {
+    const countStatus = async (status: string) => {
+      const { count, error } = await importJobs(svc, importId).eq('type', 'extract_entry').eq('status', status)
+      if (error) throw new Error(`Failed to read import progress: ${error.message}`)
+      return count ?? 0
+    }
+    progress.set(importId, { processed: await countStatus('done'), failed: await countStatus('dead') })
+  }
+  return progress
+}
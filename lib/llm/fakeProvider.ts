@@ -0,0 +1,101 @@
+import type { ChatCompletionOptions, LLMMessage, LLMProvider } from '@/lib/llm/types'
+import defaultFixtures from '@/lib/llm/fixtures/default.json'
+
+/**
+ * A fixture rule. The first rule whose conditions all match wins; all string
+ * comparisons are case-insensitive substring matches.
+ *  - `system`: text that must appear in the system message
+ *  - `userAny`: at least one of these must appear in the last user message
+ *  - `responses`: candidate replies (objects are serialized as JSON); one is
+ *    chosen by hashing the last user message so the same input always gets the same reply
+ */
+export interface LLMFixtureRule {
+  name: string
+  system?: string
+  userAny?: string[]
+  jsonMode?: boolean
+  responses: Array<string | Record<string, unknown>>
+}
+
+export interface LLMFixtures {
+  rules: LLMFixtureRule[]
+}
+
+// FNV-1a: small, stable string hash (no crypto needed for fixtures)
+function hashString(s: string, seed: number = 0x811c9dc5): number {
+  let h = seed >>> 0
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i)
+    h = Math.imul(h, 0x01000193) >>> 0
+  }
+  return h >>> 0
+}
+
+function lastUserMessage(messages: LLMMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') return messages[i].content
+  }
+  return ''
+}
+
+function matches(rule: LLMFixtureRule, messages: LLMMessage[], options: ChatCompletionOptions): boolean {
+  const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n').toLowerCase()
+  const user = lastUserMessage(messages).toLowerCase()
+
+  if (rule.jsonMode !== undefined && rule.jsonMode !== Boolean(options.jsonMode)) return false
+  if (rule.system && !system.includes(rule.system.toLowerCase())) return false
+  if (rule.userAny && !rule.userAny.some((needle) => user.includes(needle.toLowerCase()))) return false
+  return true
+}
+
+/**
+ * Deterministic embedding via the hashing trick over lowercase word tokens.
+ * Texts sharing words land close together, so retrieval behaves plausibly offline.
+ */
+export function hashEmbedding(text: string, dims: number): number[] {
+  const v = new Array<number>(dims).fill(0)
+  const tokens = text.toLowerCase().match(/[a-z0-9']+/g) ?? []
+  for (const token of tokens) {
+    const h = hashString(token)
+    v[h % dims] += (h & 0x80000000) === 0 ? 1 : -1
+  }
+  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0))
+  return norm > 0 ? v.map((x) => x / norm) : v
+}
+
+export function createFakeProvider(
+  opts: { fixtures?: LLMFixtures; embeddingDim?: number } = {}
+): LLMProvider {
+  const fixtures = opts.fixtures ?? (defaultFixtures as LLMFixtures)
+  const embeddingDim = opts.embeddingDim ?? 1536
+
+  const respond = (messages: LLMMessage[], options: ChatCompletionOptions): string => {
+    const user = lastUserMessage(messages)
+    const rule = fixtures.rules.find((r) => matches(r, messages, options))
+    if (!rule || rule.responses.length === 0) return options.jsonMode ? '{}' : ''
+
+    const picked = rule.responses[hashString(user) % rule.responses.length]
+    return typeof picked === 'string' ? picked : JSON.stringify(picked)
+  }
+
+  return {
+    name: 'fake',
+
+    async chatCompletion(messages, options = {}) {
+      return respond(messages, options)
+    },
+
+    async *streamChatCompletion(messages, options = {}) {
+      const text = respond(messages, options)
+      // Word-sized chunks so streaming UIs get several deltas
+      for (const chunk of text.match(/\S+\s*/g) ?? []) {
+        if (options.signal?.aborted) return
+        yield chunk
+      }
+    },
+
+    async embed(texts) {
+      return texts.map((t) => hashEmbedding(t, embeddingDim))
+    },
+  }
+}
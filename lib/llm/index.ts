@@ -0,0 +1,67 @@
+import { readFileSync } from 'fs'
+import { createOpenAIProvider, OPENAI_CHAT_MODEL, OPENAI_EMBEDDING_MODEL } from '@/lib/llm/openaiProvider'
+import { createFakeProvider, type LLMFixtures } from '@/lib/llm/fakeProvider'
+import type { LLMProvider, LLMProviderName } from '@/lib/llm/types'
+
+export type { ChatCompletionOptions, LLMMessage, LLMProvider, LLMProviderName } from '@/lib/llm/types'
+
+const PROVIDERS: LLMProviderName[] = ['openai', 'local', 'fake']
+
+let provider: LLMProvider | null = null
+
+export function getLLMProviderName(): LLMProviderName {
+  const name = (process.env.LLM_PROVIDER || 'openai').toLowerCase() as LLMProviderName
+  if (!PROVIDERS.includes(name)) {
+    throw new Error(`Unknown LLM_PROVIDER "${process.env.LLM_PROVIDER}" (expected one of: ${PROVIDERS.join(', ')})`)
+  }
+  return name
+}
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY environment variable is not set')
+      }
+      return createOpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        chatModel: process.env.LLM_CHAT_MODEL || OPENAI_CHAT_MODEL,
+        embeddingModel: process.env.LLM_EMBEDDING_MODEL || OPENAI_EMBEDDING_MODEL,
+        defaultMaxTokens: 2000,
+        defaultTemperature: 0.7,
+      })
+
+    case 'local':
+      // Any OpenAI-compatible server; Ollama's default endpoint unless configured
+      return createOpenAIProvider({
+        name: 'local',
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        chatModel: process.env.LOCAL_LLM_CHAT_MODEL || 'llama3.1',
+        embeddingModel: process.env.LOCAL_LLM_EMBEDDING_MODEL || 'nomic-embed-text',
+        defaultMaxTokens: 2000,
+        defaultTemperature: 0.7,
+      })
+
+    case 'fake': {
+      const fixturesPath = process.env.LLM_FIXTURES_PATH
+      const fixtures = fixturesPath
+        ? (JSON.parse(readFileSync(fixturesPath, 'utf-8')) as LLMFixtures)
+        : undefined
+      // Match the Neo4j vector index so fake embeddings can be ingested
+      const dim = parseInt(process.env.NEO4J_ENTRY_EMBEDDING_DIM || '1536', 10)
+      return createFakeProvider({ fixtures, embeddingDim: Number.isFinite(dim) && dim > 0 ? dim : 1536 })
+    }
+  }
+}
+
+// Provider selected by LLM_PROVIDER (server-side only; created once per process)
+export function getLLMProvider(): LLMProvider {
+  if (!provider) provider = createProvider(getLLMProviderName())
+  return provider
+}
+
+// Override the active provider (scripts, evals). Pass null to fall back to LLM_PROVIDER.
+export function setLLMProvider(next: LLMProvider | null) {
+  provider = next
+}
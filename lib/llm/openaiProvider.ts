@@ -0,0 +1,64 @@
+import OpenAI from 'openai'
+import type { ChatCompletionOptions, LLMMessage, LLMProvider, LLMProviderName } from '@/lib/llm/types'
+
+// Hosted OpenAI defaults (overridable with LLM_CHAT_MODEL / LLM_EMBEDDING_MODEL)
+export const OPENAI_CHAT_MODEL = 'gpt-4-turbo-preview'
+export const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small'
+
+export interface OpenAIProviderConfig {
+  name?: LLMProviderName
+  apiKey: string
+  baseURL?: string
+  chatModel: string
+  embeddingModel: string
+  defaultMaxTokens: number
+  defaultTemperature: number
+}
+
+/**
+ * Provider backed by the OpenAI SDK. With `baseURL` set it talks to any
+ * OpenAI-compatible server (llama.cpp `--api`, Ollama `/v1`, vLLM, LM Studio).
+ */
+export function createOpenAIProvider(config: OpenAIProviderConfig): LLMProvider {
+  const client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL })
+
+  const baseParams = (messages: LLMMessage[], options: ChatCompletionOptions) => ({
+    model: options.model ?? config.chatModel,
+    messages,
+    max_tokens: options.maxTokens ?? config.defaultMaxTokens,
+    temperature: options.temperature ?? config.defaultTemperature,
+    ...(options.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+  })
+
+  return {
+    name: config.name ?? 'openai',
+
+    async chatCompletion(messages, options = {}) {
+      const response = await client.chat.completions.create(
+        baseParams(messages, options),
+        { signal: options.signal }
+      )
+      return response.choices[0]?.message?.content ?? ''
+    },
+
+    async *streamChatCompletion(messages, options = {}) {
+      const stream = await client.chat.completions.create(
+        { ...baseParams(messages, options), stream: true },
+        { signal: options.signal }
+      )
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content
+        if (delta) yield delta
+      }
+    },
+
+    async embed(texts) {
+      if (texts.length === 0) return []
+      const response = await client.embeddings.create({
+        model: config.embeddingModel,
+        input: texts,
+      })
+      return response.data.map((item) => item.embedding)
+    },
+  }
+}
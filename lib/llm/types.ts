@@ -0,0 +1,25 @@
+// Provider-agnostic LLM interface. Routes and scripts call the helpers in
+// lib/openai.ts, which delegate to whichever provider LLM_PROVIDER selects.
+
+export type LLMProviderName = 'openai' | 'local' | 'fake'
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatCompletionOptions {
+  model?: string
+  maxTokens?: number
+  temperature?: number
+  // Ask the model for a single JSON object (OpenAI `response_format: json_object`)
+  jsonMode?: boolean
+  signal?: AbortSignal
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  chatCompletion(messages: LLMMessage[], options?: ChatCompletionOptions): Promise<string>
+  streamChatCompletion(messages: LLMMessage[], options?: ChatCompletionOptions): AsyncGenerator<string>
+  embed(texts: string[]): Promise<number[][]>
+}
@@ -5,7 +5,12 @@
  * No interpretive language — just infrastructure and numbers.
  */
 
-import { getExtraction } from './dashboard-utils'
+import { getExtraction, getStructuredLog } from './dashboard-utils'
+import { detectChangePoints } from './change-points'
+import { anxietyToCalmness } from './normalization'
+import { classifyClinicalChange, type ClinicalChange } from './clinical-scales'
+import { INSTRUMENTS } from './instruments'
+import type { QuestionnaireInstrument, QuestionnaireResponse } from '@/types'
 
 // ─── Types ───────────────────────────────────────────────────
 
@@ -20,6 +25,18 @@ export interface BaselineMetrics {
   sampleCount: number
 }
 
+export type ShiftSeries = 'mood' | 'calmness' | 'sleep' | 'phq9'
+
+export interface DetectedShift {
+  series: ShiftSeries
+  date: string // first entry after the shift
+  before: number // series mean before
+  after: number // series mean after
+  confidence: number // 0-1
+  entries: { id: string; date: string }[] // entries either side of the shift
+  triggers: string[] // most frequent triggers in those entries
+}
+
 export interface TrendIndicators {
   slope7d: number | null   // mood slope over last 7 days
   slope14d: number | null  // mood slope over last 14 days
@@ -27,6 +44,7 @@ export interface TrendIndicators {
   anxietySlope7d: number | null
   anxietySlope14d: number | null
   latestAnxietyZScore: number | null
+  shifts: DetectedShift[] // newest first
 }
 
 export interface RankedItem {
@@ -53,9 +71,27 @@ export interface EvidenceSnippet {
   moodScore: number | null
 }
 
+export interface ChangeWindow {
+  from: string
+  to: string
+  mean: number
+  count: number
+}
+
+export interface ClinicalChangeWindow {
+  scale: QuestionnaireInstrument
+  source: 'ai_estimate' | 'questionnaire'
+  baseline: ChangeWindow
+  current: ChangeWindow
+  change: ClinicalChange
+}
+
+export type AssessmentScore = Pick<QuestionnaireResponse, 'instrument' | 'total_score' | 'created_at'>
+
 export interface LongitudinalProfile {
   baseline: BaselineMetrics
   trends: TrendIndicators
+  clinicalChange: ClinicalChangeWindow[]
   themes: RecurrentThemes
   evidence: EvidenceSnippet[]
   generatedAt: string
@@ -67,8 +103,12 @@ export interface LongitudinalProfile {
 /**
  * Compute the full longitudinal profile from a set of journal entries
  * with their AI extractions. Entries should be ordered newest-first.
+ * Administered questionnaires, when given, feed the clinical change section.
  */
-export function computeLongitudinalProfile(entries: any[]): LongitudinalProfile {
+export function computeLongitudinalProfile(
+  entries: any[],
+  assessments: AssessmentScore[] = []
+): LongitudinalProfile {
   const now = new Date().toISOString()
   const withExtractions = entries
     .filter(e => getExtraction(e)?.mood_score != null)
@@ -85,10 +125,12 @@ export function computeLongitudinalProfile(entries: any[]): LongitudinalProfile
   const trends = computeTrends(sorted, baseline)
   const themes = computeThemes(sorted)
   const evidence = extractEvidence(sorted)
+  const clinicalChange = computeClinicalChange(sorted, assessments)
 
   return {
     baseline,
     trends,
+    clinicalChange,
     themes,
     evidence,
     generatedAt: now,
@@ -154,6 +196,7 @@ function computeTrends(sorted: SortedEntry[], baseline: BaselineMetrics): TrendI
     return {
       slope7d: null, slope14d: null, latestZScore: null,
       anxietySlope7d: null, anxietySlope14d: null, latestAnxietyZScore: null,
+      shifts: [],
     }
   }
 
@@ -191,7 +234,144 @@ function computeTrends(sorted: SortedEntry[], baseline: BaselineMetrics): TrendI
     anxietySlope7d: anxietySlope7d != null ? round3(anxietySlope7d * msPerDay) : null,
     anxietySlope14d: anxietySlope14d != null ? round3(anxietySlope14d * msPerDay) : null,
     latestAnxietyZScore,
+    shifts: detectShifts(sorted),
+  }
+}
+
+// ─── Shifts (change points) ──────────────────────────────────
+
+const SHIFT_SERIES: { series: ShiftSeries; value: (s: SortedEntry) => number | null }[] = [
+  { series: 'mood', value: s => s.extraction.mood_score ?? null },
+  { series: 'calmness', value: s => (s.extraction.anxiety_score != null ? anxietyToCalmness(s.extraction.anxiety_score) : null) },
+  { series: 'sleep', value: s => getStructuredLog(s.entry)?.sleep_hours ?? null },
+  { series: 'phq9', value: s => s.extraction.phq9_estimate ?? null },
+]
+
+// Entries on each side of a shift that are linked as context
+const SHIFT_CONTEXT = 2
+
+/**
+ * Sustained level shifts in each series (PELT over the entries in order), with the
+ * entries either side and the triggers that recur in them.
+ */
+function detectShifts(sorted: SortedEntry[]): DetectedShift[] {
+  const shifts: DetectedShift[] = []
+
+  for (const { series, value } of SHIFT_SERIES) {
+    const points = sorted
+      .map(s => ({ s, v: value(s) }))
+      .filter((p): p is { s: SortedEntry; v: number } => typeof p.v === 'number')
+
+    for (const cp of detectChangePoints(points.map(p => p.v))) {
+      const around = points
+        .slice(Math.max(0, cp.index - SHIFT_CONTEXT), cp.index + SHIFT_CONTEXT)
+        .map(p => p.s)
+
+      const triggerCounts = new Map<string, number>()
+      around.forEach(s => {
+        const triggers = s.extraction.triggers || []
+        triggers.forEach((t: string) => {
+          const key = t.toLowerCase().trim()
+          triggerCounts.set(key, (triggerCounts.get(key) || 0) + 1)
+        })
+      })
+
+      shifts.push({
+        series,
+        date: points[cp.index].s.entry.created_at,
+        before: round1(cp.before),
+        after: round1(cp.after),
+        confidence: cp.confidence,
+        entries: around.map(s => ({ id: s.entry.id, date: s.entry.created_at })),
+        triggers: Array.from(triggerCounts.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 3)
+          .map(([label]) => capitalize(label)),
+      })
+    }
   }
+
+  return shifts.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+}
+
+// ─── Clinical Change (Jacobson–Truax) ────────────────────────
+
+// Windows match the instruments' two-week recall period
+const CHANGE_WINDOW_DAYS = 14
+
+// AI estimates are single-entry reads, so each window needs more than one
+const MIN_WINDOW_READINGS: Record<ClinicalChangeWindow['source'], number> = {
+  ai_estimate: 2,
+  questionnaire: 1,
+}
+
+interface ScorePoint {
+  t: number
+  date: string
+  v: number
+}
+
+/**
+ * Mean score over the first window (from the first reading) against the mean over
+ * the last window (up to the latest reading), classified by the reliable change
+ * index. The current window starts no earlier than the baseline window ends, so the
+ * two never share readings.
+ */
+function changeBetweenWindows(
+  points: ScorePoint[],
+  scale: QuestionnaireInstrument,
+  source: ClinicalChangeWindow['source']
+): ClinicalChangeWindow | null {
+  if (points.length < 2) return null
+  const ordered = [...points].sort((a, b) => a.t - b.t)
+  const windowMs = CHANGE_WINDOW_DAYS * 24 * 60 * 60 * 1000
+
+  const baselineEnd = ordered[0].t + windowMs
+  const currentStart = Math.max(ordered[ordered.length - 1].t - windowMs, baselineEnd)
+  const baselinePoints = ordered.filter(p => p.t < baselineEnd)
+  const currentPoints = ordered.filter(p => p.t >= currentStart)
+
+  const minimum = MIN_WINDOW_READINGS[source]
+  if (baselinePoints.length < minimum || currentPoints.length < minimum) return null
+
+  const summarize = (window: ScorePoint[]): ChangeWindow => ({
+    from: window[0].date,
+    to: window[window.length - 1].date,
+    mean: round1(mean(window.map(p => p.v))),
+    count: window.length,
+  })
+  const baseline = summarize(baselinePoints)
+  const current = summarize(currentPoints)
+  const change = classifyClinicalChange(baseline.mean, current.mean, scale)
+  if (!change) return null
+
+  return { scale, source, baseline, current, change }
+}
+
+function computeClinicalChange(sorted: SortedEntry[], assessments: AssessmentScore[]): ClinicalChangeWindow[] {
+  const results: ClinicalChangeWindow[] = []
+
+  // Every instrument with psychometrics for the reliable change index
+  const scales = (Object.keys(INSTRUMENTS) as QuestionnaireInstrument[]).filter(i => INSTRUMENTS[i].psychometrics)
+
+  for (const scale of scales) {
+    const questionnairePoints = assessments
+      .filter(a => a.instrument === scale)
+      .map(a => ({ t: new Date(a.created_at).getTime(), date: a.created_at, v: a.total_score }))
+    const fromQuestionnaires = changeBetweenWindows(questionnairePoints, scale, 'questionnaire')
+    if (fromQuestionnaires) results.push(fromQuestionnaires)
+
+    // The extraction estimates PHQ-9 and GAD-7 only
+    if (scale !== 'phq9' && scale !== 'gad7') continue
+    const estimateKey = scale === 'phq9' ? 'phq9_estimate' : 'gad7_estimate'
+    const estimatePoints = sorted
+      .filter(s => typeof s.extraction[estimateKey] === 'number')
+      .map(s => ({ t: s.date.getTime(), date: s.entry.created_at, v: s.extraction[estimateKey] as number }))
+    const fromEstimates = changeBetweenWindows(estimatePoints, scale, 'ai_estimate')
+    if (fromEstimates) results.push(fromEstimates)
+  }
+
+  return results
 }
 
 // ─── Section 3: Recurrent Themes ─────────────────────────────
@@ -320,7 +500,7 @@ function extractEvidence(sorted: SortedEntry[]): EvidenceSnippet[] {
       Math.abs(curr.extraction.mood_z_score) > Math.abs(max.extraction.mood_z_score) ? curr : max
     )
     snippets.push({
-      excerpt: truncateExcerpt(extreme.entry.content),
+      excerpt: truncateExcerpt(extreme.entry.content || extreme.extraction.summary),
       date: extreme.entry.created_at,
       signal: `Mood z-score: ${round2(extreme.extraction.mood_z_score)} (strongest deviation)`,
       moodScore: extreme.extraction.mood_score,
@@ -331,7 +511,7 @@ function extractEvidence(sorted: SortedEntry[]): EvidenceSnippet[] {
   const crisisEntry = recent.find(s => s.extraction.crisis_detected)
   if (crisisEntry) {
     snippets.push({
-      excerpt: truncateExcerpt(crisisEntry.entry.content),
+      excerpt: truncateExcerpt(crisisEntry.entry.content || crisisEntry.extraction.summary),
       date: crisisEntry.entry.created_at,
       signal: 'Crisis language detected',
       moodScore: crisisEntry.extraction.mood_score,
@@ -345,7 +525,7 @@ function extractEvidence(sorted: SortedEntry[]): EvidenceSnippet[] {
       )
       if (lowest.extraction.mood_score <= 4) {
         snippets.push({
-          excerpt: truncateExcerpt(lowest.entry.content),
+          excerpt: truncateExcerpt(lowest.entry.content || lowest.extraction.summary),
           date: lowest.entry.created_at,
           signal: `Low mood entry (${lowest.extraction.mood_score}/10)`,
           moodScore: lowest.extraction.mood_score,
@@ -357,7 +537,7 @@ function extractEvidence(sorted: SortedEntry[]): EvidenceSnippet[] {
   // 3. Most recent entry (for current state)
   if (recent.length > 0 && !snippets.some(s => s.date === recent[0].entry.created_at)) {
     snippets.push({
-      excerpt: truncateExcerpt(recent[0].entry.content),
+      excerpt: truncateExcerpt(recent[0].entry.content || recent[0].extraction.summary),
       date: recent[0].entry.created_at,
       signal: 'Most recent entry',
       moodScore: recent[0].extraction.mood_score,
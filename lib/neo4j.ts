@@ -23,6 +23,11 @@ export function getNeo4jConfig() {
   return { uri, user, password, database, entryEmbeddingDim, entryVectorIndex }
 }
 
+// True when the NEO4J_* connection variables are present (graph features are optional).
+export function isNeo4jConfigured(): boolean {
+  return Boolean(process.env.NEO4J_URI && process.env.NEO4J_USER && process.env.NEO4J_PASSWORD)
+}
+
 export function getNeo4jDriver(): Driver {
   if (driver) return driver
 
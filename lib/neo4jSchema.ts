@@ -26,6 +26,10 @@ export async function ensureNeo4jSchema() {
       CREATE CONSTRAINT selfReport_reportId_unique IF NOT EXISTS
       FOR (sr:SelfReport) REQUIRE sr.reportId IS UNIQUE
     `)
+    await session.run(`
+      CREATE CONSTRAINT context_contextId_unique IF NOT EXISTS
+      FOR (c:ContextPoint) REQUIRE c.contextId IS UNIQUE
+    `)
     await session.run(`
       CREATE CONSTRAINT affect_affectId_unique IF NOT EXISTS
       FOR (a:AffectPoint) REQUIRE a.affectId IS UNIQUE
@@ -0,0 +1,298 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isEmailConfigured, sendEmail } from '@/lib/notifications/email'
+import { sendWebhook } from '@/lib/notifications/webhook'
+import { quietHoursEndAt } from '@/lib/notifications/quietHours'
+import { nextAttemptAt, type Backoff } from '@/lib/retry'
+import type {
+  CrisisAlert,
+  CrisisSeverity,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationPreferences,
+} from '@/types'
+
+// Crisis alert notifications go through the `notification_deliveries` table: one row
+// per therapist and channel, retried with backoff until sent. Service-role client only.
+
+export const MAX_DELIVERY_ATTEMPTS = 8
+const DELIVERY_BACKOFF: Backoff = { baseSeconds: 30, capSeconds: 2 * 60 * 60 } // 30s, 1m, 2m, ... up to 2 hours
+
+const SEVERITY_RANK: Record<CrisisSeverity, number> = { low: 0, medium: 1, high: 2 }
+
+type AlertForNotification = Pick<
+  CrisisAlert,
+  'id' | 'patient_id' | 'severity' | 'status' | 'detection_source' | 'created_at'
+>
+
+// Used for therapists who never saved preferences
+export function defaultNotificationPreferences(therapistId: string): NotificationPreferences {
+  return {
+    therapist_id: therapistId,
+    email_enabled: true,
+    email_address: null,
+    webhook_enabled: false,
+    webhook_url: null,
+    webhook_secret: null,
+    in_app_enabled: true,
+    min_severity: 'low',
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    timezone: 'UTC',
+    updated_at: new Date(0).toISOString(),
+  }
+}
+
+function dashboardUrl() {
+  return `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/therapist/dashboard`
+}
+
+function enabledChannels(prefs: NotificationPreferences): NotificationChannel[] {
+  const channels: NotificationChannel[] = []
+  if (prefs.in_app_enabled) channels.push('in_app')
+  if (prefs.email_enabled && isEmailConfigured()) channels.push('email')
+  if (prefs.webhook_enabled && prefs.webhook_url && prefs.webhook_secret) channels.push('webhook')
+  return channels
+}
+
+// ─── Channel senders ───
+
+// Messages carry severity and a link only; patient names and journal text stay in the app.
+function alertTitle(alert: AlertForNotification) {
+  return `${alert.severity === 'high' ? 'URGENT: ' : ''}${alert.severity[0].toUpperCase()}${alert.severity.slice(1)} severity crisis alert`
+}
+
+async function deliver(
+  svc: SupabaseClient,
+  delivery: NotificationDelivery,
+  alert: AlertForNotification,
+  prefs: NotificationPreferences
+) {
+  const title = alertTitle(alert)
+  const body = 'A patient entry or message was flagged for review. Open your dashboard to acknowledge the alert.'
+
+  switch (delivery.channel) {
+    case 'in_app': {
+      const { error } = await svc.from('notifications').insert({
+        recipient_id: delivery.therapist_id,
+        alert_id: alert.id,
+        title,
+        body,
+        link: '/therapist/dashboard',
+      })
+      if (error) throw new Error(error.message)
+      return
+    }
+
+    case 'email': {
+      let to = prefs.email_address
+      if (!to) {
+        const { data, error } = await svc.auth.admin.getUserById(delivery.therapist_id)
+        if (error) throw new Error(error.message)
+        to = data.user?.email ?? null
+      }
+      if (!to) throw new Error('No email address for therapist')
+
+      await sendEmail({
+        to,
+        subject: title,
+        text: [
+          body,
+          '',
+          `Raised: ${new Date(alert.created_at).toUTCString()}`,
+          dashboardUrl(),
+          '',
+          'You receive this because crisis alert email notifications are enabled for your account.',
+        ].join('\n'),
+      })
+      return
+    }
+
+    case 'webhook': {
+      if (!prefs.webhook_url || !prefs.webhook_secret) throw new Error('Webhook is not configured')
+      await sendWebhook({
+        url: prefs.webhook_url,
+        secret: prefs.webhook_secret,
+        id: delivery.id,
+        payload: {
+          type: 'crisis_alert.created',
+          id: delivery.id,
+          created_at: new Date().toISOString(),
+          data: {
+            alert_id: alert.id,
+            patient_id: alert.patient_id,
+            severity: alert.severity,
+            detection_source: alert.detection_source,
+            alert_created_at: alert.created_at,
+            url: dashboardUrl(),
+          },
+        },
+      })
+      return
+    }
+  }
+}
+
+// ─── Outbox processing ───
+
+async function loadPreferences(svc: SupabaseClient, therapistIds: string[]) {
+  const { data, error } = await svc
+    .from('notification_preferences')
+    .select('*')
+    .in('therapist_id', therapistIds)
+  if (error) throw new Error(`Failed to load notification preferences: ${error.message}`)
+
+  const byTherapist = new Map<string, NotificationPreferences>()
+  for (const id of therapistIds) byTherapist.set(id, defaultNotificationPreferences(id))
+  for (const row of (data ?? []) as NotificationPreferences[]) byTherapist.set(row.therapist_id, row)
+  return byTherapist
+}
+
+export async function processNotificationDelivery(
+  svc: SupabaseClient,
+  delivery: NotificationDelivery,
+  alert: AlertForNotification,
+  prefs: NotificationPreferences
+): Promise<boolean> {
+  // Deferred (quiet hours) or retried sends for an alert that has since been handled
+  if (alert.status === 'resolved') {
+    await svc.from('notification_deliveries').update({ status: 'skipped' }).eq('id', delivery.id)
+    return true
+  }
+
+  const attempts = delivery.attempts + 1
+  try {
+    await deliver(svc, delivery, alert, prefs)
+
+    await svc
+      .from('notification_deliveries')
+      .update({ status: 'sent', sent_at: new Date().toISOString(), attempts, last_error: null })
+      .eq('id', delivery.id)
+    await svc.from('crisis_alerts').update({ therapist_notified: true }).eq('id', alert.id)
+    return true
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e)
+    console.error(`Notification ${delivery.channel} for alert ${alert.id} failed (attempt ${attempts}):`, e)
+
+    await svc
+      .from('notification_deliveries')
+      .update({
+        attempts,
+        last_error: message.slice(0, 2000),
+        ...(attempts >= MAX_DELIVERY_ATTEMPTS
+          ? { status: 'failed' }
+          : { next_attempt_at: nextAttemptAt(attempts, DELIVERY_BACKOFF) }),
+      })
+      .eq('id', delivery.id)
+    return false
+  }
+}
+
+/**
+ * Send due pending deliveries (oldest first). Optionally scoped to one alert so
+ * enqueueAlertNotifications can send immediately after the alert is raised.
+ */
+export async function processNotificationDeliveries(
+  svc: SupabaseClient,
+  opts: { alertId?: string; limit?: number } = {}
+): Promise<{ processed: number; failed: number }> {
+  let query = svc
+    .from('notification_deliveries')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(opts.limit ?? 25)
+
+  if (opts.alertId) query = query.eq('alert_id', opts.alertId)
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to read notification deliveries: ${error.message}`)
+  const deliveries = (data ?? []) as NotificationDelivery[]
+  if (deliveries.length === 0) return { processed: 0, failed: 0 }
+
+  const { data: alerts, error: alertsError } = await svc
+    .from('crisis_alerts')
+    .select('id, patient_id, severity, status, detection_source, created_at')
+    .in('id', Array.from(new Set(deliveries.map((d) => d.alert_id))))
+  if (alertsError) throw new Error(`Failed to load crisis alerts: ${alertsError.message}`)
+  const alertById = new Map((alerts ?? []).map((a) => [a.id as string, a as AlertForNotification]))
+
+  const prefsByTherapist = await loadPreferences(svc, Array.from(new Set(deliveries.map((d) => d.therapist_id))))
+
+  let processed = 0
+  let failed = 0
+  for (const delivery of deliveries) {
+    const alert = alertById.get(delivery.alert_id)
+    if (!alert) continue
+    if (await processNotificationDelivery(svc, delivery, alert, prefsByTherapist.get(delivery.therapist_id)!)) processed++
+    else failed++
+  }
+
+  return { processed, failed }
+}
+
+/**
+ * Queue notifications for a new (or newly escalated) crisis alert to every linked
+ * therapist, per their channel preferences, and attempt them immediately.
+ * Email and webhook sends for low/medium alerts wait until quiet hours end; high
+ * severity is never held back. Never throws: failures stay queued for retry.
+ */
+export async function enqueueAlertNotifications(svc: SupabaseClient, alertId: string) {
+  try {
+    const { data: alert, error } = await svc
+      .from('crisis_alerts')
+      .select('id, patient_id, severity, status, detection_source, created_at')
+      .eq('id', alertId)
+      .single()
+    if (error) throw new Error(error.message)
+
+    const { data: links, error: linksError } = await svc
+      .from('patient_therapist')
+      .select('therapist_id')
+      .eq('patient_id', alert.patient_id)
+    if (linksError) throw new Error(linksError.message)
+
+    const therapistIds = (links ?? []).map((l) => l.therapist_id as string)
+    if (therapistIds.length === 0) return
+
+    const prefsByTherapist = await loadPreferences(svc, therapistIds)
+    const now = new Date()
+    const severity = alert.severity as CrisisSeverity
+    const rows = []
+
+    for (const prefs of Array.from(prefsByTherapist.values())) {
+      if (SEVERITY_RANK[severity] < SEVERITY_RANK[prefs.min_severity]) continue
+      const quietUntil = severity === 'high' ? null : quietHoursEndAt(prefs, now)
+
+      for (const channel of enabledChannels(prefs)) {
+        rows.push({
+          alert_id: alert.id,
+          therapist_id: prefs.therapist_id,
+          channel,
+          // In-app notifications are silent, so quiet hours only hold back email and webhooks
+          next_attempt_at: channel !== 'in_app' && quietUntil ? quietUntil.toISOString() : now.toISOString(),
+        })
+      }
+    }
+
+    if (rows.length > 0) {
+      const { error: insertError } = await svc
+        .from('notification_deliveries')
+        .upsert(rows, { onConflict: 'alert_id,therapist_id,channel', ignoreDuplicates: true })
+      if (insertError) throw new Error(insertError.message)
+    }
+
+    // An alert raised to high severity skips any remaining quiet-hours or backoff delay
+    if (severity === 'high') {
+      await svc
+        .from('notification_deliveries')
+        .update({ next_attempt_at: now.toISOString() })
+        .eq('alert_id', alert.id)
+        .eq('status', 'pending')
+    }
+
+    await processNotificationDeliveries(svc, { alertId: alert.id })
+  } catch (e) {
+    console.error('Crisis alert notification enqueue failed:', e)
+  }
+}
@@ -0,0 +1,35 @@
+import nodemailer, { type Transporter } from 'nodemailer'
+
+let transporter: Transporter | null = null
+
+// SMTP is optional: without SMTP_HOST the email channel is skipped.
+export function isEmailConfigured() {
+  return Boolean(process.env.SMTP_HOST)
+}
+
+function getTransporter(): Transporter {
+  if (transporter) return transporter
+  if (!process.env.SMTP_HOST) {
+    throw new Error('SMTP_HOST environment variable is not set')
+  }
+
+  // Defaults suit a local catcher such as Mailpit or MailHog (smtp://localhost:1025, no auth)
+  transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '1025', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' }
+      : undefined,
+  })
+  return transporter
+}
+
+export async function sendEmail(message: { to: string; subject: string; text: string }) {
+  await getTransporter().sendMail({
+    from: process.env.NOTIFICATIONS_FROM_EMAIL || 'Therapy Journal <alerts@therapyjournal.local>',
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+  })
+}
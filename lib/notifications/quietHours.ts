@@ -0,0 +1,42 @@
+import type { NotificationPreferences } from '@/types'
+
+type QuietHours = Pick<NotificationPreferences, 'quiet_hours_start' | 'quiet_hours_end' | 'timezone'>
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map((x) => parseInt(x, 10))
+  return (h % 24) * 60 + (m || 0)
+}
+
+// Minutes since local midnight in the therapist's timezone (UTC if the zone is invalid)
+function localMinutes(now: Date, timezone: string): number {
+  let parts: Intl.DateTimeFormatPart[]
+  try {
+    parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(now)
+  } catch {
+    return now.getUTCHours() * 60 + now.getUTCMinutes()
+  }
+  const hour = parseInt(parts.find((p) => p.type === 'hour')?.value ?? '0', 10)
+  const minute = parseInt(parts.find((p) => p.type === 'minute')?.value ?? '0', 10)
+  return (hour % 24) * 60 + minute
+}
+
+/**
+ * When `now` falls inside the therapist's quiet hours, the time they end; otherwise null.
+ * Windows may wrap midnight (e.g. 22:00–07:00). Equal start and end means no quiet hours.
+ */
+export function quietHoursEndAt(prefs: QuietHours, now: Date = new Date()): Date | null {
+  if (!prefs.quiet_hours_start || !prefs.quiet_hours_end) return null
+
+  const start = toMinutes(prefs.quiet_hours_start)
+  const end = toMinutes(prefs.quiet_hours_end)
+  if (start === end) return null
+
+  const current = localMinutes(now, prefs.timezone)
+  const inside = start < end ? current >= start && current < end : current >= start || current < end
+  if (!inside) return null
+
+  const minutesLeft = (end - current + 24 * 60) % (24 * 60)
+  const endsAt = new Date(now.getTime() + minutesLeft * 60_000)
+  endsAt.setSeconds(0, 0)
+  return endsAt
+}
@@ -0,0 +1,117 @@
+import { createHmac, randomBytes } from 'crypto'
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+
+const WEBHOOK_TIMEOUT_MS = 10_000
+
+// Webhooks are posted from inside our network, so they may only reach public hosts.
+// Local receivers (http://localhost and the like) are allowed in development only.
+const allowLocalWebhooks = () => process.env.NODE_ENV === 'development'
+
+const NON_PUBLIC = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 3], // multicast and reserved
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6')
+}
+
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 rules
+function isPublicAddress(address: string) {
+  const family = isIP(address)
+  return family !== 0 && !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+function isLocalHostname(hostname: string) {
+  return hostname === 'localhost' || /\.(localhost|local|internal)$/.test(hostname)
+}
+
+/**
+ * Why a webhook URL cannot be saved, or null if it can. Hostnames are checked again
+ * when resolved at send time (see sendWebhook).
+ */
+export function webhookUrlProblem(value: string): string | null {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'Invalid webhook URL'
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'Webhook URL must use https'
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  const local = isLocalHostname(hostname) || (isIP(hostname) !== 0 && !isPublicAddress(hostname))
+  if (local) {
+    return allowLocalWebhooks() ? null : 'Webhook URL must point to a public host'
+  }
+  if (url.protocol !== 'https:') return 'Webhook URL must use https'
+  return null
+}
+
+// The hostname is resolved here and every address checked, so a public name that
+// points at a private address is refused too
+async function assertPublicHost(url: URL) {
+  if (allowLocalWebhooks()) return
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (isLocalHostname(hostname)) throw new Error('Webhook host is not public')
+  const addresses = isIP(hostname) !== 0 ? [hostname] : (await lookup(hostname, { all: true })).map((a) => a.address)
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error('Webhook host is not public')
+  }
+}
+
+export function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString('hex')}`
+}
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`. Receivers recompute it with their secret,
+ * compare against the X-Webhook-Signature header, and reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string) {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+export async function sendWebhook(input: { url: string; secret: string; id: string; payload: unknown }) {
+  const body = JSON.stringify(input.payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+
+  const url = new URL(input.url)
+  await assertPublicHost(url)
+
+  // Redirects are not followed: one could lead to a private address
+  const response = await fetch(url, {
+    method: 'POST',
+    redirect: 'manual',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Webhook-Id': input.id,
+      'X-Webhook-Timestamp': String(timestamp),
+      'X-Webhook-Signature': `sha256=${signWebhookPayload(input.secret, timestamp, body)}`,
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded ${response.status}`)
+  }
+}
@@ -1,19 +1,12 @@
-import OpenAI from 'openai'
+import { getLLMProvider, type ChatCompletionOptions, type LLMMessage } from '@/lib/llm'
+import { OPENAI_CHAT_MODEL, OPENAI_EMBEDDING_MODEL } from '@/lib/llm/openaiProvider'
 
-// Initialize OpenAI client (server-side only)
-export function getOpenAIClient() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is not set')
-  }
-  
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  })
-}
+// Completions and embeddings go through the provider selected by LLM_PROVIDER
+// (openai | local | fake); see lib/llm. These helpers keep the call sites provider-agnostic.
 
-// Default model configuration
-export const DEFAULT_MODEL = 'gpt-4-turbo-preview'
-export const EMBEDDING_MODEL = 'text-embedding-3-small'
+// Default model configuration (hosted OpenAI)
+export const DEFAULT_MODEL = OPENAI_CHAT_MODEL
+export const EMBEDDING_MODEL = OPENAI_EMBEDDING_MODEL
 
 // Token limits
 export const MAX_TOKENS = {
@@ -31,46 +24,35 @@ export const TEMPERATURE = {
 
 // Helper to create chat completion
 export async function createChatCompletion(
-  messages: OpenAI.Chat.ChatCompletionMessageParam[],
-  options: {
-    model?: string
-    maxTokens?: number
-    temperature?: number
-  } = {}
+  messages: LLMMessage[],
+  options: ChatCompletionOptions = {}
 ) {
-  const client = getOpenAIClient()
-  
-  const response = await client.chat.completions.create({
-    model: options.model ?? DEFAULT_MODEL,
-    messages,
-    max_tokens: options.maxTokens ?? MAX_TOKENS.chat,
+  return getLLMProvider().chatCompletion(messages, {
+    ...options,
+    maxTokens: options.maxTokens ?? MAX_TOKENS.chat,
     temperature: options.temperature ?? TEMPERATURE.chat,
   })
+}
 
-  return response.choices[0]?.message?.content ?? ''
+// Helper to stream a chat completion token by token (aborts with `signal`)
+export async function* streamChatCompletion(
+  messages: LLMMessage[],
+  options: ChatCompletionOptions = {}
+): AsyncGenerator<string> {
+  yield* getLLMProvider().streamChatCompletion(messages, {
+    ...options,
+    maxTokens: options.maxTokens ?? MAX_TOKENS.chat,
+    temperature: options.temperature ?? TEMPERATURE.chat,
+  })
 }
 
 // Helper to create embeddings
 export async function createEmbedding(text: string): Promise<number[]> {
-  const client = getOpenAIClient()
-  
-  const response = await client.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: text,
-  })
-
-  return response.data[0].embedding
+  const [embedding] = await getLLMProvider().embed([text])
+  return embedding
 }
 
 // Helper to create batch embeddings
 export async function createBatchEmbeddings(texts: string[]): Promise<number[][]> {
-  const client = getOpenAIClient()
-  
-  const response = await client.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: texts,
-  })
-
-  return response.data.map((item) => item.embedding)
+  return getLLMProvider().embed(texts)
 }
-
@@ -0,0 +1,223 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { questionnaireCrisisSeverity } from '@/lib/clinical-scales'
+import { recordCrisisAlert } from '@/lib/crisis'
+import { INSTRUMENTS, formatMinutes, isItemAsked, isQuestionnaireInstrument } from '@/lib/instruments'
+import { isEmailConfigured, sendEmail } from '@/lib/notifications/email'
+import type {
+  CrisisSeverity,
+  QuestionnaireInstrument,
+  QuestionnaireItemResponse,
+  QuestionnaireResponse,
+  QuestionnaireSchedule,
+} from '@/types'
+
+// Questionnaires as patients complete them: validating submissions against the
+// instrument registry (lib/instruments.ts), crisis screening, therapist-set schedules
+// and their reminders. Scoring lives in clinical-scales.ts.
+
+export type QuestionnaireSubmissionResult =
+  | { ok: true; instrument: QuestionnaireInstrument; answers: number[]; difficulty: number | null }
+  | { ok: false; error: string }
+
+const isScoreBetween = (v: unknown, max: number): v is number =>
+  typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= max
+
+/**
+ * Validate a submitted questionnaire: every item answered within the instrument's
+ * response options, in order. Items that weren't asked (C-SSRS follow-ups) must be 0.
+ */
+export function parseQuestionnaireSubmission(body: {
+  instrument?: unknown
+  answers?: unknown
+  difficulty?: unknown
+}): QuestionnaireSubmissionResult {
+  if (!isQuestionnaireInstrument(body.instrument)) {
+    return { ok: false, error: `instrument must be one of ${Object.keys(INSTRUMENTS).join(', ')}` }
+  }
+  const definition = INSTRUMENTS[body.instrument]
+  const maxItemScore = definition.responseOptions.length - 1
+
+  if (
+    !Array.isArray(body.answers) ||
+    body.answers.length !== definition.items.length ||
+    !body.answers.every((a) => isScoreBetween(a, maxItemScore))
+  ) {
+    return { ok: false, error: `answers must be ${definition.items.length} scores between 0 and ${maxItemScore}` }
+  }
+  const answers = body.answers as number[]
+
+  if (answers.some((a, i) => a !== 0 && !isItemAsked(definition, i + 1, answers))) {
+    return { ok: false, error: 'answers include a question that was not asked' }
+  }
+
+  let difficulty: number | null = null
+  if (body.difficulty !== undefined && body.difficulty !== null) {
+    if (!definition.difficulty || !isScoreBetween(body.difficulty, definition.difficulty.options.length - 1)) {
+      return { ok: false, error: `difficulty is not part of the ${definition.name} or is out of range` }
+    }
+    difficulty = body.difficulty
+  }
+
+  return { ok: true, instrument: body.instrument, answers, difficulty }
+}
+
+/**
+ * Raise a crisis alert when a response meets the instrument's crisis rules (PHQ-9 item
+ * 9, the C-SSRS risk level). Returns the severity raised, if any. Never throws.
+ */
+export async function screenQuestionnaireResponse(
+  svc: SupabaseClient,
+  input: { patientId: string; instrument: QuestionnaireInstrument; answers: number[] }
+): Promise<CrisisSeverity | null> {
+  const crisis = questionnaireCrisisSeverity(input.instrument, input.answers)
+  if (!crisis) return null
+
+  try {
+    await recordCrisisAlert(svc, {
+      patientId: input.patientId,
+      severity: crisis.severity,
+      source: 'questionnaire',
+      rationale: crisis.reason,
+    })
+  } catch (e) {
+    console.error('Error raising questionnaire crisis alert:', e)
+  }
+  return crisis.severity
+}
+
+// ─── Schedules ───
+
+export function nextDueAt(intervalDays: number, from: Date = new Date()): string {
+  return new Date(from.getTime() + intervalDays * 24 * 60 * 60 * 1000).toISOString()
+}
+
+/** A completed questionnaire satisfies the schedule: the next one is due an interval from now. */
+export async function advanceQuestionnaireSchedule(
+  svc: SupabaseClient,
+  input: { patientId: string; instrument: QuestionnaireInstrument }
+) {
+  const { data: schedule } = await svc
+    .from('questionnaire_schedules')
+    .select('id, interval_days')
+    .eq('patient_id', input.patientId)
+    .eq('instrument', input.instrument)
+    .eq('active', true)
+    .maybeSingle()
+  if (!schedule) return
+
+  const { error } = await svc
+    .from('questionnaire_schedules')
+    .update({ next_due_at: nextDueAt(schedule.interval_days), reminded_at: null })
+    .eq('id', schedule.id)
+  if (error) throw new Error(`Failed to advance questionnaire schedule: ${error.message}`)
+}
+
+export type QuestionnaireResponseWithItems = QuestionnaireResponse & { items: number[] }
+
+// Rows selected with `*, items:questionnaire_item_responses(item_number, score)`
+export function toResponseWithItems(row: Record<string, unknown>): QuestionnaireResponseWithItems {
+  const items = (row.items ?? []) as Pick<QuestionnaireItemResponse, 'item_number' | 'score'>[]
+  return {
+    ...(row as unknown as QuestionnaireResponse),
+    items: [...items].sort((a, b) => a.item_number - b.item_number).map((item) => item.score),
+  }
+}
+
+/** A patient's schedules and recent results with item scores (RLS: the patient or their therapist). */
+export async function getQuestionnaireHistory(supabase: SupabaseClient, patientId: string, limit = 20) {
+  const { data: schedules } = await supabase
+    .from('questionnaire_schedules')
+    .select('*')
+    .eq('patient_id', patientId)
+
+  const { data: responses } = await supabase
+    .from('questionnaire_responses')
+    .select('*, items:questionnaire_item_responses(item_number, score)')
+    .eq('patient_id', patientId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  return {
+    schedules: (schedules ?? []) as QuestionnaireSchedule[],
+    responses: (responses ?? []).map(toResponseWithItems),
+  }
+}
+
+// ─── Reminders ───
+
+function questionnaireUrl(instrument: QuestionnaireInstrument) {
+  return `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/questionnaires/${instrument}`
+}
+
+/**
+ * Remind patients of questionnaires that have come due: an in-app notification (their
+ * /notifications page, flagged on the dashboard), plus an email when SMTP is configured. One reminder per due date (reminded_at is cleared
+ * whenever next_due_at moves). Email failures are logged and not retried; the in-app
+ * reminder and the dashboard card still stand.
+ */
+export async function processQuestionnaireReminders(svc: SupabaseClient, opts: { limit?: number } = {}) {
+  const { data: schedules, error } = await svc
+    .from('questionnaire_schedules')
+    .select('*')
+    .eq('active', true)
+    .is('reminded_at', null)
+    .lte('next_due_at', new Date().toISOString())
+    .order('next_due_at', { ascending: true })
+    .limit(opts.limit ?? 50)
+  if (error) throw new Error(`Failed to read questionnaire schedules: ${error.message}`)
+
+  let processed = 0
+  let failed = 0
+
+  for (const schedule of (schedules ?? []) as QuestionnaireSchedule[]) {
+    const definition = INSTRUMENTS[schedule.instrument]
+    const title = `Your ${definition.title.toLowerCase()} is ready`
+    const body = `Your therapist asked you to complete the ${definition.name} every ${schedule.interval_days} days. It takes about ${formatMinutes(definition.minutes)}.`
+
+    // Claim the reminder first so a concurrent run can't send it twice
+    const { data: claimed } = await svc
+      .from('questionnaire_schedules')
+      .update({ reminded_at: new Date().toISOString() })
+      .eq('id', schedule.id)
+      .is('reminded_at', null)
+      .select('id')
+      .maybeSingle()
+    if (!claimed) continue
+
+    const { error: notifyError } = await svc.from('notifications').insert({
+      recipient_id: schedule.patient_id,
+      title,
+      body,
+      link: `/questionnaires/${schedule.instrument}`,
+    })
+    if (notifyError) {
+      console.error('Error creating questionnaire reminder:', notifyError)
+      // Release the claim so the next run tries again
+      await svc.from('questionnaire_schedules').update({ reminded_at: null }).eq('id', schedule.id)
+      failed++
+      continue
+    }
+
+    if (isEmailConfigured()) {
+      try {
+        const { data, error: userError } = await svc.auth.admin.getUserById(schedule.patient_id)
+        if (userError) throw new Error(userError.message)
+        if (data.user?.email) {
+          await sendEmail({
+            to: data.user.email,
+            subject: title,
+            text: [body, '', questionnaireUrl(schedule.instrument)].join('\n'),
+          })
+        }
+      } catch (e) {
+        console.error('Error emailing questionnaire reminder:', e)
+        failed++
+        continue
+      }
+    }
+
+    processed++
+  }
+
+  return { processed, failed }
+}
@@ -0,0 +1,54 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Retry timing shared by the Postgres-backed queues (jobs, notification deliveries, data
+// exports, account deletions). Each queue row carries `attempts` and `next_attempt_at`;
+// while a row is being worked on, next_attempt_at doubles as its lease, so a worker that
+// dies mid-row lets another one pick it up once the lease runs out.
+
+export interface Backoff {
+  baseSeconds: number // wait after the first failure; doubles with each further one
+  capSeconds: number
+}
+
+/** When to retry after `attempts` failed attempts: base, 2×base, 4×base, ... capped. */
+export function nextAttemptAt(attempts: number, backoff: Backoff, now: Date = new Date()): string {
+  const seconds = Math.min(backoff.baseSeconds * 2 ** Math.max(0, attempts - 1), backoff.capSeconds)
+  return new Date(now.getTime() + seconds * 1000).toISOString()
+}
+
+export function leaseUntil(minutes: number, now: Date = new Date()): string {
+  return new Date(now.getTime() + minutes * 60 * 1000).toISOString()
+}
+
+interface LeasedRow {
+  id: string
+  attempts: number
+  next_attempt_at: string
+}
+
+/**
+ * Claim a due row with a lease, counting the attempt. The update only matches while
+ * next_attempt_at is what the caller read, so of two workers racing for the same row
+ * exactly one gets it back; the other gets null. `statuses` limits which rows may be
+ * claimed (e.g. not one cancelled meanwhile).
+ */
+export async function claimWithLease<T extends LeasedRow>(
+  svc: SupabaseClient,
+  table: string,
+  row: T,
+  opts: { leaseMinutes: number; statuses?: string[] }
+): Promise<T | null> {
+  let query = svc
+    .from(table)
+    .update({
+      status: 'processing',
+      attempts: row.attempts + 1,
+      next_attempt_at: leaseUntil(opts.leaseMinutes),
+    })
+    .eq('id', row.id)
+    .eq('next_attempt_at', row.next_attempt_at)
+  if (opts.statuses) query = query.in('status', opts.statuses)
+
+  const { data } = await query.select().maybeSingle()
+  return (data as T | null) ?? null
+}
@@ -0,0 +1,48 @@
+import { deleteSelfReportFromNeo4j, upsertSelfReportToNeo4j } from '@/lib/graph/neo4jIngest'
+
+export type SelfReportMoodResult =
+  | { ok: true; mood: number | null | undefined }
+  | { ok: false; error: string }
+
+/**
+ * Validate the optional `self_report_mood` field of a journal request.
+ * `undefined` means "not provided", `null` means "clear", otherwise an integer 1-10.
+ */
+export function parseSelfReportMood(value: unknown): SelfReportMoodResult {
+  if (value === undefined) return { ok: true, mood: undefined }
+  if (value === null) return { ok: true, mood: null }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 10) {
+    return { ok: false, error: 'self_report_mood must be an integer between 1 and 10' }
+  }
+  return { ok: true, mood: value }
+}
+
+// Map 1-10 self-reported mood into 0-1 valence (same scale as model-derived AffectPoints).
+export function moodToValence(mood: number): number {
+  return Math.min(1, Math.max(0, (mood - 1) / 9))
+}
+
+/**
+ * Mirror a self-report into Neo4j as a SelfReport label for calibration training.
+ * Passing `mood: null` removes the SelfReport node.
+ */
+export async function syncSelfReportToNeo4j(input: {
+  userId: string
+  entryId: string
+  timestamp: string // ISO (entry timestamp)
+  mood: number | null
+}) {
+  if (input.mood === null) {
+    await deleteSelfReportFromNeo4j(input.entryId)
+    return
+  }
+
+  await upsertSelfReportToNeo4j({
+    userId: input.userId,
+    entryId: input.entryId,
+    timestamp: input.timestamp,
+    mood: input.mood,
+    valence: moodToValence(input.mood),
+    confidence: 1,
+  })
+}
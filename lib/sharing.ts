@@ -0,0 +1,187 @@
+import type { SharedEntry, ShareScope } from '@/types'
+
+// ─── Scopes ───
+
+export const SHARE_SCOPES: { value: ShareScope; label: string; description: string }[] = [
+  { value: 'summary', label: 'Summary', description: 'AI summary, emotions, symptoms and triggers (withheld while anything is redacted)' },
+  { value: 'scores', label: 'Scores', description: 'Mood and anxiety scores, PHQ-9/GAD-7 estimates, sleep and energy' },
+  { value: 'full_text', label: 'Full text', description: 'What you wrote, minus any redacted passages' },
+]
+
+export const SHARE_PRESETS: { label: string; scopes: ShareScope[] }[] = [
+  { label: 'Private', scopes: [] },
+  { label: 'Summary only', scopes: ['summary'] },
+  { label: 'Scores only', scopes: ['scores'] },
+  { label: 'Summary & scores', scopes: ['summary', 'scores'] },
+  { label: 'Full entry', scopes: ['summary', 'scores', 'full_text'] },
+]
+
+// Used when a patient shares with no default configured (the pre-scopes behaviour)
+export const ALL_SHARE_SCOPES: ShareScope[] = SHARE_SCOPES.map((s) => s.value)
+
+/** Validated, de-duplicated scopes in canonical order; null if the input is not a list of known scopes. */
+export function parseShareScopes(value: unknown): ShareScope[] | null {
+  if (!Array.isArray(value)) return null
+  if (!value.every((v) => ALL_SHARE_SCOPES.includes(v as ShareScope))) return null
+  return ALL_SHARE_SCOPES.filter((scope) => value.includes(scope))
+}
+
+export function describeShareScopes(scopes: ShareScope[]): string {
+  const preset = SHARE_PRESETS.find(
+    (p) => p.scopes.length === scopes.length && p.scopes.every((s) => scopes.includes(s))
+  )
+  if (preset) return preset.label
+  return SHARE_SCOPES.filter((s) => scopes.includes(s.value)).map((s) => s.label).join(' & ')
+}
+
+/**
+ * Scopes for an entry from a create/update request: explicit share_scopes win, then the
+ * shared_with_therapist shorthand (true = the patient's defaults, or everything if none).
+ * Returns undefined when the request does not touch sharing.
+ */
+export function resolveRequestedScopes(
+  body: { share_scopes?: unknown; shared_with_therapist?: boolean },
+  defaultScopes: ShareScope[]
+): { scopes?: ShareScope[]; error?: string } {
+  if (body.share_scopes !== undefined) {
+    const scopes = parseShareScopes(body.share_scopes)
+    return scopes ? { scopes } : { error: `share_scopes must be a list of: ${ALL_SHARE_SCOPES.join(', ')}` }
+  }
+  if (body.shared_with_therapist === true) {
+    return { scopes: defaultScopes.length > 0 ? defaultScopes : ALL_SHARE_SCOPES }
+  }
+  if (body.shared_with_therapist === false) return { scopes: [] }
+  return {}
+}
+
+// ─── Redaction ───
+
+// Must match the replacement in public.redact_content()
+export const REDACTION_MARKER = '[redacted]'
+
+const MAX_REDACTIONS = 50
+const MAX_REDACTION_LENGTH = 2000
+
+/** Validated redaction passages (trimmed, de-duplicated); null if the input is not a list of strings. */
+export function parseRedactions(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every((v) => typeof v === 'string')) return null
+  const passages = Array.from(new Set(value.map((v: string) => v.trim()).filter(Boolean)))
+  if (passages.length > MAX_REDACTIONS || passages.some((p) => p.length > MAX_REDACTION_LENGTH)) return null
+  return passages
+}
+
+/**
+ * Client-side preview of what the therapist sees; must match public.redact_content().
+ * Longest passages first (in characters, as Postgres counts them; ties keep their
+ * order), so a passage containing another is masked whole.
+ */
+export function applyRedactions(content: string, passages: string[]): string {
+  return passages
+    .filter((passage) => passage.trim())
+    .map((passage, i) => ({ passage, i, length: Array.from(passage).length }))
+    .sort((a, b) => b.length - a.length || a.i - b.i)
+    .reduce((text, { passage }) => text.split(passage).join(REDACTION_MARKER), content)
+}
+
+/**
+ * Passages that no longer appear in the text. While any remain the database stops
+ * sharing the entry (see public.handle_entry_sharing()).
+ */
+export function staleRedactions(content: string, passages: string[]): string[] {
+  return passages.filter((passage) => passage.trim() && !content.includes(passage))
+}
+
+// ─── Therapist view ───
+
+/**
+ * A shared_entries row in the nested shape the therapist pages and
+ * computeLongitudinalProfile expect. Ungranted fields stay null.
+ */
+export interface TherapistEntry {
+  id: string
+  patient_id: string
+  created_at: string
+  updated_at: string
+  shared_at: string | null
+  content_edited_at: string | null
+  // The patient changed the text after sharing it (the earlier wording is never shown)
+  edited_after_sharing: boolean
+  share_scopes: ShareScope[]
+  content: string | null
+  has_redactions: boolean
+  ai_extraction: Pick<
+    SharedEntry,
+    | 'summary'
+    | 'emotions'
+    | 'symptoms'
+    | 'triggers'
+    | 'mood_score'
+    | 'anxiety_score'
+    | 'phq9_indicators'
+    | 'gad7_indicators'
+    | 'phq9_estimate'
+    | 'gad7_estimate'
+    | 'mood_z_score'
+    | 'anxiety_z_score'
+    | 'mood_pop_z'
+    | 'anxiety_pop_z'
+    | 'confidence'
+    | 'validation_errors'
+    | 'crisis_detected'
+  > | null
+  structured_log: Pick<
+    SharedEntry,
+    'sleep_hours' | 'sleep_quality' | 'energy_level' | 'medication_taken' | 'medication_notes'
+  > | null
+}
+
+export function toTherapistEntry(row: SharedEntry): TherapistEntry {
+  const hasLog = [row.sleep_hours, row.sleep_quality, row.energy_level, row.medication_taken, row.medication_notes]
+    .some((v) => v !== null)
+
+  return {
+    id: row.id,
+    patient_id: row.patient_id,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    shared_at: row.shared_at,
+    content_edited_at: row.content_edited_at,
+    edited_after_sharing:
+      row.shared_at !== null &&
+      row.content_edited_at !== null &&
+      new Date(row.content_edited_at) > new Date(row.shared_at),
+    share_scopes: row.share_scopes,
+    content: row.content,
+    has_redactions: row.has_redactions,
+    ai_extraction: row.has_extraction
+      ? {
+          summary: row.summary,
+          emotions: row.emotions,
+          symptoms: row.symptoms,
+          triggers: row.triggers,
+          mood_score: row.mood_score,
+          anxiety_score: row.anxiety_score,
+          phq9_indicators: row.phq9_indicators,
+          gad7_indicators: row.gad7_indicators,
+          phq9_estimate: row.phq9_estimate,
+          gad7_estimate: row.gad7_estimate,
+          mood_z_score: row.mood_z_score,
+          anxiety_z_score: row.anxiety_z_score,
+          mood_pop_z: row.mood_pop_z,
+          anxiety_pop_z: row.anxiety_pop_z,
+          confidence: row.confidence,
+          validation_errors: row.validation_errors,
+          crisis_detected: row.crisis_detected,
+        }
+      : null,
+    structured_log: hasLog
+      ? {
+          sleep_hours: row.sleep_hours,
+          sleep_quality: row.sleep_quality,
+          energy_level: row.energy_level,
+          medication_taken: row.medication_taken,
+          medication_notes: row.medication_notes,
+        }
+      : null,
+  }
+}
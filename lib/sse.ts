@@ -0,0 +1,100 @@
+// Minimal server-sent events helpers shared by streaming API routes and their client callers.
+// Wire format: `event: <name>\ndata: <json>\n\n`. Routes emit `delta` events with
+// `{ text }`, a final `done` event with the full result, or `error` with `{ error }`.
+
+export type SSESend = (event: string, data: unknown) => void
+
+/**
+ * Build a `text/event-stream` Response. `run` receives a `send` function and an
+ * AbortSignal that fires when the client disconnects (or the request is aborted).
+ */
+export function sseResponse(
+  run: (send: SSESend, signal: AbortSignal) => Promise<void>,
+  requestSignal?: AbortSignal
+): Response {
+  const encoder = new TextEncoder()
+  const abort = new AbortController()
+  requestSignal?.addEventListener('abort', () => abort.abort())
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false
+      const send: SSESend = (event, data) => {
+        if (closed || abort.signal.aborted) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      try {
+        await run(send, abort.signal)
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error('SSE stream error:', error)
+          send('error', { error: 'Internal server error' })
+        }
+      } finally {
+        closed = true
+        try {
+          controller.close()
+        } catch {
+          // Already closed by a client disconnect
+        }
+      }
+    },
+    cancel() {
+      abort.abort()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
+
+/**
+ * Read a `text/event-stream` response body and dispatch each event.
+ * Resolves when the stream ends; rejects with an AbortError if the fetch was aborted.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) throw new Error('Response has no body')
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const raw = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      let event = 'message'
+      const dataLines: string[] = []
+      for (const line of raw.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart())
+      }
+      if (dataLines.length === 0) continue
+
+      let data: unknown
+      try {
+        data = JSON.parse(dataLines.join('\n'))
+      } catch (error) {
+        console.error('Malformed SSE event:', error)
+        continue
+      }
+      onEvent(event, data)
+    }
+  }
+}
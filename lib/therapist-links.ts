@@ -0,0 +1,60 @@
+import type { TherapistInvite } from '@/types'
+
+// ─── Invite codes ───
+
+// No 0/O or 1/I/L, so codes survive being read aloud or copied by hand
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const INVITE_CODE_LENGTH = 8
+
+export const INVITE_DEFAULT_DAYS = 7
+export const INVITE_MAX_DAYS = 30
+
+// Web Crypto so this module also loads in client components
+export function generateInviteCode(): string {
+  let code = ''
+  const bytes = new Uint8Array(1)
+  while (code.length < INVITE_CODE_LENGTH) {
+    globalThis.crypto.getRandomValues(bytes)
+    // Rejection sampling keeps every character equally likely
+    if (bytes[0] < 256 - (256 % INVITE_CODE_ALPHABET.length)) {
+      code += INVITE_CODE_ALPHABET[bytes[0] % INVITE_CODE_ALPHABET.length]
+    }
+  }
+  return code
+}
+
+/** Canonical form of a code typed by a patient: uppercase, separators and spaces dropped. */
+export function normalizeInviteCode(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+/** Shown grouped for readability, e.g. ABCD-EFGH. */
+export function formatInviteCode(code: string): string {
+  return code.length === INVITE_CODE_LENGTH ? `${code.slice(0, 4)}-${code.slice(4)}` : code
+}
+
+export type InviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired'
+
+export function getInviteStatus(
+  invite: Pick<TherapistInvite, 'accepted_at' | 'revoked_at' | 'expires_at'>,
+  now: Date = new Date()
+): InviteStatus {
+  if (invite.accepted_at) return 'accepted'
+  if (invite.revoked_at) return 'revoked'
+  if (new Date(invite.expires_at) <= now) return 'expired'
+  return 'pending'
+}
+
+export function inviteLink(code: string) {
+  return `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/dashboard?invite=${code}`
+}
+
+// ─── Consent ───
+
+// Stored verbatim with each accepted link (patient_therapist_consents.consent_text).
+// Change the wording by adding a new version; earlier consents keep the text they agreed to.
+export const THERAPIST_LINK_CONSENT_TEXT =
+  'I agree to connect my journal account with this therapist. They will be able to see my name, ' +
+  'entries I choose to share and the AI-generated summaries and scores for those entries, and they ' +
+  'will be notified if my writing shows signs of crisis. I can revoke this access at any time from my ' +
+  'dashboard; revoking stops future access but does not undo what was already viewed. (v1)'
@@ -0,0 +1,99 @@
+// Word-level diff between two versions of an entry, for the revision history panel.
+// Runs in the browser: tokens are words and the whitespace between them, compared with
+// a longest-common-subsequence table after trimming the shared prefix and suffix. Only
+// words count towards the LCS, so runs of spaces do not pull unrelated words together.
+
+export type DiffOp = 'equal' | 'added' | 'removed'
+
+export interface DiffPart {
+  op: DiffOp
+  text: string
+}
+
+// Above this many table cells the middle is shown as one removal plus one addition
+const MAX_LCS_CELLS = 4_000_000
+
+const WHITESPACE = /^\s+$/
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((t) => t.length > 0)
+}
+
+function push(parts: DiffPart[], op: DiffOp, text: string) {
+  const last = parts[parts.length - 1]
+  if (last && last.op === op) last.text += text
+  else parts.push({ op, text })
+}
+
+/** Parts that turn `before` into `after`; equal parts are shared by both. */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const parts: DiffPart[] = []
+  if (start > 0) push(parts, 'equal', a.slice(0, start).join(''))
+
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+  const n = midA.length
+  const m = midB.length
+
+  if (n * m > MAX_LCS_CELLS) {
+    if (n > 0) push(parts, 'removed', midA.join(''))
+    if (m > 0) push(parts, 'added', midB.join(''))
+  } else if (n > 0 || m > 0) {
+    // lcs[i * (m + 1) + j] = matched words in midA[i..] and midB[j..]
+    const width = m + 1
+    const lcs = new Uint32Array((n + 1) * width)
+    const weight = (token: string) => (WHITESPACE.test(token) ? 0 : 1)
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        const skip = Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? Math.max(skip, lcs[(i + 1) * width + j + 1] + weight(midA[i]))
+          : skip
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < n && j < m) {
+      if (midA[i] === midB[j] && lcs[i * width + j] === lcs[(i + 1) * width + j + 1] + weight(midA[i])) {
+        push(parts, 'equal', midA[i])
+        i++
+        j++
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        push(parts, 'removed', midA[i++])
+      } else {
+        push(parts, 'added', midB[j++])
+      }
+    }
+    while (i < n) push(parts, 'removed', midA[i++])
+    while (j < m) push(parts, 'added', midB[j++])
+  }
+
+  if (endA < a.length) push(parts, 'equal', a.slice(endA).join(''))
+  return parts
+}
+
+/** Words added and removed, for one-line summaries ("+12 −3 words"). */
+export function countChangedWords(parts: DiffPart[]): { added: number; removed: number } {
+  const words = (text: string) => tokenize(text).filter((t) => t.trim().length > 0).length
+  return parts.reduce(
+    (totals, part) => {
+      if (part.op === 'added') totals.added += words(part.text)
+      if (part.op === 'removed') totals.removed += words(part.text)
+      return totals
+    },
+    { added: 0, removed: 0 }
+  )
+}
@@ -4,6 +4,8 @@ const nextConfig = {
     serverActions: {
       bodySizeLimit: '2mb',
     },
+    // pdfkit loads its font metrics from disk at runtime (data exports)
+    serverComponentsExternalPackages: ['pdfkit'],
   },
 }
 
@@ -25,18 +25,68 @@ create table public.patient_therapist (
   primary key (patient_id, therapist_id)
 );
 
+-- Therapist invite codes: a patient redeems one to link with the therapist (single use)
+create table public.therapist_invites (
+  id uuid primary key default uuid_generate_v4(),
+  therapist_id uuid references public.profiles(id) on delete cascade not null,
+  code text unique not null,
+  expires_at timestamptz not null,
+  accepted_by uuid references public.profiles(id) on delete set null,
+  accepted_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz default now() not null
+);
+
+-- Consent history for patient-therapist links (append-only: granted on accept, revoked on unlink)
+create table public.patient_therapist_consents (
+  id uuid primary key default uuid_generate_v4(),
+  patient_id uuid references public.profiles(id) on delete cascade not null,
+  therapist_id uuid references public.profiles(id) on delete cascade not null,
+  invite_id uuid references public.therapist_invites(id) on delete set null,
+  action text not null check (action in ('granted', 'revoked')),
+  consent_text text,
+  created_at timestamptz default now() not null
+);
+
 -- ============================================
 -- JOURNAL TABLES
 -- ============================================
 
+-- Journal imports: writing brought in from Day One, Markdown files or CSV. Files are
+-- parsed and de-duplicated on upload; each new entry is then extracted and embedded by
+-- background jobs that carry the import id (payload->historical->>importId).
+create table public.journal_imports (
+  id uuid primary key default uuid_generate_v4(),
+  patient_id uuid references public.profiles(id) on delete cascade not null,
+  format text check (format in ('day_one', 'markdown', 'csv')) not null,
+  file_names text[] default '{}' not null,
+  status text default 'processing' check (status in ('processing', 'completed', 'failed')) not null,
+  parsed_count int default 0 not null, -- entries found in the files
+  imported_count int default 0 not null, -- new entries created (those that made it in, if failed)
+  duplicate_count int default 0 not null, -- already in the journal (same minute and text)
+  skipped_count int default 0 not null, -- unreadable items, described in problems
+  problems text[] default '{}' not null,
+  completed_at timestamptz,
+  created_at timestamptz default now() not null
+);
+
 -- Journal entries
 create table public.journal_entries (
   id uuid primary key default uuid_generate_v4(),
   patient_id uuid references public.profiles(id) on delete cascade not null,
   content text not null,
   is_draft boolean default false not null,
-  shared_with_therapist boolean default false not null,
-  created_at timestamptz default now() not null,
+  -- What linked therapists may see through public.shared_entries; empty = private
+  share_scopes text[] default '{}' not null check (share_scopes <@ array['summary', 'scores', 'full_text']),
+  -- Passages hidden from therapists; shared_content is content with them masked (set by trigger)
+  share_redactions text[] default '{}' not null,
+  shared_content text,
+  shared_at timestamptz,
+  shared_with_therapist boolean generated always as (cardinality(share_scopes) > 0) stored,
+  source text default 'journal' check (source in ('journal', 'checkin', 'import')) not null,
+  import_id uuid references public.journal_imports(id) on delete set null,
+  content_edited_at timestamptz, -- last change to content (set by trigger); null = never edited
+  created_at timestamptz default now() not null, -- imported entries keep their original time
   updated_at timestamptz default now() not null
 );
 
@@ -52,14 +102,56 @@ create table public.structured_logs (
   created_at timestamptz default now() not null
 );
 
+-- Patient self-reported mood per entry (ground-truth label for calibration)
+create table public.self_reports (
+  id uuid primary key default uuid_generate_v4(),
+  entry_id uuid references public.journal_entries(id) on delete cascade unique not null,
+  patient_id uuid references public.profiles(id) on delete cascade not null,
+  mood integer check (mood between 1 and 10) not null,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null
+);
+
+-- Patient sharing defaults, applied to new entries
+create table public.sharing_preferences (
+  patient_id uuid references public.profiles(id) on delete cascade primary key,
+  default_scopes text[] default '{}' not null check (default_scopes <@ array['summary', 'scores', 'full_text']),
+  updated_at timestamptz default now() not null
+);
+
+-- Earlier wording of journal entries: the trigger on journal_entries saves the old
+-- content here whenever it changes, so edits never lose text
+create table public.entry_revisions (
+  id uuid primary key default uuid_generate_v4(),
+  entry_id uuid references public.journal_entries(id) on delete cascade not null,
+  patient_id uuid references public.profiles(id) on delete cascade not null,
+  content text not null,
+  created_at timestamptz not null, -- when this wording was first saved
+  replaced_at timestamptz default now() not null -- when an edit replaced it
+);
+
 -- ============================================
 -- AI PROCESSING TABLES
 -- ============================================
 
--- AI extractions from journal entries
+-- Every extraction run kept for an entry, keyed by what produced it: re-running the same
+-- extractor on the same text reuses the stored result instead of calling the model again
+create table public.ai_extraction_versions (
+  id uuid primary key default uuid_generate_v4(),
+  entry_id uuid references public.journal_entries(id) on delete cascade not null,
+  extractor_version text not null,
+  content_hash text not null, -- sha256 of the entry text that was extracted
+  extraction jsonb not null, -- validated extractor output
+  validation_errors text[] default '{}' not null,
+  created_at timestamptz default now() not null,
+  unique (entry_id, extractor_version, content_hash)
+);
+
+-- AI extractions from journal entries: the current version for each entry
 create table public.ai_extractions (
   id uuid primary key default uuid_generate_v4(),
   entry_id uuid references public.journal_entries(id) on delete cascade unique not null,
+  version_id uuid references public.ai_extraction_versions(id) on delete set null,
   mood_score integer check (mood_score is null or (mood_score between 1 and 10)),
   anxiety_score integer check (anxiety_score is null or (anxiety_score between 1 and 10)),
   -- Clinical-instrument-calibrated indicator checklists (AI-derived; not formal administration)
@@ -78,6 +170,11 @@ create table public.ai_extractions (
   confidence numeric check (confidence is null or (confidence between 0 and 1)),
   crisis_detected boolean default false not null,
   summary text,
+  -- Schema violations left in the model output after the repair re-prompt (empty = valid)
+  validation_errors text[] default '{}' not null,
+  -- The scores are already in the patient's running baselines; a re-extraction replays
+  -- the baselines instead of adding the entry a second time
+  counted_in_baselines boolean default false not null,
   created_at timestamptz default now() not null
 );
 
@@ -111,6 +208,68 @@ create table public.entry_embeddings (
   created_at timestamptz default now() not null
 );
 
+-- Background jobs for slow or external work on an entry (run by `npm run jobs:work`):
+-- extraction, embeddings, Neo4j writes and calibration training. Due rows are claimed
+-- with a lease; failures retry with backoff and are parked as 'dead' after
+-- max_attempts, where they stay until requeued.
+create table public.jobs (
+  id uuid primary key default uuid_generate_v4(),
+  type text check (type in ('extract_entry', 'embed_entry', 'graph_ingest', 'graph_delete', 'train_calibration')) not null,
+  patient_id uuid references public.profiles(id) on delete cascade not null,
+  entry_id uuid, -- null for per-patient jobs; no FK: graph_delete outlives the entry
+  payload jsonb default '{}' not null,
+  result jsonb, -- what the handler returned (e.g. the calibration training outcome)
+  status text default 'pending' check (status in ('pending', 'processing', 'done', 'dead')) not null,
+  attempts int default 0 not null,
+  max_attempts int default 5 not null,
+  last_error text,
+  next_attempt_at timestamptz default now() not null, -- also the processing lease
+  completed_at timestamptz,
+  created_at timestamptz default now() not null
+);
+
+-- ============================================
+-- QUESTIONNAIRE TABLES
+-- ============================================
+
+-- Validated self-report questionnaires on a schedule set by the patient's therapist.
+-- Instruments are data in lib/instruments.ts (PHQ-9, GAD-7, the C-SSRS screener, WHO-5,
+-- PCL-5): instrument ids and scores are not enumerated here, the API validates them
+-- against the registry. Completing one moves next_due_at on by interval_days.
+create table public.questionnaire_schedules (
+  id uuid primary key default uuid_generate_v4(),
+  patient_id uuid references public.profiles(id) on delete cascade not null,
+  instrument text not null,
+  interval_days integer not null check (interval_days between 1 and 365),
+  next_due_at timestamptz default now() not null,
+  reminded_at timestamptz, -- last reminder sent for the current due date
+  set_by uuid references public.profiles(id) on delete set null,
+  active boolean default true not null,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null,
+  unique (patient_id, instrument)
+);
+
+-- A completed questionnaire, scored when submitted (total and severity band key)
+create table public.questionnaire_responses (
+  id uuid primary key default uuid_generate_v4(),
+  patient_id uuid references public.profiles(id) on delete cascade not null,
+  instrument text not null,
+  total_score integer not null check (total_score >= 0),
+  severity text not null,
+  difficulty smallint check (difficulty >= 0), -- functional difficulty item, e.g. the PHQ-9's (not scored)
+  created_at timestamptz default now() not null
+);
+
+-- Item-level answers, scored 0 up to the instrument's last response option. Follow-up
+-- questions that weren't asked (C-SSRS) are stored as 0.
+create table public.questionnaire_item_responses (
+  response_id uuid references public.questionnaire_responses(id) on delete cascade not null,
+  item_number smallint not null check (item_number >= 1),
+  score smallint not null check (score >= 0),
+  primary key (response_id, item_number)
+);
+
 -- ============================================
 -- CHAT TABLES
 -- ============================================
@@ -133,18 +292,159 @@ create table public.crisis_alerts (
   id uuid primary key default uuid_generate_v4(),
   patient_id uuid references public.profiles(id) on delete cascade not null,
   entry_id uuid references public.journal_entries(id) on delete cascade,
+  chat_message_id uuid references public.chat_messages(id) on delete cascade,
   severity text check (severity in ('low', 'medium', 'high')) not null,
+  -- Which check raised it: the dedicated crisis pass (classifier / lexicon / fail_safe when the model call failed) or extraction
+  detection_source text default 'extraction' not null check (detection_source in ('classifier', 'lexicon', 'fail_safe', 'extraction', 'questionnaire')),
+  rationale text,
+  matched_phrases text[] default '{}' not null,
   therapist_notified boolean default false not null,
+  -- Workflow: open → acknowledged → (escalated) → resolved; `resolved` mirrors status = 'resolved'
+  status text default 'open' not null check (status in ('open', 'acknowledged', 'escalated', 'resolved')),
+  acknowledged_at timestamptz,
+  acknowledged_by uuid references public.profiles(id) on delete set null,
+  escalated_at timestamptz,
+  escalated_by uuid references public.profiles(id) on delete set null,
+  escalation_reason text,
   resolved boolean default false not null,
+  resolved_at timestamptz,
+  resolved_by uuid references public.profiles(id) on delete set null,
+  disposition text check (disposition is null or disposition in (
+    'contacted_patient', 'safety_plan_reviewed', 'referred_emergency', 'no_risk_identified', 'false_positive'
+  )),
+  created_at timestamptz default now() not null
+);
+
+-- Crisis alert audit trail (one row per workflow action; actor_id null = system)
+create table public.crisis_alert_events (
+  id uuid primary key default uuid_generate_v4(),
+  alert_id uuid references public.crisis_alerts(id) on delete cascade not null,
+  actor_id uuid references public.profiles(id) on delete set null,
+  action text not null check (action in ('created', 'severity_raised', 'acknowledged', 'note', 'escalated', 'resolved')),
+  note text,
   created_at timestamptz default now() not null
 );
 
--- Access logs for HIPAA compliance
-create table public.access_logs (
+-- Therapist notification preferences (one row per therapist; defaults apply when missing)
+create table public.notification_preferences (
+  therapist_id uuid references public.profiles(id) on delete cascade primary key,
+  email_enabled boolean default true not null,
+  email_address text, -- null = account email
+  webhook_enabled boolean default false not null,
+  webhook_url text,
+  webhook_secret text,
+  in_app_enabled boolean default true not null,
+  min_severity text default 'low' not null check (min_severity in ('low', 'medium', 'high')),
+  -- Quiet hours defer email/webhook for low and medium alerts; high severity is always sent immediately
+  quiet_hours_start time,
+  quiet_hours_end time,
+  timezone text default 'UTC' not null,
+  updated_at timestamptz default now() not null
+);
+
+-- Per-therapist, per-channel delivery of crisis alert notifications (retried with backoff)
+create table public.notification_deliveries (
   id uuid primary key default uuid_generate_v4(),
+  alert_id uuid references public.crisis_alerts(id) on delete cascade not null,
   therapist_id uuid references public.profiles(id) on delete cascade not null,
+  channel text not null check (channel in ('email', 'webhook', 'in_app')),
+  status text default 'pending' not null check (status in ('pending', 'sent', 'failed', 'skipped')),
+  attempts integer default 0 not null,
+  last_error text,
+  next_attempt_at timestamptz default now() not null,
+  sent_at timestamptz,
+  created_at timestamptz default now() not null,
+  unique (alert_id, therapist_id, channel)
+);
+
+-- In-app notifications
+create table public.notifications (
+  id uuid primary key default uuid_generate_v4(),
+  recipient_id uuid references public.profiles(id) on delete cascade not null,
+  alert_id uuid references public.crisis_alerts(id) on delete cascade,
+  title text not null,
+  body text,
+  link text,
+  read_at timestamptz,
+  created_at timestamptz default now() not null
+);
+
+-- Audit log (HIPAA): append-only and hash-chained. Each row's hash covers its own
+-- fields and the previous row's hash, so edits, deletions and gaps are detectable
+-- (npm run audit:verify). No foreign keys: records must outlive the accounts they name.
+create table public.audit_log (
+  id uuid primary key default uuid_generate_v4(),
+  seq bigint unique not null, -- assigned by the chain trigger: 1, 2, 3, ...
+  actor_id uuid, -- null for system events
+  actor_role text check (actor_role in ('patient', 'therapist', 'system')) not null,
+  patient_id uuid, -- whose data the event concerns
+  action text check (action in (
+    -- therapist reads of patient data (shown to the patient on /access-log)
+    'viewed_patient_list', 'viewed_patient_detail', 'viewed_entries', 'viewed_crisis_alert',
+    -- changes to patient data and sharing
+    'entry_created', 'entry_updated', 'entry_deleted', 'sharing_defaults_updated', 'sharing_revoked_all',
+    'questionnaire_completed', 'questionnaire_schedule_updated',
+    -- therapist links
+    'invite_created', 'invite_revoked', 'therapist_link_accepted', 'therapist_link_revoked',
+    -- safety and transparency
+    'crisis_alert_raised', 'crisis_alert_updated', 'notification_preferences_updated', 'access_concern_reported',
+    -- patient data portability and erasure
+    'data_export_requested', 'data_export_downloaded', 'entries_imported',
+    'account_deletion_requested', 'account_deletion_cancelled', 'account_erased'
+  )) not null,
+  entry_ids uuid[] default '{}' not null,
+  alert_id uuid,
+  metadata jsonb default '{}' not null,
+  created_at timestamptz not null,
+  prev_hash text not null,
+  hash text not null
+);
+
+-- Patient-raised concerns about therapist access, optionally tied to one log row
+create table public.access_concerns (
+  id uuid primary key default uuid_generate_v4(),
   patient_id uuid references public.profiles(id) on delete cascade not null,
-  action text not null,
+  audit_log_id uuid references public.audit_log(id),
+  therapist_id uuid references public.profiles(id) on delete set null,
+  message text not null check (char_length(message) between 1 and 2000),
+  status text default 'open' check (status in ('open', 'reviewed', 'closed')) not null,
+  created_at timestamptz default now() not null
+);
+
+-- Patient data exports: requested by the patient and built in the background into a
+-- zip in the private `exports` storage bucket. Downloads go through short-lived signed
+-- URLs, and the archive is deleted at expires_at.
+create table public.data_exports (
+  id uuid primary key default uuid_generate_v4(),
+  patient_id uuid references public.profiles(id) on delete cascade not null,
+  status text default 'pending' check (status in ('pending', 'processing', 'ready', 'failed', 'expired')) not null,
+  format_version int default 1 not null,
+  attempts int default 0 not null,
+  last_error text,
+  next_attempt_at timestamptz default now() not null, -- also the processing lease
+  storage_path text,
+  size_bytes bigint,
+  completed_at timestamptz,
+  expires_at timestamptz,
+  created_at timestamptz default now() not null
+);
+
+-- Account deletion requests (right to erasure). The account stays usable through the
+-- grace period and the patient can cancel until it ends; then the worker erases it from
+-- Postgres, storage and Neo4j and records a deletion certificate in the audit log.
+-- No foreign key: the request and its certificate outlive the account.
+create table public.account_deletions (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null,
+  status text default 'pending' check (status in ('pending', 'cancelled', 'processing', 'completed', 'failed')) not null,
+  scheduled_for timestamptz default (now() + interval '14 days') not null, -- end of the grace period
+  attempts int default 0 not null,
+  last_error text,
+  next_attempt_at timestamptz default (now() + interval '14 days') not null, -- also the processing lease
+  certificate jsonb, -- erasure progress, then the final certificate
+  audit_log_id uuid references public.audit_log(id), -- the account_erased row sealing the certificate
+  cancelled_at timestamptz,
+  completed_at timestamptz,
   created_at timestamptz default now() not null
 );
 
@@ -159,13 +459,33 @@ create index on public.entry_embeddings using ivfflat (embedding vector_cosine_o
 create index idx_journal_entries_patient on public.journal_entries(patient_id);
 create index idx_journal_entries_created on public.journal_entries(created_at desc);
 create index idx_journal_entries_shared on public.journal_entries(shared_with_therapist) where shared_with_therapist = true;
+create index idx_journal_entries_import on public.journal_entries(import_id) where import_id is not null;
+create index idx_entry_revisions_entry on public.entry_revisions(entry_id, replaced_at desc);
+create index idx_entry_revisions_patient on public.entry_revisions(patient_id);
+create index idx_journal_imports_patient on public.journal_imports(patient_id, created_at desc);
+
+-- Index for self reports
+create index idx_self_reports_patient on public.self_reports(patient_id);
 
 -- Index for AI extractions
 create index idx_ai_extractions_entry on public.ai_extractions(entry_id);
+create index idx_ai_extraction_versions_entry on public.ai_extraction_versions(entry_id, created_at desc);
 
 -- Index for patient baselines
 create index if not exists idx_patient_baselines_patient on public.patient_baselines(patient_id);
 
+
+-- Indexes for background jobs (one waiting job per type and entry, or per patient)
+create index idx_jobs_due on public.jobs(next_attempt_at) where status in ('pending', 'processing');
+create index idx_jobs_patient on public.jobs(patient_id, created_at desc);
+create index idx_jobs_entry on public.jobs(entry_id) where entry_id is not null;
+create unique index idx_jobs_waiting on public.jobs(type, patient_id, entry_id) nulls not distinct where status = 'pending';
+create index idx_jobs_import on public.jobs((payload->'historical'->>'importId')) where payload ? 'historical';
+
+-- Indexes for questionnaires
+create index idx_questionnaire_schedules_due on public.questionnaire_schedules(next_due_at) where active = true;
+create index idx_questionnaire_responses_patient on public.questionnaire_responses(patient_id, instrument, created_at desc);
+
 -- Index for chat messages
 create index idx_chat_messages_patient on public.chat_messages(patient_id);
 create index idx_chat_messages_created on public.chat_messages(created_at desc);
@@ -173,11 +493,28 @@ create index idx_chat_messages_created on public.chat_messages(created_at desc);
 -- Index for crisis alerts
 create index idx_crisis_alerts_patient on public.crisis_alerts(patient_id);
 create index idx_crisis_alerts_unresolved on public.crisis_alerts(resolved) where resolved = false;
+create index idx_crisis_alerts_entry on public.crisis_alerts(entry_id);
+create index idx_crisis_alert_events_alert on public.crisis_alert_events(alert_id, created_at);
+
+-- Index for notifications
+create index idx_notification_deliveries_pending on public.notification_deliveries(next_attempt_at) where status = 'pending';
+create index idx_notification_deliveries_alert on public.notification_deliveries(alert_id);
+create index idx_notifications_recipient on public.notifications(recipient_id, created_at desc);
+
+-- Index for therapist linking
+create index idx_therapist_invites_therapist on public.therapist_invites(therapist_id, created_at desc);
+create index idx_patient_therapist_consents_pair on public.patient_therapist_consents(patient_id, therapist_id, created_at);
 
 -- Index for access logs
-create index idx_access_logs_therapist on public.access_logs(therapist_id);
-create index idx_access_logs_patient on public.access_logs(patient_id);
-create index idx_access_logs_created on public.access_logs(created_at desc);
+create index idx_audit_log_actor on public.audit_log(actor_id, created_at desc);
+create index idx_audit_log_patient on public.audit_log(patient_id, created_at desc);
+create index idx_audit_log_created on public.audit_log(created_at desc);
+create index idx_access_concerns_patient on public.access_concerns(patient_id, created_at desc);
+create index idx_data_exports_patient on public.data_exports(patient_id, created_at desc);
+create index idx_data_exports_due on public.data_exports(next_attempt_at) where status in ('pending', 'processing');
+create index idx_account_deletions_user on public.account_deletions(user_id, created_at desc);
+create index idx_account_deletions_due on public.account_deletions(next_attempt_at) where status in ('pending', 'processing');
+create unique index idx_account_deletions_open on public.account_deletions(user_id) where status in ('pending', 'processing');
 
 -- ============================================
 -- ROW LEVEL SECURITY (RLS)
@@ -186,44 +523,96 @@ create index idx_access_logs_created on public.access_logs(created_at desc);
 -- Enable RLS on all tables
 alter table public.profiles enable row level security;
 alter table public.patient_therapist enable row level security;
+alter table public.therapist_invites enable row level security;
+alter table public.patient_therapist_consents enable row level security;
 alter table public.journal_entries enable row level security;
+alter table public.sharing_preferences enable row level security;
+alter table public.entry_revisions enable row level security;
+alter table public.journal_imports enable row level security;
 alter table public.structured_logs enable row level security;
+alter table public.self_reports enable row level security;
 alter table public.ai_extractions enable row level security;
+alter table public.ai_extraction_versions enable row level security;
 alter table public.patient_baselines enable row level security;
 alter table public.population_stats enable row level security;
 alter table public.entry_embeddings enable row level security;
+alter table public.jobs enable row level security;
+alter table public.questionnaire_schedules enable row level security;
+alter table public.questionnaire_responses enable row level security;
+alter table public.questionnaire_item_responses enable row level security;
 alter table public.chat_messages enable row level security;
 alter table public.crisis_alerts enable row level security;
-alter table public.access_logs enable row level security;
+alter table public.crisis_alert_events enable row level security;
+alter table public.notification_preferences enable row level security;
+alter table public.notification_deliveries enable row level security;
+alter table public.notifications enable row level security;
+alter table public.audit_log enable row level security;
+alter table public.access_concerns enable row level security;
+alter table public.data_exports enable row level security;
+alter table public.account_deletions enable row level security;
 
--- Profiles: Users can read their own profile, therapists can read patient profiles
+-- Profiles: Users can read their own profile; linked patients and therapists can read each other's
 create policy "Users can view own profile" on public.profiles
   for select using (auth.uid() = id);
 
 create policy "Users can update own profile" on public.profiles
   for update using (auth.uid() = id);
 
+create policy "Linked patients and therapists can view each other's profiles" on public.profiles
+  for select using (
+    exists (
+      select 1 from public.patient_therapist pt
+      where (pt.patient_id = profiles.id and pt.therapist_id = auth.uid())
+      or (pt.therapist_id = profiles.id and pt.patient_id = auth.uid())
+    )
+  );
+
 -- Patient-Therapist: Both parties can view their relationships
 create policy "View own patient-therapist relationships" on public.patient_therapist
   for select using (
     auth.uid() = patient_id or auth.uid() = therapist_id
   );
 
--- Journal Entries: Patients see own, therapists see shared entries from their patients
+-- Patient-Therapist: Links are created by accept_therapist_invite(); patients can revoke them
+create policy "Patients can revoke therapist relationships" on public.patient_therapist
+  for delete using (auth.uid() = patient_id);
+
+-- Therapist Invites: Therapists manage their own (patients redeem through accept_therapist_invite)
+create policy "Therapists can manage own invites" on public.therapist_invites
+  for all using (auth.uid() = therapist_id)
+  with check (
+    auth.uid() = therapist_id and
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'therapist')
+  );
+
+-- Patient-Therapist Consents: Both parties can view; patients record revocations
+create policy "View own patient-therapist consents" on public.patient_therapist_consents
+  for select using (auth.uid() = patient_id or auth.uid() = therapist_id);
+
+create policy "Patients can record consent revocation" on public.patient_therapist_consents
+  for insert with check (auth.uid() = patient_id and action = 'revoked');
+
+-- Journal Entries: Patients see own. Therapists have no direct access: they read
+-- public.shared_entries, which exposes only the columns each entry's share_scopes grant.
 create policy "Patients can manage own entries" on public.journal_entries
   for all using (auth.uid() = patient_id);
 
-create policy "Therapists can view shared entries from their patients" on public.journal_entries
-  for select using (
-    shared_with_therapist = true and
-    exists (
-      select 1 from public.patient_therapist pt
-      where pt.patient_id = journal_entries.patient_id
-      and pt.therapist_id = auth.uid()
-    )
-  );
+-- Sharing Preferences: Patients manage their own
+create policy "Patients can manage own sharing preferences" on public.sharing_preferences
+  for all using (auth.uid() = patient_id);
 
--- Structured Logs: Same as journal entries
+-- Entry Revisions: Patients read their own; only the trigger writes (never shared with therapists)
+create policy "Patients can view own entry revisions" on public.entry_revisions
+  for select using (auth.uid() = patient_id);
+
+-- Journal Imports: patients start and follow their own; the worker completes them with the service role
+create policy "Patients can view own journal imports" on public.journal_imports
+  for select using (auth.uid() = patient_id);
+
+create policy "Patients can create journal imports" on public.journal_imports
+  for insert with check (auth.uid() = patient_id);
+
+-- Structured Logs: Same as journal entries (therapists read them through shared_entries)
 create policy "Patients can manage own structured logs" on public.structured_logs
   for all using (
     exists (
@@ -232,18 +621,17 @@ create policy "Patients can manage own structured logs" on public.structured_log
     )
   );
 
-create policy "Therapists can view structured logs for shared entries" on public.structured_logs
-  for select using (
+-- Self Reports: Patients manage their own labels (not shared with therapists)
+create policy "Patients can manage own self reports" on public.self_reports
+  for all using (
+    auth.uid() = patient_id and
     exists (
       select 1 from public.journal_entries je
-      join public.patient_therapist pt on pt.patient_id = je.patient_id
-      where je.id = entry_id
-      and je.shared_with_therapist = true
-      and pt.therapist_id = auth.uid()
+      where je.id = entry_id and je.patient_id = auth.uid()
     )
   );
 
--- AI Extractions: Same pattern
+-- AI Extractions: Same pattern (therapists read them through shared_entries)
 create policy "Patients can view own AI extractions" on public.ai_extractions
   for select using (
     exists (
@@ -255,14 +643,12 @@ create policy "Patients can view own AI extractions" on public.ai_extractions
 create policy "System can insert AI extractions" on public.ai_extractions
   for insert with check (true);
 
-create policy "Therapists can view AI extractions for shared entries" on public.ai_extractions
+-- AI Extraction Versions: patients can compare their own; the service role writes them
+create policy "Patients can view own AI extraction versions" on public.ai_extraction_versions
   for select using (
     exists (
       select 1 from public.journal_entries je
-      join public.patient_therapist pt on pt.patient_id = je.patient_id
-      where je.id = entry_id
-      and je.shared_with_therapist = true
-      and pt.therapist_id = auth.uid()
+      where je.id = entry_id and je.patient_id = auth.uid()
     )
   );
 
@@ -295,12 +681,214 @@ create policy "Therapists can view and update patient crisis alerts" on public.c
     )
   );
 
--- Access Logs: Therapists can insert their own logs
-create policy "Therapists can insert access logs" on public.access_logs
-  for insert with check (auth.uid() = therapist_id);
+-- Crisis Alert Events: the patient's therapist reads the trail and appends as themselves
+create policy "Therapists can view patient crisis alert events" on public.crisis_alert_events
+  for select using (
+    exists (
+      select 1 from public.crisis_alerts ca
+      join public.patient_therapist pt on pt.patient_id = ca.patient_id
+      where ca.id = crisis_alert_events.alert_id
+      and pt.therapist_id = auth.uid()
+    )
+  );
+
+create policy "Therapists can add patient crisis alert events" on public.crisis_alert_events
+  for insert with check (
+    actor_id = auth.uid()
+    and exists (
+      select 1 from public.crisis_alerts ca
+      join public.patient_therapist pt on pt.patient_id = ca.patient_id
+      where ca.id = crisis_alert_events.alert_id
+      and pt.therapist_id = auth.uid()
+    )
+  );
+
+-- Notification Preferences: Therapists manage their own
+create policy "Therapists can manage own notification preferences" on public.notification_preferences
+  for all using (auth.uid() = therapist_id);
 
-create policy "Users can view access logs about them" on public.access_logs
-  for select using (auth.uid() = patient_id or auth.uid() = therapist_id);
+-- Notification Deliveries: Therapists can see delivery status for themselves (written by service role)
+create policy "Therapists can view own notification deliveries" on public.notification_deliveries
+  for select using (auth.uid() = therapist_id);
+
+-- Notifications: Recipients read and mark their own as read
+create policy "Users can view own notifications" on public.notifications
+  for select using (auth.uid() = recipient_id);
+
+create policy "Users can update own notifications" on public.notifications
+  for update using (auth.uid() = recipient_id);
+
+-- Audit Log: users append events as themselves; there are no update or delete
+-- policies, and the append-only trigger blocks them for every role
+create policy "Users can append own audit events" on public.audit_log
+  for insert with check (auth.uid() = actor_id);
+
+create policy "Users can view audit events they performed" on public.audit_log
+  for select using (auth.uid() = actor_id);
+
+create policy "Patients can view access to their data" on public.audit_log
+  for select using (
+    auth.uid() = patient_id
+    and action in ('viewed_patient_list', 'viewed_patient_detail', 'viewed_entries', 'viewed_crisis_alert')
+  );
+
+-- Access Concerns: patients raise and follow their own; review happens with the service role
+create policy "Patients can view own access concerns" on public.access_concerns
+  for select using (auth.uid() = patient_id);
+
+create policy "Patients can report access concerns" on public.access_concerns
+  for insert with check (auth.uid() = patient_id and status = 'open');
+
+-- Jobs: patients can follow their own (status polling); the service role queues and runs them
+create policy "Patients can view own jobs" on public.jobs
+  for select using (auth.uid() = patient_id);
+
+-- Questionnaire Schedules: the patient sees theirs; their therapist sets them
+create policy "Patients can view own questionnaire schedules" on public.questionnaire_schedules
+  for select using (auth.uid() = patient_id);
+
+create policy "Therapists can manage patient questionnaire schedules" on public.questionnaire_schedules
+  for all using (
+    exists (
+      select 1 from public.patient_therapist pt
+      where pt.patient_id = questionnaire_schedules.patient_id
+      and pt.therapist_id = auth.uid()
+    )
+  );
+
+-- Questionnaire Responses: patients submit and read their own (no edits); their therapist reads them
+create policy "Patients can view own questionnaire responses" on public.questionnaire_responses
+  for select using (auth.uid() = patient_id);
+
+create policy "Patients can submit questionnaire responses" on public.questionnaire_responses
+  for insert with check (auth.uid() = patient_id);
+
+create policy "Therapists can view patient questionnaire responses" on public.questionnaire_responses
+  for select using (
+    exists (
+      select 1 from public.patient_therapist pt
+      where pt.patient_id = questionnaire_responses.patient_id
+      and pt.therapist_id = auth.uid()
+    )
+  );
+
+create policy "Patients can view own questionnaire items" on public.questionnaire_item_responses
+  for select using (
+    exists (
+      select 1 from public.questionnaire_responses qr
+      where qr.id = response_id and qr.patient_id = auth.uid()
+    )
+  );
+
+create policy "Patients can submit questionnaire items" on public.questionnaire_item_responses
+  for insert with check (
+    exists (
+      select 1 from public.questionnaire_responses qr
+      where qr.id = response_id and qr.patient_id = auth.uid()
+    )
+  );
+
+create policy "Therapists can view patient questionnaire items" on public.questionnaire_item_responses
+  for select using (
+    exists (
+      select 1 from public.questionnaire_responses qr
+      join public.patient_therapist pt on pt.patient_id = qr.patient_id
+      where qr.id = questionnaire_item_responses.response_id
+      and pt.therapist_id = auth.uid()
+    )
+  );
+
+-- Data Exports: patients request and list their own; the worker updates them with the service role
+create policy "Patients can view own data exports" on public.data_exports
+  for select using (auth.uid() = patient_id);
+
+create policy "Patients can request data exports" on public.data_exports
+  for insert with check (auth.uid() = patient_id and status = 'pending');
+
+-- Account Deletions: patients request their own with the full grace period, and can
+-- cancel while it is still pending; the worker erases with the service role
+create policy "Users can view own account deletions" on public.account_deletions
+  for select using (auth.uid() = user_id);
+
+create policy "Users can request account deletion" on public.account_deletions
+  for insert with check (
+    auth.uid() = user_id
+    and status = 'pending'
+    and scheduled_for >= now() + interval '14 days'
+    and next_attempt_at >= scheduled_for
+  );
+
+create policy "Users can cancel pending account deletion" on public.account_deletions
+  for update using (auth.uid() = user_id and status = 'pending')
+  with check (status = 'cancelled');
+
+-- ============================================
+-- VIEWS
+-- ============================================
+
+-- Therapist-facing view of shared entries. It runs with the owner's rights (the base
+-- tables have no therapist policies), so it checks the patient-therapist link itself
+-- and returns null for every column the entry's share_scopes do not grant:
+--   summary   -> AI summary, emotions, symptoms, triggers (withheld while the entry has
+--                redactions: they are extracted from the unredacted text)
+--   scores    -> mood/anxiety scores, PHQ-9/GAD-7 estimates, z-scores, structured log values
+--   full_text -> entry text with redactions masked, medication notes
+create view public.shared_entries
+with (security_barrier = true)
+as
+select
+  je.id,
+  je.patient_id,
+  je.created_at,
+  je.updated_at,
+  je.shared_at,
+  -- Lets therapists see that an entry changed after it was shared (never the earlier text)
+  je.content_edited_at,
+  je.share_scopes,
+  case when g.full_text then je.shared_content end as content,
+  g.full_text and cardinality(je.share_redactions) > 0 as has_redactions,
+  case when g.summary then ae.summary end as summary,
+  case when g.summary then ae.emotions end as emotions,
+  case when g.summary then ae.symptoms end as symptoms,
+  case when g.summary then ae.triggers end as triggers,
+  case when g.scores then ae.mood_score end as mood_score,
+  case when g.scores then ae.anxiety_score end as anxiety_score,
+  case when g.scores then ae.phq9_indicators end as phq9_indicators,
+  case when g.scores then ae.gad7_indicators end as gad7_indicators,
+  case when g.scores then ae.phq9_estimate end as phq9_estimate,
+  case when g.scores then ae.gad7_estimate end as gad7_estimate,
+  case when g.scores then ae.mood_z_score end as mood_z_score,
+  case when g.scores then ae.anxiety_z_score end as anxiety_z_score,
+  case when g.scores then ae.mood_pop_z end as mood_pop_z,
+  case when g.scores then ae.anxiety_pop_z end as anxiety_pop_z,
+  case when g.scores then ae.confidence end as confidence,
+  case when g.scores then ae.validation_errors end as validation_errors,
+  case when g.scores then sl.sleep_hours end as sleep_hours,
+  case when g.scores then sl.sleep_quality end as sleep_quality,
+  case when g.scores then sl.energy_level end as energy_level,
+  case when g.scores then sl.medication_taken end as medication_taken,
+  case when g.full_text then sl.medication_notes end as medication_notes,
+  -- The safety flag is always visible: crisis alerts reach the therapist regardless of sharing
+  coalesce(ae.crisis_detected, false) as crisis_detected,
+  ae.id is not null as has_extraction
+from public.journal_entries je
+cross join lateral (
+  select
+    'summary' = any(je.share_scopes) and cardinality(je.share_redactions) = 0 as summary,
+    'scores' = any(je.share_scopes) as scores,
+    'full_text' = any(je.share_scopes) as full_text
+) g
+left join public.ai_extractions ae on ae.entry_id = je.id
+left join public.structured_logs sl on sl.entry_id = je.id
+where je.is_draft = false
+and cardinality(je.share_scopes) > 0
+and exists (
+  select 1 from public.patient_therapist pt
+  where pt.patient_id = je.patient_id
+  and pt.therapist_id = auth.uid()
+);
+
+grant select on public.shared_entries to authenticated;
 
 -- ============================================
 -- FUNCTIONS
@@ -335,6 +923,174 @@ begin
 end;
 $$;
 
+-- Function for a patient to redeem a therapist invite: validates the code, links the
+-- pair and records the consent text they agreed to. Returns the therapist id.
+create or replace function public.accept_therapist_invite(invite_code text, consent text)
+returns uuid
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  invite public.therapist_invites%rowtype;
+begin
+  if not exists (select 1 from public.profiles where id = auth.uid() and role = 'patient') then
+    raise exception 'Only patients can accept therapist invites' using errcode = '42501';
+  end if;
+
+  select * into invite
+  from public.therapist_invites
+  where code = upper(trim(invite_code))
+  for update;
+
+  if not found or invite.revoked_at is not null or invite.accepted_at is not null or invite.expires_at <= now() then
+    raise exception 'Invite code is invalid or has expired' using errcode = 'P0002';
+  end if;
+
+  insert into public.patient_therapist (patient_id, therapist_id)
+  values (auth.uid(), invite.therapist_id)
+  on conflict do nothing;
+
+  update public.therapist_invites
+  set accepted_by = auth.uid(), accepted_at = now()
+  where id = invite.id;
+
+  insert into public.patient_therapist_consents (patient_id, therapist_id, invite_id, action, consent_text)
+  values (auth.uid(), invite.therapist_id, invite.id, 'granted', consent);
+
+  return invite.therapist_id;
+end;
+$$;
+
+-- Function to mask redacted passages. Longest passages go first, so a passage that
+-- contains another is masked whole rather than left partly visible. applyRedactions
+-- in lib/sharing.ts must give the same result (npm run redactions:check compares them).
+create or replace function public.redact_content(content text, passages text[])
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  passage text;
+  result text := content;
+begin
+  for passage in
+    select p from unnest(passages) with ordinality as r(p, i)
+    where length(trim(p)) > 0
+    order by length(p) desc, i
+  loop
+    result := replace(result, passage, '[redacted]');
+  end loop;
+  return result;
+end;
+$$;
+
+-- Function to keep the therapist-facing copy of an entry in sync: masks redacted
+-- passages in shared_content and stamps shared_at when an entry becomes shared.
+-- A redaction that no longer matches the text (after an edit or a revision restore)
+-- can no longer mask it, so the entry stops being shared until the patient fixes it.
+create or replace function public.handle_entry_sharing()
+returns trigger
+language plpgsql
+as $$
+declare
+  passage text;
+begin
+  foreach passage in array new.share_redactions loop
+    if length(trim(passage)) > 0 and position(passage in new.content) = 0 then
+      new.share_scopes := '{}';
+    end if;
+  end loop;
+  new.shared_content := public.redact_content(new.content, new.share_redactions);
+
+  -- shared_at is only ever set here; whatever a client sends for it is overwritten
+  if cardinality(new.share_scopes) = 0 then
+    new.shared_at := null;
+  elsif tg_op = 'INSERT' or cardinality(old.share_scopes) = 0 then
+    new.shared_at := now();
+  else
+    new.shared_at := old.shared_at;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Function to keep entry history: when content changes, the previous wording goes to
+-- entry_revisions and content_edited_at is stamped. Security definer so that revisions
+-- can only be written here, not by clients. content_edited_at is only ever set here;
+-- whatever a client sends for it is overwritten.
+create or replace function public.handle_entry_revision()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.content_edited_at := null;
+  elsif new.content is distinct from old.content then
+    insert into public.entry_revisions (entry_id, patient_id, content, created_at)
+    values (old.id, old.patient_id, old.content, coalesce(old.content_edited_at, old.created_at));
+    new.content_edited_at := now();
+  else
+    new.content_edited_at := old.content_edited_at;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Function to chain audit events: serializes appends, assigns seq, actor_role and
+-- created_at, and computes hash = sha256(prev_hash || canonical row). The canonical
+-- form is mirrored by computeAuditHash() in lib/audit-chain.ts; change both together.
+create or replace function public.handle_audit_append()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  last public.audit_log%rowtype;
+begin
+  perform pg_advisory_xact_lock(hashtext('public.audit_log'));
+
+  select * into last from public.audit_log order by seq desc limit 1;
+
+  new.seq := coalesce(last.seq, 0) + 1;
+  new.prev_hash := coalesce(last.hash, repeat('0', 64));
+  new.created_at := date_trunc('milliseconds', now());
+  new.actor_role := coalesce(
+    (select role from public.profiles where id = new.actor_id),
+    'system'
+  );
+  new.hash := encode(sha256(convert_to(
+    new.prev_hash || chr(10) || concat_ws(chr(31),
+      new.seq::text,
+      new.id::text,
+      coalesce(new.actor_id::text, ''),
+      new.actor_role,
+      coalesce(new.patient_id::text, ''),
+      new.action,
+      array_to_string(new.entry_ids, ','),
+      coalesce(new.alert_id::text, ''),
+      new.metadata::text,
+      to_char(new.created_at at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+    ),
+    'UTF8'
+  )), 'hex');
+
+  return new;
+end;
+$$;
+
+-- Function to keep the audit log append-only (applies to the service role too)
+create or replace function public.prevent_audit_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log is append-only' using errcode = '42501';
+end;
+$$;
+
 -- Function to auto-create profile on user signup
 create or replace function public.handle_new_user()
 returns trigger
@@ -368,11 +1124,62 @@ begin
 end;
 $$;
 
+-- Triggers for the audit log chain
+create trigger on_audit_log_append
+  before insert on public.audit_log
+  for each row execute procedure public.handle_audit_append();
+
+create trigger on_audit_log_change
+  before update or delete on public.audit_log
+  for each row execute procedure public.prevent_audit_change();
+
+create trigger on_audit_log_truncate
+  before truncate on public.audit_log
+  for each statement execute procedure public.prevent_audit_change();
+
 -- Trigger for journal entries updated_at
 create trigger on_journal_entry_updated
   before update on public.journal_entries
   for each row execute procedure public.handle_updated_at();
 
+-- Trigger for entry revisions (previous content + content_edited_at)
+create trigger on_journal_entry_revision
+  before insert or update on public.journal_entries
+  for each row execute procedure public.handle_entry_revision();
+
+-- Trigger for entry sharing (redactions + shared_at)
+create trigger on_journal_entry_sharing
+  before insert or update on public.journal_entries
+  for each row execute procedure public.handle_entry_sharing();
+
+-- Trigger for sharing preferences updated_at
+create trigger on_sharing_preferences_updated
+  before update on public.sharing_preferences
+  for each row execute procedure public.handle_updated_at();
+
+-- Trigger for notification preferences updated_at
+create trigger on_notification_preferences_updated
+  before update on public.notification_preferences
+  for each row execute procedure public.handle_updated_at();
+
+-- Trigger for self reports updated_at
+create trigger on_self_report_updated
+  before update on public.self_reports
+  for each row execute procedure public.handle_updated_at();
+
+-- Trigger for questionnaire schedules updated_at
+create trigger on_questionnaire_schedule_updated
+  before update on public.questionnaire_schedules
+  for each row execute procedure public.handle_updated_at();
+
+-- Storage: private bucket for data export archives (service role only; no policies)
+insert into storage.buckets (id, name, public)
+values ('exports', 'exports', false)
+on conflict (id) do nothing;
+
+-- Realtime: therapists' patient lists refresh when a link is accepted or revoked
+alter publication supabase_realtime add table public.patient_therapist, public.therapist_invites;
+
 -- ============================================
 -- SAMPLE DATA (for testing - remove in production)
 -- ============================================
@@ -382,4 +1189,3 @@ create trigger on_journal_entry_updated
 -- 2. Go to SQL Editor
 -- 3. Paste this entire file and run
 -- 4. Set up authentication in Supabase Auth dashboard
-
@@ -0,0 +1,41 @@
+import dotenv from 'dotenv'
+import { createClient } from '@supabase/supabase-js'
+import { closeNeo4jDriver } from '@/lib/neo4j'
+import { processAccountDeletions } from '@/lib/account-deletion'
+
+// Prefer Next.js-style env file for local dev, then fall back to .env
+dotenv.config({ path: '.env.local' })
+dotenv.config()
+
+// Erases accounts whose deletion grace period has ended (including retries of
+// interrupted erasures). Run on a schedule (e.g. hourly from cron).
+async function main() {
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  let processed = 0
+  let failed = 0
+  // Keep pulling batches until a batch has nothing left that succeeds.
+  for (;;) {
+    const batch = await processAccountDeletions(supabase, { limit: 5 })
+    processed += batch.processed
+    failed += batch.failed
+    if (batch.processed === 0) break
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(`Account deletions: ${processed} erased, ${failed} failed (will retry with backoff).`)
+}
+
+main()
+  .catch((e) => {
+    // eslint-disable-next-line no-console
+    console.error('Account deletion processing failed:', e)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await closeNeo4jDriver()
+  })
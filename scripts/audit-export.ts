@@ -0,0 +1,73 @@
+import dotenv from 'dotenv'
+import { createClient } from '@supabase/supabase-js'
+import { promises as fs } from 'fs'
+import { auditRowsToCsv, fetchAuditRows, verifyAuditChain } from '@/lib/audit-chain'
+
+// Prefer Next.js-style env file for local dev, then fall back to .env
+dotenv.config({ path: '.env.local' })
+dotenv.config()
+
+// Exports the audit log for compliance reviews, with the chain hashes so reviewers
+// can re-verify it:
+//   npm run audit:export -- --format=csv --from=2025-01-01 --to=2025-04-01 --patient=<uuid> --out=audit.csv
+// Without --out the export is written to stdout.
+interface Args {
+  format: 'csv' | 'json'
+  from?: string
+  to?: string
+  patientId?: string
+  out?: string
+}
+
+function parseArgs(argv: string[]): Args {
+  const get = (name: string) => argv.find((a) => a.startsWith(`--${name}=`))?.split('=')[1] ?? undefined
+  const format = get('format') ?? 'json'
+  if (format !== 'csv' && format !== 'json') throw new Error('--format must be csv or json')
+  return { format, from: get('from'), to: get('to'), patientId: get('patient'), out: get('out') }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  const report = await verifyAuditChain(supabase)
+  const rows = await fetchAuditRows(supabase, args)
+
+  const output =
+    args.format === 'csv'
+      ? auditRowsToCsv(rows)
+      : JSON.stringify(
+          {
+            exported_at: new Date().toISOString(),
+            filters: { from: args.from ?? null, to: args.to ?? null, patient_id: args.patientId ?? null },
+            chain: { verified: report.problems.length === 0, head: report.head, problems: report.problems },
+            records: rows,
+          },
+          null,
+          2
+        ) + '\n'
+
+  if (args.out) {
+    await fs.writeFile(args.out, output, 'utf8')
+    // eslint-disable-next-line no-console
+    console.error(`Exported ${rows.length} audit records to ${args.out}.`)
+  } else {
+    process.stdout.write(output)
+  }
+
+  if (report.problems.length > 0) {
+    // eslint-disable-next-line no-console
+    console.error(`Warning: audit chain verification found ${report.problems.length} problems; run audit:verify.`)
+    process.exitCode = 1
+  }
+}
+
+main().catch((e) => {
+  // eslint-disable-next-line no-console
+  console.error('Audit export failed:', e)
+  process.exitCode = 1
+})
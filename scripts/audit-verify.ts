@@ -0,0 +1,58 @@
+import dotenv from 'dotenv'
+import { createClient } from '@supabase/supabase-js'
+import { verifyAuditChain } from '@/lib/audit-chain'
+
+// Prefer Next.js-style env file for local dev, then fall back to .env
+dotenv.config({ path: '.env.local' })
+dotenv.config()
+
+// Verifies the audit log hash chain and prints the current head. Record the head
+// somewhere outside the database (ticket, compliance report) and pass it back later
+// to also detect truncation of the newest records:
+//   npm run audit:verify -- --expect-head=<seq>:<hash>
+function parseExpectHead(argv: string[]) {
+  const value = argv.find((a) => a.startsWith('--expect-head='))?.split('=')[1]
+  if (!value) return undefined
+  const [seq, hash] = value.split(':')
+  if (!seq || !hash || !Number.isInteger(Number(seq))) {
+    throw new Error('--expect-head must look like <seq>:<hash>')
+  }
+  return { seq: Number(seq), hash }
+}
+
+async function main() {
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  const report = await verifyAuditChain(supabase, { expectHead: parseExpectHead(process.argv.slice(2)) })
+
+  // eslint-disable-next-line no-console
+  console.log(`Checked ${report.checked} audit records.`)
+  if (report.head) {
+    // eslint-disable-next-line no-console
+    console.log(`Head: ${report.head.seq}:${report.head.hash}`)
+  }
+
+  if (report.problems.length > 0) {
+    for (const problem of report.problems) {
+      // eslint-disable-next-line no-console
+      console.error(`  seq ${problem.seq}: ${problem.kind} - ${problem.detail}`)
+    }
+    // eslint-disable-next-line no-console
+    console.error(`Audit chain verification FAILED (${report.problems.length} problems).`)
+    process.exitCode = 1
+    return
+  }
+
+  // eslint-disable-next-line no-console
+  console.log('Audit chain verified: no gaps or edits.')
+}
+
+main().catch((e) => {
+  // eslint-disable-next-line no-console
+  console.error('Audit verification failed:', e)
+  process.exitCode = 1
+})
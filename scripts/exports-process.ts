@@ -0,0 +1,38 @@
+import dotenv from 'dotenv'
+import { createClient } from '@supabase/supabase-js'
+import { expireDataExports, processDataExports } from '@/lib/data-export'
+
+// Prefer Next.js-style env file for local dev, then fall back to .env
+dotenv.config({ path: '.env.local' })
+dotenv.config()
+
+// Builds queued patient data exports (including retries) and deletes expired archives.
+// Run on a schedule (e.g. every minute from cron).
+async function main() {
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  let processed = 0
+  let failed = 0
+  // Keep pulling batches until a batch has nothing left that succeeds.
+  for (;;) {
+    const batch = await processDataExports(supabase, { limit: 5 })
+    processed += batch.processed
+    failed += batch.failed
+    if (batch.processed === 0) break
+  }
+
+  const expired = await expireDataExports(supabase)
+
+  // eslint-disable-next-line no-console
+  console.log(`Data exports: ${processed} built, ${failed} failed (will retry with backoff), ${expired} expired.`)
+}
+
+main().catch((e) => {
+  // eslint-disable-next-line no-console
+  console.error('Data export processing failed:', e)
+  process.exitCode = 1
+})
@@ -0,0 +1,157 @@
+import dotenv from 'dotenv'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { toResponseWithItems, type QuestionnaireResponseWithItems } from '@/lib/questionnaires'
+import {
+  AGREEMENT_WINDOW_DAYS,
+  buildAgreementReport,
+  pairResponsesWithReadings,
+  type AgreementPair,
+  type AgreementReading,
+  type InstrumentAgreement,
+} from '@/lib/instrument-agreement'
+import { INSTRUMENTS } from '@/lib/instruments'
+
+// Prefer Next.js-style env file for local dev, then fall back to .env
+dotenv.config({ path: '.env.local' })
+dotenv.config()
+
+/**
+ * Agreement between the extraction's PHQ-9/GAD-7 indicators and the administered
+ * questionnaires: per-item weighted kappa, bias, MAE and severity-band confusion
+ * matrices, per patient and overall.
+ *
+ * Usage:
+ *   npm run instruments:agreement
+ *   npm run instruments:agreement -- --patient=<uuid>     # one patient
+ *   npm run instruments:agreement -- --window-days=7      # recall window (default 14)
+ *   npm run instruments:agreement -- --json               # machine-readable report
+ */
+
+function flagValue(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`))
+  return arg?.slice(name.length + 3)
+}
+
+async function fetchResponses(svc: SupabaseClient, patientId?: string): Promise<QuestionnaireResponseWithItems[]> {
+  const rows: QuestionnaireResponseWithItems[] = []
+  const pageSize = 1000
+  for (let from = 0; ; from += pageSize) {
+    let query = svc
+      .from('questionnaire_responses')
+      .select('*, items:questionnaire_item_responses(item_number, score)')
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1)
+    if (patientId) query = query.eq('patient_id', patientId)
+
+    const { data, error } = await query
+    if (error) throw new Error(`Failed to read questionnaire_responses: ${error.message}`)
+    rows.push(...(data ?? []).map(toResponseWithItems))
+    if ((data ?? []).length < pageSize) break
+  }
+  return rows
+}
+
+async function fetchReadings(svc: SupabaseClient, patientId: string): Promise<AgreementReading[]> {
+  const rows: AgreementReading[] = []
+  const pageSize = 1000
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await svc
+      .from('ai_extractions')
+      .select('phq9_indicators, gad7_indicators, journal_entries!inner(patient_id, created_at, is_draft)')
+      .eq('journal_entries.patient_id', patientId)
+      .eq('journal_entries.is_draft', false)
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1)
+    if (error) throw new Error(`Failed to read ai_extractions: ${error.message}`)
+
+    for (const row of data ?? []) {
+      const entry = Array.isArray(row.journal_entries) ? row.journal_entries[0] : row.journal_entries
+      rows.push({ created_at: entry.created_at, phq9_indicators: row.phq9_indicators, gad7_indicators: row.gad7_indicators })
+    }
+    if ((data ?? []).length < pageSize) break
+  }
+  return rows
+}
+
+const fmt = (x: number | null, digits = 2) => (x === null ? '—' : x.toFixed(digits))
+const signed = (x: number) => `${x >= 0 ? '+' : ''}${x.toFixed(2)}`
+
+function printAgreement(label: string, summary: InstrumentAgreement | null) {
+  if (!summary) return
+  const name = INSTRUMENTS[summary.instrument].name
+  /* eslint-disable no-console */
+  console.log(
+    `${label} ${name}: n=${summary.n} bias=${signed(summary.bias)} MAE=${summary.mae.toFixed(2)} band kappa_w=${fmt(summary.totalKappa)}`
+  )
+  for (const item of summary.items) {
+    console.log(`  item ${item.item} ${item.key.padEnd(22)} kappa_w=${fmt(item.kappa).padStart(5)} diff=${signed(item.meanDifference)}`)
+  }
+  const width = Math.max(...summary.bands.map((b) => b.length)) + 1
+  console.log(`  bands (rows: questionnaire, columns: AI)`)
+  console.log(`  ${''.padEnd(width)}${summary.bands.map((b) => b.slice(0, 8).padStart(9)).join('')}`)
+  summary.bands.forEach((b, i) => {
+    console.log(`  ${b.padEnd(width)}${summary.confusion[i].map((c) => String(c).padStart(9)).join('')}`)
+  })
+  /* eslint-enable no-console */
+}
+
+async function main() {
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  const windowDays = Number(flagValue('window-days') ?? AGREEMENT_WINDOW_DAYS)
+  if (!Number.isFinite(windowDays) || windowDays <= 0) throw new Error('--window-days must be a positive number')
+  const json = process.argv.includes('--json')
+
+  const responses = await fetchResponses(supabase, flagValue('patient'))
+  const patientIds = Array.from(new Set(responses.map((r) => r.patient_id)))
+
+  const byPatient = new Map<string, AgreementPair[]>()
+  for (const patientId of patientIds) {
+    const readings = await fetchReadings(supabase, patientId)
+    const pairs = pairResponsesWithReadings(
+      responses.filter((r) => r.patient_id === patientId),
+      readings,
+      windowDays
+    )
+    if (pairs.length > 0) byPatient.set(patientId, pairs)
+  }
+
+  const allPairs = Array.from(byPatient.values()).flat()
+  const overall = buildAgreementReport(allPairs)
+
+  if (json) {
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify({
+      window_days: windowDays,
+      responses: responses.length,
+      paired: allPairs.length,
+      overall,
+      patients: Object.fromEntries(Array.from(byPatient.entries()).map(([id, pairs]) => [id, buildAgreementReport(pairs)])),
+    }, null, 2))
+    return
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(
+    `${responses.length} questionnaires from ${patientIds.length} patients; ${allPairs.length} paired with AI readings from the ${windowDays} days before.\n`
+  )
+  for (const [patientId, pairs] of Array.from(byPatient.entries())) {
+    const report = buildAgreementReport(pairs)
+    printAgreement(patientId, report.phq9)
+    printAgreement(patientId, report.gad7)
+  }
+  // eslint-disable-next-line no-console
+  console.log('')
+  printAgreement('Overall', overall.phq9)
+  printAgreement('Overall', overall.gad7)
+}
+
+main().catch((e) => {
+  // eslint-disable-next-line no-console
+  console.error('Instrument agreement failed:', e)
+  process.exitCode = 1
+})
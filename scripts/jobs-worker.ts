@@ -0,0 +1,87 @@
+import dotenv from 'dotenv'
+import { createClient } from '@supabase/supabase-js'
+import { closeNeo4jDriver } from '@/lib/neo4j'
+import { requeueDeadJobs } from '@/lib/jobs'
+import { processJobs } from '@/lib/job-worker'
+import type { JobType } from '@/types'
+
+// Prefer Next.js-style env file for local dev, then fall back to .env
+dotenv.config({ path: '.env.local' })
+dotenv.config()
+
+/**
+ * Runs background jobs (extraction, embeddings, Neo4j writes, calibration training),
+ * including the entries of journal imports.
+ *
+ * Usage:
+ *   npm run jobs:work                                   # keep polling until Ctrl-C
+ *   npm run jobs:work -- --once                         # drain due jobs and exit (cron)
+ *   npm run jobs:work -- --requeue-dead                 # retry dead jobs, then work
+ *   npm run jobs:work -- --requeue-dead=graph_ingest    # ... only dead jobs of one type
+ */
+
+const POLL_INTERVAL_MS = 5000
+
+function hasFlag(name: string) {
+  return process.argv.some((a) => a === `--${name}` || a.startsWith(`--${name}=`))
+}
+
+function flagValue(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`))
+  return arg?.slice(name.length + 3)
+}
+
+let stopping = false
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    // Let the job in hand finish; its lease would otherwise hold it for a while
+    stopping = true
+  })
+}
+
+async function main() {
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  if (hasFlag('requeue-dead')) {
+    const type = flagValue('requeue-dead') as JobType | undefined
+    const requeued = await requeueDeadJobs(supabase, { type })
+    // eslint-disable-next-line no-console
+    console.log(`Requeued ${requeued} dead job(s).`)
+  }
+
+  const once = hasFlag('once')
+  let processed = 0
+  let failed = 0
+
+  while (!stopping) {
+    const batch = await processJobs(supabase, { limit: 10 })
+    processed += batch.processed
+    failed += batch.failed
+
+    if (batch.processed + batch.failed > 0) {
+      // eslint-disable-next-line no-console
+      console.log(`Jobs: ${batch.processed} done, ${batch.failed} failed (retried with backoff).`)
+      // Nothing succeeded: what's left is backing off, so stop or wait like an idle poll
+      if (batch.processed > 0) continue
+    }
+    if (once) break
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(`Worker stopped: ${processed} jobs done, ${failed} failed.`)
+}
+
+main()
+  .catch((e) => {
+    // eslint-disable-next-line no-console
+    console.error('Job worker failed:', e)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await closeNeo4jDriver()
+  })
@@ -0,0 +1,335 @@
+/**
+ * Neo4j Backfill & Reconciliation
+ *
+ * Streams every journal entry from Supabase (with its structured log, AI extraction
+ * and self-report) into Neo4j through the same ingest functions the API uses.
+ * Only entries that are missing or stale in the graph are written unless --force is given.
+ *
+ * Usage:
+ *   npm run neo4j:backfill                     # backfill, resuming from the last checkpoint
+ *   npm run neo4j:backfill -- --dry-run        # report only; no graph writes, no embedding calls
+ *   npm run neo4j:backfill -- --reset          # ignore the checkpoint and start from the beginning
+ *   npm run neo4j:backfill -- --patient=<uuid> # limit to one patient
+ *   npm run neo4j:backfill -- --force          # rewrite entries even if they look up to date
+ *   npm run neo4j:backfill -- --prune          # delete graph Entries that no longer exist in Supabase
+ *   npm run neo4j:backfill -- --batch=100 --report=backfill-report.json
+ *
+ * Requires:
+ *   SUPABASE_SERVICE_ROLE_KEY, NEO4J_*, and OPENAI_API_KEY (embeddings; not needed for --dry-run)
+ */
+
+import dotenv from 'dotenv'
+import { createClient } from '@supabase/supabase-js'
+import { promises as fs } from 'fs'
+import { createBatchEmbeddings } from '@/lib/openai'
+import { closeNeo4jDriver } from '@/lib/neo4j'
+import { ensureNeo4jSchema } from '@/lib/neo4jSchema'
+import { moodToValence } from '@/lib/self-reports'
+import {
+  AFFECT_MODEL_VERSION,
+  EXTRACTOR_VERSION,
+  deleteEntryFromNeo4j,
+  upsertAIExtractionToNeo4j,
+  upsertContextToNeo4j,
+  upsertEntryToNeo4j,
+  upsertSelfReportToNeo4j,
+} from '@/lib/graph/neo4jIngest'
+import {
+  fetchGraphEntryIds,
+  fetchGraphEntryStates,
+  reconcileEntry,
+  type EntryReconciliation,
+  type SourceEntryState,
+} from '@/lib/graph/neo4jReconcile'
+import type { AIExtraction, JournalEntry, SelfReport, StructuredLog } from '@/types'
+
+// Prefer Next.js-style env file for local dev, then fall back to .env
+dotenv.config({ path: '.env.local' })
+dotenv.config()
+
+const CHECKPOINT_PATH = '.neo4j-backfill-checkpoint.json'
+
+interface Args {
+  dryRun: boolean
+  reset: boolean
+  force: boolean
+  prune: boolean
+  batchSize: number
+  patientId: string | null
+  reportPath: string | null
+}
+
+interface Checkpoint {
+  patientId: string | null
+  cursor: { createdAt: string; id: string } | null
+  written: number
+  updatedAt: string
+}
+
+function parseArgs(argv: string[]): Args {
+  const get = (name: string) => argv.find((a) => a.startsWith(`--${name}=`))?.split('=')[1] ?? null
+  const batchSize = parseInt(get('batch') ?? '50', 10)
+  return {
+    dryRun: argv.includes('--dry-run'),
+    reset: argv.includes('--reset'),
+    force: argv.includes('--force'),
+    prune: argv.includes('--prune'),
+    batchSize: Number.isFinite(batchSize) && batchSize > 0 ? Math.min(batchSize, 500) : 50,
+    patientId: get('patient'),
+    reportPath: get('report'),
+  }
+}
+
+async function loadCheckpoint(args: Args): Promise<Checkpoint | null> {
+  if (args.reset) return null
+  try {
+    const cp = JSON.parse(await fs.readFile(CHECKPOINT_PATH, 'utf-8')) as Checkpoint
+    // A checkpoint from a run with a different patient filter is not resumable.
+    return cp.patientId === args.patientId ? cp : null
+  } catch {
+    return null
+  }
+}
+
+async function saveCheckpoint(cp: Checkpoint) {
+  await fs.writeFile(CHECKPOINT_PATH, JSON.stringify(cp, null, 2))
+}
+
+function first<T>(rel: T | T[] | null | undefined): T | null {
+  return Array.isArray(rel) ? rel[0] ?? null : rel ?? null
+}
+
+// A row of the journal_entries select in main(); one-to-one relations may come back as arrays
+interface EntryRow extends Pick<JournalEntry, 'id' | 'patient_id' | 'content' | 'source' | 'created_at' | 'updated_at'> {
+  structured_log: StructuredLog | StructuredLog[] | null
+  self_report: Pick<SelfReport, 'mood'> | Pick<SelfReport, 'mood'>[] | null
+  ai_extraction: AIExtraction | AIExtraction[] | null
+}
+
+async function ingestEntry(row: EntryRow, embedding: number[]) {
+  const log = first(row.structured_log)
+  const extraction = first(row.ai_extraction)
+  const selfReport = first(row.self_report)
+
+  await upsertEntryToNeo4j({
+    userId: row.patient_id,
+    entryId: row.id,
+    timestamp: row.created_at,
+    text: row.content,
+    source: row.source ?? 'journal',
+    embedding,
+  })
+
+  if (log) {
+    await upsertContextToNeo4j({
+      entryId: row.id,
+      timestamp: row.created_at,
+      sleep_hours: log.sleep_hours,
+      sleep_quality: log.sleep_quality,
+      medication_taken: log.medication_taken,
+      medication_notes: log.medication_notes,
+      energy_level: log.energy_level,
+    })
+  }
+
+  if (selfReport) {
+    await upsertSelfReportToNeo4j({
+      userId: row.patient_id,
+      entryId: row.id,
+      timestamp: row.created_at,
+      mood: selfReport.mood,
+      valence: moodToValence(selfReport.mood),
+      confidence: 1,
+    })
+  }
+
+  if (extraction) {
+    await upsertAIExtractionToNeo4j({
+      entryId: row.id,
+      timestamp: row.created_at,
+      mood_score: extraction.mood_score,
+      anxiety_score: extraction.anxiety_score,
+      phq9_estimate: extraction.phq9_estimate,
+      gad7_estimate: extraction.gad7_estimate,
+      mood_z_score: extraction.mood_z_score,
+      anxiety_z_score: extraction.anxiety_z_score,
+      mood_pop_z: extraction.mood_pop_z,
+      anxiety_pop_z: extraction.anxiety_pop_z,
+      emotions: extraction.emotions,
+      symptoms: extraction.symptoms,
+      triggers: extraction.triggers,
+      confidence: extraction.confidence,
+      extractorVersion: EXTRACTOR_VERSION,
+      affectModelVersion: AFFECT_MODEL_VERSION,
+    })
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  if (!args.dryRun) await ensureNeo4jSchema()
+
+  const checkpoint = await loadCheckpoint(args)
+  let cursor = checkpoint?.cursor ?? null
+  let written = checkpoint?.written ?? 0
+  const resumed = Boolean(cursor)
+
+  // eslint-disable-next-line no-console
+  console.log(
+    `${args.dryRun ? '[dry-run] ' : ''}Backfilling Neo4j${args.patientId ? ` for patient ${args.patientId}` : ''}` +
+      (resumed ? ` (resuming after ${cursor!.createdAt})` : '')
+  )
+
+  const results: EntryReconciliation[] = []
+  let scanned = 0
+  let failed = 0
+
+  for (;;) {
+    // Keyset pagination on (created_at, id) so the stream is stable while entries are added.
+    let query = supabase
+      .from('journal_entries')
+      .select(`
+        id,
+        patient_id,
+        content,
+        source,
+        created_at,
+        updated_at,
+        structured_log:structured_logs(*),
+        self_report:self_reports(mood),
+        ai_extraction:ai_extractions(*)
+      `)
+      .eq('is_draft', false)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(args.batchSize)
+
+    if (args.patientId) query = query.eq('patient_id', args.patientId)
+    if (cursor) {
+      query = query.or(`created_at.gt.${cursor.createdAt},and(created_at.eq.${cursor.createdAt},id.gt.${cursor.id})`)
+    }
+
+    const { data, error } = await query
+    if (error) throw new Error(`Failed to read journal entries: ${error.message}`)
+    const rows = (data ?? []) as EntryRow[]
+    if (rows.length === 0) break
+
+    scanned += rows.length
+
+    const sources: SourceEntryState[] = rows.map((row) => ({
+      entryId: row.id,
+      patientId: row.patient_id,
+      updatedAt: row.updated_at,
+      hasStructuredLog: Boolean(first(row.structured_log)),
+      hasSelfReport: Boolean(first(row.self_report)),
+      hasExtraction: Boolean(first(row.ai_extraction)),
+    }))
+
+    const graphStates = await fetchGraphEntryStates(sources.map((s) => s.entryId))
+    const batchResults = sources.map((s) => reconcileEntry(s, graphStates.get(s.entryId)))
+    results.push(...batchResults.filter((r) => r.status !== 'ok'))
+
+    const toWrite = rows.filter((_row, i) => args.force || batchResults[i].status !== 'ok')
+
+    if (!args.dryRun && toWrite.length > 0) {
+      const embeddings = await createBatchEmbeddings(toWrite.map((row) => row.content))
+      for (let i = 0; i < toWrite.length; i++) {
+        try {
+          await ingestEntry(toWrite[i], embeddings[i])
+          written++
+        } catch (e) {
+          failed++
+          // eslint-disable-next-line no-console
+          console.error(`  ❌ Entry ${toWrite[i].id} failed:`, e)
+        }
+      }
+    }
+
+    const last = rows[rows.length - 1]
+    cursor = { createdAt: last.created_at, id: last.id }
+
+    if (!args.dryRun) {
+      await saveCheckpoint({ patientId: args.patientId, cursor, written, updatedAt: new Date().toISOString() })
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(`  scanned ${scanned}, written ${written}${failed ? `, failed ${failed}` : ''}`)
+
+    if (rows.length < args.batchSize) break
+  }
+
+  // Entries that exist in the graph but not (or only as drafts) in Supabase.
+  const graphEntries = await fetchGraphEntryIds(args.patientId ?? undefined)
+  const orphans: { entryId: string; userId: string | null }[] = []
+  for (let i = 0; i < graphEntries.length; i += 200) {
+    const chunk = graphEntries.slice(i, i + 200)
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .select('id')
+      .in('id', chunk.map((g) => g.entryId))
+      .eq('is_draft', false)
+    if (error) throw new Error(`Failed to check graph entries against Supabase: ${error.message}`)
+    const present = new Set((data ?? []).map((r) => r.id as string))
+    for (const g of chunk) if (!present.has(g.entryId)) orphans.push(g)
+  }
+
+  if (args.prune && !args.dryRun) {
+    for (const o of orphans) await deleteEntryFromNeo4j(o.userId, o.entryId)
+  }
+
+  const report = {
+    generatedAt: new Date().toISOString(),
+    dryRun: args.dryRun,
+    patientId: args.patientId,
+    resumedFromCheckpoint: resumed,
+    scanned,
+    written,
+    failed,
+    missingInGraph: results.filter((r) => r.status === 'missing_in_graph'),
+    staleInGraph: results.filter((r) => r.status === 'stale'),
+    missingInSupabase: orphans.map((o) => o.entryId),
+    pruned: args.prune && !args.dryRun ? orphans.length : 0,
+  }
+
+  if (args.reportPath) {
+    await fs.writeFile(args.reportPath, JSON.stringify(report, null, 2))
+  }
+
+  // Finished a full pass: the next run starts from the beginning (failed entries show up as missing/stale).
+  if (!args.dryRun) {
+    await fs.rm(CHECKPOINT_PATH, { force: true })
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(
+    [
+      '',
+      'Reconciliation report',
+      `  missing in graph:    ${report.missingInGraph.length}`,
+      `  stale in graph:      ${report.staleInGraph.length}`,
+      `  missing in Supabase: ${report.missingInSupabase.length}${report.pruned ? ` (pruned ${report.pruned})` : ''}`,
+      args.reportPath ? `  full report written to ${args.reportPath}` : '',
+    ]
+      .filter(Boolean)
+      .join('\n')
+  )
+
+  if (failed > 0) process.exitCode = 1
+}
+
+main()
+  .catch((e) => {
+    // eslint-disable-next-line no-console
+    console.error('Neo4j backfill failed:', e)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await closeNeo4jDriver()
+  })
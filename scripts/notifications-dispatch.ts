@@ -0,0 +1,36 @@
+import dotenv from 'dotenv'
+import { createClient } from '@supabase/supabase-js'
+import { processNotificationDeliveries } from '@/lib/notifications/crisisNotifications'
+
+// Prefer Next.js-style env file for local dev, then fall back to .env
+dotenv.config({ path: '.env.local' })
+dotenv.config()
+
+// Sends due crisis alert notifications: retries after failures and sends deferred by quiet hours.
+// Run on a schedule (e.g. every minute from cron).
+async function main() {
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  let processed = 0
+  let failed = 0
+  // Keep pulling batches until a batch has nothing left that succeeds.
+  for (;;) {
+    const batch = await processNotificationDeliveries(supabase, { limit: 50 })
+    processed += batch.processed
+    failed += batch.failed
+    if (batch.processed === 0) break
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(`Notifications dispatched: ${processed} sent, ${failed} failed (will retry with backoff).`)
+}
+
+main().catch((e) => {
+  // eslint-disable-next-line no-console
+  console.error('Notification dispatch failed:', e)
+  process.exitCode = 1
+})
@@ -0,0 +1,36 @@
+import dotenv from 'dotenv'
+import { createClient } from '@supabase/supabase-js'
+import { processQuestionnaireReminders } from '@/lib/questionnaires'
+
+// Prefer Next.js-style env file for local dev, then fall back to .env
+dotenv.config({ path: '.env.local' })
+dotenv.config()
+
+// Reminds patients of therapist-scheduled questionnaires that have come due (in-app,
+// plus email when SMTP is configured). Run on a schedule (e.g. hourly from cron).
+async function main() {
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  let processed = 0
+  let failed = 0
+  // Keep pulling batches until a batch has nothing left that succeeds.
+  for (;;) {
+    const batch = await processQuestionnaireReminders(supabase, { limit: 50 })
+    processed += batch.processed
+    failed += batch.failed
+    if (batch.processed === 0) break
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(`Questionnaire reminders: ${processed} sent, ${failed} failed.`)
+}
+
+main().catch((e) => {
+  // eslint-disable-next-line no-console
+  console.error('Questionnaire reminders failed:', e)
+  process.exitCode = 1
+})
@@ -0,0 +1,59 @@
+import dotenv from 'dotenv'
+import { createClient } from '@supabase/supabase-js'
+import { applyRedactions } from '@/lib/sharing'
+
+// Prefer Next.js-style env file for local dev, then fall back to .env
+dotenv.config({ path: '.env.local' })
+dotenv.config()
+
+// Checks that the patient's share preview (applyRedactions) and the therapist copy the
+// database writes (public.redact_content) agree, especially for passages that overlap
+// or contain one another. Run after changing either side:
+//   npm run redactions:check
+const CASES: { content: string; passages: string[] }[] = [
+  { content: 'I told my sister about the job.', passages: ['sister', 'my sister'] },
+  { content: 'I told my sister about the job.', passages: ['my sister', 'sister'] },
+  { content: 'Dr Smith and Smithers', passages: ['Smith', 'Dr Smith', 'Smithers'] },
+  { content: 'abcde', passages: ['abcd', 'bcde'] },
+  { content: 'abcde', passages: ['bcde', 'abcd'] },
+  { content: 'red, redacted, reddit', passages: ['red', 'act'] },
+  { content: 'Café ☕ with Zoë 👋 at noon', passages: ['Zoë 👋', 'Café ☕ w', 'Zoë'] },
+  { content: 'nothing to hide here', passages: ['absent', 'hide'] },
+]
+
+async function main() {
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  let mismatches = 0
+  for (const c of CASES) {
+    const { data, error } = await supabase.rpc('redact_content', { content: c.content, passages: c.passages })
+    if (error) throw new Error(`redact_content failed: ${error.message}`)
+
+    const preview = applyRedactions(c.content, c.passages)
+    if (data !== preview) {
+      mismatches++
+      // eslint-disable-next-line no-console
+      console.error(`  ${JSON.stringify(c)}\n    database: ${JSON.stringify(data)}\n    preview:  ${JSON.stringify(preview)}`)
+    }
+  }
+
+  if (mismatches > 0) {
+    // eslint-disable-next-line no-console
+    console.error(`Redaction check FAILED (${mismatches} of ${CASES.length} cases differ).`)
+    process.exitCode = 1
+    return
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(`Redaction check passed: ${CASES.length} cases agree.`)
+}
+
+main().catch((e) => {
+  // eslint-disable-next-line no-console
+  console.error('Redaction check failed:', e)
+  process.exitCode = 1
+})
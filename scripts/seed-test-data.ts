@@ -4,9 +4,11 @@
  * This script populates the Supabase database with realistic test data
  * for DEMO patient and therapist accounts so you can showcase the platform.
  * 
- * Each journal entry is run through the REAL OpenAI extraction pipeline
- * (same prompt + model as the app) so mood scores, PHQ-9/GAD-7 estimates,
+ * Each journal entry is run through the REAL extraction pipeline
+ * (same prompt + LLM provider as the app) so mood scores, PHQ-9/GAD-7 estimates,
  * emotions, symptoms, and crisis flags are all genuine AI output.
+ * With LLM_PROVIDER=fake the extractions come from lib/llm/fixtures instead,
+ * so the demo can be seeded offline without an API key.
  * 
  * Usage:
  *   npm run seed:demo          # create/refresh demo data
@@ -14,7 +16,7 @@
  * 
  * Requires:
  *   SUPABASE_SERVICE_ROLE_KEY   — Supabase Dashboard → Settings → API
- *   OPENAI_API_KEY              — for running the extraction pipeline
+ *   OPENAI_API_KEY              — for running the extraction pipeline (LLM_PROVIDER=openai, the default)
  * 
  * Demo Credentials:
  *   Patient  — test.patient@therapyjournal.local  / TestPatient123!
@@ -22,10 +24,10 @@
  */
 
 import { createClient } from '@supabase/supabase-js'
-import OpenAI from 'openai'
 import * as dotenv from 'dotenv'
-import { promises as fs } from 'fs'
-import path from 'path'
+import { runExtraction as runValidatedExtraction } from '@/lib/extraction'
+import { getLLMProviderName } from '@/lib/llm'
+import { THERAPIST_LINK_CONSENT_TEXT } from '@/lib/therapist-links'
 
 dotenv.config({ path: '.env.local' })
 dotenv.config() // fallback to .env
@@ -36,7 +38,6 @@ dotenv.config() // fallback to .env
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
-const openaiApiKey = process.env.OPENAI_API_KEY
 
 if (!supabaseUrl) {
   console.error('❌ Missing NEXT_PUBLIC_SUPABASE_URL. Check your .env.local file.')
@@ -49,7 +50,7 @@ if (!supabaseServiceKey) {
   process.exit(1)
 }
 
-if (!openaiApiKey) {
+if (getLLMProviderName() === 'openai' && !process.env.OPENAI_API_KEY) {
   console.error('❌ Missing OPENAI_API_KEY — this is required to run the AI extraction pipeline.')
   console.error('   Add it to your .env.local file.')
   process.exit(1)
@@ -62,8 +63,6 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey, {
   }
 })
 
-const openai = new OpenAI({ apiKey: openaiApiKey })
-
 // ============================================
 // DEMO USER CREDENTIALS (hard-coded & safe)
 // ============================================
@@ -76,10 +75,6 @@ const DEMO_THERAPIST_EMAIL    = 'test.therapist@therapyjournal.local'
 const DEMO_THERAPIST_PASSWORD = 'TestTherapist123!'
 const DEMO_THERAPIST_NAME     = 'Dr. Sarah Chen'
 
-// Same model + temperature as lib/openai.ts
-const AI_MODEL = 'gpt-4-turbo-preview'
-const EXTRACTION_TEMPERATURE = 0.3
-const EXTRACTION_MAX_TOKENS = 1000
 
 // ============================================
 // NORMALIZATION HELPERS (mirror lib/normalization.ts)
@@ -357,42 +352,15 @@ interface ExtractionResult {
   crisis_detected: boolean
   crisis_severity: string | null
   summary: string
-}
-
-let _promptTemplate: string | null = null
-
-async function loadPromptTemplate(): Promise<string> {
-  if (_promptTemplate) return _promptTemplate
-  const promptPath = path.join(process.cwd(), 'prompts', 'symptom_extraction.txt')
-  _promptTemplate = await fs.readFile(promptPath, 'utf-8')
-  return _promptTemplate
+  validation_errors: string[]
 }
 
 async function runExtraction(content: string): Promise<ExtractionResult | null> {
-  const promptTemplate = await loadPromptTemplate()
-
-  const response = await openai.chat.completions.create({
-    model: AI_MODEL,
-    messages: [
-      { role: 'system', content: promptTemplate },
-      { role: 'user', content },
-    ],
-    max_tokens: EXTRACTION_MAX_TOKENS,
-    temperature: EXTRACTION_TEMPERATURE,
-  })
+  // Same prompt, provider, schema validation and repair as /api/ai/extract
+  const { extraction: parsed, validation_errors } = await runValidatedExtraction(content)
 
-  const raw = response.choices[0]?.message?.content ?? ''
-
-  // Parse the JSON response (strip markdown fences if present)
-  let parsed: any
-  try {
-    const cleaned = raw
-      .replace(/```json\n?/g, '')
-      .replace(/```\n?/g, '')
-      .trim()
-    parsed = JSON.parse(cleaned)
-  } catch {
-    console.error('    ⚠️  Failed to parse AI response, skipping extraction')
+  if (!parsed || parsed.mood_score === null || parsed.anxiety_score === null) {
+    console.error('    ⚠️  AI response failed validation, skipping extraction:', validation_errors)
     return null
   }
 
@@ -403,8 +371,8 @@ async function runExtraction(content: string): Promise<ExtractionResult | null>
     return Math.min(3, Math.max(0, Math.round(n)))
   }
 
-  const phq9 = parsed.phq9_indicators ?? {}
-  const gad7 = parsed.gad7_indicators ?? {}
+  const phq9 = parsed.phq9_indicators
+  const gad7 = parsed.gad7_indicators
 
   const phq9_estimate =
     clampItem(phq9.anhedonia) +
@@ -432,17 +400,18 @@ async function runExtraction(content: string): Promise<ExtractionResult | null>
   return {
     mood_score: parsed.mood_score,
     anxiety_score: parsed.anxiety_score,
-    phq9_indicators: parsed.phq9_indicators ?? null,
-    gad7_indicators: parsed.gad7_indicators ?? null,
+    phq9_indicators: { ...phq9 },
+    gad7_indicators: { ...gad7 },
     phq9_estimate,
     gad7_estimate,
-    emotions: parsed.emotions ?? [],
-    symptoms: parsed.symptoms ?? [],
-    triggers: parsed.triggers ?? [],
+    emotions: parsed.emotions,
+    symptoms: parsed.symptoms,
+    triggers: parsed.triggers,
     confidence: parsed.confidence ?? 0.8,
     crisis_detected,
     crisis_severity: parsed.crisis_severity ?? (crisis_detected ? 'medium' : null),
-    summary: parsed.summary ?? '',
+    summary: parsed.summary,
+    validation_errors,
   }
 }
 
@@ -525,9 +494,17 @@ async function ensureTherapistLink(patientId: string, therapistId: string) {
 
   if (error) {
     console.error(`  ❌ Failed to link therapist → patient: ${error.message}`)
-  } else {
-    console.log('  ✅ Linked therapist → patient')
+    return
   }
+
+  // Same consent record an accepted invite would leave
+  await supabase.from('patient_therapist_consents').insert({
+    patient_id: patientId,
+    therapist_id: therapistId,
+    action: 'granted',
+    consent_text: THERAPIST_LINK_CONSENT_TEXT,
+  })
+  console.log('  ✅ Linked therapist → patient')
 }
 
 // ============================================
@@ -550,6 +527,7 @@ async function clearExistingData(patientId: string) {
     await supabase.from('entry_embeddings').delete().in('entry_id', entryIds)
     await supabase.from('ai_extractions').delete().in('entry_id', entryIds)
     await supabase.from('structured_logs').delete().in('entry_id', entryIds)
+    await supabase.from('self_reports').delete().in('entry_id', entryIds)
   }
 
   await supabase.from('journal_entries').delete().eq('patient_id', patientId)
@@ -577,7 +555,7 @@ async function seedJournalEntries(patientId: string) {
         patient_id: patientId,
         content: entry.content,
         is_draft: false,
-        shared_with_therapist: true,
+        share_scopes: ['summary', 'scores', 'full_text'],
         created_at: createdAt.toISOString(),
         updated_at: createdAt.toISOString(),
       })
@@ -632,7 +610,7 @@ async function seedAIExtractions(
   patientId: string,
   entries: { id: string; data: EntryData; createdAt: Date }[],
 ) {
-  console.log('🤖 Running AI extraction pipeline (calling OpenAI for each entry)…')
+  console.log(`🤖 Running AI extraction pipeline (calling ${getLLMProviderName()} provider for each entry)…`)
   console.log(`   This will make ${entries.length} API calls — may take 1-2 minutes.\n`)
 
   // Process oldest-first so baselines build correctly
@@ -651,12 +629,12 @@ async function seedAIExtractions(
     const entry = chronological[i]
     const entryLabel = `[${i + 1}/${chronological.length}] day -${entry.data.daysAgo}`
 
-    process.stdout.write(`   ${entryLabel}: calling OpenAI… `)
+    process.stdout.write(`   ${entryLabel}: calling ${getLLMProviderName()}… `)
 
     const extraction = await runExtraction(entry.data.content)
 
     if (!extraction) {
-      console.log('SKIPPED (parse error)')
+      console.log('SKIPPED (invalid extraction)')
       continue
     }
 
@@ -730,6 +708,7 @@ async function seedAIExtractions(
         confidence: extraction.confidence,
         crisis_detected: extraction.crisis_detected,
         summary: extraction.summary,
+        validation_errors: extraction.validation_errors,
       })
 
     if (insertError) {
@@ -899,7 +878,7 @@ async function main() {
   console.log('✅ Demo data seeded successfully!')
   console.log(`   📝 ${entries.length} journal entries`)
   console.log(`   📊 ${entries.length} structured logs`)
-  console.log(`   🤖 ${extractionCount} AI extractions (real OpenAI pipeline)`)
+  console.log(`   🤖 ${extractionCount} AI extractions (real ${getLLMProviderName()} pipeline)`)
   console.log(`   🚨 ${crisisCount} crisis alerts (AI-detected)`)
   console.log(`   💬 6 chat messages`)
 
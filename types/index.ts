@@ -1,3 +1,5 @@
+import type { QuestionnaireInstrument } from '@/lib/instruments'
+
 // User & Auth Types
 export type UserRole = 'patient' | 'therapist'
 
@@ -14,17 +16,49 @@ export interface PatientTherapist {
   created_at: string
 }
 
+export interface TherapistInvite {
+  id: string
+  therapist_id: string
+  code: string
+  expires_at: string
+  accepted_by: string | null
+  accepted_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+export interface PatientTherapistConsent {
+  id: string
+  patient_id: string
+  therapist_id: string
+  invite_id: string | null
+  action: 'granted' | 'revoked'
+  consent_text: string | null
+  created_at: string
+}
+
 // Journal Types
+// What a linked therapist may see of an entry (see the shared_entries view)
+export type ShareScope = 'summary' | 'scores' | 'full_text'
+
 export interface JournalEntry {
   id: string
   patient_id: string
   content: string
   is_draft: boolean
-  shared_with_therapist: boolean
+  share_scopes: ShareScope[]
+  share_redactions: string[] // passages masked in shared_content
+  shared_content: string | null
+  shared_at: string | null
+  shared_with_therapist: boolean // derived: share_scopes is non-empty
+  source: 'journal' | 'checkin' | 'import'
+  import_id: string | null
+  content_edited_at: string | null // last change to content; earlier wording is in entry_revisions
   created_at: string
   updated_at: string
   // Joined data
   structured_log?: StructuredLog
+  self_report?: SelfReport
   ai_extraction?: AIExtraction
 }
 
@@ -39,6 +73,85 @@ export interface StructuredLog {
   created_at: string
 }
 
+export interface SelfReport {
+  id: string
+  entry_id: string
+  patient_id: string
+  mood: number // 1-10
+  created_at: string
+  updated_at: string
+}
+
+// Earlier wording of an entry, saved by the database whenever content changes
+export interface EntryRevision {
+  id: string
+  entry_id: string
+  patient_id: string
+  content: string
+  created_at: string // when this wording was first saved
+  replaced_at: string
+}
+
+export interface SharingPreferences {
+  patient_id: string
+  default_scopes: ShareScope[] // applied to new entries; empty = private
+  updated_at: string
+}
+
+// Journal Import Types
+export type JournalImportFormat = 'day_one' | 'markdown' | 'csv'
+
+export interface JournalImport {
+  id: string
+  patient_id: string
+  format: JournalImportFormat
+  file_names: string[]
+  status: 'processing' | 'completed' | 'failed'
+  parsed_count: number
+  imported_count: number
+  duplicate_count: number
+  skipped_count: number
+  problems: string[]
+  completed_at: string | null
+  created_at: string
+}
+
+// Row of the shared_entries view: columns outside the entry's scopes are null
+export interface SharedEntry {
+  id: string
+  patient_id: string
+  created_at: string
+  updated_at: string
+  shared_at: string | null
+  content_edited_at: string | null
+  share_scopes: ShareScope[]
+  content: string | null
+  has_redactions: boolean
+  summary: string | null
+  emotions: string[] | null
+  symptoms: string[] | null
+  triggers: string[] | null
+  mood_score: number | null
+  anxiety_score: number | null
+  phq9_indicators: PHQ9Indicators | null
+  gad7_indicators: GAD7Indicators | null
+  phq9_estimate: number | null
+  gad7_estimate: number | null
+  mood_z_score: number | null
+  anxiety_z_score: number | null
+  mood_pop_z: number | null
+  anxiety_pop_z: number | null
+  confidence: number | null
+  validation_errors: string[] | null
+  sleep_hours: number | null
+  sleep_quality: number | null
+  energy_level: number | null
+  medication_taken: boolean | null
+  medication_notes: string | null
+  crisis_detected: boolean
+  has_extraction: boolean
+}
+
 // AI Types
 export interface PHQ9Indicators {
   anhedonia: number
@@ -81,6 +194,24 @@ export interface AIExtraction {
   confidence: number // 0-1
   crisis_detected: boolean
   summary: string
+  validation_errors: string[] // schema violations the extractor could not repair
+  version_id: string | null // the ai_extraction_versions row this was stored from
+  counted_in_baselines: boolean
+  created_at: string
+}
+
+// One stored extractor run, keyed by (entry, extractor version, content hash)
+export interface AIExtractionVersion {
+  id: string
+  entry_id: string
+  extractor_version: string
+  content_hash: string // sha256 of the entry text
+  extraction: Omit<AIExtractionResponse, 'mood_score' | 'anxiety_score' | 'confidence'> & {
+    mood_score: number | null
+    anxiety_score: number | null
+    confidence: number | null
+  }
+  validation_errors: string[]
   created_at: string
 }
 
@@ -92,6 +223,60 @@ export interface EntryEmbedding {
   created_at: string
 }
 
+// Background Job Types
+export type JobType = 'extract_entry' | 'embed_entry' | 'graph_ingest' | 'graph_delete' | 'train_calibration'
+export type JobStatus = 'pending' | 'processing' | 'done' | 'dead' // dead = out of retries
+
+export interface Job {
+  id: string
+  type: JobType
+  patient_id: string
+  entry_id: string | null
+  payload: Record<string, unknown>
+  result: unknown
+  status: JobStatus
+  attempts: number
+  max_attempts: number
+  last_error: string | null
+  next_attempt_at: string
+  completed_at: string | null
+  created_at: string
+}
+
+// Questionnaire Types
+// Instrument ids are the keys of the registry in lib/instruments.ts
+export type { QuestionnaireInstrument }
+
+// Set by the patient's therapist; one per patient and instrument
+export interface QuestionnaireSchedule {
+  id: string
+  patient_id: string
+  instrument: QuestionnaireInstrument
+  interval_days: number
+  next_due_at: string
+  reminded_at: string | null // last reminder for the current due date
+  set_by: string | null
+  active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface QuestionnaireResponse {
+  id: string
+  patient_id: string
+  instrument: QuestionnaireInstrument
+  total_score: number
+  severity: string // band key from the instrument registry
+  difficulty: number | null // PHQ-9 functional difficulty item (0-3, not scored)
+  created_at: string
+}
+
+export interface QuestionnaireItemResponse {
+  response_id: string
+  item_number: number // 1-based, in questionnaire order
+  score: number // 0-3
+}
+
 // Chat Types
 export interface ChatMessage {
   id: string
@@ -104,22 +289,218 @@ export interface ChatMessage {
 // Alert Types
 export type CrisisSeverity = 'low' | 'medium' | 'high'
 
+export type CrisisDetectionSource = 'classifier' | 'lexicon' | 'fail_safe' | 'extraction' | 'questionnaire'
+
+export type CrisisAlertStatus = 'open' | 'acknowledged' | 'escalated' | 'resolved'
+
+export type CrisisDisposition =
+  | 'contacted_patient'
+  | 'safety_plan_reviewed'
+  | 'referred_emergency'
+  | 'no_risk_identified'
+  | 'false_positive'
+
 export interface CrisisAlert {
   id: string
   patient_id: string
-  entry_id: string
+  entry_id: string | null
+  chat_message_id: string | null
   severity: CrisisSeverity
+  detection_source: CrisisDetectionSource
+  rationale: string | null
+  matched_phrases: string[]
   therapist_notified: boolean
+  status: CrisisAlertStatus
+  acknowledged_at: string | null
+  acknowledged_by: string | null
+  escalated_at: string | null
+  escalated_by: string | null
+  escalation_reason: string | null
   resolved: boolean
+  resolved_at: string | null
+  resolved_by: string | null
+  disposition: CrisisDisposition | null
+  created_at: string
+}
+
+export type CrisisAlertAction = 'acknowledge' | 'note' | 'escalate' | 'resolve'
+
+export interface CrisisAlertEvent {
+  id: string
+  alert_id: string
+  actor_id: string | null
+  action: 'created' | 'severity_raised' | 'acknowledged' | 'note' | 'escalated' | 'resolved'
+  note: string | null
   created_at: string
 }
 
-// Access Logging (HIPAA)
-export interface AccessLog {
+export interface CrisisAlertActionRequest {
+  action: CrisisAlertAction
+  note?: string
+  reason?: string // required for escalate
+  disposition?: CrisisDisposition // required for resolve
+}
+
+// Notification Types
+export type NotificationChannel = 'email' | 'webhook' | 'in_app'
+
+export interface NotificationPreferences {
+  therapist_id: string
+  email_enabled: boolean
+  email_address: string | null
+  webhook_enabled: boolean
+  webhook_url: string | null
+  webhook_secret: string | null
+  in_app_enabled: boolean
+  min_severity: CrisisSeverity
+  quiet_hours_start: string | null // 'HH:MM' or 'HH:MM:SS' local to `timezone`
+  quiet_hours_end: string | null
+  timezone: string
+  updated_at: string
+}
+
+export interface NotificationDelivery {
   id: string
+  alert_id: string
   therapist_id: string
+  channel: NotificationChannel
+  status: 'pending' | 'sent' | 'failed' | 'skipped' // skipped: alert resolved before a deferred send
+  attempts: number
+  last_error: string | null
+  next_attempt_at: string
+  sent_at: string | null
+  created_at: string
+}
+
+export interface AppNotification {
+  id: string
+  recipient_id: string
+  alert_id: string | null
+  title: string
+  body: string | null
+  link: string | null
+  read_at: string | null
+  created_at: string
+}
+
+// Audit Log (HIPAA)
+export type AccessAction =
+  | 'viewed_patient_list' // name and summary stats on a patient list or dashboard
+  | 'viewed_patient_detail'
+  | 'viewed_entries'
+  | 'viewed_crisis_alert'
+
+export type AuditAction =
+  | AccessAction
+  | 'entry_created'
+  | 'entry_updated'
+  | 'entry_deleted'
+  | 'sharing_defaults_updated'
+  | 'sharing_revoked_all'
+  | 'questionnaire_completed'
+  | 'questionnaire_schedule_updated'
+  | 'invite_created'
+  | 'invite_revoked'
+  | 'therapist_link_accepted'
+  | 'therapist_link_revoked'
+  | 'crisis_alert_raised'
+  | 'crisis_alert_updated'
+  | 'notification_preferences_updated'
+  | 'access_concern_reported'
+  | 'data_export_requested'
+  | 'data_export_downloaded'
+  | 'entries_imported'
+  | 'account_deletion_requested'
+  | 'account_deletion_cancelled'
+  | 'account_erased' // metadata is the DeletionCertificate
+
+export interface AuditLogEntry {
+  id: string
+  seq: number
+  actor_id: string | null // null for system events
+  actor_role: UserRole | 'system'
+  patient_id: string | null
+  action: AuditAction
+  entry_ids: string[]
+  alert_id: string | null
+  metadata: Record<string, unknown>
+  created_at: string
+  prev_hash: string
+  hash: string
+}
+
+export interface AccessConcern {
+  id: string
   patient_id: string
-  action: string
+  audit_log_id: string | null
+  therapist_id: string | null
+  message: string
+  status: 'open' | 'reviewed' | 'closed'
+  created_at: string
+}
+
+// Data Export Types
+export type DataExportStatus = 'pending' | 'processing' | 'ready' | 'failed' | 'expired'
+
+export interface DataExport {
+  id: string
+  patient_id: string
+  status: DataExportStatus
+  format_version: number
+  attempts: number
+  last_error: string | null
+  next_attempt_at: string
+  storage_path: string | null
+  size_bytes: number | null
+  completed_at: string | null
+  expires_at: string | null
+  created_at: string
+}
+
+// Account Deletion Types
+export type AccountDeletionStatus = 'pending' | 'cancelled' | 'processing' | 'completed' | 'failed'
+
+// Counts only: what was erased where, never what it contained
+export interface DeletionCertificate {
+  certificate_version: number
+  request_id: string
+  subject_id: string
+  requested_at: string
+  scheduled_for: string
+  erased_at: string
+  postgres: {
+    journal_entries: number
+    entry_revisions: number
+    structured_logs: number
+    self_reports: number
+    ai_extractions: number
+    ai_extraction_versions: number
+    entry_embeddings: number
+    patient_baselines: number
+    chat_messages: number
+    crisis_alerts: number
+    questionnaire_responses: number
+    data_exports: number
+    therapist_links: number
+  }
+  storage: { export_archives: number }
+  neo4j: { users: number; entries: number; ownedNodes: number; features: number } | 'not_configured'
+  population_stats: { mood: number; anxiety: number } // sample counts after the rebuild
+  retained: string[]
+}
+
+export interface AccountDeletion {
+  id: string
+  user_id: string
+  status: AccountDeletionStatus
+  scheduled_for: string // end of the grace period
+  attempts: number
+  last_error: string | null
+  next_attempt_at: string
+  certificate: Partial<DeletionCertificate> | null // progress while processing, complete once erased
+  audit_log_id: string | null
+  cancelled_at: string | null
+  completed_at: string | null
   created_at: string
 }
 
@@ -127,7 +508,9 @@ export interface AccessLog {
 export interface CreateJournalRequest {
   content: string
   is_draft?: boolean
-  shared_with_therapist?: boolean
+  share_scopes?: ShareScope[] // omitted: the patient's default_scopes
+  share_redactions?: string[]
+  shared_with_therapist?: boolean // shorthand: true = default scopes (or all), false = private
   // User self-report (ground truth label for calibration; optional)
   self_report_mood?: number | null // 1-10
   structured_log?: Omit<StructuredLog, 'id' | 'entry_id' | 'created_at'>
@@ -135,11 +518,28 @@ export interface CreateJournalRequest {
 
 export interface UpdateJournalRequest {
   content?: string
+  restore_revision_id?: string // sets content back to that revision's wording
   is_draft?: boolean
-  shared_with_therapist?: boolean
+  share_scopes?: ShareScope[] // [] stops sharing the entry
+  share_redactions?: string[]
+  shared_with_therapist?: boolean // shorthand: true = default scopes (or all), false = private
+  // null removes an existing self-report
+  self_report_mood?: number | null // 1-10
   structured_log?: Partial<Omit<StructuredLog, 'id' | 'entry_id' | 'created_at'>>
 }
 
+export interface SubmitQuestionnaireRequest {
+  instrument: QuestionnaireInstrument
+  answers: number[] // one score per item, in order (0 to the last response option)
+  difficulty?: number | null // PHQ-9 only
+}
+
+export interface SetQuestionnaireScheduleRequest {
+  patient_id: string
+  instrument: QuestionnaireInstrument
+  interval_days: number | null // null stops the schedule
+}
+
 export interface AIExtractionRequest {
   entry_id: string
   content: string
@@ -162,6 +562,8 @@ export interface AIExtractionResponse {
 export interface GuidedPromptRequest {
   previous_content?: string
   mood_hint?: number
+  // Respond with server-sent events (`delta` tokens, then `done` with a GuidedPromptResponse)
+  stream?: boolean
 }
 
 export interface GuidedPromptResponse {
@@ -171,11 +573,17 @@ export interface GuidedPromptResponse {
 export interface ChatRequest {
   message: string
   context_entry_ids?: string[]
+  // Respond with server-sent events (`delta` tokens, then `done` with a ChatResponse)
+  stream?: boolean
 }
 
 export interface ChatResponse {
   response: string
   referenced_entries?: string[]
+  user_message?: ChatMessage
+  message?: ChatMessage
+  crisis_detected?: boolean
+  crisis_severity?: CrisisSeverity | null
 }
 
 export interface EmbeddingSearchRequest {